@@ -95,6 +95,7 @@ export function App() {
     <>
       <Terminal
         initialPath="/home/guest"
+        sessionKey="default"
         env={{
           USER: 'guest',
           HOSTNAME: 'midrai',
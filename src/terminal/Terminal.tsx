@@ -1,7 +1,9 @@
 import { useEffect, useRef } from 'preact/hooks';
 import { XTerm } from './class';
 import { FakeShell } from './shell';
-import type { ShellOptions, CommandDefinition } from './types';
+import { SessionPersistence } from './session';
+import { createBrowserStorage } from './storage';
+import type { ShellOptions, CommandDefinition, StorageBackend } from './types';
 import 'xterm/css/xterm.css';
 
 export interface TerminalProps {
@@ -23,6 +25,10 @@ export interface TerminalProps {
   onCommand?: (command: string) => void;
   /** 终端初始化完成回调 */
   onReady?: (shell: FakeShell) => void;
+  /** 会话标识，设置后自动保存并恢复文件系统、工作目录、环境变量和命令历史 */
+  sessionKey?: string;
+  /** 会话存储后端（默认使用浏览器存储） */
+  storage?: StorageBackend;
 }
 
 /**
@@ -39,6 +45,8 @@ export function Terminal({
   customCommands = [],
   onCommand,
   onReady,
+  sessionKey,
+  storage,
 }: TerminalProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const shellRef = useRef<FakeShell | null>(null);
@@ -95,10 +103,8 @@ export function Terminal({
       shell.registerCommand(cmd);
     }
 
-    // 打开终端并连接
+    // 打开终端
     terminal.open(containerRef.current);
-    shell.attach(terminal);
-    if (onCommand) shell.setOnCommand(onCommand);
 
     // 调整大小
     const resizeObserver = new ResizeObserver(() => {
@@ -106,11 +112,35 @@ export function Terminal({
     });
     resizeObserver.observe(containerRef.current);
 
-    // 通知就绪
-    onReady?.(shell);
+    let disposed = false;
+    const start = () => {
+      if (disposed) return;
+      shell.attach(terminal);
+      if (onCommand) shell.setOnCommand(onCommand);
+
+      // 通知就绪
+      onReady?.(shell);
+    };
+
+    // 会话持久化：先恢复保存的状态再连接终端，之后每条命令执行完成后自动保存
+    const persistence = sessionKey
+      ? new SessionPersistence(shell, storage ?? createBrowserStorage(), sessionKey)
+      : null;
+    const flush = () => persistence?.flush();
+
+    if (persistence) {
+      shell.setOnCommandComplete(() => persistence.scheduleSave());
+      window.addEventListener('pagehide', flush);
+      persistence.restore().then(start);
+    } else {
+      start();
+    }
 
     // 清理
     return () => {
+      disposed = true;
+      flush();
+      window.removeEventListener('pagehide', flush);
       resizeObserver.disconnect();
       terminal.dispose();
       shellRef.current = null;
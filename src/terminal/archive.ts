@@ -0,0 +1,715 @@
+/**
+ * 归档格式
+ * tar（ustar，可用 gzip 压缩）和 zip 的读写，以及在虚拟文件系统中打包和解包目录树
+ */
+
+import type { ArchiveEntry, ArchiveFormat, FileType, VFSErrorCode, VirtualFileSystem } from './types';
+import { crc32, deflateRaw, gunzip, gzip, inflateRaw, isGzip } from './deflate';
+import { decodeText, encodeText, fromBytes } from './encoding';
+import { parsePermissions } from './permissions';
+
+/** tar 的块大小 */
+const BlockSize = 512;
+
+/** tar 归档的长度按记录大小对齐（GNU tar 的默认值） */
+const RecordSize = 10240;
+
+/** zip 中各结构的签名 */
+const ZipLocalSignature = 0x04034b50;
+const ZipCentralSignature = 0x02014b50;
+const ZipEndSignature = 0x06054b50;
+
+/** zip 通用标志：文件名为 UTF-8 编码 */
+const ZipUtf8Flag = 0x0800;
+
+/** Unix 文件类型位（保存在 zip 的外部属性中） */
+const FileTypeBits: Record<FileType, number> = {
+  file: 0o100000,
+  directory: 0o040000,
+  symlink: 0o120000,
+};
+
+/**
+ * 拼接多段字节
+ */
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * 读取以 NUL 结尾（或占满字段）的字符串
+ */
+function readString(block: Uint8Array, offset: number, length: number): string {
+  let end = offset;
+  while (end < offset + length && block[end] !== 0) end++;
+  return decodeText(block.subarray(offset, end));
+}
+
+/**
+ * 读取 tar 头中的数字（八进制文本，或 GNU 的 base-256 编码）
+ */
+function readNumber(block: Uint8Array, offset: number, length: number): number {
+  if (block[offset] & 0x80) {
+    let value = block[offset] & 0x7f;
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + block[offset + i];
+    }
+    return value;
+  }
+  const text = readString(block, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+/**
+ * 写入字符串（超出字段长度的部分被截断）
+ */
+function writeString(block: Uint8Array, offset: number, length: number, value: string): void {
+  block.set(encodeText(value).subarray(0, length), offset);
+}
+
+/**
+ * 写入八进制数字（以 NUL 结尾）
+ */
+function writeOctal(block: Uint8Array, offset: number, length: number, value: number): void {
+  writeString(block, offset, length - 1, Math.max(0, Math.floor(value)).toString(8).padStart(length - 1, '0'));
+}
+
+/**
+ * 计算 tar 头的校验和（校验和字段按空格计算）
+ */
+function tarChecksum(header: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < BlockSize; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum;
+}
+
+/** tar 头的字段 */
+interface TarHeader {
+  name: string;
+  prefix: string;
+  mode: number;
+  size: number;
+  mtime: Date;
+  typeflag: string;
+  linkName: string;
+  owner: string;
+  group: string;
+}
+
+/**
+ * 生成 ustar 格式的 tar 头
+ */
+function createTarHeader(fields: TarHeader): Uint8Array {
+  const header = new Uint8Array(BlockSize);
+  writeString(header, 0, 100, fields.name);
+  writeOctal(header, 100, 8, fields.mode & 0o7777);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, fields.size);
+  writeOctal(header, 136, 12, fields.mtime.getTime() / 1000);
+  writeString(header, 156, 1, fields.typeflag);
+  writeString(header, 157, 100, fields.linkName);
+  writeString(header, 257, 6, 'ustar');
+  writeString(header, 263, 2, '00');
+  writeString(header, 265, 32, fields.owner);
+  writeString(header, 297, 32, fields.group);
+  writeOctal(header, 329, 8, 0);
+  writeOctal(header, 337, 8, 0);
+  writeString(header, 345, 155, fields.prefix);
+  writeString(header, 148, 8, `${tarChecksum(header).toString(8).padStart(6, '0')}\0 `);
+  return header;
+}
+
+/**
+ * 将数据补齐到块大小
+ */
+function padBlock(data: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(Math.ceil(data.length / BlockSize) * BlockSize);
+  padded.set(data);
+  return padded;
+}
+
+/**
+ * 将长名称拆分为 ustar 的 prefix 和 name 字段，无法拆分时返回 null
+ */
+function splitTarName(name: string): [string, string] | null {
+  if (encodeText(name).length <= 100) {
+    return ['', name];
+  }
+  for (let i = name.indexOf('/'); i > 0; i = name.indexOf('/', i + 1)) {
+    const prefix = name.slice(0, i);
+    const rest = name.slice(i + 1);
+    if (rest && encodeText(prefix).length <= 155 && encodeText(rest).length <= 100) {
+      return [prefix, rest];
+    }
+  }
+  return null;
+}
+
+/**
+ * 生成 GNU 长名称成员（L 为文件名，K 为链接目标）
+ */
+function createLongName(typeflag: string, value: string): Uint8Array[] {
+  const data = encodeText(`${value}\0`);
+  const header = createTarHeader({
+    name: '././@LongLink',
+    prefix: '',
+    mode: 0,
+    size: data.length,
+    mtime: new Date(0),
+    typeflag,
+    linkName: '',
+    owner: 'root',
+    group: 'root',
+  });
+  return [header, padBlock(data)];
+}
+
+/**
+ * 生成 tar 归档
+ */
+export function createTar(entries: ArchiveEntry[]): Uint8Array {
+  const blocks: Uint8Array[] = [];
+
+  for (const entry of entries) {
+    const name = entry.type === 'directory' ? `${entry.name}/` : entry.name;
+    const linkName = (entry.type === 'symlink' ? entry.target : entry.link) ?? '';
+    const hardLink = entry.type === 'file' && entry.link !== undefined;
+    const content = entry.type === 'file' && !hardLink ? entry.content ?? new Uint8Array(0) : new Uint8Array(0);
+
+    let split = splitTarName(name);
+    if (!split) {
+      blocks.push(...createLongName('L', name));
+      split = ['', name.slice(0, 100)];
+    }
+    if (encodeText(linkName).length > 100) {
+      blocks.push(...createLongName('K', linkName));
+    }
+
+    blocks.push(createTarHeader({
+      name: split[1],
+      prefix: split[0],
+      mode: entry.mode,
+      size: content.length,
+      mtime: entry.mtime,
+      typeflag: entry.type === 'directory' ? '5' : entry.type === 'symlink' ? '2' : hardLink ? '1' : '0',
+      linkName,
+      owner: entry.owner ?? 'root',
+      group: entry.group ?? 'root',
+    }));
+    if (content.length > 0) {
+      blocks.push(padBlock(content));
+    }
+  }
+
+  // 结尾为两个全零的块，总长度按记录大小对齐
+  const length = blocks.reduce((sum, block) => sum + block.length, 0) + 2 * BlockSize;
+  blocks.push(new Uint8Array(Math.ceil(length / RecordSize) * RecordSize - length + 2 * BlockSize));
+  return concatBytes(blocks);
+}
+
+/**
+ * 解析 pax 扩展头（每条记录为 "长度 键=值\n"，长度按字节计算）
+ */
+function parsePax(data: Uint8Array): Record<string, string> {
+  const records: Record<string, string> = {};
+  let pos = 0;
+  while (pos < data.length) {
+    let space = pos;
+    while (space < data.length && data[space] !== 0x20) space++;
+    const length = parseInt(decodeText(data.subarray(pos, space)), 10);
+    if (!length || pos + length > data.length) {
+      break;
+    }
+    const record = decodeText(data.subarray(space + 1, pos + length - 1));
+    const equals = record.indexOf('=');
+    if (equals > 0) {
+      records[record.slice(0, equals)] = record.slice(equals + 1);
+    }
+    pos += length;
+  }
+  return records;
+}
+
+/**
+ * 解析 tar 归档（支持 ustar、GNU 长名称和 pax 扩展头），格式无效时抛出异常
+ */
+export function parseTar(bytes: Uint8Array): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let longName: string | null = null;
+  let longLink: string | null = null;
+  let pax: Record<string, string> = {};
+
+  // 不足一个块的非空数据不是 tar 归档
+  if (bytes.length > 0 && bytes.length < BlockSize) {
+    throw new Error('This does not look like a tar archive');
+  }
+  for (let pos = 0; pos + BlockSize <= bytes.length;) {
+    const header = bytes.subarray(pos, pos + BlockSize);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    if (readNumber(header, 148, 8) !== tarChecksum(header)) {
+      throw new Error(entries.length === 0 ? 'This does not look like a tar archive' : 'Skipping to next header');
+    }
+
+    const size = readNumber(header, 124, 12);
+    const dataStart = pos + BlockSize;
+    if (dataStart + size > bytes.length) {
+      throw new Error('Unexpected EOF in archive');
+    }
+    const data = bytes.subarray(dataStart, dataStart + size);
+    pos = dataStart + Math.ceil(size / BlockSize) * BlockSize;
+
+    const typeflag = header[156] === 0 ? '0' : String.fromCharCode(header[156]);
+    if (typeflag === 'L') {
+      longName = readString(data, 0, data.length);
+      continue;
+    }
+    if (typeflag === 'K') {
+      longLink = readString(data, 0, data.length);
+      continue;
+    }
+    if (typeflag === 'x') {
+      pax = parsePax(data);
+      continue;
+    }
+    if (typeflag === 'g') {
+      continue;
+    }
+
+    // 只有 POSIX ustar 格式使用 prefix 字段
+    const ustar = readString(header, 257, 6) === 'ustar' && readString(header, 263, 2) === '00';
+    const prefix = ustar ? readString(header, 345, 155) : '';
+    const shortName = readString(header, 0, 100);
+    const name = pax.path ?? longName ?? (prefix ? `${prefix}/${shortName}` : shortName);
+    const linkName = pax.linkpath ?? longLink ?? readString(header, 157, 100);
+    const mtime = pax.mtime !== undefined ? parseFloat(pax.mtime) : readNumber(header, 136, 12);
+    longName = null;
+    longLink = null;
+    pax = {};
+
+    const entry: ArchiveEntry = {
+      name: name.replace(/\/+$/, ''),
+      type: 'file',
+      mode: readNumber(header, 100, 8) & 0o7777,
+      mtime: new Date(mtime * 1000),
+      owner: readString(header, 265, 32) || undefined,
+      group: readString(header, 297, 32) || undefined,
+    };
+    if (typeflag === '5' || ((typeflag === '0' || typeflag === '7') && name.endsWith('/'))) {
+      entries.push({ ...entry, type: 'directory' });
+    } else if (typeflag === '2') {
+      entries.push({ ...entry, type: 'symlink', target: linkName });
+    } else if (typeflag === '1') {
+      entries.push({ ...entry, link: linkName.replace(/\/+$/, '') });
+    } else if (typeflag === '0' || typeflag === '7') {
+      entries.push({ ...entry, content: data.slice() });
+    }
+    // 设备文件、FIFO 等无法在虚拟文件系统中表示，跳过
+  }
+
+  return entries;
+}
+
+/**
+ * 转换为 DOS 格式的日期和时间（本地时间，精度为 2 秒）
+ */
+function toDosTime(date: Date): [number, number] {
+  const year = Math.min(Math.max(date.getFullYear(), 1980), 2107);
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+  const day = ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return [time, day];
+}
+
+/**
+ * 由 DOS 格式的日期和时间生成日期
+ */
+function fromDosTime(time: number, day: number): Date {
+  return new Date(
+    (day >> 9) + 1980,
+    ((day >> 5) & 0x0f) - 1,
+    day & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2,
+  );
+}
+
+/**
+ * 生成 zip 归档（内容不能被压缩时以存储方式保存）
+ * onEntry 在每个成员写入后调用，参数为压缩后的大小
+ */
+export function createZip(entries: ArchiveEntry[], onEntry?: (entry: ArchiveEntry, compressedSize: number) => void): Uint8Array {
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encodeText(entry.type === 'directory' ? `${entry.name}/` : entry.name);
+    const data = entry.type === 'symlink'
+      ? encodeText(entry.target ?? '')
+      : entry.content ?? new Uint8Array(0);
+    const deflated = data.length > 0 ? deflateRaw(data) : data;
+    const method = deflated.length < data.length ? 8 : 0;
+    const stored = method === 8 ? deflated : data;
+    const crc = crc32(data);
+    const [time, day] = toDosTime(entry.mtime);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, ZipLocalSignature, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, ZipUtf8Flag, true);
+    localView.setUint16(8, method, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, day, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, stored.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    // 外部属性的高 16 位为 Unix 文件类型和权限，低位为 MS-DOS 属性（0x10 表示目录）
+    const external = (((FileTypeBits[entry.type] | (entry.mode & 0o7777)) << 16) >>> 0)
+      | (entry.type === 'directory' ? 0x10 : 0);
+    const header = new Uint8Array(46 + name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, ZipCentralSignature, true);
+    // 由 Unix 创建，版本 2.0
+    view.setUint16(4, (3 << 8) | 20, true);
+    view.setUint16(6, 20, true);
+    view.setUint16(8, ZipUtf8Flag, true);
+    view.setUint16(10, method, true);
+    view.setUint16(12, time, true);
+    view.setUint16(14, day, true);
+    view.setUint32(16, crc, true);
+    view.setUint32(20, stored.length, true);
+    view.setUint32(24, data.length, true);
+    view.setUint16(28, name.length, true);
+    view.setUint32(38, external >>> 0, true);
+    view.setUint32(42, offset, true);
+    header.set(name, 46);
+
+    parts.push(local, stored);
+    central.push(header);
+    offset += local.length + stored.length;
+    onEntry?.(entry, stored.length);
+  }
+
+  const centralSize = central.reduce((sum, header) => sum + header.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, ZipEndSignature, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return concatBytes([...parts, ...central, end]);
+}
+
+/**
+ * 判断数据是否为 zip 格式
+ */
+export function isZip(bytes: Uint8Array): boolean {
+  return bytes.length >= 22 && bytes[0] === 0x50 && bytes[1] === 0x4b
+    && ((bytes[2] === 3 && bytes[3] === 4) || (bytes[2] === 5 && bytes[3] === 6));
+}
+
+/**
+ * 解析 zip 归档（支持存储和 deflate 压缩），格式无效时抛出异常
+ */
+export function parseZip(bytes: Uint8Array): ArchiveEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // 中央目录结尾记录之后可能有最长 65535 字节的注释
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === ZipEndSignature) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('End-of-central-directory signature not found');
+  }
+
+  const count = view.getUint16(end + 10, true);
+  let pos = view.getUint32(end + 16, true);
+  const entries: ArchiveEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (pos + 46 > bytes.length || view.getUint32(pos, true) !== ZipCentralSignature) {
+      throw new Error('bad zipfile offset');
+    }
+    const madeBy = view.getUint16(pos + 4, true);
+    const flags = view.getUint16(pos + 8, true);
+    const method = view.getUint16(pos + 10, true);
+    const time = view.getUint16(pos + 12, true);
+    const day = view.getUint16(pos + 14, true);
+    const crc = view.getUint32(pos + 16, true);
+    const compressedSize = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    const external = view.getUint32(pos + 38, true);
+    const localOffset = view.getUint32(pos + 42, true);
+    const rawName = decodeText(bytes.subarray(pos + 46, pos + 46 + nameLength));
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (flags & 1) {
+      throw new Error(`${rawName}: encrypted entries are not supported`);
+    }
+    if (compressedSize === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error(`${rawName}: zip64 archives are not supported`);
+    }
+    if (localOffset + 30 > bytes.length || view.getUint32(localOffset, true) !== ZipLocalSignature) {
+      throw new Error(`${rawName}: bad local header`);
+    }
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (raw.length !== compressedSize) {
+      throw new Error(`${rawName}: unexpected end of archive`);
+    }
+
+    let data: Uint8Array;
+    if (method === 0) {
+      data = raw.slice();
+    } else if (method === 8) {
+      data = inflateRaw(raw);
+    } else {
+      throw new Error(`${rawName}: unsupported compression method ${method}`);
+    }
+    if (crc32(data) !== crc) {
+      throw new Error(`${rawName}: bad CRC`);
+    }
+
+    // 只有 Unix 创建的归档在外部属性中保存权限
+    const unixMode = madeBy >> 8 === 3 ? external >>> 16 : 0;
+    const fileType = unixMode & 0o170000;
+    const name = rawName.replace(/\/+$/, '');
+    const mtime = fromDosTime(time, day);
+    if (fileType === FileTypeBits.symlink) {
+      entries.push({ name, type: 'symlink', mode: 0o777, mtime, target: decodeText(data) });
+    } else if (fileType === FileTypeBits.directory || rawName.endsWith('/')) {
+      entries.push({ name, type: 'directory', mode: unixMode & 0o7777 || 0o755, mtime });
+    } else {
+      entries.push({ name, type: 'file', mode: unixMode & 0o7777 || 0o644, mtime, content: data });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * 解析归档，自动识别 tar、tar.gz 和 zip 格式，格式无效时抛出异常
+ */
+export function readArchive(bytes: Uint8Array): ArchiveEntry[] {
+  if (isGzip(bytes)) {
+    return parseTar(gunzip(bytes));
+  }
+  if (isZip(bytes)) {
+    return parseZip(bytes);
+  }
+  return parseTar(bytes);
+}
+
+/**
+ * 生成指定格式的归档
+ */
+export function writeArchive(entries: ArchiveEntry[], format: ArchiveFormat): Uint8Array {
+  switch (format) {
+    case 'zip':
+      return createZip(entries);
+    case 'tar.gz':
+      return gzip(createTar(entries));
+    default:
+      return createTar(entries);
+  }
+}
+
+/**
+ * 规范化成员名：去掉开头的 / 和 . 组成部分，包含 .. 时返回 null（防止解包到目标目录之外）
+ */
+export function sanitizeName(name: string): string | null {
+  const parts = name.split('/').filter((part) => part && part !== '.');
+  return parts.includes('..') ? null : parts.join('/');
+}
+
+/** 打包选项 */
+export interface CollectOptions {
+  /** 是否包含目录的内容（默认为 true） */
+  recursive?: boolean;
+  /** 已打包的文件的节点编号和成员名，用于识别硬链接（多次打包时共享） */
+  links?: Map<number, string>;
+  /** 无法读取文件或目录时的回调 */
+  onError?: (path: string, error: VFSErrorCode | null) => void;
+}
+
+/**
+ * 收集目录树中的成员（符号链接不跟随），成员名以 name 开头，name 为空时使用相对路径
+ */
+export function collectEntries(vfs: VirtualFileSystem, path: string, name: string, options: CollectOptions = {}): ArchiveEntry[] {
+  const { recursive = true, links = new Map<number, string>(), onError } = options;
+  const entries: ArchiveEntry[] = [];
+
+  const visit = (current: string, member: string) => {
+    const stat = vfs.lstat(current);
+    if (!stat) {
+      onError?.(current, vfs.lastError);
+      return;
+    }
+    const entry: ArchiveEntry = {
+      name: member,
+      type: stat.type,
+      mode: parsePermissions(stat.permissions),
+      mtime: stat.modifiedAt,
+      owner: stat.owner,
+      group: stat.group,
+    };
+
+    if (stat.type === 'symlink') {
+      entries.push({ ...entry, target: vfs.readlink(current) ?? '' });
+      return;
+    }
+    if (stat.type === 'file') {
+      const content = vfs.readFileBytes(current);
+      if (content === null) {
+        onError?.(current, vfs.lastError);
+        return;
+      }
+      const link = stat.nlink > 1 ? links.get(stat.ino) : undefined;
+      if (stat.nlink > 1 && link === undefined) {
+        links.set(stat.ino, member);
+      }
+      entries.push(link === undefined ? { ...entry, content } : { ...entry, content, link });
+      return;
+    }
+
+    if (member) {
+      entries.push(entry);
+    }
+    if (!recursive) {
+      return;
+    }
+    const children = vfs.ls(current);
+    if (children === null) {
+      onError?.(current, vfs.lastError);
+      return;
+    }
+    for (const child of children) {
+      const childPath = current === '/' ? `/${child.name}` : `${current.replace(/\/+$/, '')}/${child.name}`;
+      visit(childPath, member ? `${member}/${child.name}` : child.name);
+    }
+  };
+
+  visit(path, name);
+  return entries;
+}
+
+/**
+ * 创建成员的各级上级目录，返回错误码，成功时返回 null
+ */
+function ensureParents(vfs: VirtualFileSystem, base: string, name: string): VFSErrorCode | null {
+  let current = base;
+  for (const part of name.split('/').slice(0, -1)) {
+    current = `${current}/${part}`;
+    const stat = vfs.stat(current);
+    if (stat && stat.type !== 'directory') {
+      return 'ENOTDIR';
+    }
+    if (!stat && !vfs.mkdir(current)) {
+      return vfs.lastError;
+    }
+  }
+  return null;
+}
+
+/**
+ * 解包一个成员，返回错误码，成功时返回 null
+ */
+function extractEntry(vfs: VirtualFileSystem, base: string, name: string, entry: ArchiveEntry): VFSErrorCode | null {
+  const failure = () => vfs.lastError ?? 'EINVAL';
+  const path = `${base}/${name}`;
+  const parentError = ensureParents(vfs, base, name);
+  if (parentError) {
+    return parentError;
+  }
+
+  // 已有的文件先删除（与 GNU tar 一致），已有的目录保留
+  const existing = vfs.lstat(path);
+  if (entry.type === 'directory') {
+    if (existing?.type === 'directory') {
+      return null;
+    }
+    return (!existing || vfs.rm(path)) && vfs.mkdir(path) ? null : failure();
+  }
+  if (existing?.type === 'directory') {
+    return 'EISDIR';
+  }
+  if (existing && !vfs.rm(path)) {
+    return failure();
+  }
+
+  if (entry.type === 'symlink') {
+    return vfs.symlink(entry.target ?? '', path) ? null : failure();
+  }
+  if (entry.link !== undefined) {
+    const linkName = sanitizeName(entry.link);
+    if (linkName && vfs.link(`${base}/${linkName}`, path)) {
+      return null;
+    }
+    if (!entry.content) {
+      return failure();
+    }
+  }
+  if (!vfs.writeFile(path, fromBytes(entry.content ?? new Uint8Array(0)))
+    || !vfs.chmod(path, entry.mode) || !vfs.touch(path, entry.mtime)) {
+    return failure();
+  }
+  return null;
+}
+
+/**
+ * 将成员解包到目录中，保留权限和修改时间
+ * 名称包含 .. 的成员被跳过；onEntry 在每个成员处理后调用，error 为 null 表示成功
+ */
+export function extractEntries(
+  vfs: VirtualFileSystem,
+  dir: string,
+  entries: ArchiveEntry[],
+  onEntry?: (entry: ArchiveEntry, error: VFSErrorCode | null) => void
+): boolean {
+  const base = dir.replace(/\/+$/, '');
+  const directories: { path: string; entry: ArchiveEntry }[] = [];
+  let success = true;
+
+  for (const entry of entries) {
+    const name = sanitizeName(entry.name);
+    if (!name) {
+      continue;
+    }
+    const error = extractEntry(vfs, base, name, entry);
+    if (error === null && entry.type === 'directory') {
+      directories.push({ path: `${base}/${name}`, entry });
+    }
+    success &&= error === null;
+    onEntry?.(entry, error);
+  }
+
+  // 最后设置目录的权限和时间，避免只读目录阻止解包其中的文件
+  for (const { path, entry } of directories.reverse()) {
+    vfs.chmod(path, entry.mode);
+    vfs.touch(path, entry.mtime);
+  }
+  return success;
+}
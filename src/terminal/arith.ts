@@ -0,0 +1,343 @@
+/**
+ * 算术展开求值器
+ * 实现 $((...)) 中使用的整数表达式，语义与 bash 保持一致
+ */
+
+/** 算术表达式中的变量访问接口 */
+export interface ArithmeticScope {
+  get(name: string): string | undefined;
+  set(name: string, value: string): void;
+}
+
+type ArithNode =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'unary'; op: string; operand: ArithNode }
+  | { type: 'binary'; op: string; left: ArithNode; right: ArithNode }
+  | { type: 'logical'; op: '&&' | '||'; left: ArithNode; right: ArithNode }
+  | { type: 'ternary'; test: ArithNode; then: ArithNode; else: ArithNode }
+  | { type: 'assign'; op: string; name: string; value: ArithNode }
+  | { type: 'update'; op: '++' | '--'; prefix: boolean; name: string }
+  | { type: 'comma'; left: ArithNode; right: ArithNode };
+
+/** 按长度降序排列的操作符，保证最长匹配 */
+const Operators = [
+  '<<=', '>>=', '**', '++', '--', '<<', '>>', '<=', '>=', '==', '!=', '&&', '||',
+  '+=', '-=', '*=', '/=', '%=', '&=', '^=', '|=',
+  '+', '-', '*', '/', '%', '<', '>', '&', '^', '|', '!', '~', '?', ':', '=', '(', ')', ',',
+];
+
+/** 二元操作符优先级（数值越大优先级越高） */
+const BinaryPrecedence: Record<string, number> = {
+  '|': 1,
+  '^': 2,
+  '&': 3,
+  '==': 4,
+  '!=': 4,
+  '<': 5,
+  '>': 5,
+  '<=': 5,
+  '>=': 5,
+  '<<': 6,
+  '>>': 6,
+  '+': 7,
+  '-': 7,
+  '*': 8,
+  '/': 8,
+  '%': 8,
+  '**': 9,
+};
+
+const AssignOperators = new Set(['=', '+=', '-=', '*=', '/=', '%=', '<<=', '>>=', '&=', '^=', '|=']);
+
+/**
+ * 计算算术表达式
+ */
+export function evaluateArithmetic(expression: string, scope: ArithmeticScope): number {
+  if (!expression.trim()) {
+    return 0;
+  }
+
+  const parser = new ArithmeticParser(expression);
+  const node = parser.parse();
+  return evaluate(node, scope);
+}
+
+/**
+ * 算术表达式解析器（递归下降）
+ */
+class ArithmeticParser {
+  private tokens: string[];
+  private pos = 0;
+
+  constructor(expression: string) {
+    this.tokens = this.lex(expression);
+  }
+
+  parse(): ArithNode {
+    const node = this.parseComma();
+    if (this.pos < this.tokens.length) {
+      throw new Error(`syntax error in expression (error token is "${this.tokens.slice(this.pos).join(' ')}")`);
+    }
+    return node;
+  }
+
+  private lex(expression: string): string[] {
+    const tokens: string[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+      const rest = expression.slice(i);
+      const space = rest.match(/^\s+/);
+      if (space) {
+        i += space[0].length;
+        continue;
+      }
+
+      const word = rest.match(/^(0[xX][0-9a-fA-F]+|[0-9]+|[A-Za-z_][A-Za-z0-9_]*)/);
+      if (word) {
+        tokens.push(word[0]);
+        i += word[0].length;
+        continue;
+      }
+
+      const op = Operators.find((o) => rest.startsWith(o));
+      if (!op) {
+        throw new Error(`syntax error: invalid arithmetic operator (error token is "${rest}")`);
+      }
+      tokens.push(op);
+      i += op.length;
+    }
+
+    return tokens;
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private next(): string {
+    const token = this.tokens[this.pos++];
+    if (token === undefined) {
+      throw new Error('syntax error: operand expected');
+    }
+    return token;
+  }
+
+  private expect(token: string): void {
+    if (this.next() !== token) {
+      throw new Error(`syntax error: \`${token}' expected`);
+    }
+  }
+
+  private parseComma(): ArithNode {
+    let left = this.parseAssignment();
+    while (this.peek() === ',') {
+      this.pos++;
+      left = { type: 'comma', left, right: this.parseAssignment() };
+    }
+    return left;
+  }
+
+  private parseAssignment(): ArithNode {
+    const token = this.peek();
+    const op = this.tokens[this.pos + 1];
+    if (token && /^[A-Za-z_]/.test(token) && op && AssignOperators.has(op)) {
+      this.pos += 2;
+      return { type: 'assign', op, name: token, value: this.parseAssignment() };
+    }
+    return this.parseTernary();
+  }
+
+  private parseTernary(): ArithNode {
+    const test = this.parseLogical(0);
+    if (this.peek() !== '?') {
+      return test;
+    }
+    this.pos++;
+    const then = this.parseAssignment();
+    this.expect(':');
+    return { type: 'ternary', test, then, else: this.parseAssignment() };
+  }
+
+  private parseLogical(level: 0 | 1): ArithNode {
+    const op = level === 0 ? '||' : '&&';
+    let left = level === 0 ? this.parseLogical(1) : this.parseBinary(1);
+    while (this.peek() === op) {
+      this.pos++;
+      const right = level === 0 ? this.parseLogical(1) : this.parseBinary(1);
+      left = { type: 'logical', op, left, right };
+    }
+    return left;
+  }
+
+  private parseBinary(minPrecedence: number): ArithNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const op = this.peek();
+      const precedence = op !== undefined ? BinaryPrecedence[op] : undefined;
+      if (op === undefined || precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+      this.pos++;
+      // ** 为右结合
+      const right = this.parseBinary(op === '**' ? precedence : precedence + 1);
+      left = { type: 'binary', op, left, right };
+    }
+  }
+
+  private parseUnary(): ArithNode {
+    const token = this.peek();
+    if (token === '++' || token === '--') {
+      this.pos++;
+      return { type: 'update', op: token, prefix: true, name: this.expectName() };
+    }
+    if (token === '-' || token === '+' || token === '!' || token === '~') {
+      this.pos++;
+      return { type: 'unary', op: token, operand: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ArithNode {
+    const token = this.next();
+
+    if (token === '(') {
+      const node = this.parseComma();
+      this.expect(')');
+      return node;
+    }
+
+    if (/^[0-9]/.test(token)) {
+      return { type: 'number', value: parseNumber(token) };
+    }
+
+    if (/^[A-Za-z_]/.test(token)) {
+      const op = this.peek();
+      if (op === '++' || op === '--') {
+        this.pos++;
+        return { type: 'update', op, prefix: false, name: token };
+      }
+      return { type: 'variable', name: token };
+    }
+
+    throw new Error(`syntax error: operand expected (error token is "${token}")`);
+  }
+
+  private expectName(): string {
+    const token = this.next();
+    if (!/^[A-Za-z_]/.test(token)) {
+      throw new Error(`syntax error: variable expected (error token is "${token}")`);
+    }
+    return token;
+  }
+}
+
+/**
+ * 解析数字字面量（支持十六进制和以 0 开头的八进制）
+ */
+function parseNumber(text: string): number {
+  if (/^0[xX]/.test(text)) {
+    return parseInt(text.slice(2), 16);
+  }
+  if (text.length > 1 && text.startsWith('0')) {
+    if (/[89]/.test(text)) {
+      throw new Error(`${text}: value too great for base (error token is "${text}")`);
+    }
+    return parseInt(text, 8);
+  }
+  return parseInt(text, 10);
+}
+
+/**
+ * 读取变量的数值，空值或非数字视为 0
+ */
+function readVariable(name: string, scope: ArithmeticScope): number {
+  const value = scope.get(name)?.trim();
+  if (!value) return 0;
+  return /^-?[0-9]+$/.test(value) ? parseInt(value, 10) : 0;
+}
+
+/**
+ * 对表达式树求值
+ */
+function evaluate(node: ArithNode, scope: ArithmeticScope): number {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      return readVariable(node.name, scope);
+    case 'unary': {
+      const value = evaluate(node.operand, scope);
+      if (node.op === '-') return -value;
+      if (node.op === '!') return value === 0 ? 1 : 0;
+      if (node.op === '~') return ~value;
+      return value;
+    }
+    case 'binary':
+      return applyBinary(node.op, evaluate(node.left, scope), evaluate(node.right, scope));
+    case 'logical': {
+      const left = evaluate(node.left, scope) !== 0;
+      if (node.op === '&&' && !left) return 0;
+      if (node.op === '||' && left) return 1;
+      return evaluate(node.right, scope) !== 0 ? 1 : 0;
+    }
+    case 'ternary':
+      return evaluate(node.test, scope) !== 0
+        ? evaluate(node.then, scope)
+        : evaluate(node.else, scope);
+    case 'assign': {
+      const right = evaluate(node.value, scope);
+      const value = node.op === '='
+        ? right
+        : applyBinary(node.op.slice(0, -1), readVariable(node.name, scope), right);
+      scope.set(node.name, String(value));
+      return value;
+    }
+    case 'update': {
+      const old = readVariable(node.name, scope);
+      const value = node.op === '++' ? old + 1 : old - 1;
+      scope.set(node.name, String(value));
+      return node.prefix ? value : old;
+    }
+    case 'comma':
+      evaluate(node.left, scope);
+      return evaluate(node.right, scope);
+  }
+}
+
+/**
+ * 计算二元操作（整数语义）
+ */
+function applyBinary(op: string, left: number, right: number): number {
+  switch (op) {
+    case '+': return left + right;
+    case '-': return left - right;
+    case '*': return left * right;
+    case '/':
+    case '%':
+      if (right === 0) {
+        throw new Error('division by 0');
+      }
+      return op === '/' ? Math.trunc(left / right) : left % right;
+    case '**':
+      if (right < 0) {
+        throw new Error('exponent less than 0');
+      }
+      return left ** right;
+    case '<<': return left << right;
+    case '>>': return left >> right;
+    case '<': return left < right ? 1 : 0;
+    case '>': return left > right ? 1 : 0;
+    case '<=': return left <= right ? 1 : 0;
+    case '>=': return left >= right ? 1 : 0;
+    case '==': return left === right ? 1 : 0;
+    case '!=': return left !== right ? 1 : 0;
+    case '&': return left & right;
+    case '^': return left ^ right;
+    case '|': return left | right;
+    default:
+      throw new Error(`syntax error: invalid arithmetic operator (error token is "${op}")`);
+  }
+}
@@ -0,0 +1,2013 @@
+/**
+ * awk 解释器
+ * 实现 POSIX awk 的常用子集：模式-动作规则、字段、关联数组、用户函数、printf 和常用内置函数
+ * 输入输出都通过虚拟文件系统完成，不支持管道和 system()
+ */
+
+import type { VirtualFileSystem } from './types';
+import { strerror } from './vfs';
+import { translateRegExp } from './regex';
+
+/** 记号（数字的 value 是源码，字符串的 value 是处理转义后的内容） */
+interface Token {
+  type: 'number' | 'string' | 'name' | 'funcname' | 'builtin' | 'keyword' | 'op' | 'newline' | 'eof';
+  value: string;
+  pos: number;
+}
+
+type LValue =
+  | { type: 'var'; name: string }
+  | { type: 'index'; name: string; subscripts: Expr[] }
+  | { type: 'field'; index: Expr };
+
+type Expr =
+  | LValue
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'regex'; source: string }
+  | { type: 'assign'; op: string; target: LValue; value: Expr }
+  | { type: 'ternary'; test: Expr; then: Expr; else: Expr }
+  | { type: 'logical'; op: '&&' | '||'; left: Expr; right: Expr }
+  | { type: 'in'; subscripts: Expr[]; name: string }
+  | { type: 'match'; negate: boolean; left: Expr; right: Expr }
+  | { type: 'binary'; op: string; left: Expr; right: Expr }
+  | { type: 'unary'; op: string; operand: Expr }
+  | { type: 'update'; op: '++' | '--'; prefix: boolean; target: LValue }
+  | { type: 'call'; name: string; args: Expr[] }
+  | { type: 'builtin'; name: string; args: Expr[] }
+  | { type: 'getline'; target: LValue | null; file: Expr | null };
+
+/** print/printf 的输出重定向 */
+interface Redirect {
+  append: boolean;
+  target: Expr;
+}
+
+type Stmt =
+  | { type: 'expr'; expr: Expr }
+  | { type: 'print' | 'printf'; args: Expr[]; redirect: Redirect | null }
+  | { type: 'if'; test: Expr; then: Stmt; else: Stmt | null }
+  | { type: 'while'; test: Expr; body: Stmt }
+  | { type: 'do'; body: Stmt; test: Expr }
+  | { type: 'for'; init: Expr | null; test: Expr | null; update: Expr | null; body: Stmt }
+  | { type: 'forin'; variable: string; array: string; body: Stmt }
+  | { type: 'block'; body: Stmt[] }
+  | { type: 'break' | 'continue' | 'next' | 'nextfile' }
+  | { type: 'exit' | 'return'; value: Expr | null }
+  | { type: 'delete'; name: string; subscripts: Expr[] | null };
+
+/** 模式-动作规则（pattern 为数组时是范围模式，action 为 null 时输出 $0） */
+interface Rule {
+  pattern: Expr | [Expr, Expr] | null;
+  action: Stmt[] | null;
+}
+
+interface AwkFunction {
+  params: string[];
+  /** 在函数体中作为数组使用的参数（调用时未初始化的变量按引用传入数组） */
+  arrayParams: Set<string>;
+  body: Stmt[];
+}
+
+/** 解析后的 awk 程序 */
+export interface AwkProgram {
+  begin: Stmt[][];
+  rules: Rule[];
+  end: Stmt[][];
+  functions: Map<string, AwkFunction>;
+}
+
+/** 运行选项 */
+export interface AwkOptions {
+  vfs: VirtualFileSystem;
+  /** 程序之后的参数：输入文件或 var=value 赋值 */
+  operands: string[];
+  /** -v 指定的 var=value 赋值（在 BEGIN 之前执行） */
+  assignments: string[];
+  stdin: string;
+  environ: Record<string, string>;
+  /** 输出到标准输出 */
+  print(text: string): void;
+  /** 输出到标准错误 */
+  error(text: string): void;
+}
+
+const Keywords = new Set([
+  'BEGIN', 'END', 'function', 'func', 'if', 'else', 'while', 'for', 'do', 'break', 'continue',
+  'next', 'nextfile', 'exit', 'return', 'delete', 'in', 'getline', 'print', 'printf',
+]);
+
+const Builtins = new Set([
+  'length', 'substr', 'index', 'split', 'sub', 'gsub', 'match', 'sprintf', 'sin', 'cos', 'atan2',
+  'exp', 'log', 'sqrt', 'int', 'rand', 'srand', 'tolower', 'toupper', 'close', 'fflush',
+]);
+
+/** 按长度降序排列的操作符，保证最长匹配 */
+const Operators = [
+  '**=', '+=', '-=', '*=', '/=', '%=', '^=', '**', '==', '<=', '>=', '!=', '++', '--', '&&', '||', '>>', '!~',
+  '{', '}', '(', ')', '[', ']', ';', ',', '+', '-', '*', '/', '%', '^', '!', '>', '<', '|', '?', ':', '~', '$', '=',
+];
+
+const AssignOperators = new Set(['=', '+=', '-=', '*=', '/=', '%=', '^=', '**=']);
+
+const ComparisonOperators = new Set(['<', '<=', '==', '!=', '>', '>=']);
+
+/** 字符串和正则表达式中的反斜杠转义 */
+const Escapes: Record<string, string> = {
+  n: '\n', t: '\t', r: '\r', '\\': '\\', '"': '"', '/': '/', a: '\x07', b: '\b', f: '\f', v: '\v',
+};
+
+/**
+ * 处理字符串中的转义序列（包括 \NNN 八进制）
+ */
+function unescape(text: string): string {
+  return text.replace(/\\([0-7]{1,3}|.)/gs, (match, char: string) => {
+    if (/^[0-7]/.test(char)) return String.fromCharCode(parseInt(char, 8));
+    return Escapes[char] ?? match;
+  });
+}
+
+/**
+ * 词法分析器：按需读取记号，正则表达式由解析器根据上下文决定
+ */
+class AwkLexer {
+  readonly source: string;
+  pos = 0;
+
+  constructor(source: string) {
+    this.source = source;
+  }
+
+  next(): Token {
+    // 跳过空白、注释和续行
+    for (;;) {
+      const rest = this.source.slice(this.pos);
+      const skip = rest.match(/^(?:[ \t\r]+|\\\r?\n|#[^\n]*)/);
+      if (!skip) break;
+      this.pos += skip[0].length;
+    }
+
+    const pos = this.pos;
+    const rest = this.source.slice(pos);
+    if (!rest) {
+      return { type: 'eof', value: '', pos };
+    }
+    if (rest[0] === '\n') {
+      this.pos++;
+      return { type: 'newline', value: '', pos };
+    }
+
+    const number = rest.match(/^(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/);
+    if (number) {
+      this.pos += number[0].length;
+      return { type: 'number', value: number[0], pos };
+    }
+
+    const word = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (word) {
+      const value = word[0];
+      this.pos += value.length;
+      if (Keywords.has(value)) return { type: 'keyword', value: value === 'func' ? 'function' : value, pos };
+      if (Builtins.has(value)) return { type: 'builtin', value, pos };
+      // 函数调用的名称和左括号之间不能有空格
+      return { type: this.source[this.pos] === '(' ? 'funcname' : 'name', value, pos };
+    }
+
+    if (rest[0] === '"') {
+      let i = 1;
+      while (i < rest.length && rest[i] !== '"') {
+        if (rest[i] === '\n') break;
+        i += rest[i] === '\\' ? 2 : 1;
+      }
+      if (rest[i] !== '"') {
+        throw new AwkSyntaxError('unterminated string', pos);
+      }
+      this.pos += i + 1;
+      return { type: 'string', value: unescape(rest.slice(1, i).replace(/\\\n/g, '')), pos };
+    }
+
+    const op = Operators.find((o) => rest.startsWith(o));
+    if (!op) {
+      throw new AwkSyntaxError(`invalid char '${rest[0]}' in expression`, pos);
+    }
+    this.pos += op.length;
+    return { type: 'op', value: op, pos };
+  }
+
+  /**
+   * 从 start 处的 / 开始读取正则表达式字面量，返回其源码
+   */
+  readRegex(start: number): string {
+    let i = start + 1;
+    let source = '';
+    let bracket = false;
+    while (i < this.source.length) {
+      const char = this.source[i];
+      if (char === '\n') break;
+      if (char === '\\' && i + 1 < this.source.length) {
+        source += this.source[i + 1] === '/' ? '/' : char + this.source[i + 1];
+        i += 2;
+        continue;
+      }
+      if (char === '/' && !bracket) {
+        this.pos = i + 1;
+        return source;
+      }
+      // 方括号表达式中的 / 不结束正则表达式
+      if (char === '[' && !bracket) {
+        bracket = true;
+        if (this.source[i + 1] === '^') source += this.source[i++];
+        if (this.source[i + 1] === ']') source += this.source[i++];
+      } else if (char === ']') {
+        bracket = false;
+      }
+      source += this.source[i];
+      i++;
+    }
+    throw new AwkSyntaxError('unterminated regexp', start);
+  }
+}
+
+/**
+ * 语法错误（pos 为出错位置，用于显示出错的行）
+ */
+export class AwkSyntaxError extends Error {
+  readonly pos: number;
+
+  constructor(message: string, pos: number) {
+    super(message);
+    this.name = 'AwkSyntaxError';
+    this.pos = pos;
+  }
+}
+
+/**
+ * 递归下降语法分析器
+ */
+class AwkParser {
+  private lexer: AwkLexer;
+  private token: Token;
+  /** 解析 print 的参数时 > 表示重定向（括号内除外） */
+  private inPrint = false;
+  /** 当前函数中作为数组使用的名称 */
+  private arrayNames = new Set<string>();
+  /** 是否在函数体中、循环体中（检查 return、break 和 continue 的位置） */
+  private inFunction = false;
+  private loopDepth = 0;
+
+  constructor(source: string) {
+    this.lexer = new AwkLexer(source);
+    this.token = this.lexer.next();
+  }
+
+  parseProgram(): AwkProgram {
+    const program: AwkProgram = { begin: [], rules: [], end: [], functions: new Map() };
+    this.skipTerminators();
+
+    while (!this.atEnd()) {
+      if (this.isKeyword('BEGIN') || this.isKeyword('END')) {
+        const list = this.token.value === 'BEGIN' ? program.begin : program.end;
+        this.advance();
+        if (!this.isOp('{')) this.fail();
+        list.push(this.parseBlock());
+      } else if (this.isKeyword('function')) {
+        this.parseFunction(program.functions);
+      } else {
+        let pattern: Rule['pattern'] = null;
+        if (!this.isOp('{')) {
+          pattern = this.parseExpression();
+          if (this.isOp(',')) {
+            this.advance();
+            this.skipNewlines();
+            pattern = [pattern, this.parseExpression()];
+          }
+        }
+        const action = this.isOp('{') ? this.parseBlock() : null;
+        program.rules.push({ pattern, action });
+        // 只有模式的规则之后必须换行或分号
+        if (action === null && !this.atEnd() && this.token.type !== 'newline' && !this.isOp(';')) {
+          this.fail();
+        }
+      }
+      this.skipTerminators();
+    }
+
+    return program;
+  }
+
+  private parseFunction(functions: Map<string, AwkFunction>): void {
+    this.advance();
+    const name = this.token;
+    if (name.type !== 'name' && name.type !== 'funcname') this.fail();
+    if (functions.has(name.value)) {
+      throw new AwkSyntaxError(`function \`${name.value}' previously defined`, name.pos);
+    }
+    this.advance();
+    this.expectOp('(');
+    const params: string[] = [];
+    while (!this.isOp(')')) {
+      if (this.token.type !== 'name') this.fail();
+      params.push(this.token.value);
+      this.advance();
+      if (this.isOp(',')) {
+        this.advance();
+        this.skipNewlines();
+      } else if (!this.isOp(')')) {
+        this.fail();
+      }
+    }
+    this.advance();
+    this.skipNewlines();
+
+    this.arrayNames = new Set();
+    this.inFunction = true;
+    const body = this.parseBlock();
+    this.inFunction = false;
+    functions.set(name.value, {
+      params,
+      arrayParams: new Set(params.filter((param) => this.arrayNames.has(param))),
+      body,
+    });
+  }
+
+  private parseBlock(): Stmt[] {
+    this.expectOp('{');
+    const body: Stmt[] = [];
+    for (;;) {
+      this.skipTerminators();
+      if (this.isOp('}')) break;
+      body.push(this.parseStatement());
+    }
+    this.advance();
+    return body;
+  }
+
+  private parseStatement(): Stmt {
+    if (this.isOp('{')) {
+      return { type: 'block', body: this.parseBlock() };
+    }
+    if (this.isOp(';')) {
+      this.advance();
+      return { type: 'block', body: [] };
+    }
+
+    if (this.token.type === 'keyword') {
+      switch (this.token.value) {
+        case 'if': {
+          this.advance();
+          const test = this.parseCondition();
+          const then = this.parseBody();
+          // else 之前可以有分号和换行
+          const saved = this.save();
+          this.skipTerminators();
+          if (this.isKeyword('else')) {
+            this.advance();
+            this.skipNewlines();
+            return { type: 'if', test, then, else: this.parseStatement() };
+          }
+          this.restore(saved);
+          return { type: 'if', test, then, else: null };
+        }
+        case 'while': {
+          this.advance();
+          const test = this.parseCondition();
+          return { type: 'while', test, body: this.parseLoopBody() };
+        }
+        case 'do': {
+          this.advance();
+          this.skipNewlines();
+          const body = this.parseLoopBody();
+          this.skipTerminators();
+          if (!this.isKeyword('while')) this.fail();
+          this.advance();
+          const test = this.parseCondition();
+          this.endSimpleStatement();
+          return { type: 'do', body, test };
+        }
+        case 'for':
+          return this.parseFor();
+      }
+    }
+
+    const statement = this.parseSimpleStatement();
+    this.endSimpleStatement();
+    return statement;
+  }
+
+  private parseSimpleStatement(): Stmt {
+    const token = this.token;
+    if (token.type !== 'keyword') {
+      return { type: 'expr', expr: this.parseExpression() };
+    }
+
+    switch (token.value) {
+      case 'break':
+      case 'continue':
+        if (this.loopDepth === 0) {
+          throw new AwkSyntaxError(`\`${token.value}' is not allowed outside a loop`, token.pos);
+        }
+        this.advance();
+        return { type: token.value };
+      case 'next':
+      case 'nextfile':
+        this.advance();
+        return { type: token.value };
+      case 'return':
+      case 'exit':
+        if (token.value === 'return' && !this.inFunction) {
+          throw new AwkSyntaxError("`return' used outside function context", token.pos);
+        }
+        this.advance();
+        return { type: token.value, value: this.atStatementEnd() ? null : this.parseExpression() };
+      case 'delete': {
+        this.advance();
+        if (this.token.type !== 'name') this.fail();
+        const name = this.token.value;
+        this.arrayNames.add(name);
+        this.advance();
+        if (!this.isOp('[')) {
+          return { type: 'delete', name, subscripts: null };
+        }
+        return { type: 'delete', name, subscripts: this.parseSubscripts() };
+      }
+      case 'print':
+      case 'printf':
+        return this.parsePrint(token.value);
+      case 'getline':
+        return { type: 'expr', expr: this.parseExpression() };
+    }
+    return this.fail();
+  }
+
+  private parsePrint(type: 'print' | 'printf'): Stmt {
+    this.advance();
+    let args: Expr[] = [];
+
+    // print (a, b) > "file"：括号内是参数列表，否则按普通表达式解析
+    if (this.isOp('(')) {
+      const saved = this.save();
+      this.advance();
+      const list = this.parseExpressionList(')');
+      if (this.atStatementEnd() || this.isOp('>') || this.isOp('>>')) {
+        args = list;
+      } else {
+        this.restore(saved);
+      }
+    }
+    if (args.length === 0 && !this.atStatementEnd() && !this.isOp('>') && !this.isOp('>>')) {
+      this.inPrint = true;
+      try {
+        args = [this.parseExpression()];
+        while (this.isOp(',')) {
+          this.advance();
+          this.skipNewlines();
+          args.push(this.parseExpression());
+        }
+      } finally {
+        this.inPrint = false;
+      }
+    }
+    if (type === 'printf' && args.length === 0) {
+      this.fail();
+    }
+
+    let redirect: Redirect | null = null;
+    if (this.isOp('>') || this.isOp('>>')) {
+      const append = this.token.value === '>>';
+      this.advance();
+      redirect = { append, target: this.parseConcatenation() };
+    } else if (this.isOp('|')) {
+      throw new AwkSyntaxError('pipes are not supported', this.token.pos);
+    }
+    return { type, args, redirect };
+  }
+
+  private parseFor(): Stmt {
+    this.advance();
+    this.expectOp('(');
+    let init: Expr | null = null;
+    if (!this.isOp(';')) {
+      init = this.parseExpression();
+      // for (key in array)
+      if (this.isOp(')') && init.type === 'in' && init.subscripts.length === 1 && init.subscripts[0].type === 'var') {
+        this.advance();
+        return { type: 'forin', variable: init.subscripts[0].name, array: init.name, body: this.parseLoopBody() };
+      }
+    }
+    this.expectOp(';');
+    this.skipNewlines();
+    const test = this.isOp(';') ? null : this.parseExpression();
+    this.expectOp(';');
+    this.skipNewlines();
+    const update = this.isOp(')') ? null : this.parseExpression();
+    this.expectOp(')');
+    return { type: 'for', init, test, update, body: this.parseLoopBody() };
+  }
+
+  private parseCondition(): Expr {
+    this.expectOp('(');
+    const test = this.parseExpression();
+    this.expectOp(')');
+    return test;
+  }
+
+  private parseLoopBody(): Stmt {
+    this.loopDepth++;
+    try {
+      return this.parseBody();
+    } finally {
+      this.loopDepth--;
+    }
+  }
+
+  /**
+   * 解析 if、while、for 的语句体（单独的分号表示空语句）
+   */
+  private parseBody(): Stmt {
+    if (this.isOp(';')) {
+      this.advance();
+      return { type: 'block', body: [] };
+    }
+    this.skipNewlines();
+    return this.parseStatement();
+  }
+
+  private parseExpression(): Expr {
+    const left = this.parseTernary();
+    if (this.token.type === 'op' && AssignOperators.has(this.token.value) && isLValue(left)) {
+      const op = this.token.value;
+      this.advance();
+      this.skipNewlines();
+      return { type: 'assign', op, target: left, value: this.parseExpression() };
+    }
+    return left;
+  }
+
+  private parseTernary(): Expr {
+    const test = this.parseOr();
+    if (!this.isOp('?')) {
+      return test;
+    }
+    this.advance();
+    this.skipNewlines();
+    const then = this.parseExpression();
+    this.skipNewlines();
+    this.expectOp(':');
+    this.skipNewlines();
+    return { type: 'ternary', test, then, else: this.parseExpression() };
+  }
+
+  private parseOr(): Expr {
+    let left = this.parseAnd();
+    while (this.isOp('||')) {
+      this.advance();
+      this.skipNewlines();
+      left = { type: 'logical', op: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseIn();
+    while (this.isOp('&&')) {
+      this.advance();
+      this.skipNewlines();
+      left = { type: 'logical', op: '&&', left, right: this.parseIn() };
+    }
+    return left;
+  }
+
+  private parseIn(): Expr {
+    let left = this.parseMatch();
+    while (this.isKeyword('in')) {
+      this.advance();
+      left = { type: 'in', subscripts: [left], name: this.parseArrayName() };
+    }
+    return left;
+  }
+
+  private parseMatch(): Expr {
+    let left = this.parseComparison();
+    while (this.isOp('~') || this.isOp('!~')) {
+      const negate = this.token.value === '!~';
+      this.advance();
+      left = { type: 'match', negate, left, right: this.parseComparison() };
+    }
+    return left;
+  }
+
+  private parseComparison(): Expr {
+    const left = this.parseConcatenation();
+    const op = this.token.value;
+    if (this.token.type === 'op' && ComparisonOperators.has(op) && !(op === '>' && this.inPrint)) {
+      this.advance();
+      return { type: 'binary', op, left, right: this.parseConcatenation() };
+    }
+    return left;
+  }
+
+  private parseConcatenation(): Expr {
+    let left = this.parseAdditive();
+    while (this.startsOperand()) {
+      left = { type: 'binary', op: ' ', left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  private parseAdditive(): Expr {
+    let left = this.parseMultiplicative();
+    while (this.isOp('+') || this.isOp('-')) {
+      const op = this.token.value;
+      this.advance();
+      left = { type: 'binary', op, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Expr {
+    let left = this.parseUnary();
+    while (this.isOp('*') || this.isOp('/') || this.isOp('%')) {
+      const op = this.token.value;
+      this.advance();
+      left = { type: 'binary', op, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expr {
+    if (this.isOp('!') || this.isOp('-') || this.isOp('+')) {
+      const op = this.token.value;
+      this.advance();
+      return { type: 'unary', op, operand: this.parseUnary() };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): Expr {
+    const base = this.parsePostfix();
+    if (this.isOp('^') || this.isOp('**')) {
+      this.advance();
+      // ^ 为右结合，指数可以带符号
+      return { type: 'binary', op: '^', left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private parsePostfix(): Expr {
+    const expr = this.parsePrimary();
+    if (isLValue(expr) && (this.isOp('++') || this.isOp('--'))) {
+      const op = this.token.value as '++' | '--';
+      this.advance();
+      return { type: 'update', op, prefix: false, target: expr };
+    }
+    return expr;
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.token;
+    switch (token.type) {
+      case 'number':
+        this.advance();
+        return { type: 'number', value: Number(token.value) };
+      case 'string':
+        this.advance();
+        return { type: 'string', value: token.value };
+      case 'name': {
+        this.advance();
+        if (this.isOp('[')) {
+          this.arrayNames.add(token.value);
+          return { type: 'index', name: token.value, subscripts: this.parseSubscripts() };
+        }
+        return { type: 'var', name: token.value };
+      }
+      case 'funcname': {
+        this.advance();
+        this.advance();
+        return { type: 'call', name: token.value, args: this.parseExpressionList(')') };
+      }
+      case 'builtin':
+        return this.parseBuiltin(token.value);
+      case 'keyword':
+        if (token.value === 'getline') {
+          return this.parseGetline();
+        }
+        break;
+      case 'op':
+        switch (token.value) {
+          case '/':
+          case '/=': {
+            const source = this.lexer.readRegex(token.pos);
+            this.token = this.lexer.next();
+            return { type: 'regex', source };
+          }
+          case '$': {
+            this.advance();
+            // $i++ 是 ($i)++，$++i 是 $(++i)
+            const index = this.isOp('++') || this.isOp('--') || this.isOp('-') ? this.parseUnaryOperand() : this.parsePrimary();
+            return { type: 'field', index };
+          }
+          case '++':
+          case '--':
+            return this.parseUnaryOperand();
+          case '(': {
+            this.advance();
+            const inPrint = this.inPrint;
+            this.inPrint = false;
+            const list = this.parseExpressionList(')');
+            this.inPrint = inPrint;
+            // (i, j) in array
+            if (list.length > 1) {
+              if (!this.isKeyword('in')) this.fail();
+              this.advance();
+              return { type: 'in', subscripts: list, name: this.parseArrayName() };
+            }
+            if (list.length === 0) this.fail();
+            return list[0];
+          }
+          case '-':
+          case '+':
+          case '!':
+            return this.parseUnary();
+        }
+        break;
+    }
+    return this.fail();
+  }
+
+  /**
+   * 解析前缀 ++/-- 或 $ 之后的负号
+   */
+  private parseUnaryOperand(): Expr {
+    const op = this.token.value;
+    this.advance();
+    const operand = this.parsePrimary();
+    if (op === '-') {
+      return { type: 'unary', op, operand };
+    }
+    if (!isLValue(operand)) this.fail();
+    return { type: 'update', op: op as '++' | '--', prefix: true, target: operand };
+  }
+
+  private parseBuiltin(name: string): Expr {
+    this.advance();
+    // length 可以不带括号
+    if (!this.isOp('(')) {
+      if (name !== 'length') this.fail();
+      return { type: 'builtin', name, args: [] };
+    }
+    this.advance();
+    const args = this.parseExpressionList(')');
+    if (name === 'split' && args[1]?.type === 'var') {
+      this.arrayNames.add(args[1].name);
+    }
+    return { type: 'builtin', name, args };
+  }
+
+  private parseGetline(): Expr {
+    this.advance();
+    let target: LValue | null = null;
+    if (this.isOp('$') || this.token.type === 'name') {
+      const expr = this.parsePrimary();
+      if (!isLValue(expr)) this.fail();
+      target = expr;
+    }
+    let file: Expr | null = null;
+    if (this.isOp('<')) {
+      this.advance();
+      file = this.parsePrimary();
+    }
+    return { type: 'getline', target, file };
+  }
+
+  private parseSubscripts(): Expr[] {
+    this.advance();
+    const subscripts = this.parseExpressionList(']');
+    if (subscripts.length === 0) this.fail();
+    return subscripts;
+  }
+
+  private parseArrayName(): string {
+    if (this.token.type !== 'name') this.fail();
+    const name = this.token.value;
+    this.arrayNames.add(name);
+    this.advance();
+    return name;
+  }
+
+  /**
+   * 解析以逗号分隔的表达式列表，直到 close（左括号已读取）
+   */
+  private parseExpressionList(close: string): Expr[] {
+    const list: Expr[] = [];
+    this.skipNewlines();
+    while (!this.isOp(close)) {
+      list.push(this.parseExpression());
+      this.skipNewlines();
+      if (this.isOp(',')) {
+        this.advance();
+        this.skipNewlines();
+      } else if (!this.isOp(close)) {
+        this.fail();
+      }
+    }
+    this.advance();
+    return list;
+  }
+
+  /**
+   * 当前记号是否可以作为连接运算的右操作数
+   */
+  private startsOperand(): boolean {
+    const { type, value } = this.token;
+    if (type === 'number' || type === 'string' || type === 'name' || type === 'funcname' || type === 'builtin') {
+      return true;
+    }
+    return type === 'op' && (value === '$' || value === '(' || value === '!' || value === '++' || value === '--');
+  }
+
+  private atEnd(): boolean {
+    return this.token.type === 'eof';
+  }
+
+  private atStatementEnd(): boolean {
+    return this.token.type === 'newline' || this.token.type === 'eof' || this.isOp(';') || this.isOp('}');
+  }
+
+  private endSimpleStatement(): void {
+    if (!this.atStatementEnd()) {
+      this.fail();
+    }
+  }
+
+  private skipNewlines(): void {
+    while (this.token.type === 'newline') {
+      this.advance();
+    }
+  }
+
+  private skipTerminators(): void {
+    while (this.token.type === 'newline' || this.isOp(';')) {
+      this.advance();
+    }
+  }
+
+  private isOp(value: string): boolean {
+    return this.token.type === 'op' && this.token.value === value;
+  }
+
+  private isKeyword(value: string): boolean {
+    return this.token.type === 'keyword' && this.token.value === value;
+  }
+
+  private expectOp(value: string): void {
+    if (!this.isOp(value)) this.fail();
+    this.advance();
+  }
+
+  private advance(): void {
+    this.token = this.lexer.next();
+  }
+
+  private save(): { pos: number; token: Token } {
+    return { pos: this.lexer.pos, token: this.token };
+  }
+
+  private restore(state: { pos: number; token: Token }): void {
+    this.lexer.pos = state.pos;
+    this.token = state.token;
+  }
+
+  private fail(): never {
+    const message = this.token.type === 'newline' || this.token.type === 'eof' ? 'unexpected newline or end of string' : 'syntax error';
+    throw new AwkSyntaxError(message, this.token.pos);
+  }
+}
+
+function isLValue(expr: Expr): expr is LValue {
+  return expr.type === 'var' || expr.type === 'index' || expr.type === 'field';
+}
+
+/**
+ * 解析 awk 程序
+ */
+export function parseAwk(source: string): AwkProgram {
+  return new AwkParser(source).parseProgram();
+}
+
+/**
+ * 来自输入的字符串（字段、getline、split 的结果等）
+ * 看起来像数字时按数字比较，否则按字符串比较
+ */
+class StrNum {
+  readonly text: string;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+}
+
+type Value = number | string | StrNum;
+type AwkArray = Map<string, Value>;
+
+/** 未初始化的值：同时是空字符串和 0 */
+const Uninitialized = new StrNum('');
+
+const NumericPattern = /^\s*[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?\s*$/;
+const NumericPrefix = /^\s*[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/;
+
+function toNumber(value: Value): number {
+  if (typeof value === 'number') return value;
+  const match = (typeof value === 'string' ? value : value.text).match(NumericPrefix);
+  return match ? Number(match[0]) : 0;
+}
+
+function isNumeric(value: Value): boolean {
+  return typeof value === 'number' || (value instanceof StrNum && (value === Uninitialized || NumericPattern.test(value.text)));
+}
+
+function toBoolean(value: Value): boolean {
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'string') return value !== '';
+  return isNumeric(value) ? toNumber(value) !== 0 : value.text !== '';
+}
+
+/**
+ * 格式化非有限数值
+ */
+function formatSpecial(value: number): string {
+  return Number.isNaN(value) ? 'nan' : value > 0 ? 'inf' : '-inf';
+}
+
+/**
+ * 按 %g 的规则格式化数值（precision 为有效数字位数）
+ */
+function formatGeneral(value: number, precision: number, alternate: boolean): string {
+  const digits = Math.max(precision, 1);
+  if (value === 0) {
+    return alternate ? (0).toFixed(digits - 1) : '0';
+  }
+  const exponent = Math.floor(Math.log10(Math.abs(Number(value.toPrecision(digits)))));
+  let text = exponent < -4 || exponent >= digits
+    ? formatExponential(value, digits - 1)
+    : value.toFixed(Math.max(digits - 1 - exponent, 0));
+  // 去掉小数部分末尾的 0
+  if (!alternate) {
+    const [mantissa, exponentPart] = text.split('e');
+    text = (mantissa.includes('.') ? mantissa.replace(/\.?0+$/, '') : mantissa) + (exponentPart ? `e${exponentPart}` : '');
+  }
+  return text;
+}
+
+/**
+ * 按 %e 的规则格式化数值（指数至少两位）
+ */
+function formatExponential(value: number, precision: number): string {
+  return value.toExponential(precision).replace(/e([-+])(\d)$/, 'e$10$2');
+}
+
+/**
+ * 实现 printf/sprintf 的格式化
+ */
+function formatString(format: string, args: Value[], toText: (value: Value) => string): string {
+  let index = 0;
+  const nextArg = () => (index < args.length ? args[index++] : Uninitialized);
+
+  return format.replace(/%([-+ #0]*)(\*|\d+)?(?:\.(\*|\d*))?([cdiouxXeEfFgGs%])/g, (_, flags: string, widthSpec?: string, precisionSpec?: string, conversion?: string) => {
+    if (conversion === '%') {
+      return '%';
+    }
+    let width = widthSpec === '*' ? toNumber(nextArg()) : Number(widthSpec ?? 0);
+    let left = flags.includes('-');
+    if (width < 0) {
+      left = true;
+      width = -width;
+    }
+    const precision = precisionSpec === undefined ? null : precisionSpec === '*' ? toNumber(nextArg()) : Number(precisionSpec || 0);
+    const arg = nextArg();
+
+    let body: string;
+    let sign = '';
+    let numeric = true;
+    switch (conversion) {
+      case 'c': {
+        numeric = false;
+        body = isNumeric(arg) && arg !== Uninitialized ? String.fromCodePoint(Math.max(0, Math.trunc(toNumber(arg))) % 0x110000) : [...toText(arg)][0] ?? '';
+        break;
+      }
+      case 's': {
+        numeric = false;
+        body = toText(arg);
+        if (precision !== null) body = [...body].slice(0, precision).join('');
+        break;
+      }
+      case 'd':
+      case 'i': {
+        const number = Math.trunc(toNumber(arg));
+        if (!Number.isFinite(number)) {
+          body = formatSpecial(number);
+          break;
+        }
+        if (number < 0) sign = '-';
+        body = BigInt(Math.abs(number)).toString();
+        if (precision !== null) body = precision === 0 && number === 0 ? '' : body.padStart(precision, '0');
+        break;
+      }
+      case 'o':
+      case 'u':
+      case 'x':
+      case 'X': {
+        const number = BigInt.asUintN(64, BigInt(Math.trunc(toNumber(arg)) || 0));
+        body = number.toString(conversion === 'o' ? 8 : conversion === 'u' ? 10 : 16);
+        if (conversion === 'X') body = body.toUpperCase();
+        if (precision !== null) body = body.padStart(precision, '0');
+        if (flags.includes('#') && number !== 0n) {
+          body = conversion === 'o' ? `0${body}` : conversion === 'u' ? body : `0${conversion}${body}`;
+        }
+        break;
+      }
+      default: {
+        const number = toNumber(arg);
+        if (number < 0 || Object.is(number, -0)) sign = '-';
+        const magnitude = Math.abs(number);
+        const digits = precision ?? 6;
+        if (!Number.isFinite(magnitude)) {
+          body = formatSpecial(magnitude);
+        } else if (conversion === 'f' || conversion === 'F') {
+          body = magnitude.toFixed(Math.min(digits, 100));
+        } else if (conversion === 'e' || conversion === 'E') {
+          body = formatExponential(magnitude, Math.min(digits, 100));
+        } else {
+          body = formatGeneral(magnitude, Math.min(digits, 100), flags.includes('#'));
+        }
+        if (conversion === 'E' || conversion === 'G' || conversion === 'F') body = body.toUpperCase();
+        break;
+      }
+    }
+
+    if (numeric && !sign) {
+      sign = flags.includes('+') ? '+' : flags.includes(' ') ? ' ' : '';
+    }
+    const length = [...body].length + sign.length;
+    if (length >= width) {
+      return sign + body;
+    }
+    const padding = width - length;
+    if (left) {
+      return sign + body + ' '.repeat(padding);
+    }
+    // 0 标志只对数值有效，整数指定精度时忽略
+    if (numeric && flags.includes('0') && !(precision !== null && 'diouxX'.includes(conversion!)) && /\d/.test(body[0])) {
+      return sign + '0'.repeat(padding) + body;
+    }
+    return ' '.repeat(padding) + sign + body;
+  });
+}
+
+class BreakSignal {}
+class ContinueSignal {}
+class NextSignal {}
+class NextFileSignal {}
+class ExitSignal {}
+class ReturnSignal {
+  readonly value: Value;
+
+  constructor(value: Value) {
+    this.value = value;
+  }
+}
+
+const breakSignal = new BreakSignal();
+const continueSignal = new ContinueSignal();
+const nextSignal = new NextSignal();
+const nextFileSignal = new NextFileSignal();
+const exitSignal = new ExitSignal();
+
+/** 函数调用的最大嵌套深度 */
+const MaxCallDepth = 1000;
+
+/** 被引用的左值（复合赋值和自增时只对下标求值一次） */
+interface Reference {
+  get(): Value;
+  set(value: Value): void;
+}
+
+/**
+ * 程序运行时（变量、字段、输入和输出文件）
+ */
+class AwkRuntime {
+  exitCode = 0;
+  private program: AwkProgram;
+  private options: AwkOptions;
+  private globals = new Map<string, Value | AwkArray>();
+  private locals: Map<string, Value | AwkArray> | null = null;
+  private callDepth = 0;
+
+  private record = '';
+  /** 当前记录拆分后的字段（null 表示尚未拆分） */
+  private fields: string[] | null = [];
+
+  /** 主输入：下一个操作数的位置和当前文件未读取的内容 */
+  private operandIndex = 0;
+  private pending: string | null = null;
+  private hasFileOperands: boolean;
+  private stdinUsed = false;
+
+  /** 打开的输出文件及其内容 */
+  private outputs = new Map<string, string>();
+  /** getline < file 打开的文件及其未读取的内容 */
+  private inputs = new Map<string, string>();
+  private regexCache = new Map<string, RegExp>();
+  private rangeActive: boolean[];
+  private seed = 0;
+  private randomState = 0;
+
+  constructor(program: AwkProgram, options: AwkOptions) {
+    this.program = program;
+    this.options = options;
+    this.rangeActive = program.rules.map(() => false);
+    this.hasFileOperands = options.operands.some((operand) => !this.isAssignment(operand));
+
+    const defaults: Record<string, Value> = {
+      FS: ' ', OFS: ' ', ORS: '\n', RS: '\n', NR: 0, FNR: 0, FILENAME: '', SUBSEP: '\x1c',
+      RSTART: 0, RLENGTH: -1, CONVFMT: '%.6g', OFMT: '%.6g',
+    };
+    for (const [name, value] of Object.entries(defaults)) {
+      this.globals.set(name, value);
+    }
+    const environ: AwkArray = new Map();
+    for (const [name, value] of Object.entries(options.environ)) {
+      environ.set(name, new StrNum(value));
+    }
+    this.globals.set('ENVIRON', environ);
+    const argv: AwkArray = new Map([['0', 'awk']]);
+    options.operands.forEach((operand, index) => argv.set(String(index + 1), new StrNum(operand)));
+    this.globals.set('ARGV', argv);
+    this.globals.set('ARGC', options.operands.length + 1);
+    this.srand(0);
+  }
+
+  run(): number {
+    const { begin, rules, end } = this.program;
+    for (const [name, value] of this.options.assignments.map((assignment) => this.splitAssignment(assignment))) {
+      this.assignVariable(name, value);
+    }
+
+    try {
+      for (const block of begin) {
+        this.executeBlock(block);
+      }
+      // 只有 BEGIN 时不读取输入
+      if (rules.length > 0 || end.length > 0) {
+        this.processInput();
+      }
+    } catch (signal) {
+      if (!(signal instanceof ExitSignal)) throw signal;
+    }
+
+    // exit 之后仍然执行 END，END 中的 exit 立即结束
+    try {
+      for (const block of end) {
+        this.executeBlock(block);
+      }
+    } catch (signal) {
+      if (!(signal instanceof ExitSignal)) throw signal;
+    }
+    return this.exitCode;
+  }
+
+  private processInput(): void {
+    for (;;) {
+      const record = this.readRecord();
+      if (record === null) {
+        return;
+      }
+      this.setRecord(record);
+      try {
+        this.program.rules.forEach((rule, index) => {
+          if (this.matchRule(rule, index)) {
+            if (rule.action) {
+              this.executeBlock(rule.action);
+            } else {
+              this.write(this.record + this.getString('ORS'), null);
+            }
+          }
+        });
+      } catch (signal) {
+        if (signal instanceof NextFileSignal) {
+          this.pending = null;
+        } else if (!(signal instanceof NextSignal)) {
+          throw signal;
+        }
+      }
+    }
+  }
+
+  private matchRule(rule: Rule, index: number): boolean {
+    const { pattern } = rule;
+    if (pattern === null) {
+      return true;
+    }
+    if (!Array.isArray(pattern)) {
+      return toBoolean(this.evaluate(pattern));
+    }
+    // 范围模式：开始的记录也可能同时结束范围
+    if (!this.rangeActive[index]) {
+      if (!toBoolean(this.evaluate(pattern[0]))) {
+        return false;
+      }
+      this.rangeActive[index] = true;
+    }
+    if (toBoolean(this.evaluate(pattern[1]))) {
+      this.rangeActive[index] = false;
+    }
+    return true;
+  }
+
+  /**
+   * 从主输入读取下一条记录，依次处理操作数中的文件和赋值
+   */
+  private readRecord(): string | null {
+    for (;;) {
+      if (this.pending !== null) {
+        const taken = this.takeRecord(this.pending);
+        if (taken) {
+          this.pending = taken[1];
+          this.setNumber('NR', toNumber(this.getVariable('NR')) + 1);
+          this.setNumber('FNR', toNumber(this.getVariable('FNR')) + 1);
+          return taken[0];
+        }
+        this.pending = null;
+      }
+      if (!this.openNextInput()) {
+        return null;
+      }
+    }
+  }
+
+  private openNextInput(): boolean {
+    const { operands, vfs } = this.options;
+    while (this.operandIndex < operands.length) {
+      const operand = operands[this.operandIndex++];
+      if (this.isAssignment(operand)) {
+        const [name, value] = this.splitAssignment(operand);
+        this.assignVariable(name, value);
+        continue;
+      }
+      if (operand === '') {
+        continue;
+      }
+      const content = operand === '-' || operand === '/dev/stdin' ? this.readStdin() : vfs.readFile(operand);
+      if (content === null) {
+        const reason = vfs.getNode(operand)?.type === 'directory' ? 'Is a directory' : strerror(vfs.lastError);
+        this.options.error(`awk: cannot open file '${operand}' for reading: ${reason}`);
+        this.exitCode = 2;
+        continue;
+      }
+      this.startInput(operand, content);
+      return true;
+    }
+    if (!this.hasFileOperands && !this.stdinUsed) {
+      this.startInput('', this.readStdin());
+      return true;
+    }
+    return false;
+  }
+
+  private startInput(name: string, content: string): void {
+    this.globals.set('FILENAME', name);
+    this.setNumber('FNR', 0);
+    this.pending = content;
+  }
+
+  private readStdin(): string {
+    const content = this.stdinUsed ? '' : this.options.stdin;
+    this.stdinUsed = true;
+    return content;
+  }
+
+  /**
+   * 按 RS 从文本中取出一条记录，返回记录和剩余的文本
+   * RS 为空时按空行分隔段落，多于一个字符时是正则表达式
+   */
+  private takeRecord(text: string): [string, string] | null {
+    const separator = this.getString('RS');
+    if (separator === '') {
+      const start = text.match(/^\n*/)![0].length;
+      if (start >= text.length) return null;
+      const match = /\n\n+/.exec(text.slice(start));
+      if (!match) return [text.slice(start).replace(/\n$/, ''), ''];
+      return [text.slice(start, start + match.index), text.slice(start + match.index + match[0].length)];
+    }
+    if (text === '') {
+      return null;
+    }
+    if (separator.length === 1) {
+      const index = text.indexOf(separator);
+      return index < 0 ? [text, ''] : [text.slice(0, index), text.slice(index + 1)];
+    }
+    const regex = this.compileRegex(separator);
+    regex.lastIndex = 0;
+    const match = regex.exec(text);
+    if (!match || match[0] === '') return [text, ''];
+    return [text.slice(0, match.index), text.slice(match.index + match[0].length)];
+  }
+
+  private isAssignment(operand: string): boolean {
+    return /^[A-Za-z_][A-Za-z0-9_]*=/.test(operand);
+  }
+
+  private splitAssignment(assignment: string): [string, string] {
+    const index = assignment.indexOf('=');
+    return [assignment.slice(0, index), assignment.slice(index + 1)];
+  }
+
+  /**
+   * 命令行赋值：值中的转义序列会被处理，看起来像数字时按数字比较
+   */
+  private assignVariable(name: string, value: string): void {
+    if (this.globals.get(name) instanceof Map || this.program.functions.has(name)) {
+      throw new Error(`fatal: cannot use \`${name}' as variable name`);
+    }
+    this.setVariable(name, new StrNum(unescape(value)));
+  }
+
+  // ---- 字段 ----
+
+  private setRecord(text: string): void {
+    this.record = text;
+    this.fields = null;
+  }
+
+  private splitRecord(): string[] {
+    if (this.fields === null) {
+      this.fields = this.split(this.record, this.getString('FS'));
+    }
+    return this.fields;
+  }
+
+  /**
+   * 按字段分隔符拆分文本：单个空格表示按空白拆分并忽略首尾空白，
+   * 其他单个字符按字面拆分，更长的是正则表达式
+   */
+  private split(text: string, separator: string | RegExp): string[] {
+    if (separator === ' ') {
+      const trimmed = text.replace(/^[ \t\n]+|[ \t\n]+$/g, '');
+      return trimmed ? trimmed.split(/[ \t\n]+/) : [];
+    }
+    if (text === '') {
+      return [];
+    }
+    if (typeof separator === 'string') {
+      if (separator === '') return [...text];
+      if (separator.length === 1 && separator !== '\\') return text.split(separator);
+      separator = this.compileRegex(separator);
+    }
+    const parts: string[] = [];
+    let last = 0;
+    separator.lastIndex = 0;
+    for (const match of text.matchAll(separator)) {
+      if (match[0] === '') continue;
+      parts.push(text.slice(last, match.index));
+      last = match.index + match[0].length;
+    }
+    parts.push(text.slice(last));
+    return parts;
+  }
+
+  private getField(index: number): Value {
+    if (index < 0) {
+      throw new Error(`fatal: attempt to access field ${index}`);
+    }
+    if (index === 0) {
+      return new StrNum(this.record);
+    }
+    const field = this.splitRecord()[index - 1];
+    return field === undefined ? Uninitialized : new StrNum(field);
+  }
+
+  private setField(index: number, value: Value): void {
+    if (index < 0) {
+      throw new Error(`fatal: attempt to access field ${index}`);
+    }
+    if (index === 0) {
+      this.setRecord(this.toString(value));
+      return;
+    }
+    const fields = this.splitRecord();
+    while (fields.length < index) {
+      fields.push('');
+    }
+    fields[index - 1] = this.toString(value);
+    this.rebuildRecord();
+  }
+
+  private setFieldCount(count: number): void {
+    const fields = this.splitRecord();
+    if (count < fields.length) {
+      fields.length = Math.max(count, 0);
+    }
+    while (fields.length < count) {
+      fields.push('');
+    }
+    this.rebuildRecord();
+  }
+
+  private rebuildRecord(): void {
+    this.record = this.splitRecord().join(this.getString('OFS'));
+  }
+
+  // ---- 变量 ----
+
+  private scopeOf(name: string): Map<string, Value | AwkArray> {
+    return this.locals?.has(name) ? this.locals : this.globals;
+  }
+
+  private getVariable(name: string): Value {
+    if (name === 'NF' && this.scopeOf(name) === this.globals) {
+      return this.splitRecord().length;
+    }
+    const value = this.scopeOf(name).get(name);
+    if (value instanceof Map) {
+      throw new Error(`fatal: attempt to use array \`${name}' in a scalar context`);
+    }
+    return value ?? Uninitialized;
+  }
+
+  private setVariable(name: string, value: Value): void {
+    const scope = this.scopeOf(name);
+    if (scope.get(name) instanceof Map) {
+      throw new Error(`fatal: attempt to use array \`${name}' in a scalar context`);
+    }
+    if (name === 'NF' && scope === this.globals) {
+      this.setFieldCount(Math.trunc(toNumber(value)));
+      return;
+    }
+    scope.set(name, value);
+    // 修改 FS 不影响已读取的记录，先按原来的分隔符拆分
+    if (name === 'FS' && scope === this.globals) {
+      this.splitRecord();
+    }
+  }
+
+  private setNumber(name: string, value: number): void {
+    this.globals.set(name, value);
+  }
+
+  private getString(name: string): string {
+    return this.toString(this.getVariable(name));
+  }
+
+  private getArray(name: string): AwkArray {
+    const scope = this.scopeOf(name);
+    const value = scope.get(name);
+    if (value instanceof Map) {
+      return value;
+    }
+    if (value !== undefined && value !== Uninitialized) {
+      throw new Error(`fatal: attempt to use scalar \`${name}' as an array`);
+    }
+    const array: AwkArray = new Map();
+    scope.set(name, array);
+    return array;
+  }
+
+  private subscript(subscripts: Expr[]): string {
+    return subscripts.map((expr) => this.toString(this.evaluate(expr))).join(this.getString('SUBSEP'));
+  }
+
+  private reference(target: LValue): Reference {
+    switch (target.type) {
+      case 'var':
+        return {
+          get: () => this.getVariable(target.name),
+          set: (value) => this.setVariable(target.name, value),
+        };
+      case 'index': {
+        const array = this.getArray(target.name);
+        const key = this.subscript(target.subscripts);
+        return {
+          get: () => array.get(key) ?? Uninitialized,
+          set: (value) => array.set(key, value),
+        };
+      }
+      case 'field': {
+        const index = Math.trunc(toNumber(this.evaluate(target.index)));
+        return {
+          get: () => this.getField(index),
+          set: (value) => this.setField(index, value),
+        };
+      }
+    }
+  }
+
+  // ---- 值转换 ----
+
+  /**
+   * 转换为字符串：整数直接输出，其他数值按 CONVFMT（输出时按 OFMT）格式化
+   */
+  private toString(value: Value, format = 'CONVFMT'): string {
+    if (typeof value === 'string') return value;
+    if (value instanceof StrNum) return value.text;
+    if (Number.isInteger(value)) return BigInt(value).toString();
+    if (!Number.isFinite(value)) return formatSpecial(value);
+    return formatString(this.getString(format), [value], (text) => this.toString(text));
+  }
+
+  private compare(left: Value, right: Value): number {
+    if (isNumeric(left) && isNumeric(right)) {
+      return toNumber(left) - toNumber(right);
+    }
+    const a = this.toString(left);
+    const b = this.toString(right);
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  private compileRegex(source: string): RegExp {
+    let regex = this.regexCache.get(source);
+    if (!regex) {
+      try {
+        regex = new RegExp(translateRegExp(source, true), 'g');
+      } catch (error) {
+        const message = error instanceof Error ? error.message.replace(/^Invalid regular expression: /, '') : String(error);
+        throw new Error(`fatal: ${message}: /${source}/`);
+      }
+      this.regexCache.set(source, regex);
+    }
+    regex.lastIndex = 0;
+    return regex;
+  }
+
+  /**
+   * 正则表达式字面量直接使用，其他表达式的值作为动态正则表达式
+   */
+  private toRegex(expr: Expr): RegExp {
+    return this.compileRegex(expr.type === 'regex' ? expr.source : this.toString(this.evaluate(expr)));
+  }
+
+  // ---- 语句 ----
+
+  private executeBlock(body: Stmt[]): void {
+    for (const statement of body) {
+      this.execute(statement);
+    }
+  }
+
+  private execute(statement: Stmt): void {
+    switch (statement.type) {
+      case 'expr':
+        this.evaluate(statement.expr);
+        return;
+      case 'print': {
+        const values = statement.args.length > 0
+          ? statement.args.map((arg) => this.toString(this.evaluate(arg), 'OFMT'))
+          : [this.record];
+        this.write(values.join(this.getString('OFS')) + this.getString('ORS'), statement.redirect);
+        return;
+      }
+      case 'printf': {
+        const [format, ...args] = statement.args.map((arg) => this.evaluate(arg));
+        this.write(formatString(this.toString(format), args, (value) => this.toString(value)), statement.redirect);
+        return;
+      }
+      case 'if':
+        if (toBoolean(this.evaluate(statement.test))) {
+          this.execute(statement.then);
+        } else if (statement.else) {
+          this.execute(statement.else);
+        }
+        return;
+      case 'while':
+        while (toBoolean(this.evaluate(statement.test))) {
+          if (this.runLoopBody(statement.body)) break;
+        }
+        return;
+      case 'do':
+        do {
+          if (this.runLoopBody(statement.body)) break;
+        } while (toBoolean(this.evaluate(statement.test)));
+        return;
+      case 'for':
+        if (statement.init) this.evaluate(statement.init);
+        while (!statement.test || toBoolean(this.evaluate(statement.test))) {
+          if (this.runLoopBody(statement.body)) break;
+          if (statement.update) this.evaluate(statement.update);
+        }
+        return;
+      case 'forin': {
+        // 遍历开始时的下标，循环中删除的元素跳过
+        const array = this.getArray(statement.array);
+        for (const key of [...array.keys()]) {
+          if (!array.has(key)) continue;
+          this.setVariable(statement.variable, new StrNum(key));
+          if (this.runLoopBody(statement.body)) break;
+        }
+        return;
+      }
+      case 'block':
+        this.executeBlock(statement.body);
+        return;
+      case 'break':
+        throw breakSignal;
+      case 'continue':
+        throw continueSignal;
+      case 'next':
+        throw nextSignal;
+      case 'nextfile':
+        throw nextFileSignal;
+      case 'exit':
+        if (statement.value) {
+          this.exitCode = Math.trunc(toNumber(this.evaluate(statement.value))) & 0xff;
+        }
+        throw exitSignal;
+      case 'return':
+        throw new ReturnSignal(statement.value ? this.evaluate(statement.value) : Uninitialized);
+      case 'delete': {
+        const array = this.getArray(statement.name);
+        if (statement.subscripts) {
+          array.delete(this.subscript(statement.subscripts));
+        } else {
+          array.clear();
+        }
+        return;
+      }
+    }
+  }
+
+  /**
+   * 执行循环体，遇到 break 时返回 true
+   */
+  private runLoopBody(body: Stmt): boolean {
+    try {
+      this.execute(body);
+    } catch (signal) {
+      if (signal === breakSignal) return true;
+      if (signal !== continueSignal) throw signal;
+    }
+    return false;
+  }
+
+  /**
+   * 输出文本：没有重定向时输出到标准输出，> 第一次写入时清空文件，>> 追加
+   */
+  private write(text: string, redirect: Redirect | null): void {
+    if (!redirect) {
+      this.options.print(text);
+      return;
+    }
+    const path = this.toString(this.evaluate(redirect.target));
+    if (path === '/dev/stdout' || path === '-') {
+      this.options.print(text);
+      return;
+    }
+    if (path === '/dev/stderr') {
+      this.options.error(text.replace(/\n$/, ''));
+      return;
+    }
+
+    const { vfs } = this.options;
+    let content = this.outputs.get(path);
+    if (content === undefined) {
+      content = redirect.append ? vfs.readFile(path) ?? '' : '';
+    }
+    content += text;
+    if (!vfs.writeFile(path, content)) {
+      throw new Error(`fatal: can't redirect to \`${path}' (${strerror(vfs.lastError)})`);
+    }
+    this.outputs.set(path, content);
+  }
+
+  // ---- 表达式 ----
+
+  private evaluate(expr: Expr): Value {
+    switch (expr.type) {
+      case 'number':
+      case 'string':
+        return expr.value;
+      case 'regex':
+        return this.compileRegex(expr.source).test(this.record) ? 1 : 0;
+      case 'var':
+        return this.getVariable(expr.name);
+      case 'index': {
+        // 引用不存在的元素会创建该元素
+        const array = this.getArray(expr.name);
+        const key = this.subscript(expr.subscripts);
+        const value = array.get(key);
+        if (value === undefined) {
+          array.set(key, Uninitialized);
+          return Uninitialized;
+        }
+        return value;
+      }
+      case 'field':
+        return this.getField(Math.trunc(toNumber(this.evaluate(expr.index))));
+      case 'assign': {
+        if (expr.op === '=') {
+          const value = this.evaluate(expr.value);
+          this.reference(expr.target).set(value);
+          return value;
+        }
+        const reference = this.reference(expr.target);
+        const right = toNumber(this.evaluate(expr.value));
+        const value = this.arithmetic(expr.op.slice(0, -1), toNumber(reference.get()), right);
+        reference.set(value);
+        return value;
+      }
+      case 'ternary':
+        return toBoolean(this.evaluate(expr.test)) ? this.evaluate(expr.then) : this.evaluate(expr.else);
+      case 'logical': {
+        const left = toBoolean(this.evaluate(expr.left));
+        if (expr.op === '&&' ? !left : left) return left ? 1 : 0;
+        return toBoolean(this.evaluate(expr.right)) ? 1 : 0;
+      }
+      case 'in':
+        return this.getArray(expr.name).has(this.subscript(expr.subscripts)) ? 1 : 0;
+      case 'match': {
+        const text = this.toString(this.evaluate(expr.left));
+        return this.toRegex(expr.right).test(text) !== expr.negate ? 1 : 0;
+      }
+      case 'binary': {
+        const left = this.evaluate(expr.left);
+        const right = this.evaluate(expr.right);
+        if (expr.op === ' ') {
+          return this.toString(left) + this.toString(right);
+        }
+        if (ComparisonOperators.has(expr.op)) {
+          const result = this.compare(left, right);
+          switch (expr.op) {
+            case '<': return result < 0 ? 1 : 0;
+            case '<=': return result <= 0 ? 1 : 0;
+            case '>': return result > 0 ? 1 : 0;
+            case '>=': return result >= 0 ? 1 : 0;
+            case '==': return result === 0 ? 1 : 0;
+            default: return result !== 0 ? 1 : 0;
+          }
+        }
+        return this.arithmetic(expr.op, toNumber(left), toNumber(right));
+      }
+      case 'unary': {
+        const value = this.evaluate(expr.operand);
+        if (expr.op === '!') return toBoolean(value) ? 0 : 1;
+        return expr.op === '-' ? -toNumber(value) : toNumber(value);
+      }
+      case 'update': {
+        const reference = this.reference(expr.target);
+        const old = toNumber(reference.get());
+        const value = expr.op === '++' ? old + 1 : old - 1;
+        reference.set(value);
+        return expr.prefix ? value : old;
+      }
+      case 'call':
+        return this.callFunction(expr.name, expr.args);
+      case 'builtin':
+        return this.callBuiltin(expr.name, expr.args);
+      case 'getline':
+        return this.getline(expr.target, expr.file);
+    }
+  }
+
+  private arithmetic(op: string, left: number, right: number): number {
+    switch (op) {
+      case '+': return left + right;
+      case '-': return left - right;
+      case '*': return left * right;
+      case '/':
+        if (right === 0) throw new Error('fatal: division by zero attempted');
+        return left / right;
+      case '%':
+        if (right === 0) throw new Error("fatal: division by zero attempted in `%'");
+        return left % right;
+      default:
+        return left ** right;
+    }
+  }
+
+  private callFunction(name: string, args: Expr[]): Value {
+    const fn = this.program.functions.get(name);
+    if (!fn) {
+      throw new Error(`fatal: function \`${name}' not defined`);
+    }
+    if (args.length > fn.params.length) {
+      throw new Error(`fatal: function \`${name}' called with more arguments than declared`);
+    }
+
+    // 数组按引用传递，标量按值传递；未初始化的变量作为数组参数时在调用方创建数组
+    const locals = new Map<string, Value | AwkArray>();
+    fn.params.forEach((param, index) => {
+      const arg = args[index];
+      if (arg === undefined) {
+        locals.set(param, Uninitialized);
+        return;
+      }
+      if (arg.type === 'var') {
+        const scope = this.scopeOf(arg.name);
+        const current = scope.get(arg.name);
+        if (current instanceof Map) {
+          locals.set(param, current);
+          return;
+        }
+        if ((current === undefined || current === Uninitialized) && fn.arrayParams.has(param)) {
+          const array: AwkArray = new Map();
+          scope.set(arg.name, array);
+          locals.set(param, array);
+          return;
+        }
+      }
+      locals.set(param, this.evaluate(arg));
+    });
+
+    if (this.callDepth >= MaxCallDepth) {
+      throw new Error(`fatal: function \`${name}' nested too deeply`);
+    }
+    const saved = this.locals;
+    this.locals = locals;
+    this.callDepth++;
+    try {
+      this.executeBlock(fn.body);
+      return Uninitialized;
+    } catch (signal) {
+      if (signal instanceof ReturnSignal) return signal.value;
+      throw signal;
+    } finally {
+      this.locals = saved;
+      this.callDepth--;
+    }
+  }
+
+  private callBuiltin(name: string, args: Expr[]): Value {
+    const arg = (index: number) => this.evaluate(args[index]);
+    const text = (index: number) => this.toString(arg(index));
+    const number = (index: number) => toNumber(arg(index));
+    const expect = (min: number, max: number) => {
+      if (args.length < min || args.length > max) {
+        throw new Error(`fatal: ${name}: called with ${args.length} arguments`);
+      }
+    };
+
+    switch (name) {
+      case 'length': {
+        expect(0, 1);
+        if (args.length === 0) return [...this.record].length;
+        const target = args[0];
+        if (target.type === 'var' && this.scopeOf(target.name).get(target.name) instanceof Map) {
+          return this.getArray(target.name).size;
+        }
+        return [...text(0)].length;
+      }
+      case 'substr': {
+        expect(2, 3);
+        const chars = [...text(0)];
+        // 起始位置和长度按四舍五入取整，超出字符串的部分截掉
+        let start = Math.round(number(1));
+        let end = args.length > 2 ? start + Math.round(number(2)) : Infinity;
+        if (Number.isNaN(start)) start = 1;
+        if (Number.isNaN(end)) end = start;
+        return chars.slice(Math.max(start, 1) - 1, Math.max(Math.min(end, chars.length + 1) - 1, 0)).join('');
+      }
+      case 'index': {
+        expect(2, 2);
+        const haystack = text(0);
+        const position = haystack.indexOf(text(1));
+        return position < 0 ? 0 : [...haystack.slice(0, position)].length + 1;
+      }
+      case 'split': {
+        expect(2, 3);
+        const source = text(0);
+        if (args[1].type !== 'var') {
+          throw new Error('fatal: split: second argument is not an array');
+        }
+        const array = this.getArray(args[1].name);
+        const separator = args.length < 3 ? this.getString('FS') : args[2].type === 'regex' ? this.compileRegex(args[2].source) : text(2);
+        const parts = this.split(source, separator);
+        array.clear();
+        parts.forEach((part, index) => array.set(String(index + 1), new StrNum(part)));
+        return parts.length;
+      }
+      case 'sub':
+      case 'gsub': {
+        expect(2, 3);
+        const regex = this.toRegex(args[0]);
+        const replacement = text(1);
+        const target: LValue = args[2] && isLValue(args[2]) ? args[2] : { type: 'field', index: { type: 'number', value: 0 } };
+        const reference = this.reference(target);
+        const [result, count] = this.substitute(regex, replacement, this.toString(reference.get()), name === 'gsub');
+        if (count > 0) {
+          reference.set(result);
+        }
+        return count;
+      }
+      case 'match': {
+        expect(2, 2);
+        const source = text(0);
+        const match = this.toRegex(args[1]).exec(source);
+        const start = match ? [...source.slice(0, match.index)].length + 1 : 0;
+        this.setNumber('RSTART', start);
+        this.setNumber('RLENGTH', match ? [...match[0]].length : -1);
+        return start;
+      }
+      case 'sprintf': {
+        if (args.length === 0) expect(1, Infinity);
+        const [format, ...values] = args.map((expr) => this.evaluate(expr));
+        return formatString(this.toString(format), values, (value) => this.toString(value));
+      }
+      case 'sin': expect(1, 1); return Math.sin(number(0));
+      case 'cos': expect(1, 1); return Math.cos(number(0));
+      case 'atan2': expect(2, 2); return Math.atan2(number(0), number(1));
+      case 'exp': expect(1, 1); return Math.exp(number(0));
+      case 'log': expect(1, 1); return Math.log(number(0));
+      case 'sqrt': expect(1, 1); return Math.sqrt(number(0));
+      case 'int': expect(1, 1); return Math.trunc(number(0));
+      case 'rand': expect(0, 0); return this.random();
+      case 'srand': {
+        expect(0, 1);
+        const previous = this.seed;
+        this.srand(args.length > 0 ? Math.trunc(number(0)) : Math.floor(Date.now() / 1000));
+        return previous;
+      }
+      case 'tolower': expect(1, 1); return text(0).toLowerCase();
+      case 'toupper': expect(1, 1); return text(0).toUpperCase();
+      case 'close': {
+        expect(1, 1);
+        const path = text(0);
+        const open = this.outputs.delete(path) || this.inputs.delete(path);
+        return open ? 0 : -1;
+      }
+      case 'fflush':
+        return 0;
+    }
+    throw new Error(`fatal: function \`${name}' not defined`);
+  }
+
+  /**
+   * sub/gsub 的替换：& 表示匹配的文本，\& 表示 & 本身
+   */
+  private substitute(regex: RegExp, replacement: string, text: string, global: boolean): [string, number] {
+    let result = '';
+    let last = 0;
+    let end = -1;
+    let count = 0;
+    for (const match of text.matchAll(regex)) {
+      // 紧接在上一个匹配之后的空匹配不算
+      if (match[0] === '' && match.index === end) {
+        continue;
+      }
+      result += text.slice(last, match.index);
+      result += replacement.replace(/\\\\|\\&|&/g, (token) => (token === '&' ? match[0] : token[1]));
+      last = end = match.index + match[0].length;
+      count++;
+      if (!global) break;
+    }
+    return [result + text.slice(last), count];
+  }
+
+  private getline(target: LValue | null, file: Expr | null): number {
+    let record: string | null;
+    if (file === null) {
+      record = this.readRecord();
+      if (record === null) return 0;
+    } else {
+      const path = this.toString(this.evaluate(file));
+      let content = this.inputs.get(path);
+      if (content === undefined) {
+        const { vfs } = this.options;
+        const read = path === '-' || path === '/dev/stdin' ? this.readStdin() : vfs.readFile(path);
+        if (read === null) return -1;
+        content = read;
+      }
+      const taken = this.takeRecord(content);
+      this.inputs.set(path, taken ? taken[1] : '');
+      if (!taken) return 0;
+      record = taken[0];
+    }
+
+    if (target) {
+      this.reference(target).set(new StrNum(record));
+    } else {
+      this.setRecord(record);
+    }
+    return 1;
+  }
+
+  private srand(seed: number): void {
+    this.seed = seed;
+    this.randomState = seed >>> 0;
+  }
+
+  /**
+   * 伪随机数（mulberry32），相同的种子产生相同的序列
+   */
+  private random(): number {
+    this.randomState = (this.randomState + 0x6d2b79f5) >>> 0;
+    let t = this.randomState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
+
+/**
+ * 运行 awk 程序，返回退出状态
+ * 运行时错误以 Error 抛出，消息以 fatal: 开头
+ */
+export function runAwk(program: AwkProgram, options: AwkOptions): number {
+  return new AwkRuntime(program, options).run();
+}
@@ -0,0 +1,42 @@
+/**
+ * 随终端打包的只读文档，挂载在 /usr/share/doc
+ */
+
+import type { MountTree } from './types';
+
+export const BundledDocs: MountTree = {
+  midrai: {
+    README: `Midrai Terminal
+===============
+
+A simulated Linux shell that runs entirely in the browser. Everything you
+create lives in a virtual file system that is saved with your session.
+
+Getting started
+---------------
+  help            list the available commands
+  help COMMAND    show how to use a command
+  ls -l /         look around the file system
+  cat /etc/motd   read the message of the day
+
+Users
+-----
+You are logged in as guest (password: guest). Use sudo or su to act as
+root (password: root).
+`,
+    FILESYSTEM: `Special directories
+===================
+
+/proc   information about the system and running processes
+        (cpuinfo, meminfo, uptime, self/environ, <pid>/status, ...)
+/dev    devices: null discards everything written to it, zero reads
+        as NUL bytes, random and urandom read as random bytes
+/sys    kernel parameters (kernel/hostname, kernel/osrelease)
+/usr/share/doc
+        this documentation, read-only
+
+Files under /proc, /dev and /sys are generated when they are read and
+are not saved with the session.
+`,
+  },
+};
@@ -1,11 +1,14 @@
 import type {
   CommandDefinition,
-  CommandContext,
   EnvironmentVariables,
   VirtualFileSystem,
   OutputHandler,
   AnsiColor,
+  InputReader,
 } from './types';
+import { tokenize, parseCommandList, removeQuotes } from './parser';
+import { Interpreter, TerminalIO, NoInput, parseArgs } from './interpreter';
+import { ProcessTable } from './processes';
 
 /**
  * CLI 管理器
@@ -16,11 +19,15 @@ export class CLI {
   private vfs: VirtualFileSystem;
   private env: EnvironmentVariables;
   private output: OutputHandler;
+  private interpreter: Interpreter;
+  private processes: ProcessTable = new ProcessTable();
 
   constructor(vfs: VirtualFileSystem, env: EnvironmentVariables, output: OutputHandler) {
     this.vfs = vfs;
     this.env = env;
     this.output = output;
+    this.interpreter = new Interpreter(vfs, env, output, (name) => this.commands.get(name));
+    this.interpreter.setProcessControl(this.processes);
   }
 
   /**
@@ -68,139 +75,104 @@ export class CLI {
   }
 
   /**
-   * 解析命令行输入
+   * 获取 shell 选项的值
    */
-  parseInput(input: string): { command: string; args: string[]; flags: Set<string> } {
-    const tokens = this.tokenize(input);
-    const command = tokens[0] || '';
-    const args: string[] = [];
-    const flags = new Set<string>();
-
-    for (let i = 1; i < tokens.length; i++) {
-      const token = tokens[i];
-      if (token.startsWith('--')) {
-        flags.add(token.substring(2));
-      } else if (token.startsWith('-') && token.length > 1) {
-        // 处理短选项如 -la
-        for (let j = 1; j < token.length; j++) {
-          flags.add(token[j]);
-        }
-      } else {
-        args.push(token);
-      }
-    }
-
-    return { command, args, flags };
+  getOption(name: string): boolean | undefined {
+    return this.interpreter.getOption(name);
   }
 
   /**
-   * 分词处理
+   * 设置 shell 选项
    */
-  private tokenize(input: string): string[] {
-    const tokens: string[] = [];
-    let current = '';
-    let inQuote: string | null = null;
-    let escaped = false;
-
-    for (const char of input) {
-      if (escaped) {
-        current += char;
-        escaped = false;
-        continue;
-      }
-
-      if (char === '\\') {
-        escaped = true;
-        continue;
-      }
-
-      if (char === '"' || char === "'") {
-        if (inQuote === null) {
-          inQuote = char;
-        } else if (inQuote === char) {
-          inQuote = null;
-        } else {
-          current += char;
-        }
-        continue;
-      }
-
-      if (char === ' ' && inQuote === null) {
-        if (current) {
-          tokens.push(current);
-          current = '';
-        }
-        continue;
-      }
-
-      current += char;
-    }
-
-    if (current) {
-      tokens.push(current);
-    }
+  setOption(name: string, value: boolean): boolean {
+    return this.interpreter.setOption(name, value);
+  }
 
-    return tokens;
+  /**
+   * 获取全部 shell 选项
+   */
+  getOptions(): Record<string, boolean> {
+    return this.interpreter.getOptions();
   }
 
   /**
-   * 执行命令
+   * 获取上一条命令的退出码（即 $?）
    */
-  async execute(input: string): Promise<number> {
-    const trimmed = input.trim();
-    if (!trimmed) {
-      return 0;
-    }
+  getLastExitCode(): number {
+    return this.interpreter.getLastExitCode();
+  }
 
-    // 处理变量赋值 (VAR=value command)
-    let commandLine = trimmed;
-    const localEnv: Record<string, string> = {};
-    const assignmentMatch = trimmed.match(/^([A-Za-z_][A-Za-z0-9_]*)=(\S+)\s+(.+)$/);
-    if (assignmentMatch) {
-      localEnv[assignmentMatch[1]] = assignmentMatch[2];
-      commandLine = assignmentMatch[3];
-    }
+  /**
+   * 设置 exit 命令的处理函数（在顶层执行 exit 时调用）
+   */
+  setExitHandler(handler: ((code: number) => void) | null): void {
+    this.interpreter.setExitHandler(handler);
+  }
 
-    const { command, args, flags } = this.parseInput(commandLine);
+  /**
+   * 设置终端输入（供需要交互读取的命令使用，如密码提示）
+   */
+  setInput(input: InputReader | null): void {
+    this.interpreter.setInput(input);
+  }
 
-    if (!command) {
-      return 0;
-    }
+  /**
+   * 获取进程表
+   */
+  getProcessTable(): ProcessTable {
+    return this.processes;
+  }
 
-    // 处理环境变量赋值命令
-    if (trimmed.includes('=') && !trimmed.match(/^[A-Za-z_]/)) {
-      const [varName, ...rest] = trimmed.split('=');
-      if (rest.length > 0 && varName.match(/^[A-Za-z_][A-Za-z0-9_]*$/)) {
-        this.env[varName] = rest.join('=').replace(/["']/g, '');
-        return 0;
-      }
-    }
+  /**
+   * 设置进程表（由 shell 创建，以便显示常驻进程和处理终端信号）
+   */
+  setProcessTable(processes: ProcessTable): void {
+    this.processes = processes;
+    this.interpreter.setProcessControl(processes);
+  }
 
-    // 查找命令
-    const cmd = this.commands.get(command);
-    if (!cmd) {
-      this.output.error(`${command}: command not found`);
-      return 127;
+  /**
+   * 解析命令行输入
+   */
+  parseInput(input: string): { command: string; args: string[]; flags: Set<string> } {
+    let words: string[];
+    try {
+      words = tokenize(input)
+        .filter((token) => token.type === 'word')
+        .map((token) => removeQuotes(token.value));
+    } catch {
+      // 引号未闭合等不完整输入，按空白拆分
+      words = input.trim().split(/\s+/).filter(Boolean);
     }
+    return { command: words[0] || '', ...parseArgs(words.slice(1)) };
+  }
 
-    // 创建命令上下文
-    const context: CommandContext = {
-      vfs: this.vfs,
-      env: { ...this.env, ...localEnv },
-      output: this.output,
-      cwd: this.vfs.pwd(),
-      args,
-      flags,
-    };
-
+  /**
+   * 判断输入是否不完整（引号未闭合或复合命令缺少结束关键字），需要继续读取下一行
+   */
+  isIncomplete(input: string): boolean {
     try {
-      return await cmd.execute(context);
+      parseCommandList(tokenize(input));
+      return false;
     } catch (error) {
-      this.output.error(`${command}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      return 1;
+      return error instanceof SyntaxError && /unexpected (end of file|EOF)/.test(error.message);
     }
   }
 
+  /**
+   * 在前台进程中执行命令，signal 触发时向进程发送同样的信号
+   * 进程被停止（Ctrl+Z）时不等执行结束，返回 128 加信号编号
+   */
+  async execute(input: string, signal?: AbortSignal): Promise<number> {
+    const exitCode = await this.processes.run(
+      input,
+      (processSignal) => this.interpreter.execute(input, { ...TerminalIO, signal: processSignal }),
+      signal,
+    );
+    this.interpreter.setLastExitCode(exitCode);
+    return exitCode;
+  }
+
   /**
    * 命令自动补全
    */
@@ -225,6 +197,12 @@ export class CLI {
         cwd: this.vfs.pwd(),
         args,
         flags: new Set(),
+        argv: args,
+        stdin: null,
+        stdinBytes: null,
+        input: NoInput,
+        signal: TerminalIO.signal,
+        shell: this.interpreter.createRuntime(TerminalIO),
       });
     }
 
@@ -0,0 +1,103 @@
+import type { CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+import { AwkSyntaxError, parseAwk, runAwk } from '../awk';
+import type { AwkProgram } from '../awk';
+
+export const awk: CommandDefinition = {
+  name: 'awk',
+  description: 'Pattern scanning and text processing language',
+  usage: "awk [-F FS] [-v VAR=VALUE]... [-f PROGFILE | 'PROGRAM'] [FILE | VAR=VALUE]...",
+  execute({ argv, vfs, env, output, stdin }) {
+    const assignments: string[] = [];
+    const sources: string[] = [];
+    let sourceName = 'cmd. line';
+
+    let i = 0;
+    for (; i < argv.length; i++) {
+      const arg = argv[i];
+      if (arg === '--') {
+        i++;
+        break;
+      }
+      const option = arg.match(/^-([Fvf])(.*)$/s);
+      if (!option) {
+        if (arg.startsWith('-') && arg !== '-') {
+          output.error(`awk: invalid option -- '${arg.slice(1)}'`);
+          output.error(`Usage: ${awk.usage}`);
+          return 2;
+        }
+        break;
+      }
+      const value = option[2] || argv[++i];
+      if (value === undefined) {
+        output.error(`awk: option requires an argument -- '${option[1]}'`);
+        output.error(`Usage: ${awk.usage}`);
+        return 2;
+      }
+      if (option[1] === 'F') {
+        // -Ft 表示制表符
+        assignments.push(`FS=${value === 't' ? '\\t' : value}`);
+      } else if (option[1] === 'v') {
+        if (!/^[A-Za-z_][A-Za-z0-9_]*=/.test(value)) {
+          output.error(`awk: \`${value}' argument to \`-v' not in \`var=value' form`);
+          return 2;
+        }
+        assignments.push(value);
+      } else {
+        const text = vfs.readFile(value);
+        if (text === null) {
+          output.error(`awk: fatal: can't open source file \`${value}' for reading: ${strerror(vfs.lastError)}`);
+          return 2;
+        }
+        sources.push(text);
+        sourceName = value;
+      }
+    }
+
+    // 没有 -f 时第一个操作数是程序
+    if (sources.length === 0) {
+      if (i >= argv.length) {
+        output.error(`Usage: ${awk.usage}`);
+        return 2;
+      }
+      sources.push(argv[i++]);
+    }
+    const source = sources.join('\n');
+
+    let program: AwkProgram;
+    try {
+      program = parseAwk(source);
+    } catch (error) {
+      if (!(error instanceof AwkSyntaxError)) throw error;
+      // 显示出错的行并用 ^ 指出位置
+      const lineStart = source.lastIndexOf('\n', error.pos - 1) + 1;
+      const lineEnd = source.indexOf('\n', error.pos);
+      const line = source.slice(lineStart, lineEnd < 0 ? undefined : lineEnd);
+      const lineNumber = source.slice(0, lineStart).split('\n').length;
+      output.error(`awk: ${sourceName}:${lineNumber}: ${line}`);
+      output.error(`awk: ${sourceName}:${lineNumber}: ${' '.repeat(error.pos - lineStart)}^ ${error.message}`);
+      return 2;
+    }
+
+    try {
+      return runAwk(program, {
+        vfs,
+        operands: argv.slice(i),
+        assignments,
+        stdin: stdin ?? '',
+        environ: { ...env },
+        print: (text) => output.print(text),
+        error: (text) => output.error(text),
+      });
+    } catch (error) {
+      output.error(`awk: ${error instanceof Error ? error.message : String(error)}`);
+      return 2;
+    }
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
@@ -0,0 +1,30 @@
+import type { CommandDefinition } from '../types';
+import { Signals } from '../signals';
+
+export const bg: CommandDefinition = {
+  name: 'bg',
+  description: 'Resume stopped jobs in the background',
+  usage: 'bg [JOBSPEC]...',
+  execute({ argv, output, shell }) {
+    const processes = shell.getProcessControl();
+    const specs = argv.length > 0 ? argv : [''];
+
+    let exitCode = 0;
+    for (const spec of specs) {
+      const job = processes.findJob(spec === '' || spec.startsWith('%') ? spec : `%${spec}`);
+      if (!job) {
+        output.error(`bg: ${spec || 'current'}: no such job`);
+        exitCode = 1;
+      } else if (job.status === 'done') {
+        output.error('bg: job has terminated');
+        exitCode = 1;
+      } else if (job.status === 'running') {
+        output.error(`bg: job ${job.id} already in background`);
+      } else {
+        processes.kill(job.pid, Signals.CONT);
+        output.println(`[${job.id}]${job.marker} ${job.command} &`);
+      }
+    }
+    return exitCode;
+  },
+};
@@ -0,0 +1,20 @@
+import type { CommandDefinition } from '../types';
+import { ControlFlow } from '../interpreter';
+
+export const breakCommand: CommandDefinition = {
+  name: 'break',
+  description: 'Exit from a for, while or until loop',
+  usage: 'break [N]',
+  execute({ argv, output, shell }) {
+    const count = argv[0] ?? '1';
+    if (!/^[0-9]+$/.test(count) || Number(count) < 1) {
+      output.error(`break: ${count}: loop count out of range`);
+      return 1;
+    }
+    if (!shell.isInLoop()) {
+      output.error("break: only meaningful in a `for', `while', or `until' loop");
+      return 0;
+    }
+    throw new ControlFlow('break', Number(count));
+  },
+};
@@ -1,28 +1,31 @@
 import type { CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+import { printBytes } from '../io';
 
 export const cat: CommandDefinition = {
   name: 'cat',
   description: 'Concatenate and print files',
   usage: 'cat [FILE]...',
-  execute({ vfs, args, output }) {
+  execute({ vfs, args, output, stdinBytes }) {
     if (args.length === 0) {
-      output.error('cat: missing file operand');
-      return 1;
+      if (stdinBytes === null) {
+        output.error('cat: missing file operand');
+        return 1;
+      }
+      printBytes(output, stdinBytes);
+      return 0;
     }
 
     for (const path of args) {
-      const content = vfs.readFile(path);
+      // - 表示读取标准输入；按字节输出，二进制文件经过管道和重定向后保持不变
+      const content = path === '-' ? stdinBytes ?? new Uint8Array() : vfs.readFileBytes(path);
       if (content === null) {
-        const stat = vfs.stat(path);
-        if (stat?.type === 'directory') {
-          output.error(`cat: ${path}: Is a directory`);
-        } else {
-          output.error(`cat: ${path}: No such file or directory`);
-        }
+        output.error(`cat: ${path}: ${strerror(vfs.lastError)}`);
         return 1;
       }
-      output.print(content);
-      if (!content.endsWith('\n')) {
+      printBytes(output, content);
+      // 输出到终端时补上末尾的换行，避免提示符接在内容后面
+      if (output.isTerminal !== false && content.length > 0 && content[content.length - 1] !== 0x0a) {
         output.println();
       }
     }
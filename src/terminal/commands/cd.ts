@@ -1,4 +1,5 @@
 import type { CommandDefinition } from '../types';
+import { strerror } from '../vfs';
 
 export const cd: CommandDefinition = {
   name: 'cd',
@@ -8,7 +9,7 @@ export const cd: CommandDefinition = {
     const path = args[0] || env.HOME;
 
     if (!vfs.cd(path)) {
-      output.error(`cd: ${path}: No such file or directory`);
+      output.error(`cd: ${path}: ${strerror(vfs.lastError)}`);
       return 1;
     }
 
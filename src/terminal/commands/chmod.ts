@@ -0,0 +1,102 @@
+import type { CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+import { parseModeSpec, parsePermissions, formatOctalMode, formatPermissions } from '../permissions';
+
+export const chmod: CommandDefinition = {
+  name: 'chmod',
+  description: 'Change file mode bits',
+  usage: 'chmod [-R] [-v] [-c] [-f] MODE FILE...',
+  execute({ argv, vfs, output }) {
+    let recursive = false;
+    let verbose = false;
+    let changesOnly = false;
+    let silent = false;
+    const operands: string[] = [];
+
+    // 形如 -w、-x 的参数是模式而不是选项
+    for (const arg of argv) {
+      if (operands.length === 0 && /^-[Rvcf]+$/.test(arg)) {
+        recursive ||= arg.includes('R');
+        verbose ||= arg.includes('v');
+        changesOnly ||= arg.includes('c');
+        silent ||= arg.includes('f');
+      } else if (arg === '--recursive') {
+        recursive = true;
+      } else if (arg === '--verbose') {
+        verbose = true;
+      } else {
+        operands.push(arg);
+      }
+    }
+
+    const [spec, ...paths] = operands;
+    if (!spec) {
+      output.error('chmod: missing operand');
+      return 1;
+    }
+    if (paths.length === 0) {
+      output.error(`chmod: missing operand after '${spec}'`);
+      return 1;
+    }
+
+    let exitCode = 0;
+    const apply = (path: string) => {
+      const node = vfs.getNode(path);
+      if (!node) {
+        if (!silent) {
+          output.error(`chmod: cannot access '${path}': ${strerror(vfs.lastError)}`);
+        }
+        exitCode = 1;
+        return;
+      }
+
+      const current = parsePermissions(node.permissions);
+      const mode = parseModeSpec(spec, current, node.type === 'directory', vfs.getUmask());
+      if (mode === null) {
+        output.error(`chmod: invalid mode: '${spec}'`);
+        exitCode = 1;
+        return;
+      }
+
+      if (!vfs.chmod(path, mode)) {
+        if (!silent) {
+          output.error(`chmod: changing permissions of '${path}': ${strerror(vfs.lastError)}`);
+        }
+        exitCode = 1;
+        return;
+      }
+
+      const changed = mode !== current;
+      if (verbose || (changesOnly && changed)) {
+        const before = `${formatOctalMode(current)} (${formatPermissions(node.type, current)})`;
+        const after = `${formatOctalMode(mode)} (${node.permissions})`;
+        output.println(changed
+          ? `mode of '${path}' changed from ${before} to ${after}`
+          : `mode of '${path}' retained as ${after}`);
+      }
+
+      if (recursive && node.type === 'directory') {
+        const entries = vfs.ls(path);
+        if (entries === null) {
+          if (!silent) {
+            output.error(`chmod: cannot read directory '${path}': ${strerror(vfs.lastError)}`);
+          }
+          exitCode = 1;
+          return;
+        }
+        // 递归时不跟随符号链接
+        for (const entry of entries) {
+          if (entry.type !== 'symlink') {
+            apply(`${path.replace(/\/+$/, '')}/${entry.name}`);
+          }
+        }
+      }
+    };
+
+    for (const path of paths) {
+      apply(path);
+    }
+
+    return exitCode;
+  },
+};
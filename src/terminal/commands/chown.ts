@@ -0,0 +1,97 @@
+import type { CommandContext, CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+
+/**
+ * 修改所有者和所属组，-R 时递归处理目录内容
+ */
+function changeOwner(
+  name: string,
+  owner: string | null,
+  group: string | null,
+  paths: string[],
+  recursive: boolean,
+  { vfs, output }: CommandContext
+): number {
+  let exitCode = 0;
+
+  const apply = (path: string) => {
+    const node = vfs.getNode(path);
+    if (!node) {
+      output.error(`${name}: cannot access '${path}': ${strerror(vfs.lastError)}`);
+      exitCode = 1;
+      return;
+    }
+
+    if (!vfs.chown(path, owner, group)) {
+      const what = name === 'chgrp' ? 'group' : 'ownership';
+      output.error(`${name}: changing ${what} of '${path}': ${strerror(vfs.lastError)}`);
+      exitCode = 1;
+      return;
+    }
+
+    if (recursive && node.type === 'directory') {
+      // 递归时不跟随符号链接
+      for (const entry of vfs.ls(path) ?? []) {
+        if (entry.type !== 'symlink') {
+          apply(`${path.replace(/\/+$/, '')}/${entry.name}`);
+        }
+      }
+    }
+  };
+
+  for (const path of paths) {
+    apply(path);
+  }
+  return exitCode;
+}
+
+export const chown: CommandDefinition = {
+  name: 'chown',
+  description: 'Change file owner and group',
+  usage: 'chown [-R] OWNER[:[GROUP]] FILE...',
+  execute(context) {
+    const { args, flags, output } = context;
+    const [spec, ...paths] = args;
+    if (!spec) {
+      output.error('chown: missing operand');
+      return 1;
+    }
+    if (paths.length === 0) {
+      output.error(`chown: missing operand after '${spec}'`);
+      return 1;
+    }
+
+    // OWNER、OWNER:GROUP、OWNER:（使用登录组）或 :GROUP
+    const match = spec.match(/^([^:.]*)(?:[:.](.*))?$/);
+    const owner = match?.[1] || null;
+    const group = match?.[2] || null;
+    if (!owner && !group) {
+      output.error(`chown: invalid spec: '${spec}'`);
+      return 1;
+    }
+
+    const recursive = flags.has('R') || flags.has('recursive');
+    return changeOwner('chown', owner, group, paths, recursive, context);
+  },
+};
+
+export const chgrp: CommandDefinition = {
+  name: 'chgrp',
+  description: 'Change group ownership',
+  usage: 'chgrp [-R] GROUP FILE...',
+  execute(context) {
+    const { args, flags, output } = context;
+    const [group, ...paths] = args;
+    if (!group) {
+      output.error('chgrp: missing operand');
+      return 1;
+    }
+    if (paths.length === 0) {
+      output.error(`chgrp: missing operand after '${group}'`);
+      return 1;
+    }
+
+    const recursive = flags.has('R') || flags.has('recursive');
+    return changeOwner('chgrp', null, group, paths, recursive, context);
+  },
+};
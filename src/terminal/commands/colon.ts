@@ -0,0 +1,10 @@
+import type { CommandDefinition } from '../types';
+
+export const colon: CommandDefinition = {
+  name: ':',
+  description: 'Null command, always succeeds',
+  usage: ': [ARG]...',
+  execute() {
+    return 0;
+  },
+};
@@ -0,0 +1,20 @@
+import type { CommandDefinition } from '../types';
+import { ControlFlow } from '../interpreter';
+
+export const continueCommand: CommandDefinition = {
+  name: 'continue',
+  description: 'Resume the next iteration of a loop',
+  usage: 'continue [N]',
+  execute({ argv, output, shell }) {
+    const count = argv[0] ?? '1';
+    if (!/^[0-9]+$/.test(count) || Number(count) < 1) {
+      output.error(`continue: ${count}: loop count out of range`);
+      return 1;
+    }
+    if (!shell.isInLoop()) {
+      output.error("continue: only meaningful in a `for', `while', or `until' loop");
+      return 0;
+    }
+    throw new ControlFlow('continue', Number(count));
+  },
+};
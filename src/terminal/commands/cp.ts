@@ -0,0 +1,173 @@
+import type { CommandDefinition, FileStat, VirtualFileSystem } from '../types';
+import { basename, strerror } from '../vfs';
+import { parsePermissions } from '../permissions';
+
+/**
+ * 解析目标路径中的符号链接（目标本身可以不存在）
+ */
+function realTarget(vfs: VirtualFileSystem, path: string): string {
+  const real = vfs.realpath(path);
+  if (real) {
+    return real;
+  }
+  const resolved = vfs.resolvePath(path);
+  const parent = vfs.realpath(resolved.substring(0, resolved.lastIndexOf('/')) || '/');
+  return parent ? `${parent.replace(/\/$/, '')}/${basename(resolved)}` : resolved;
+}
+
+export const cp: CommandDefinition = {
+  name: 'cp',
+  description: 'Copy files and directories',
+  usage: 'cp [-r] [-i|-n] [-p] [-v] SOURCE... DEST',
+  async execute({ vfs, args, flags, output, input }) {
+    const recursive = flags.has('r') || flags.has('R') || flags.has('recursive');
+    const noClobber = flags.has('n') || flags.has('no-clobber');
+    const interactive = !noClobber && (flags.has('i') || flags.has('interactive'));
+    const preserve = flags.has('p') || flags.has('preserve');
+    const verbose = flags.has('v') || flags.has('verbose');
+
+    if (args.length === 0) {
+      output.error('cp: missing file operand');
+      return 1;
+    }
+    if (args.length === 1) {
+      output.error(`cp: missing destination file operand after '${args[0]}'`);
+      return 1;
+    }
+
+    // 目标是已有的目录时复制到其中，多个源时目标必须是目录
+    const dest = args[args.length - 1];
+    const sources = args.slice(0, -1);
+    const destStat = vfs.stat(dest);
+    const intoDirectory = destStat?.type === 'directory';
+    if (sources.length > 1 && !intoDirectory) {
+      output.error(destStat
+        ? `cp: target '${dest}' is not a directory`
+        : `cp: target '${dest}': ${strerror(vfs.lastError)}`);
+      return 1;
+    }
+
+    // 目标已存在时是否覆盖（-n 不覆盖，-i 询问）
+    const confirm = async (target: string): Promise<boolean> => {
+      if (noClobber) {
+        return false;
+      }
+      if (!interactive) {
+        return true;
+      }
+      const answer = await input.readLine({ prompt: `cp: overwrite '${target}'? ` });
+      return /^y/i.test(answer ?? '');
+    };
+
+    // 新建的目标使用源的权限位（去掉 umask 屏蔽的位），-p 时保留权限、修改时间和所有者
+    const copyAttributes = (stat: FileStat, target: string, created: boolean) => {
+      const mode = parsePermissions(stat.permissions);
+      if (preserve) {
+        // 普通用户不能修改所有者，保留失败时忽略
+        vfs.chown(target, vfs.getCredentials().uid === 0 ? stat.owner : null, stat.group);
+        vfs.chmod(target, mode);
+        vfs.touch(target, stat.modifiedAt);
+      } else if (created) {
+        vfs.chmod(target, mode & 0o777 & ~vfs.getUmask());
+      }
+    };
+
+    // 递归复制时符号链接复制为链接本身，否则复制链接指向的文件
+    const copy = async (src: string, target: string, top: boolean): Promise<boolean> => {
+      const stat = top && !recursive ? vfs.stat(src) : vfs.lstat(src);
+      if (!stat) {
+        output.error(`cp: cannot stat '${src}': ${strerror(vfs.lastError)}`);
+        return false;
+      }
+      const existing = vfs.stat(target);
+
+      if (stat.type === 'directory') {
+        if (!recursive) {
+          output.error(`cp: -r not specified; omitting directory '${src}'`);
+          return false;
+        }
+        const srcReal = vfs.realpath(src) ?? vfs.resolvePath(src);
+        const targetReal = realTarget(vfs, target);
+        if (targetReal === srcReal || targetReal.startsWith(`${srcReal.replace(/\/$/, '')}/`)) {
+          output.error(`cp: cannot copy a directory, '${src}', into itself, '${target}'`);
+          return false;
+        }
+        if (existing && existing.type !== 'directory') {
+          output.error(`cp: cannot overwrite non-directory '${target}' with directory '${src}'`);
+          return false;
+        }
+        if (!existing) {
+          if (!vfs.mkdir(target)) {
+            output.error(`cp: cannot create directory '${target}': ${strerror(vfs.lastError)}`);
+            return false;
+          }
+          if (verbose) {
+            output.println(`'${src}' -> '${target}'`);
+          }
+        }
+        const children = vfs.ls(src);
+        if (!children) {
+          output.error(`cp: cannot access '${src}': ${strerror(vfs.lastError)}`);
+          return false;
+        }
+        let ok = true;
+        for (const child of children) {
+          ok = await copy(`${src.replace(/\/+$/, '')}/${child.name}`, `${target.replace(/\/+$/, '')}/${child.name}`, false) && ok;
+        }
+        // 目录的权限在复制完内容后再设置，以免只读目录无法写入
+        copyAttributes(stat, target, !existing);
+        return ok;
+      }
+
+      if (existing?.type === 'directory') {
+        output.error(`cp: cannot overwrite directory '${target}' with non-directory`);
+        return false;
+      }
+      if (stat.type === 'file' && existing?.ino === stat.ino) {
+        output.error(`cp: '${src}' and '${target}' are the same file`);
+        return false;
+      }
+      const targetLink = vfs.lstat(target);
+      if (targetLink && !(await confirm(target))) {
+        return true;
+      }
+
+      if (stat.type === 'symlink') {
+        if (targetLink && !vfs.rm(target)) {
+          output.error(`cp: cannot remove '${target}': ${strerror(vfs.lastError)}`);
+          return false;
+        }
+        if (!vfs.symlink(vfs.readlink(src) ?? '', target)) {
+          output.error(`cp: cannot create symbolic link '${target}': ${strerror(vfs.lastError)}`);
+          return false;
+        }
+      } else if (!vfs.cp(src, target, false, preserve)) {
+        if (vfs.lastError === 'EACCES' && !vfs.access(src, 'r')) {
+          output.error(`cp: cannot open '${src}' for reading: Permission denied`);
+        } else {
+          output.error(`cp: cannot create regular file '${target}': ${strerror(vfs.lastError)}`);
+        }
+        return false;
+      }
+      if (verbose) {
+        output.println(`'${src}' -> '${target}'`);
+      }
+      return true;
+    };
+
+    let exitCode = 0;
+    for (const source of sources) {
+      const target = intoDirectory ? `${dest.replace(/\/+$/, '')}/${basename(source)}` : dest;
+      if (!(await copy(source, target, true))) {
+        exitCode = 1;
+      }
+    }
+    return exitCode;
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
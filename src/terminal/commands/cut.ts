@@ -0,0 +1,123 @@
+import type { CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+
+/** 选择的范围（从 1 开始，包含两端） */
+interface Range {
+  start: number;
+  end: number;
+}
+
+/**
+ * 解析位置列表（如 1,3-5,7-、-2），无效时返回 null
+ */
+function parseList(list: string): Range[] | null {
+  const ranges: Range[] = [];
+  for (const part of list.split(',')) {
+    const match = part.match(/^(\d*)(-?)(\d*)$/);
+    if (!match || (!match[1] && !match[3]) || (!match[2] && match[3])) {
+      return null;
+    }
+    const start = match[1] ? Number(match[1]) : 1;
+    const end = match[3] ? Number(match[3]) : match[2] ? Infinity : start;
+    if (start === 0 || end < start) {
+      return null;
+    }
+    ranges.push({ start, end });
+  }
+  return ranges;
+}
+
+export const cut: CommandDefinition = {
+  name: 'cut',
+  description: 'Remove sections from each line of files',
+  usage: 'cut -f LIST [-d DELIM] [-s] | -c LIST [FILE]...',
+  execute({ argv, vfs, output, stdin }) {
+    let mode: 'f' | 'c' | null = null;
+    let list: Range[] = [];
+    let delimiter = '\t';
+    let onlyDelimited = false;
+    const paths: string[] = [];
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      const option = arg.match(/^-([fcbd])(.*)$/s);
+      if (option) {
+        const value = option[2] || argv[++i];
+        if (value === undefined) {
+          output.error(`cut: option requires an argument -- '${option[1]}'`);
+          return 1;
+        }
+        if (option[1] === 'd') {
+          if ([...value].length !== 1) {
+            output.error('cut: the delimiter must be a single character');
+            return 1;
+          }
+          delimiter = value;
+          continue;
+        }
+        // -b 按字节选择，这里与 -c 相同按字符处理
+        if (mode !== null) {
+          output.error('cut: only one type of list may be specified');
+          return 1;
+        }
+        const ranges = parseList(value);
+        if (!ranges) {
+          output.error(`cut: invalid field range '${value}'`);
+          return 1;
+        }
+        mode = option[1] === 'f' ? 'f' : 'c';
+        list = ranges;
+      } else if (arg === '-s' || arg === '--only-delimited') {
+        onlyDelimited = true;
+      } else if (arg.startsWith('-') && arg !== '-') {
+        output.error(`cut: invalid option -- '${arg.replace(/^-+/, '')}'`);
+        return 1;
+      } else {
+        paths.push(arg);
+      }
+    }
+
+    if (mode === null) {
+      output.error('cut: you must specify a list of bytes, characters, or fields');
+      return 1;
+    }
+    const selected = (position: number) => list.some(({ start, end }) => position >= start && position <= end);
+
+    let exitCode = 0;
+    for (const path of paths.length > 0 ? paths : ['-']) {
+      const content = path === '-' ? stdin ?? '' : vfs.readFile(path);
+      if (content === null) {
+        output.error(`cut: ${path}: ${strerror(vfs.lastError)}`);
+        exitCode = 1;
+        continue;
+      }
+
+      const lines = content.split('\n');
+      if (content === '' || content.endsWith('\n')) {
+        lines.pop();
+      }
+      for (const line of lines) {
+        if (mode === 'c') {
+          output.println([...line].filter((_, index) => selected(index + 1)).join(''));
+          continue;
+        }
+        // 不含分隔符的行原样输出（-s 时忽略）
+        if (!line.includes(delimiter)) {
+          if (!onlyDelimited) {
+            output.println(line);
+          }
+          continue;
+        }
+        output.println(line.split(delimiter).filter((_, index) => selected(index + 1)).join(delimiter));
+      }
+    }
+
+    return exitCode;
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
@@ -0,0 +1,66 @@
+import type { CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+import { formatSize } from '../text';
+
+/** 文件系统名称 */
+const FilesystemName = 'vfs';
+
+/**
+ * 计算使用百分比（向上取整，没有限制时显示 -）
+ */
+function percent(used: number, size: number): string {
+  return Number.isFinite(size) && size > 0 ? `${Math.ceil((used * 100) / size)}%` : '-';
+}
+
+export const df: CommandDefinition = {
+  name: 'df',
+  description: 'Report file system space usage',
+  usage: 'df [-h] [-i] [-k] [FILE]...',
+  execute({ vfs, args, flags, output }) {
+    const human = flags.has('h') || flags.has('human-readable');
+    const inodes = flags.has('i') || flags.has('inodes');
+
+    let exitCode = 0;
+    let count = 0;
+    for (const path of args) {
+      if (vfs.lstat(path)) {
+        count++;
+      } else {
+        output.error(`df: ${path}: ${strerror(vfs.lastError)}`);
+        exitCode = 1;
+      }
+    }
+    // 没有给出文件时报告整个文件系统，否则每个文件报告一次其所在的文件系统
+    if (args.length === 0) {
+      count = 1;
+    }
+    if (count === 0) {
+      return exitCode;
+    }
+
+    const limits = vfs.getLimits();
+    const usage = vfs.usage();
+    const show = (value: number) => {
+      if (!Number.isFinite(value)) return '-';
+      if (inodes) return String(value);
+      return human ? formatSize(value) : String(Math.ceil(value / 1024));
+    };
+
+    const [size, used] = inodes ? [limits.maxNodes, usage.nodes] : [limits.maxBytes, usage.bytes];
+    const row = [FilesystemName, show(size), show(used), show(Math.max(size - used, 0)), percent(used, size), '/'];
+    const header = inodes
+      ? ['Filesystem', 'Inodes', 'IUsed', 'IFree', 'IUse%', 'Mounted on']
+      : ['Filesystem', human ? 'Size' : '1K-blocks', 'Used', human ? 'Avail' : 'Available', 'Use%', 'Mounted on'];
+
+    // 数值列右对齐，文件系统名和挂载点左对齐
+    const rows = [header, ...Array.from({ length: count }, () => row)];
+    const widths = header.map((_, column) => Math.max(...rows.map((cells) => cells[column].length)));
+    for (const cells of rows) {
+      output.println(cells.map((cell, column) => {
+        if (column === cells.length - 1) return cell;
+        return column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]);
+      }).join(' '));
+    }
+    return exitCode;
+  },
+};
@@ -0,0 +1,118 @@
+import type { CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+import { formatSize } from '../text';
+
+export const du: CommandDefinition = {
+  name: 'du',
+  description: 'Estimate file space usage',
+  usage: 'du [-a] [-s] [-c] [-h] [-b] [-d DEPTH] [FILE]...',
+  execute({ argv, vfs, output }) {
+    let all = false;
+    let summarize = false;
+    let total = false;
+    let human = false;
+    let bytes = false;
+    let maxDepth = Infinity;
+    const paths: string[] = [];
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      const depthOption = arg.match(/^(?:-d|--max-depth=?)(.*)$/);
+      if (depthOption) {
+        const value = depthOption[1] || argv[++i];
+        if (value === undefined || !/^\d+$/.test(value)) {
+          output.error(`du: invalid maximum depth '${value ?? ''}'`);
+          return 1;
+        }
+        maxDepth = Number(value);
+      } else if (arg === '--all') {
+        all = true;
+      } else if (arg === '--summarize') {
+        summarize = true;
+      } else if (arg === '--total') {
+        total = true;
+      } else if (arg === '--human-readable') {
+        human = true;
+      } else if (arg === '--bytes' || arg === '--apparent-size') {
+        bytes = true;
+      } else if (/^-[aschbk]+$/.test(arg)) {
+        all ||= arg.includes('a');
+        summarize ||= arg.includes('s');
+        total ||= arg.includes('c');
+        human ||= arg.includes('h');
+        bytes ||= arg.includes('b');
+      } else if (arg.startsWith('-') && arg !== '-') {
+        output.error(`du: invalid option -- '${arg.replace(/^-+/, '')}'`);
+        return 1;
+      } else {
+        paths.push(arg);
+      }
+    }
+
+    if (summarize && all) {
+      output.error('du: cannot both summarize and show all entries');
+      return 1;
+    }
+    if (summarize && maxDepth !== Infinity && maxDepth !== 0) {
+      output.error(`du: warning: summarizing conflicts with --max-depth=${maxDepth}`);
+      return 1;
+    }
+    if (summarize) {
+      maxDepth = 0;
+    }
+
+    // 默认以 1K 块为单位，每个文件至少占用整数个块
+    const usageOf = (size: number) => (bytes ? size : Math.ceil(size / 1024) * 1024);
+    const format = (size: number) => (human ? formatSize(size) : String(bytes ? size : size / 1024));
+
+    let exitCode = 0;
+    let grandTotal = 0;
+    // 硬链接只计算一次
+    const seen = new Set<number>();
+
+    const visit = (path: string, depth: number): number => {
+      const stat = vfs.lstat(path);
+      if (!stat) {
+        output.error(`du: cannot access '${path}': ${strerror(vfs.lastError)}`);
+        exitCode = 1;
+        return 0;
+      }
+      if (seen.has(stat.ino)) {
+        return 0;
+      }
+      seen.add(stat.ino);
+
+      let size = stat.type === 'file' ? usageOf(stat.size) : 0;
+      if (stat.type === 'directory') {
+        const entries = vfs.ls(path);
+        if (entries === null) {
+          output.error(`du: cannot read directory '${path}': ${strerror(vfs.lastError)}`);
+          exitCode = 1;
+        }
+        for (const entry of entries ?? []) {
+          size += visit(path === '/' ? `/${entry.name}` : `${path}/${entry.name}`, depth + 1);
+        }
+      }
+
+      // 目录和命令行中给出的文件总是显示，其他文件只在 -a 时显示
+      if (depth <= maxDepth && (depth === 0 || stat.type === 'directory' || all)) {
+        output.println(`${format(size)}\t${path}`);
+      }
+      return size;
+    };
+
+    for (const path of paths.length > 0 ? paths : ['.']) {
+      grandTotal += visit(path.length > 1 ? path.replace(/\/+$/, '') : path, 0);
+    }
+    if (total) {
+      output.println(`${format(grandTotal)}\ttotal`);
+    }
+    return exitCode;
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
@@ -0,0 +1,16 @@
+import type { CommandDefinition } from '../types';
+import { ControlFlow } from '../interpreter';
+
+export const exit: CommandDefinition = {
+  name: 'exit',
+  description: 'Exit the shell',
+  usage: 'exit [N]',
+  execute({ argv, output, shell }) {
+    const value = argv[0] ?? shell.getVariable('?') ?? '0';
+    if (!/^-?[0-9]+$/.test(value)) {
+      output.error(`exit: ${value}: numeric argument required`);
+      throw new ControlFlow('exit', 2);
+    }
+    throw new ControlFlow('exit', Number(value) & 255);
+  },
+};
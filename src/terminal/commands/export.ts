@@ -0,0 +1,35 @@
+import type { CommandDefinition } from '../types';
+
+export const exportCommand: CommandDefinition = {
+  name: 'export',
+  description: 'Set environment variables',
+  usage: 'export [NAME[=VALUE]]...',
+  execute({ argv, output, shell }) {
+    const names = argv.filter((arg) => arg !== '-p');
+
+    // 无参数时列出所有变量
+    if (names.length === 0) {
+      const variables = shell.getVariables();
+      for (const name of Object.keys(variables).sort()) {
+        if (!/^[A-Za-z_]/.test(name)) continue;
+        const value = variables[name].replace(/["\\$`]/g, '\\$&');
+        output.println(`declare -x ${name}="${value}"`);
+      }
+      return 0;
+    }
+
+    let exitCode = 0;
+    for (const arg of names) {
+      const match = arg.match(/^([A-Za-z_][A-Za-z0-9_]*)(?:=(.*))?$/s);
+      if (!match) {
+        output.error(`export: \`${arg}': not a valid identifier`);
+        exitCode = 1;
+        continue;
+      }
+      if (match[2] !== undefined) {
+        shell.setVariable(match[1], match[2]);
+      }
+    }
+    return exitCode;
+  },
+};
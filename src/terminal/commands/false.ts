@@ -0,0 +1,10 @@
+import type { CommandDefinition } from '../types';
+
+export const falseCommand: CommandDefinition = {
+  name: 'false',
+  description: 'Do nothing, unsuccessfully',
+  usage: 'false',
+  execute() {
+    return 1;
+  },
+};
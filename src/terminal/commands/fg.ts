@@ -0,0 +1,25 @@
+import type { CommandDefinition } from '../types';
+
+export const fg: CommandDefinition = {
+  name: 'fg',
+  description: 'Move a job to the foreground',
+  usage: 'fg [JOBSPEC]',
+  async execute({ argv, output, shell, signal }) {
+    const processes = shell.getProcessControl();
+    const spec = argv[0] ?? '';
+
+    // 不带 % 的数字也表示作业号，没有参数时为当前作业
+    const job = processes.findJob(spec === '' || spec.startsWith('%') ? spec : `%${spec}`);
+    if (!job) {
+      output.error(`fg: ${spec || 'current'}: no such job`);
+      return 1;
+    }
+    if (job.status === 'done') {
+      output.error('fg: job has terminated');
+      return 1;
+    }
+
+    output.println(job.command);
+    return processes.foreground(job.id, signal);
+  },
+};
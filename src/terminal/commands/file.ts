@@ -0,0 +1,227 @@
+import type { CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+import { decodeText } from '../encoding';
+
+/** 文件类型：描述和 MIME 类型 */
+interface FileKind {
+  description: string;
+  mime: string;
+}
+
+/** 脚本解释器对应的描述 */
+const Interpreters: Record<string, string> = {
+  sh: 'POSIX shell script',
+  bash: 'Bourne-Again shell script',
+  zsh: 'Paul Falstad\'s zsh script',
+  python: 'Python script',
+  python3: 'Python script',
+  node: 'Node.js script',
+  perl: 'Perl script',
+  ruby: 'Ruby script',
+};
+
+/** 超过该长度的行视为很长的行 */
+const LongLineLength = 300;
+
+const strictDecoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * 检查字节序列是否以指定的字节开头
+ */
+function startsWith(bytes: Uint8Array, prefix: number[] | string, offset: number = 0): boolean {
+  const expected = typeof prefix === 'string' ? Array.from(prefix, (char) => char.charCodeAt(0)) : prefix;
+  if (bytes.length < offset + expected.length) {
+    return false;
+  }
+  return expected.every((byte, i) => bytes[offset + i] === byte);
+}
+
+/**
+ * 读取大端序 32 位整数
+ */
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+/**
+ * 根据文件头识别二进制格式
+ */
+function detectBinary(bytes: Uint8Array): FileKind | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    let description = 'PNG image data';
+    if (bytes.length >= 26 && startsWith(bytes, 'IHDR', 12)) {
+      const colors: Record<number, string> = { 0: 'grayscale', 2: 'RGB', 3: 'colormap', 4: 'gray+alpha', 6: 'RGBA' };
+      description += `, ${readUint32(bytes, 16)} x ${readUint32(bytes, 20)}, ${bytes[24]}-bit`;
+      description += `/color ${colors[bytes[25]] ?? 'unknown'}, ${bytes[28] ? 'interlaced' : 'non-interlaced'}`;
+    }
+    return { description, mime: 'image/png' };
+  }
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+    return { description: 'JPEG image data', mime: 'image/jpeg' };
+  }
+  if (startsWith(bytes, 'GIF87a') || startsWith(bytes, 'GIF89a')) {
+    const version = String.fromCharCode(...bytes.subarray(3, 6));
+    const size = bytes.length >= 10 ? `, ${bytes[6] | (bytes[7] << 8)} x ${bytes[8] | (bytes[9] << 8)}` : '';
+    return { description: `GIF image data, version ${version}${size}`, mime: 'image/gif' };
+  }
+  if (startsWith(bytes, '%PDF-')) {
+    const version = String.fromCharCode(...bytes.subarray(5, 8));
+    return { description: `PDF document, version ${version}`, mime: 'application/pdf' };
+  }
+  if (startsWith(bytes, [0x1f, 0x8b])) {
+    return { description: 'gzip compressed data', mime: 'application/gzip' };
+  }
+  if (startsWith(bytes, 'BZh')) {
+    return { description: 'bzip2 compressed data', mime: 'application/x-bzip2' };
+  }
+  if (startsWith(bytes, 'PK\x03\x04') || startsWith(bytes, 'PK\x05\x06')) {
+    return { description: 'Zip archive data', mime: 'application/zip' };
+  }
+  if (startsWith(bytes, 'ustar', 257)) {
+    return { description: 'POSIX tar archive', mime: 'application/x-tar' };
+  }
+  if (startsWith(bytes, [0x7f, 0x45, 0x4c, 0x46])) {
+    const bits = bytes[4] === 2 ? '64-bit' : '32-bit';
+    const order = bytes[5] === 2 ? 'MSB' : 'LSB';
+    return { description: `ELF ${bits} ${order} executable`, mime: 'application/x-executable' };
+  }
+  return null;
+}
+
+/**
+ * 识别文本的种类（脚本、JSON 等）及换行符等特征
+ */
+function detectText(text: string, ascii: boolean): FileKind {
+  const charset = ascii ? 'us-ascii' : 'utf-8';
+  let encoding = ascii ? 'ASCII text' : 'Unicode text, UTF-8 text';
+  let kind = '';
+  let mime = 'text/plain';
+
+  const shebang = text.match(/^#!\s*(\S+)(?:[ \t]+(\S+))?/);
+  if (shebang) {
+    // #!/usr/bin/env python3 以参数为解释器
+    const program = shebang[1].endsWith('/env') && shebang[2] ? shebang[2] : shebang[1];
+    const name = program.split('/').pop() ?? program;
+    kind = Interpreters[name] ?? `a ${program} script`;
+    encoding += ' executable';
+    mime = name === 'sh' || name === 'bash' || name === 'zsh' ? 'text/x-shellscript' : 'text/x-script';
+  } else if (/^\s*[{[]/.test(text)) {
+    try {
+      JSON.parse(text);
+      return { description: 'JSON text data', mime: `application/json; charset=${charset}` };
+    } catch {
+      // 不是 JSON，按普通文本处理
+    }
+  } else if (/^\s*<svg[\s>]/i.test(text) || /^<\?xml[^>]*>\s*<svg[\s>]/i.test(text)) {
+    return { description: 'SVG Scalable Vector Graphics image', mime: 'image/svg+xml' };
+  } else if (/^<\?xml\s/.test(text)) {
+    kind = 'XML 1.0 document';
+    mime = 'text/xml';
+  } else if (/^\s*<!doctype html|^\s*<html[\s>]/i.test(text)) {
+    kind = 'HTML document';
+    mime = 'text/html';
+  }
+
+  const features: string[] = [];
+  if (text.split('\n').some((line) => line.length > LongLineLength)) {
+    features.push('with very long lines');
+  }
+  if (text.includes('\r\n')) {
+    features.push('with CRLF line terminators');
+  } else if (!text.includes('\n')) {
+    features.push('with no line terminators');
+  }
+
+  const description = [kind ? `${kind}, ${encoding}` : encoding, ...features].join(', ');
+  return { description, mime: `${mime}; charset=${charset}` };
+}
+
+/**
+ * 根据内容识别文件类型
+ */
+function detect(bytes: Uint8Array): FileKind {
+  if (bytes.length === 0) {
+    return { description: 'empty', mime: 'inode/x-empty; charset=binary' };
+  }
+
+  const binary = detectBinary(bytes);
+  if (binary) {
+    return { ...binary, mime: `${binary.mime}; charset=binary` };
+  }
+
+  // 文本中只允许常见的控制字符（制表、换行、回车、换页、退格、ESC）
+  const allowed = new Set([0x08, 0x09, 0x0a, 0x0c, 0x0d, 0x1b]);
+  let ascii = true;
+  for (const byte of bytes) {
+    if ((byte < 0x20 && !allowed.has(byte)) || byte === 0x7f) {
+      return { description: 'data', mime: 'application/octet-stream; charset=binary' };
+    }
+    if (byte >= 0x80) ascii = false;
+  }
+
+  if (ascii) {
+    return detectText(decodeText(bytes), true);
+  }
+  try {
+    return detectText(strictDecoder.decode(bytes), false);
+  } catch {
+    return { description: 'ISO-8859 text', mime: 'text/plain; charset=iso-8859-1' };
+  }
+}
+
+export const file: CommandDefinition = {
+  name: 'file',
+  description: 'Determine file type',
+  usage: 'file [-b] [-i] [-L] FILE...',
+  execute({ vfs, args, flags, output, stdinBytes }) {
+    const brief = flags.has('b') || flags.has('brief');
+    const mime = flags.has('i') || flags.has('mime');
+    const dereference = flags.has('L') || flags.has('dereference');
+
+    if (args.length === 0) {
+      output.error('Usage: file [-b] [-i] [-L] FILE...');
+      return 1;
+    }
+
+    const names = args.map((path) => (path === '-' ? '/dev/stdin' : path));
+    const width = Math.max(...names.map((name) => name.length)) + 1;
+
+    args.forEach((path, index) => {
+      let result: string;
+
+      if (path === '-') {
+        const bytes = stdinBytes ?? new Uint8Array();
+        const kind = detect(bytes);
+        result = mime ? kind.mime : kind.description;
+      } else {
+        const stat = dereference ? vfs.stat(path) : vfs.lstat(path);
+        if (!stat) {
+          result = `cannot open \`${path}' (${strerror(vfs.lastError)})`;
+        } else if (stat.type === 'symlink') {
+          result = mime ? 'inode/symlink; charset=binary' : `symbolic link to ${vfs.readlink(path)}`;
+        } else if (stat.type === 'directory') {
+          result = mime ? 'inode/directory; charset=binary' : 'directory';
+        } else {
+          const bytes = vfs.readFileBytes(path);
+          if (bytes === null) {
+            result = 'regular file, no read permission';
+          } else {
+            const kind = detect(bytes);
+            result = mime ? kind.mime : kind.description;
+          }
+        }
+      }
+
+      // 与 GNU file 一致：出错时也输出到标准输出，退出码为 0
+      output.println(brief ? result : `${`${names[index]}:`.padEnd(width)} ${result}`);
+    });
+
+    return 0;
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
@@ -0,0 +1,394 @@
+import type { CommandDefinition, FileStat, OutputHandler, VirtualFileSystem } from '../types';
+import { basename, strerror } from '../vfs';
+import { globToRegExp } from '../glob';
+import { parseModeSpec, parsePermissions } from '../permissions';
+import { UserDatabase } from '../users';
+
+/** 遍历到的文件 */
+interface FoundFile {
+  /** 按起始路径拼接的路径 */
+  path: string;
+  /** 最后一级名称 */
+  name: string;
+  /** 文件本身的状态（不跟随符号链接） */
+  stat: FileStat;
+  /** 相对起始路径的层数 */
+  depth: number;
+}
+
+/** 表达式对文件求值的结果 */
+type Predicate = (file: FoundFile) => Promise<boolean>;
+
+/** 遍历选项（由 -maxdepth 等全局选项设置） */
+interface FindOptions {
+  maxDepth: number;
+  minDepth: number;
+  /** 先处理目录的内容再处理目录本身 */
+  depthFirst: boolean;
+}
+
+/** -exec ... {} + 收集的文件 */
+interface ExecBatch {
+  command: string[];
+  paths: string[];
+}
+
+/** -size 的单位 */
+const SizeUnits: Record<string, number> = {
+  b: 512, c: 1, w: 2, k: 1024, M: 1024 * 1024, G: 1024 * 1024 * 1024,
+};
+
+const DayMs = 24 * 60 * 60 * 1000;
+
+/**
+ * 解析 -size、-mtime 的数值参数（+N 大于，-N 小于，N 等于）
+ */
+function parseComparison(spec: string): ((value: number) => boolean) | null {
+  const match = spec.match(/^([+-]?)(\d+)$/);
+  if (!match) {
+    return null;
+  }
+  const target = Number(match[2]);
+  if (match[1] === '+') return (value) => value > target;
+  if (match[1] === '-') return (value) => value < target;
+  return (value) => value === target;
+}
+
+/**
+ * find 表达式解析器，生成对文件求值的函数
+ * 优先级从低到高：-o、-a（可省略）、!、括号与基本表达式
+ */
+class FindExpression {
+  private tokens: string[];
+  private pos = 0;
+  private vfs: VirtualFileSystem;
+  private output: OutputHandler;
+  private exec: (argv: string[]) => Promise<number>;
+  private batches: ExecBatch[] = [];
+  private now = Date.now();
+
+  /** 表达式中是否有动作（没有时对匹配的文件执行 -print） */
+  hasAction = false;
+  /** 执行动作时是否出错 */
+  failed = false;
+  options: FindOptions = { maxDepth: Infinity, minDepth: 0, depthFirst: false };
+
+  constructor(tokens: string[], vfs: VirtualFileSystem, output: OutputHandler, exec: (argv: string[]) => Promise<number>) {
+    this.tokens = tokens;
+    this.vfs = vfs;
+    this.output = output;
+    this.exec = exec;
+  }
+
+  parse(): Predicate {
+    if (this.tokens.length === 0) {
+      return async () => true;
+    }
+    const predicate = this.parseOr();
+    if (this.pos < this.tokens.length) {
+      throw new Error("invalid expression; you have too many ')'");
+    }
+    return predicate;
+  }
+
+  /**
+   * 执行 -exec ... {} + 收集的命令
+   */
+  async flush(): Promise<void> {
+    for (const { command, paths } of this.batches) {
+      if (paths.length === 0) {
+        continue;
+      }
+      const index = command.indexOf('{}');
+      const argv = [...command.slice(0, index), ...paths, ...command.slice(index + 1)];
+      if (await this.exec(argv) !== 0) {
+        this.failed = true;
+      }
+    }
+  }
+
+  private parseOr(): Predicate {
+    let left = this.parseAnd();
+    while (this.tokens[this.pos] === '-o' || this.tokens[this.pos] === '-or') {
+      this.pos++;
+      const first = left;
+      const right = this.parseAnd();
+      left = async (file) => (await first(file)) || right(file);
+    }
+    return left;
+  }
+
+  private parseAnd(): Predicate {
+    let left = this.parseNot();
+    for (;;) {
+      const token = this.tokens[this.pos];
+      if (token === undefined || token === '-o' || token === '-or' || token === ')') {
+        return left;
+      }
+      if (token === '-a' || token === '-and') {
+        this.pos++;
+      }
+      const first = left;
+      const right = this.parseNot();
+      left = async (file) => (await first(file)) && right(file);
+    }
+  }
+
+  private parseNot(): Predicate {
+    const token = this.tokens[this.pos];
+    if (token === '!' || token === '-not') {
+      this.pos++;
+      const inner = this.parseNot();
+      return async (file) => !(await inner(file));
+    }
+    if (token === '(') {
+      this.pos++;
+      const inner = this.parseOr();
+      if (this.tokens[this.pos] !== ')') {
+        throw new Error("invalid expression; I was expecting to find a ')' somewhere but did not see one.");
+      }
+      this.pos++;
+      return inner;
+    }
+    return this.parsePrimary();
+  }
+
+  /** 读取选项的参数 */
+  private argument(option: string): string {
+    const value = this.tokens[this.pos++];
+    if (value === undefined) {
+      throw new Error(`missing argument to \`${option}'`);
+    }
+    return value;
+  }
+
+  private parsePrimary(): Predicate {
+    const token = this.tokens[this.pos++];
+    if (token === undefined) {
+      throw new Error(`invalid expression; expected an expression after '${this.tokens[this.pos - 2]}'`);
+    }
+
+    switch (token) {
+      case '-name':
+      case '-iname': {
+        const regex = globToRegExp(this.argument(token), token === '-iname' ? 'i' : '');
+        return async (file) => regex.test(file.name);
+      }
+
+      case '-type': {
+        const names: Record<string, string> = { f: 'file', d: 'directory', l: 'symlink' };
+        const types = new Set(this.argument(token).split(',').map((type) => {
+          if (!names[type]) {
+            throw new Error(`Unknown argument to -type: ${type}`);
+          }
+          return names[type];
+        }));
+        return async (file) => types.has(file.stat.type);
+      }
+
+      case '-size': {
+        // 大小按单位向上取整后比较，默认单位为 512 字节的块
+        const value = this.argument(token);
+        const match = value.match(/^([+-]?\d+)([bcwkMG]?)$/);
+        const compare = match && parseComparison(match[1]);
+        if (!match || !compare) {
+          throw new Error(`invalid -size type \`${value}'`);
+        }
+        const unit = SizeUnits[match[2] || 'b'];
+        return async (file) => compare(Math.ceil(file.stat.size / unit));
+      }
+
+      case '-mtime': {
+        // 按修改至今的完整天数比较
+        const value = this.argument(token);
+        const compare = parseComparison(value);
+        if (!compare) {
+          throw new Error(`invalid argument \`${value}' to \`-mtime'`);
+        }
+        return async (file) => compare(Math.floor((this.now - file.stat.modifiedAt.getTime()) / DayMs));
+      }
+
+      case '-newer': {
+        const reference = this.argument(token);
+        const stat = this.vfs.stat(reference);
+        if (!stat) {
+          throw new Error(`'${reference}': ${strerror(this.vfs.lastError)}`);
+        }
+        const time = stat.modifiedAt.getTime();
+        return async (file) => file.stat.modifiedAt.getTime() > time;
+      }
+
+      case '-perm': {
+        // MODE 完全相同，-MODE 包含全部位，/MODE 包含任意位
+        const value = this.argument(token);
+        const prefix = value[0] === '-' || value[0] === '/' ? value[0] : '';
+        const mode = parseModeSpec(value.slice(prefix.length), 0, false);
+        if (mode === null) {
+          throw new Error(`invalid mode '${value}'`);
+        }
+        return async (file) => {
+          const bits = parsePermissions(file.stat.permissions) & 0o7777;
+          if (prefix === '-') return (bits & mode) === mode;
+          if (prefix === '/') return mode === 0 || (bits & mode) !== 0;
+          return bits === mode;
+        };
+      }
+
+      case '-user': {
+        const value = this.argument(token);
+        const users = new UserDatabase(this.vfs);
+        const name = /^\d+$/.test(value) ? users.getUserById(Number(value))?.name ?? value : value;
+        if (!users.getUser(name) && !/^\d+$/.test(value)) {
+          throw new Error(`'${value}' is not the name of a known user`);
+        }
+        return async (file) => file.stat.owner === name;
+      }
+
+      case '-maxdepth':
+      case '-mindepth': {
+        const value = this.argument(token);
+        if (!/^\d+$/.test(value)) {
+          throw new Error(`Expected a positive decimal integer argument to ${token}, but got '${value}'`);
+        }
+        if (token === '-maxdepth') this.options.maxDepth = Number(value);
+        else this.options.minDepth = Number(value);
+        return async () => true;
+      }
+
+      case '-depth':
+        this.options.depthFirst = true;
+        return async () => true;
+
+      case '-print':
+        this.hasAction = true;
+        return async (file) => {
+          this.output.println(file.path);
+          return true;
+        };
+
+      case '-delete':
+        // 删除需要先处理目录中的内容
+        this.hasAction = true;
+        this.options.depthFirst = true;
+        return async (file) => {
+          if (file.depth === 0 && file.path === '.') {
+            return true;
+          }
+          if (!this.vfs.rm(file.path)) {
+            this.output.error(`find: cannot delete '${file.path}': ${strerror(this.vfs.lastError)}`);
+            this.failed = true;
+            return false;
+          }
+          return true;
+        };
+
+      case '-exec': {
+        // 参数到 ; 为止，其中的 {} 替换为路径；以 {} + 结尾时收集全部路径后一次执行
+        this.hasAction = true;
+        const command: string[] = [];
+        for (;;) {
+          const arg = this.tokens[this.pos++];
+          if (arg === undefined || command.length === 0 && (arg === ';' || arg === '+')) {
+            throw new Error("missing argument to `-exec'");
+          }
+          if (arg === ';') {
+            return async (file) => {
+              const argv = command.map((part) => part.split('{}').join(file.path));
+              return await this.exec(argv) === 0;
+            };
+          }
+          if (arg === '+' && command[command.length - 1] === '{}') {
+            const batch: ExecBatch = { command, paths: [] };
+            this.batches.push(batch);
+            return async (file) => {
+              batch.paths.push(file.path);
+              return true;
+            };
+          }
+          command.push(arg);
+        }
+      }
+
+      default:
+        if (token.startsWith('-') || token === ')') {
+          throw new Error(token === ')' ? "invalid expression; you have too many ')'" : `unknown predicate \`${token}'`);
+        }
+        throw new Error(`paths must precede expression: \`${token}'`);
+    }
+  }
+}
+
+export const find: CommandDefinition = {
+  name: 'find',
+  description: 'Search for files in a directory hierarchy',
+  usage: 'find [PATH]... [EXPRESSION]',
+  async execute({ argv, vfs, output, shell }) {
+    // 表达式之前的参数都是起始路径
+    let start = 0;
+    while (start < argv.length && !argv[start].startsWith('-') && argv[start] !== '(' && argv[start] !== '!') {
+      start++;
+    }
+    const paths = start > 0 ? argv.slice(0, start) : ['.'];
+
+    const expression = new FindExpression(argv.slice(start), vfs, output, (command) => shell.exec(command));
+    let predicate: Predicate;
+    try {
+      const parsed = expression.parse();
+      predicate = expression.hasAction
+        ? parsed
+        : async (file) => {
+          if (await parsed(file)) {
+            output.println(file.path);
+          }
+          return true;
+        };
+    } catch (error) {
+      output.error(`find: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+    const { maxDepth, minDepth, depthFirst } = expression.options;
+
+    let exitCode = 0;
+    const visit = async (path: string, depth: number): Promise<void> => {
+      const stat = vfs.lstat(path);
+      if (!stat) {
+        output.error(`find: '${path}': ${strerror(vfs.lastError)}`);
+        exitCode = 1;
+        return;
+      }
+      const file: FoundFile = { path, name: basename(path), stat, depth };
+      const matches = depth >= minDepth;
+
+      if (matches && !depthFirst) {
+        await predicate(file);
+      }
+      if (stat.type === 'directory' && depth < maxDepth) {
+        const children = vfs.ls(path);
+        if (!children) {
+          output.error(`find: '${path}': ${strerror(vfs.lastError)}`);
+          exitCode = 1;
+        } else {
+          for (const child of children) {
+            await visit(`${path.replace(/\/+$/, '')}/${child.name}`, depth + 1);
+          }
+        }
+      }
+      if (matches && depthFirst) {
+        await predicate(file);
+      }
+    };
+
+    for (const path of paths) {
+      await visit(path, 0);
+    }
+    await expression.flush();
+
+    return exitCode || (expression.failed ? 1 : 0);
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
@@ -0,0 +1,303 @@
+import type { CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+import { colorize } from '../cli';
+import { escapeRegExp, translateRegExp } from '../regex';
+
+/** 不带参数的短选项 */
+const BooleanOptions = new Set('ivnclrREFwoqshH');
+
+/** 长选项对应的短选项 */
+const LongOptions: Record<string, string> = {
+  'ignore-case': 'i',
+  'invert-match': 'v',
+  'line-number': 'n',
+  count: 'c',
+  'files-with-matches': 'l',
+  recursive: 'r',
+  'dereference-recursive': 'R',
+  'extended-regexp': 'E',
+  'fixed-strings': 'F',
+  'word-regexp': 'w',
+  'only-matching': 'o',
+  quiet: 'q',
+  silent: 'q',
+  'no-messages': 's',
+  'no-filename': 'h',
+  'with-filename': 'H',
+  regexp: 'e',
+  'after-context': 'A',
+  'before-context': 'B',
+  context: 'C',
+};
+
+/** 单词组成字符 */
+const WordChar = '[A-Za-z0-9_]';
+
+export const grep: CommandDefinition = {
+  name: 'grep',
+  description: 'Print lines that match patterns',
+  usage: 'grep [-ivnclrREFwoqsHh] [-A NUM] [-B NUM] [-C NUM] [-e PATTERN]... PATTERN [FILE]...',
+  execute({ argv, vfs, output, stdin }) {
+    const flags = new Set<string>();
+    const patterns: string[] = [];
+    const operands: string[] = [];
+    let after = 0;
+    let before = 0;
+
+    // 选项可以出现在操作数之后，-- 之后的参数都是操作数
+    const setValue = (option: string, value: string | undefined): boolean => {
+      if (value === undefined) {
+        output.error(`grep: option requires an argument -- '${option}'`);
+        return false;
+      }
+      if (option === 'e') {
+        patterns.push(value);
+        return true;
+      }
+      if (!/^\d+$/.test(value)) {
+        output.error(`grep: ${value}: invalid context length argument`);
+        return false;
+      }
+      if (option !== 'B') after = Number(value);
+      if (option !== 'A') before = Number(value);
+      return true;
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      if (arg === '--') {
+        operands.push(...argv.slice(i + 1));
+        break;
+      }
+      if (arg.startsWith('--')) {
+        const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+        const option = LongOptions[name];
+        if (!option) {
+          output.error(`grep: unrecognized option '${arg}'`);
+          return 2;
+        }
+        if (BooleanOptions.has(option)) {
+          flags.add(option);
+        } else if (!setValue(option, inline ?? argv[++i])) {
+          return 2;
+        }
+      } else if (arg.startsWith('-') && arg.length > 1) {
+        // 选项组中需要参数的选项使用组中剩余的字符，没有剩余时使用下一个参数
+        for (let j = 1; j < arg.length; j++) {
+          const option = arg[j];
+          if ('ABCe'.includes(option)) {
+            if (!setValue(option, arg.slice(j + 1) || argv[++i])) return 2;
+            break;
+          }
+          if (!BooleanOptions.has(option)) {
+            output.error(`grep: invalid option -- '${option}'`);
+            output.error(`Usage: ${grep.usage}`);
+            return 2;
+          }
+          flags.add(option);
+        }
+      } else {
+        operands.push(arg);
+      }
+    }
+
+    // 没有 -e 时第一个操作数是模式
+    if (patterns.length === 0) {
+      const pattern = operands.shift();
+      if (pattern === undefined) {
+        output.error(`Usage: ${grep.usage}`);
+        return 2;
+      }
+      patterns.push(pattern);
+    }
+
+    const invert = flags.has('v');
+    const count = flags.has('c');
+    const listFiles = flags.has('l');
+    const quiet = flags.has('q');
+    const onlyMatching = flags.has('o');
+    const lineNumbers = flags.has('n');
+    const recursive = flags.has('r') || flags.has('R');
+    const followLinks = flags.has('R');
+    const silent = flags.has('s');
+    if (onlyMatching) {
+      after = before = 0;
+    }
+
+    // 多行的模式等同于多个模式，匹配任意一个即可
+    let regex: RegExp;
+    try {
+      const sources = patterns.flatMap((pattern) => pattern.split('\n')).map((pattern) => {
+        const source = flags.has('F') ? escapeRegExp(pattern) : translateRegExp(pattern, flags.has('E'));
+        return flags.has('w') ? `(?<!${WordChar})(?:${source})(?!${WordChar})` : `(?:${source})`;
+      });
+      regex = new RegExp(sources.join('|'), flags.has('i') ? 'gi' : 'g');
+    } catch (error) {
+      output.error(`grep: ${error instanceof Error ? error.message : String(error)}`);
+      return 2;
+    }
+    const test = (line: string) => {
+      regex.lastIndex = 0;
+      return regex.test(line);
+    };
+    // 非空的匹配（-o 和高亮只处理非空的匹配）
+    const matchesOf = (line: string) => {
+      regex.lastIndex = 0;
+      return [...line.matchAll(regex)].filter((match) => match[0] !== '');
+    };
+
+    let matched = false;
+    let failed = false;
+    let printedGroup = false;
+
+    const reportError = (message: string) => {
+      failed = true;
+      if (!silent) {
+        output.error(`grep: ${message}`);
+      }
+    };
+
+    const searchText = (name: string, content: string, binary: boolean, showName: boolean) => {
+      const lines = content.split('\n');
+      if (content.endsWith('\n')) {
+        lines.pop();
+      }
+
+      const separator = (sep: string) => colorize(sep, 'cyan');
+      const prefix = (index: number, sep: string) =>
+        (showName ? `${colorize(name, 'magenta')}${separator(sep)}` : '')
+        + (lineNumbers ? `${colorize(String(index + 1), 'green')}${separator(sep)}` : '');
+      const highlight = (line: string) => line.replace(regex, (match) => (match ? colorize(match, 'red') : match));
+
+      let selected = 0;
+      let lastPrinted = -2;
+      let afterRemaining = 0;
+      const printContext = (index: number) => {
+        output.println(`${prefix(index, '-')}${lines[index]}`);
+        lastPrinted = index;
+      };
+
+      for (let index = 0; index < lines.length; index++) {
+        const line = lines[index];
+        if (test(line) === invert) {
+          if (afterRemaining > 0) {
+            printContext(index);
+            afterRemaining--;
+          }
+          continue;
+        }
+
+        selected++;
+        matched = true;
+        if (quiet || listFiles) {
+          break;
+        }
+        if (count) {
+          continue;
+        }
+        if (binary) {
+          output.println(`Binary file ${name} matches`);
+          break;
+        }
+
+        // 不相连的匹配组之间用 -- 分隔
+        const start = Math.max(index - before, lastPrinted + 1);
+        if ((before > 0 || after > 0) && printedGroup && start > lastPrinted + 1) {
+          output.println(separator('--'));
+        }
+        printedGroup = true;
+        for (let j = start; j < index; j++) {
+          printContext(j);
+        }
+
+        if (onlyMatching) {
+          if (!invert) {
+            for (const match of matchesOf(line)) {
+              output.println(`${prefix(index, ':')}${colorize(match[0], 'red')}`);
+            }
+          }
+        } else {
+          output.println(`${prefix(index, ':')}${invert ? line : highlight(line)}`);
+        }
+        lastPrinted = index;
+        afterRemaining = after;
+      }
+
+      if (count) {
+        output.println(`${showName ? `${colorize(name, 'magenta')}${separator(':')}` : ''}${selected}`);
+      } else if (listFiles && selected > 0) {
+        output.println(colorize(name, 'magenta'));
+      }
+    };
+
+    // 含有 NUL 字节的文件按二进制文件处理，只报告是否匹配
+    const searchFile = (path: string, showName: boolean) => {
+      const bytes = vfs.readFileBytes(path);
+      const content = bytes && vfs.readFile(path);
+      if (bytes === null || content === null) {
+        reportError(`${path}: ${strerror(vfs.lastError)}`);
+        return;
+      }
+      searchText(path, content, bytes.includes(0), showName);
+    };
+
+    // 递归搜索时 -r 只跟随命令行中的符号链接，-R 跟随全部
+    const searchTree = (path: string, display: string, top: boolean, showName: boolean) => {
+      const stat = top || followLinks ? vfs.stat(path) : vfs.lstat(path);
+      if (!stat) {
+        reportError(`${display}: ${strerror(vfs.lastError)}`);
+        return;
+      }
+      if (stat.type === 'symlink') {
+        return;
+      }
+      if (stat.type !== 'directory') {
+        searchFile(path, showName);
+        return;
+      }
+      const children = vfs.ls(path);
+      if (!children) {
+        reportError(`${display}: ${strerror(vfs.lastError)}`);
+        return;
+      }
+      for (const child of children) {
+        const childPath = display ? `${display.replace(/\/+$/, '')}/${child.name}` : child.name;
+        searchTree(childPath, childPath, false, showName);
+        if (matched && quiet) return;
+      }
+    };
+
+    // 递归搜索且没有指定文件时搜索当前目录（显示的路径不带 ./）
+    if (operands.length === 0 && recursive) {
+      searchTree('.', '', true, !flags.has('h'));
+    } else if (operands.length === 0) {
+      searchText('(standard input)', stdin ?? '', false, flags.has('H'));
+    } else {
+      const showName = !flags.has('h') && (flags.has('H') || operands.length > 1
+        || (recursive && operands.some((path) => vfs.stat(path)?.type === 'directory')));
+      for (const path of operands) {
+        if (path === '-') {
+          searchText('(standard input)', stdin ?? '', false, showName);
+        } else if (recursive) {
+          searchTree(path, path, true, showName);
+        } else if (vfs.stat(path)?.type === 'directory') {
+          reportError(`${path}: Is a directory`);
+        } else {
+          searchFile(path, showName);
+        }
+        if (matched && quiet) break;
+      }
+    }
+
+    if (matched && quiet) {
+      return 0;
+    }
+    return failed ? 2 : matched ? 0 : 1;
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
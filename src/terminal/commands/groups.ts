@@ -0,0 +1,27 @@
+import type { CommandDefinition } from '../types';
+import { UserDatabase } from '../users';
+
+export const groups: CommandDefinition = {
+  name: 'groups',
+  description: 'Print the groups a user is in',
+  usage: 'groups [USER]...',
+  execute({ vfs, args, output }) {
+    if (args.length === 0) {
+      output.println(vfs.getCredentials().groups.join(' '));
+      return 0;
+    }
+
+    const users = new UserDatabase(vfs);
+    let exitCode = 0;
+    for (const name of args) {
+      const credentials = users.getCredentials(name);
+      if (!credentials) {
+        output.error(`groups: '${name}': no such user`);
+        exitCode = 1;
+        continue;
+      }
+      output.println(`${name} : ${credentials.groups.join(' ')}`);
+    }
+    return exitCode;
+  },
+};
@@ -0,0 +1,83 @@
+import type { CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+import { printBytes } from '../io';
+import { splitLines } from '../text';
+
+export const head: CommandDefinition = {
+  name: 'head',
+  description: 'Output the first part of files',
+  usage: 'head [-n [-]NUM] [-c [-]NUM] [-q|-v] [FILE]...',
+  execute({ argv, vfs, output, stdin, stdinBytes }) {
+    let count = 10;
+    let bytes = false;
+    let headers: boolean | null = null;
+    const paths: string[] = [];
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      const option = arg.match(/^(?:-([nc])|--(lines|bytes)=?)(.*)$/);
+      if (option) {
+        const value = option[3] || argv[++i];
+        bytes = option[1] === 'c' || option[2] === 'bytes';
+        if (value === undefined || !/^-?\d+$/.test(value)) {
+          output.error(`head: invalid number of ${bytes ? 'bytes' : 'lines'}: '${value ?? ''}'`);
+          return 1;
+        }
+        count = Number(value);
+      } else if (/^-\d+$/.test(arg)) {
+        // 旧的写法：-NUM 等同于 -n NUM
+        count = Number(arg.slice(1));
+        bytes = false;
+      } else if (arg === '-q' || arg === '--quiet' || arg === '--silent') {
+        headers = false;
+      } else if (arg === '-v' || arg === '--verbose') {
+        headers = true;
+      } else if (arg.startsWith('-') && arg !== '-') {
+        output.error(`head: invalid option -- '${arg.replace(/^-+/, '')}'`);
+        return 1;
+      } else {
+        paths.push(arg);
+      }
+    }
+
+    if (paths.length === 0) {
+      paths.push('-');
+    }
+    const showHeaders = headers ?? paths.length > 1;
+
+    // 负数表示除最后 NUM 行（字节）之外的全部内容
+    const end = (length: number) => (count >= 0 ? Math.min(count, length) : Math.max(0, length + count));
+
+    let exitCode = 0;
+    let first = true;
+    for (const path of paths) {
+      const content = path === '-' ? stdin ?? '' : vfs.readFile(path);
+      if (content === null) {
+        output.error(`head: cannot open '${path}' for reading: ${strerror(vfs.lastError)}`);
+        exitCode = 1;
+        continue;
+      }
+
+      if (showHeaders) {
+        output.print(`${first ? '' : '\n'}==> ${path === '-' ? 'standard input' : path} <==\n`);
+      }
+      first = false;
+
+      if (bytes) {
+        const data = path === '-' ? stdinBytes ?? new Uint8Array() : vfs.readFileBytes(path) ?? new Uint8Array();
+        printBytes(output, data.subarray(0, end(data.length)));
+      } else {
+        const lines = splitLines(content);
+        output.print(lines.slice(0, end(lines.length)).join(''));
+      }
+    }
+
+    return exitCode;
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
@@ -1,11 +1,12 @@
 import type { CommandDefinition, CommandContext } from '../types';
 import { colorize } from '../cli';
+import { pageOutput } from '../pager';
 
 export const help: CommandDefinition = {
   name: 'help',
   description: 'Display help information',
   usage: 'help [COMMAND]',
-  execute({ args, output }) {
+  async execute({ args, output, input }) {
     const commands: Record<string, { desc: string; usage: string }> = {
       ls: { desc: 'List directory contents', usage: 'ls [OPTION]... [FILE]...' },
       cd: { desc: 'Change the current directory', usage: 'cd [DIRECTORY]' },
@@ -20,6 +21,75 @@ export const help: CommandDefinition = {
       whoami: { desc: 'Print the current user', usage: 'whoami' },
       date: { desc: 'Print the current date and time', usage: 'date' },
       history: { desc: 'Show command history', usage: 'history' },
+      true: { desc: 'Do nothing, successfully', usage: 'true' },
+      false: { desc: 'Do nothing, unsuccessfully', usage: 'false' },
+      shopt: { desc: 'Set and unset shell options', usage: 'shopt [-s|-u] [-pq] [OPTNAME]...' },
+      test: { desc: 'Evaluate conditional expression', usage: 'test EXPRESSION' },
+      '[': { desc: 'Evaluate conditional expression', usage: '[ EXPRESSION ]' },
+      ':': { desc: 'Null command, always succeeds', usage: ': [ARG]...' },
+      break: { desc: 'Exit from a for, while or until loop', usage: 'break [N]' },
+      continue: { desc: 'Resume the next iteration of a loop', usage: 'continue [N]' },
+      return: { desc: 'Return from a shell function or sourced script', usage: 'return [N]' },
+      exit: { desc: 'Exit the shell', usage: 'exit [N]' },
+      local: { desc: 'Define local variables in a function', usage: 'local NAME[=VALUE]...' },
+      export: { desc: 'Set environment variables', usage: 'export [NAME[=VALUE]]...' },
+      unset: { desc: 'Unset shell variables', usage: 'unset NAME...' },
+      shift: { desc: 'Shift positional parameters', usage: 'shift [N]' },
+      source: { desc: 'Execute commands from a file in the current shell', usage: 'source FILE [ARG]...' },
+      '.': { desc: 'Execute commands from a file in the current shell', usage: '. FILE [ARG]...' },
+      sh: { desc: 'Run a shell script', usage: 'sh [-c COMMAND | -s | FILE] [ARG]...' },
+      bash: { desc: 'Run a shell script', usage: 'bash [-c COMMAND | -s | FILE] [ARG]...' },
+      chmod: { desc: 'Change file mode bits', usage: 'chmod [-R] [-v] [-c] [-f] MODE FILE...' },
+      chown: { desc: 'Change file owner and group', usage: 'chown [-R] OWNER[:[GROUP]] FILE...' },
+      chgrp: { desc: 'Change group ownership', usage: 'chgrp [-R] GROUP FILE...' },
+      umask: { desc: 'Display or set the file mode creation mask', usage: 'umask [-p] [-S] [MODE]' },
+      id: { desc: 'Print user and group information', usage: 'id [-u|-g|-G] [-n] [USER]' },
+      groups: { desc: 'Print the groups a user is in', usage: 'groups [USER]...' },
+      su: { desc: 'Run a shell as another user', usage: 'su [-] [-c COMMAND] [USER]' },
+      sudo: { desc: 'Execute a command as another user', usage: 'sudo [-u USER] [-i|-s] [-k] [-l] [-v] [-n] [-E] [COMMAND [ARG]...]' },
+      useradd: { desc: 'Create a new user', usage: 'useradd [-m] [-d HOME] [-s SHELL] [-u UID] [-g GROUP] [-G GROUPS] [-c COMMENT] LOGIN' },
+      passwd: { desc: 'Change user password', usage: 'passwd [-d|-l|-u] [USER]' },
+      ln: { desc: 'Make links between files', usage: 'ln [-s] [-f] [-n] [-v] TARGET [LINK_NAME]' },
+      readlink: { desc: 'Print resolved symbolic links or canonical file names', usage: 'readlink [-f|-e|-m] [-n] FILE...' },
+      file: { desc: 'Determine file type', usage: 'file [-b] [-i] [-L] FILE...' },
+      inotifywait: { desc: 'Wait for changes to files', usage: 'inotifywait [-m] [-r] [-q] [-e EVENT]... [-t SECONDS] [--format FMT] FILE...' },
+      df: { desc: 'Report file system space usage', usage: 'df [-h] [-i] [-k] [FILE]...' },
+      du: { desc: 'Estimate file space usage', usage: 'du [-a] [-s] [-c] [-h] [-b] [-d DEPTH] [FILE]...' },
+      tar: { desc: 'Create, extract or list tar archives', usage: 'tar -c|-x|-t [-z] [-v] -f ARCHIVE [-C DIR] [FILE]...' },
+      zip: { desc: 'Package and compress files into a zip archive', usage: 'zip [-r] [-q] [-y] ZIPFILE FILE...' },
+      unzip: { desc: 'List or extract files from a zip archive', usage: 'unzip [-l] [-o|-n] [-q] [-d DIR] ZIPFILE [MEMBER]...' },
+      cp: { desc: 'Copy files and directories', usage: 'cp [-r] [-i|-n] [-p] [-v] SOURCE... DEST' },
+      mv: { desc: 'Move or rename files', usage: 'mv [-i|-n] [-v] SOURCE... DEST' },
+      find: { desc: 'Search for files in a directory hierarchy', usage: 'find [PATH]... [EXPRESSION]' },
+      grep: { desc: 'Print lines that match patterns', usage: 'grep [-ivnclrREFwoqsHh] [-A NUM] [-B NUM] [-C NUM] [-e PATTERN]... PATTERN [FILE]...' },
+      head: { desc: 'Output the first part of files', usage: 'head [-n [-]NUM] [-c [-]NUM] [-q|-v] [FILE]...' },
+      tail: { desc: 'Output the last part of files', usage: 'tail [-n [+]NUM] [-c [+]NUM] [-f] [-q|-v] [FILE]...' },
+      wc: { desc: 'Print newline, word, and byte counts', usage: 'wc [-l] [-w] [-m] [-c] [FILE]...' },
+      sort: { desc: 'Sort lines of text files', usage: 'sort [-n] [-r] [-u] [-f] [-t SEP] [-k POS1[,POS2]]... [FILE]...' },
+      uniq: { desc: 'Report or omit repeated lines', usage: 'uniq [-c] [-d] [-u] [-i] [INPUT [OUTPUT]]' },
+      cut: { desc: 'Remove sections from each line of files', usage: 'cut -f LIST [-d DELIM] [-s] | -c LIST [FILE]...' },
+      tr: { desc: 'Translate or delete characters', usage: 'tr [-c] [-d] [-s] SET1 [SET2]' },
+      paste: { desc: 'Merge lines of files', usage: 'paste [-s] [-d LIST] [FILE]...' },
+      tee: { desc: 'Read from standard input and write to standard output and files', usage: 'tee [-a] [FILE]...' },
+      xargs: { desc: 'Build and execute command lines from standard input', usage: 'xargs [-0] [-d DELIM] [-n MAX-ARGS] [-I REPLACE] [-r] [-t] [COMMAND [ARG]...]' },
+      sed: { desc: 'Stream editor for filtering and transforming text', usage: 'sed [-nEs] [-i[SUFFIX]] [-e SCRIPT]... [-f SCRIPT-FILE]... [SCRIPT] [FILE]...' },
+      awk: { desc: 'Pattern scanning and text processing language', usage: "awk [-F FS] [-v VAR=VALUE]... [-f PROGFILE | 'PROGRAM'] [FILE | VAR=VALUE]..." },
+      nano: { desc: 'Simple full-screen text editor', usage: 'nano [FILE]' },
+      vi: { desc: 'Modal full-screen text editor', usage: 'vi [FILE]' },
+      vim: { desc: 'Modal full-screen text editor', usage: 'vim [FILE]' },
+      less: { desc: 'View file contents one screen at a time', usage: 'less [-Fi] [FILE]...' },
+      more: { desc: 'View file contents one screen at a time', usage: 'more [-i] [FILE]...' },
+      read: { desc: 'Read a line from standard input into variables', usage: 'read [-rs] [-p PROMPT] [-n NCHARS] [NAME]...' },
+      sleep: { desc: 'Delay for a specified amount of time', usage: 'sleep NUMBER[SUFFIX]...' },
+      timeout: { desc: 'Run a command with a time limit', usage: 'timeout [-s SIGNAL] [--preserve-status] DURATION COMMAND [ARG]...' },
+      yes: { desc: 'Output a string repeatedly until interrupted', usage: 'yes [STRING]...' },
+      jobs: { desc: 'Display status of jobs', usage: 'jobs [-lp] [JOBSPEC]...' },
+      fg: { desc: 'Move a job to the foreground', usage: 'fg [JOBSPEC]' },
+      bg: { desc: 'Resume stopped jobs in the background', usage: 'bg [JOBSPEC]...' },
+      kill: { desc: 'Send a signal to processes or jobs', usage: 'kill [-s SIGSPEC | -n SIGNUM | -SIGSPEC] PID | JOBSPEC ... or kill -l [SIGSPEC]' },
+      wait: { desc: 'Wait for jobs to complete and return their exit status', usage: 'wait [PID | JOBSPEC]...' },
+      ps: { desc: 'Report a snapshot of the current processes', usage: 'ps [-efA] [-p PID[,PID]...] [-u USER] [aux]' },
+      top: { desc: 'Display processes and system usage, refreshing periodically', usage: 'top [-b] [-d SECONDS] [-n ITERATIONS]' },
     };
 
     if (args.length > 0) {
@@ -34,18 +104,20 @@ export const help: CommandDefinition = {
         return 1;
       }
     } else {
-      output.println(colorize('\nAvailable commands:', 'cyan'));
-      output.println(colorize('─'.repeat(50), 'brightBlack'));
+      const lines = [colorize('\nAvailable commands:', 'cyan'), colorize('─'.repeat(50), 'brightBlack')];
 
       const maxNameLen = Math.max(...Object.keys(commands).map((c) => c.length));
 
       for (const [name, info] of Object.entries(commands).sort()) {
         const paddedName = name.padEnd(maxNameLen);
-        output.println(`  ${colorize(paddedName, 'green')}  ${info.desc}`);
+        lines.push(`  ${colorize(paddedName, 'green')}  ${info.desc}`);
       }
 
-      output.println(colorize('─'.repeat(50), 'brightBlack'));
-      output.println(`Type ${colorize('help COMMAND', 'yellow')} for more details.\n`);
+      lines.push(colorize('─'.repeat(50), 'brightBlack'));
+      lines.push(`Type ${colorize('help COMMAND', 'yellow')} for more details.\n`);
+
+      // 命令列表超过一屏时分页显示
+      await pageOutput(input, output, lines.join('\n') + '\n');
     }
 
     return 0;
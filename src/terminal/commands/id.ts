@@ -0,0 +1,40 @@
+import type { CommandDefinition } from '../types';
+import { UserDatabase } from '../users';
+
+export const id: CommandDefinition = {
+  name: 'id',
+  description: 'Print user and group information',
+  usage: 'id [-u|-g|-G] [-n] [USER]',
+  execute({ vfs, args, flags, output }) {
+    const users = new UserDatabase(vfs);
+    const name = args[0];
+
+    // 未指定用户时显示当前的有效身份
+    const credentials = name ? users.getCredentials(name) : vfs.getCredentials();
+    if (!credentials) {
+      output.error(`id: '${name}': no such user`);
+      return 1;
+    }
+
+    const groups = credentials.groups.map((group) => ({
+      name: group,
+      gid: users.getGroup(group)?.gid ?? Number(group),
+    }));
+    const primary = groups[0];
+    const useName = flags.has('n') || flags.has('name');
+
+    if (flags.has('u') || flags.has('user')) {
+      output.println(useName ? credentials.user : String(credentials.uid));
+    } else if (flags.has('g') || flags.has('group')) {
+      output.println(useName ? primary.name : String(primary.gid));
+    } else if (flags.has('G') || flags.has('groups')) {
+      output.println(groups.map((group) => (useName ? group.name : group.gid)).join(' '));
+    } else {
+      const list = groups.map((group) => `${group.gid}(${group.name})`).join(',');
+      output.println(
+        `uid=${credentials.uid}(${credentials.user}) gid=${primary.gid}(${primary.name}) groups=${list}`
+      );
+    }
+    return 0;
+  },
+};
@@ -12,6 +12,69 @@ import { help } from './help';
 import { whoami } from './whoami';
 import { date } from './date';
 import { history } from './history';
+import { trueCommand } from './true';
+import { falseCommand } from './false';
+import { shopt } from './shopt';
+import { test, bracket } from './test';
+import { colon } from './colon';
+import { breakCommand } from './break';
+import { continueCommand } from './continue';
+import { returnCommand } from './return';
+import { exit } from './exit';
+import { local } from './local';
+import { exportCommand } from './export';
+import { unset } from './unset';
+import { shift } from './shift';
+import { source, dot } from './source';
+import { sh, bash } from './sh';
+import { chmod } from './chmod';
+import { chown, chgrp } from './chown';
+import { umask } from './umask';
+import { id } from './id';
+import { groups } from './groups';
+import { su } from './su';
+import { sudo } from './sudo';
+import { useradd } from './useradd';
+import { passwd } from './passwd';
+import { ln } from './ln';
+import { readlink } from './readlink';
+import { file } from './file';
+import { inotifywait } from './inotifywait';
+import { df } from './df';
+import { du } from './du';
+import { tar } from './tar';
+import { zip } from './zip';
+import { unzip } from './unzip';
+import { cp } from './cp';
+import { mv } from './mv';
+import { find } from './find';
+import { grep } from './grep';
+import { head } from './head';
+import { tail } from './tail';
+import { wc } from './wc';
+import { sort } from './sort';
+import { uniq } from './uniq';
+import { cut } from './cut';
+import { tr } from './tr';
+import { paste } from './paste';
+import { tee } from './tee';
+import { xargs } from './xargs';
+import { sed } from './sed';
+import { awk } from './awk';
+import { nano } from './nano';
+import { vi, vim } from './vi';
+import { less, more } from './less';
+import { read } from './read';
+import { sleep } from './sleep';
+import { timeout } from './timeout';
+import { yes } from './yes';
+import { jobs } from './jobs';
+import { fg } from './fg';
+import { bg } from './bg';
+import { kill } from './kill';
+import { wait } from './wait';
+import { ps } from './ps';
+import { top } from './top';
 
 /**
  * 获取所有内置命令
@@ -31,6 +94,75 @@ export function getBuiltInCommands(): CommandDefinition[] {
     whoami,
     date,
     history,
+    trueCommand,
+    falseCommand,
+    shopt,
+    test,
+    bracket,
+    colon,
+    breakCommand,
+    continueCommand,
+    returnCommand,
+    exit,
+    local,
+    exportCommand,
+    unset,
+    shift,
+    source,
+    dot,
+    sh,
+    bash,
+    chmod,
+    chown,
+    chgrp,
+    umask,
+    id,
+    groups,
+    su,
+    sudo,
+    useradd,
+    passwd,
+    ln,
+    readlink,
+    file,
+    inotifywait,
+    df,
+    du,
+    tar,
+    zip,
+    unzip,
+    cp,
+    mv,
+    find,
+    grep,
+    head,
+    tail,
+    wc,
+    sort,
+    uniq,
+    cut,
+    tr,
+    paste,
+    tee,
+    xargs,
+    sed,
+    awk,
+    nano,
+    vi,
+    vim,
+    less,
+    more,
+    read,
+    sleep,
+    timeout,
+    yes,
+    jobs,
+    fg,
+    bg,
+    kill,
+    wait,
+    ps,
+    top,
   ];
 }
 
@@ -49,4 +181,73 @@ export {
   whoami,
   date,
   history,
+  trueCommand,
+  falseCommand,
+  shopt,
+  test,
+  bracket,
+  colon,
+  breakCommand,
+  continueCommand,
+  returnCommand,
+  exit,
+  local,
+  exportCommand,
+  unset,
+  shift,
+  source,
+  dot,
+  sh,
+  bash,
+  chmod,
+  chown,
+  chgrp,
+  umask,
+  id,
+  groups,
+  su,
+  sudo,
+  useradd,
+  passwd,
+  ln,
+  readlink,
+  file,
+  inotifywait,
+  df,
+  du,
+  tar,
+  zip,
+  unzip,
+  cp,
+  mv,
+  find,
+  grep,
+  head,
+  tail,
+  wc,
+  sort,
+  uniq,
+  cut,
+  tr,
+  paste,
+  tee,
+  xargs,
+  sed,
+  awk,
+  nano,
+  vi,
+  vim,
+  less,
+  more,
+  read,
+  sleep,
+  timeout,
+  yes,
+  jobs,
+  fg,
+  bg,
+  kill,
+  wait,
+  ps,
+  top,
 };
@@ -0,0 +1,186 @@
+import type { CommandDefinition, VFSEvent } from '../types';
+import { strerror } from '../vfs';
+import { signalStatus } from '../signals';
+
+/** -e 可用的事件名 */
+const EventNames = ['create', 'modify', 'delete', 'move', 'moved_from', 'moved_to', 'attrib'];
+
+/** 被监听的路径 */
+interface WatchTarget {
+  /** 命令行中给出的路径（用于输出） */
+  display: string;
+  /** 实际的绝对路径 */
+  path: string;
+}
+
+/**
+ * 计算事件路径相对于监听路径的位置，不在监听范围内时返回 null
+ * 返回 [所在目录, 文件名]，事件发生在被监听的路径本身时文件名为空
+ */
+function locate(target: WatchTarget, path: string, recursive: boolean): [string, string] | null {
+  const base = target.display === '/' ? '' : target.display.replace(/\/+$/, '');
+  if (path === target.path) {
+    return [target.display, ''];
+  }
+
+  const prefix = target.path === '/' ? '/' : `${target.path}/`;
+  if (!path.startsWith(prefix)) {
+    return null;
+  }
+  const relative = path.slice(prefix.length);
+  const slash = relative.lastIndexOf('/');
+  if (slash !== -1 && !recursive) {
+    return null;
+  }
+  const dir = slash === -1 ? '' : `${relative.slice(0, slash)}/`;
+  return [`${base}/${dir}`, relative.slice(slash + 1)];
+}
+
+/**
+ * 格式化一条事件
+ */
+function formatEvent(format: string, dir: string, name: string, events: string): string {
+  return format.replace(/%([wfe%])/g, (_, code: string) => {
+    switch (code) {
+      case 'w': return dir;
+      case 'f': return name;
+      case 'e': return events;
+      default: return '%';
+    }
+  });
+}
+
+export const inotifywait: CommandDefinition = {
+  name: 'inotifywait',
+  description: 'Wait for changes to files',
+  usage: 'inotifywait [-m] [-r] [-q] [-e EVENT]... [-t SECONDS] [--format FMT] FILE...',
+  async execute({ argv, vfs, output, signal }) {
+    let monitor = false;
+    let recursive = false;
+    let quiet = false;
+    let timeout = 0;
+    let format = '%w %e %f';
+    const selected = new Set<string>();
+    const paths: string[] = [];
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      if (arg === '-e' || arg === '--event') {
+        const value = argv[++i];
+        if (value === undefined) {
+          output.error(`inotifywait: option '${arg}' requires an argument`);
+          return 1;
+        }
+        for (const name of value.split(',')) {
+          if (!EventNames.includes(name.toLowerCase())) {
+            output.error(`inotifywait: '${name}' is not a valid event!  Run with the '--help' option to see a list of events.`);
+            return 1;
+          }
+          selected.add(name.toLowerCase());
+        }
+      } else if (arg === '-t' || arg === '--timeout') {
+        const value = argv[++i];
+        if (value === undefined || !/^\d+$/.test(value)) {
+          output.error(`inotifywait: invalid timeout value '${value ?? ''}'`);
+          return 1;
+        }
+        timeout = Number(value);
+      } else if (arg === '--format') {
+        const value = argv[++i];
+        if (value === undefined) {
+          output.error(`inotifywait: option '${arg}' requires an argument`);
+          return 1;
+        }
+        format = value;
+      } else if (arg === '--monitor') {
+        monitor = true;
+      } else if (arg === '--recursive') {
+        recursive = true;
+      } else if (arg === '--quiet') {
+        quiet = true;
+      } else if (/^-[mrq]+$/.test(arg)) {
+        monitor ||= arg.includes('m');
+        recursive ||= arg.includes('r');
+        quiet ||= arg.includes('q');
+      } else if (arg.startsWith('-') && arg !== '-') {
+        output.error(`inotifywait: unrecognized option '${arg}'`);
+        return 1;
+      } else {
+        paths.push(arg);
+      }
+    }
+
+    if (paths.length === 0) {
+      output.error('inotifywait: No files specified to watch!');
+      return 1;
+    }
+
+    const targets: WatchTarget[] = [];
+    for (const path of paths) {
+      const realPath = vfs.realpath(path);
+      if (realPath === null) {
+        output.error(`Couldn't watch ${path}: ${strerror(vfs.lastError)}`);
+        return 1;
+      }
+      const isDir = vfs.stat(path)?.type === 'directory';
+      targets.push({ display: isDir && !path.endsWith('/') ? `${path}/` : path, path: realPath });
+    }
+
+    const wanted = (name: string) => selected.size === 0 || selected.has(name)
+      || ((name === 'moved_from' || name === 'moved_to') && selected.has('move'));
+
+    if (!quiet) {
+      output.warn('Setting up watches.' + (recursive ? '  Beware: since -r was given, this may take a while!' : ''));
+      output.warn('Watches established.');
+    }
+
+    return new Promise<number>((resolve) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const stops: (() => void)[] = [];
+
+      const finish = (code: number) => {
+        stops.forEach((stop) => stop());
+        clearTimeout(timer);
+        signal.removeEventListener('abort', interrupt);
+        resolve(code);
+      };
+      // 被中断（Ctrl+C）时停止监听
+      const interrupt = () => finish(signalStatus(signal));
+
+      // 事件名对应的输出，重命名拆分为 MOVED_FROM 和 MOVED_TO
+      const report = (target: WatchTarget, event: VFSEvent) => {
+        const suffix = event.nodeType === 'directory' ? ',ISDIR' : '';
+        const changes: [string, string][] = event.type === 'rename'
+          ? [['moved_from', event.oldPath ?? event.path], ['moved_to', event.path]]
+          : [[event.type === 'chmod' ? 'attrib' : event.type, event.path]];
+
+        let reported = false;
+        for (const [name, path] of changes) {
+          const location = locate(target, path, recursive);
+          if (!location || !wanted(name)) {
+            continue;
+          }
+          output.println(formatEvent(format, location[0], location[1], name.toUpperCase() + suffix));
+          reported = true;
+        }
+        if (reported && !monitor) {
+          finish(0);
+        }
+      };
+
+      for (const target of targets) {
+        stops.push(vfs.watch(target.path, { recursive }, (event) => report(target, event)));
+      }
+      if (timeout > 0) {
+        timer = setTimeout(() => finish(2), timeout * 1000);
+      }
+      signal.addEventListener('abort', interrupt, { once: true });
+    });
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
@@ -0,0 +1,54 @@
+import type { CommandDefinition, JobInfo } from '../types';
+import { formatJob } from '../processes';
+
+export const jobs: CommandDefinition = {
+  name: 'jobs',
+  description: 'Display status of jobs',
+  usage: 'jobs [-lp] [JOBSPEC]...',
+  execute({ argv, output, shell }) {
+    const processes = shell.getProcessControl();
+    let showPid = false;
+    let pidOnly = false;
+
+    let i = 0;
+    for (; i < argv.length; i++) {
+      const arg = argv[i];
+      if (arg === '--') {
+        i++;
+        break;
+      }
+      if (!arg.startsWith('-') || arg === '-') break;
+
+      for (const option of arg.slice(1)) {
+        if (option === 'l') {
+          showPid = true;
+        } else if (option === 'p') {
+          pidOnly = true;
+        } else {
+          output.error(`jobs: -${option}: invalid option`);
+          output.error(`jobs: usage: ${jobs.usage}`);
+          return 2;
+        }
+      }
+    }
+
+    // 指定作业时只显示这些作业，否则显示全部作业（已结束的作业显示后移出作业表）
+    const specs = argv.slice(i);
+    let exitCode = 0;
+    const list: JobInfo[] = specs.length > 0 ? [] : processes.jobs();
+    for (const spec of specs) {
+      const job = processes.findJob(spec.startsWith('%') ? spec : `%${spec}`);
+      if (job) {
+        list.push(job);
+      } else {
+        output.error(`jobs: ${spec}: no such job`);
+        exitCode = 1;
+      }
+    }
+
+    for (const job of list) {
+      output.println(pidOnly ? String(job.pid) : formatJob(job, showPid));
+    }
+    return exitCode;
+  },
+};
@@ -0,0 +1,119 @@
+import type { CommandDefinition, OutputHandler } from '../types';
+import { Signals, parseSignal, signalName } from '../signals';
+
+/** kill -l 每行显示的信号数 */
+const SignalsPerLine = 5;
+
+/**
+ * 输出用法错误
+ */
+function usageError(output: OutputHandler): number {
+  output.error(`kill: usage: ${kill.usage}`);
+  return 2;
+}
+
+/**
+ * 列出信号（kill -l），指定参数时在名称和编号之间转换（被信号结束的退出码也可以转换）
+ */
+function listSignals(args: string[], output: OutputHandler): number {
+  if (args.length === 0) {
+    const entries = Object.entries(Signals).map(([name, number]) => `${String(number).padStart(2)}) SIG${name}`);
+    for (let i = 0; i < entries.length; i += SignalsPerLine) {
+      output.println(entries.slice(i, i + SignalsPerLine).join('\t'));
+    }
+    return 0;
+  }
+
+  let exitCode = 0;
+  for (const arg of args) {
+    const number = /^\d+$/.test(arg) && Number(arg) > 128 ? Number(arg) - 128 : null;
+    const signal = parseSignal(number !== null ? String(number) : arg);
+    if (signal === null) {
+      output.error(`kill: ${arg}: invalid signal specification`);
+      exitCode = 1;
+    } else {
+      output.println(/^\d+$/.test(arg) ? signalName(signal) : String(signal));
+    }
+  }
+  return exitCode;
+}
+
+export const kill: CommandDefinition = {
+  name: 'kill',
+  description: 'Send a signal to processes or jobs',
+  usage: 'kill [-s SIGSPEC | -n SIGNUM | -SIGSPEC] PID | JOBSPEC ... or kill -l [SIGSPEC]',
+  execute({ argv, output, vfs, shell }) {
+    const processes = shell.getProcessControl();
+    let signal = Signals.TERM;
+
+    let i = 0;
+    const first = argv[0];
+    if (first === '-l' || first === '-L') {
+      return listSignals(argv.slice(1), output);
+    }
+    if (first === '-s' || first === '-n') {
+      const value = argv[1];
+      if (value === undefined) {
+        output.error(`kill: ${first}: option requires an argument`);
+        return usageError(output);
+      }
+      const number = parseSignal(value);
+      if (number === null) {
+        output.error(`kill: ${value}: invalid signal specification`);
+        return 1;
+      }
+      signal = number;
+      i = 2;
+    } else if (first === '--') {
+      i = 1;
+    } else if (first !== undefined && first.startsWith('-') && first.length > 1) {
+      const number = parseSignal(first.slice(1));
+      if (number === null) {
+        output.error(`kill: ${first.slice(1)}: invalid signal specification`);
+        return 1;
+      }
+      signal = number;
+      i = 1;
+    }
+    if (argv[i] === '--') i++;
+
+    const targets = argv.slice(i);
+    if (targets.length === 0) {
+      return usageError(output);
+    }
+
+    const credentials = vfs.getCredentials();
+    let exitCode = 0;
+    for (const target of targets) {
+      let pid: number;
+      if (target.startsWith('%')) {
+        const job = processes.findJob(target);
+        if (!job || job.status === 'done') {
+          output.error(`kill: ${target}: no such job`);
+          exitCode = 1;
+          continue;
+        }
+        pid = job.pid;
+      } else if (/^\d+$/.test(target)) {
+        pid = Number(target);
+      } else {
+        output.error(`kill: ${target}: arguments must be process or job IDs`);
+        exitCode = 1;
+        continue;
+      }
+
+      // 普通用户只能向自己的进程发送信号
+      const process = processes.list().find((item) => item.pid === pid);
+      if (!process) {
+        output.error(`kill: (${pid}) - No such process`);
+        exitCode = 1;
+      } else if (process.user !== credentials.user && credentials.uid !== 0) {
+        output.error(`kill: (${pid}) - Operation not permitted`);
+        exitCode = 1;
+      } else {
+        processes.kill(pid, signal);
+      }
+    }
+    return exitCode;
+  },
+};
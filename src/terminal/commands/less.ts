@@ -0,0 +1,88 @@
+import type { CommandContext, CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+import { runPager } from '../pager';
+
+/** 支持的选项：-F 一屏能显示完时直接输出，-i 搜索时忽略大小写 */
+const PagerFlags = new Set(['F', 'i', 'quit-if-one-screen', 'ignore-case']);
+
+/**
+ * 分页显示文件或标准输入；标准输出不是终端时直接输出内容
+ */
+async function page(name: string, { vfs, args, flags, output, stdin, input }: CommandContext): Promise<number> {
+  for (const flag of flags) {
+    if (!PagerFlags.has(flag)) {
+      output.error(`${name}: invalid option -- '${flag}'`);
+      output.error(`Usage: ${name} [-Fi] [FILE]...`);
+      return 1;
+    }
+  }
+
+  let text = '';
+  let exitCode = 0;
+  if (args.length === 0) {
+    if (stdin === null) {
+      output.error(`${name}: missing filename`);
+      return 1;
+    }
+    text = stdin;
+  }
+  for (const path of args) {
+    const content = vfs.readFile(path);
+    if (content === null) {
+      output.error(`${name}: ${path}: ${strerror(vfs.lastError)}`);
+      exitCode = 1;
+      continue;
+    }
+    // 多个文件时在每个文件前显示文件名
+    if (args.length > 1) {
+      text += `::::::::::::::\n${path}\n::::::::::::::\n`;
+    }
+    text += content.endsWith('\n') || !content ? content : content + '\n';
+  }
+  if (args.length > 0 && exitCode !== 0 && !text) {
+    return exitCode;
+  }
+
+  const shown = output.isTerminal !== false && await runPager(input, {
+    text,
+    name: args.length === 1 ? args[0] : null,
+    more: name === 'more',
+    // more 在内容不足一屏时直接输出
+    quitIfOneScreen: name === 'more' || flags.has('F') || flags.has('quit-if-one-screen'),
+    ignoreCase: flags.has('i') || flags.has('ignore-case'),
+  });
+  if (!shown) {
+    output.print(text);
+  }
+  return exitCode;
+}
+
+/**
+ * 补全当前目录中的文件名
+ */
+function completeFile(partial: string, { vfs }: CommandContext): string[] {
+  const entries = vfs.ls('.') || [];
+  return entries
+    .filter((e) => e.name.startsWith(partial))
+    .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+}
+
+export const less: CommandDefinition = {
+  name: 'less',
+  description: 'View file contents one screen at a time',
+  usage: 'less [-Fi] [FILE]...',
+  execute(context) {
+    return page('less', context);
+  },
+  complete: completeFile,
+};
+
+export const more: CommandDefinition = {
+  name: 'more',
+  description: 'View file contents one screen at a time',
+  usage: 'more [-i] [FILE]...',
+  execute(context) {
+    return page('more', context);
+  },
+  complete: completeFile,
+};
@@ -0,0 +1,99 @@
+import type { CommandDefinition } from '../types';
+import { basename, strerror } from '../vfs';
+
+export const ln: CommandDefinition = {
+  name: 'ln',
+  description: 'Make links between files',
+  usage: 'ln [-s] [-f] [-n] [-v] TARGET [LINK_NAME] | ln [OPTION]... TARGET... DIRECTORY',
+  execute({ vfs, args, flags, output }) {
+    const symbolic = flags.has('s') || flags.has('symbolic');
+    const force = flags.has('f') || flags.has('force');
+    const noDereference = flags.has('n') || flags.has('no-dereference');
+    const verbose = flags.has('v') || flags.has('verbose');
+    const kind = symbolic ? 'symbolic link' : 'hard link';
+
+    if (args.length === 0) {
+      output.error('ln: missing file operand');
+      return 1;
+    }
+
+    // 最后一个参数是目录时在其中创建同名链接；-n 时指向目录的符号链接按普通文件处理
+    const last = args[args.length - 1];
+    const lastStat = args.length > 1 ? vfs.stat(last) : null;
+    const intoDirectory = lastStat?.type === 'directory'
+      && !(noDereference && vfs.lstat(last)?.type === 'symlink');
+
+    let targets: string[];
+    let linkName: (target: string) => string;
+    if (args.length === 1) {
+      targets = args;
+      linkName = (target) => basename(target);
+    } else if (intoDirectory) {
+      targets = args.slice(0, -1);
+      linkName = (target) => `${last.replace(/\/+$/, '')}/${basename(target)}`;
+    } else if (args.length === 2) {
+      targets = [args[0]];
+      linkName = () => last;
+    } else {
+      output.error(`ln: target '${last}' is not a directory`);
+      return 1;
+    }
+
+    let exitCode = 0;
+    for (const target of targets) {
+      const name = linkName(target);
+
+      if (!symbolic) {
+        const source = vfs.lstat(target);
+        if (!source) {
+          output.error(`ln: failed to access '${target}': ${strerror(vfs.lastError)}`);
+          exitCode = 1;
+          continue;
+        }
+        if (source.type === 'directory') {
+          output.error(`ln: ${target}: hard link not allowed for directory`);
+          exitCode = 1;
+          continue;
+        }
+      }
+
+      const existing = vfs.lstat(name);
+      if (existing && force) {
+        if (existing.type === 'directory') {
+          output.error(`ln: ${name}: cannot overwrite directory`);
+          exitCode = 1;
+          continue;
+        }
+        if (!symbolic && vfs.lstat(target)?.ino === existing.ino) {
+          output.error(`ln: '${target}' and '${name}' are the same file`);
+          exitCode = 1;
+          continue;
+        }
+        if (!vfs.rm(name)) {
+          output.error(`ln: cannot remove '${name}': ${strerror(vfs.lastError)}`);
+          exitCode = 1;
+          continue;
+        }
+      }
+
+      const created = symbolic ? vfs.symlink(target, name) : vfs.link(target, name);
+      if (!created) {
+        output.error(`ln: failed to create ${kind} '${name}': ${strerror(vfs.lastError)}`);
+        exitCode = 1;
+        continue;
+      }
+
+      if (verbose) {
+        output.println(`'${name}' ${symbolic ? '->' : '=>'} '${target}'`);
+      }
+    }
+
+    return exitCode;
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
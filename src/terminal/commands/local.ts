@@ -0,0 +1,25 @@
+import type { CommandDefinition } from '../types';
+
+export const local: CommandDefinition = {
+  name: 'local',
+  description: 'Define local variables in a function',
+  usage: 'local NAME[=VALUE]...',
+  execute({ argv, output, shell }) {
+    if (!shell.isInFunction()) {
+      output.error('local: can only be used in a function');
+      return 1;
+    }
+
+    let exitCode = 0;
+    for (const arg of argv) {
+      const match = arg.match(/^([A-Za-z_][A-Za-z0-9_]*)(?:=(.*))?$/s);
+      if (!match) {
+        output.error(`local: \`${arg}': not a valid identifier`);
+        exitCode = 1;
+        continue;
+      }
+      shell.setVariable(match[1], match[2] ?? '', { local: true });
+    }
+    return exitCode;
+  },
+};
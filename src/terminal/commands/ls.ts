@@ -1,73 +1,133 @@
-import type { CommandDefinition } from '../types';
+import type { CommandDefinition, FileStat } from '../types';
+import { strerror } from '../vfs';
 import { colorize } from '../cli';
+import { formatSize } from '../text';
+
+/** 要显示的项目 */
+interface ListItem {
+  /** 显示的名称（目录中的项目为文件名，文件参数为参数本身） */
+  name: string;
+  /** 访问该项目的路径 */
+  path: string;
+  stat: FileStat;
+}
+
+/**
+ * 排序: 目录在前，然后按名称排序
+ */
+function compareItems(a: ListItem, b: ListItem): number {
+  const aIsDirectory = a.stat.type === 'directory';
+  const bIsDirectory = b.stat.type === 'directory';
+  if (aIsDirectory !== bIsDirectory) {
+    return aIsDirectory ? -1 : 1;
+  }
+  return a.name.localeCompare(b.name);
+}
 
 export const ls: CommandDefinition = {
   name: 'ls',
   description: 'List directory contents',
   usage: 'ls [OPTION]... [FILE]...',
   execute({ vfs, args, flags, output }) {
-    const path = args[0] || '.';
+    const operands = args.length > 0 ? args : ['.'];
     const showAll = flags.has('a') || flags.has('all');
     const longFormat = flags.has('l');
     const humanReadable = flags.has('h') || flags.has('human-readable');
 
-    const entries = vfs.ls(path);
-    if (entries === null) {
-      output.error(`ls: cannot access '${path}': No such file or directory`);
-      return 2;
-    }
-
-    // 排序: 目录在前，然后按名称排序
-    const sorted = entries.sort((a, b) => {
-      if (a.type !== b.type) {
-        return a.type === 'directory' ? -1 : 1;
-      }
-      return a.name.localeCompare(b.name);
-    });
+    const print = (items: ListItem[]) => {
+      if (longFormat) {
+        // 长格式输出
+        for (const { name: itemName, path, stat } of items) {
+          const date = stat.modifiedAt.toLocaleString('en-US', {
+            month: 'short',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+          });
+          // 大小为字节数（文本按 UTF-8 编码计算）
+          const size = humanReadable ? formatSize(stat.size) : stat.size.toString();
 
-    // 始终显示 . 和 .. 当使用 -a 时
-    const displayEntries = showAll
-      ? sorted
-      : sorted.filter((e) => !e.name.startsWith('.'));
+          let name = itemName;
+          if (stat.type === 'directory') {
+            name = colorize(itemName, 'blue');
+          } else if (stat.type === 'symlink') {
+            name = `${colorize(itemName, 'cyan')} -> ${vfs.readlink(path)}`;
+          }
 
-    if (longFormat) {
-      // 长格式输出
-      for (const entry of displayEntries) {
-        const date = entry.modifiedAt.toLocaleString('en-US', {
-          month: 'short',
-          day: '2-digit',
-          hour: '2-digit',
-          minute: '2-digit',
+          output.println(
+            `${stat.permissions} ${String(stat.nlink).padStart(2)} ${stat.owner.padStart(4)} ${stat.group.padStart(4)} ${size.padStart(6)} ${date} ${name}`
+          );
+        }
+      } else {
+        // 短格式输出
+        const names = items.map(({ name, stat }) => {
+          if (stat.type === 'directory') {
+            return colorize(name, 'blue');
+          }
+          if (stat.type === 'symlink') {
+            return colorize(name, 'cyan');
+          }
+          if (name.endsWith('.sh') || stat.permissions.includes('x')) {
+            return colorize(name, 'green');
+          }
+          return name;
         });
-        const size = humanReadable
-          ? formatSize(entry.content?.length || 0)
-          : (entry.content?.length || 0).toString();
 
-        const name =
-          entry.type === 'directory'
-            ? colorize(entry.name, 'blue')
-            : entry.name;
+        output.println(names.join('  '));
+      }
+    };
 
-        output.println(
-          `${entry.permissions} ${entry.owner.padStart(4)} ${entry.group.padStart(4)} ${size.padStart(6)} ${date} ${name}`
-        );
+    // 与 GNU ls 一致：先显示文件参数，再逐个列出目录参数的内容
+    // 长格式显示符号链接本身，短格式跟随指向目录的符号链接
+    let exitCode = 0;
+    const files: ListItem[] = [];
+    const directories: ListItem[] = [];
+    for (const path of operands) {
+      const stat = longFormat ? vfs.lstat(path) : vfs.stat(path) ?? vfs.lstat(path);
+      if (!stat) {
+        output.error(`ls: cannot access '${path}': ${strerror(vfs.lastError)}`);
+        exitCode = 2;
+        continue;
       }
-    } else {
-      // 短格式输出
-      const names = displayEntries.map((entry) => {
-        if (entry.type === 'directory') {
-          return colorize(entry.name, 'blue');
-        }
-        if (entry.name.endsWith('.sh') || entry.permissions.includes('x')) {
-          return colorize(entry.name, 'green');
-        }
-        return entry.name;
-      });
+      (stat.type === 'directory' ? directories : files).push({ name: path, path, stat });
+    }
 
-      output.println(names.join('  '));
+    if (files.length > 0) {
+      print(files.sort(compareItems));
     }
 
-    return 0;
+    const showHeaders = operands.length > 1;
+    directories.sort(compareItems).forEach(({ path }, index) => {
+      const entries = vfs.ls(path);
+      if (entries === null) {
+        if (vfs.lastError === 'EACCES') {
+          output.error(`ls: cannot open directory '${path}': Permission denied`);
+        } else {
+          output.error(`ls: cannot access '${path}': ${strerror(vfs.lastError)}`);
+        }
+        exitCode = 2;
+        return;
+      }
+
+      if (showHeaders) {
+        if (files.length > 0 || index > 0) output.println();
+        output.println(`${path}:`);
+      }
+
+      // 始终显示 . 和 .. 当使用 -a 时
+      const items: ListItem[] = [];
+      for (const entry of entries) {
+        if (!showAll && entry.name.startsWith('.')) continue;
+        const entryPath = `${path.replace(/\/+$/, '')}/${entry.name}`;
+        const stat = vfs.lstat(entryPath);
+        if (stat) items.push({ name: entry.name, path: entryPath, stat });
+      }
+      if (items.length > 0) {
+        print(items.sort(compareItems));
+      }
+    });
+
+    return exitCode;
   },
   complete(partial, { vfs }) {
     const entries = vfs.ls('.') || [];
@@ -76,11 +136,3 @@ export const ls: CommandDefinition = {
       .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
   },
 };
-
-function formatSize(bytes: number): string {
-  if (bytes === 0) return '0B';
-  const k = 1024;
-  const sizes = ['B', 'K', 'M', 'G'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + sizes[i];
-}
@@ -1,4 +1,5 @@
 import type { CommandDefinition } from '../types';
+import { strerror } from '../vfs';
 
 export const mkdir: CommandDefinition = {
   name: 'mkdir',
@@ -13,7 +14,7 @@ export const mkdir: CommandDefinition = {
     let exitCode = 0;
     for (const path of args) {
       if (!vfs.mkdir(path)) {
-        output.error(`mkdir: cannot create directory '${path}': File exists`);
+        output.error(`mkdir: cannot create directory '${path}': ${strerror(vfs.lastError)}`);
         exitCode = 1;
       }
     }
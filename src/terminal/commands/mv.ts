@@ -0,0 +1,98 @@
+import type { CommandDefinition } from '../types';
+import { basename, strerror } from '../vfs';
+
+export const mv: CommandDefinition = {
+  name: 'mv',
+  description: 'Move or rename files',
+  usage: 'mv [-i|-n] [-v] SOURCE... DEST',
+  async execute({ vfs, args, flags, output, input }) {
+    const noClobber = flags.has('n') || flags.has('no-clobber');
+    const interactive = !noClobber && (flags.has('i') || flags.has('interactive'));
+    const verbose = flags.has('v') || flags.has('verbose');
+
+    if (args.length === 0) {
+      output.error('mv: missing file operand');
+      return 1;
+    }
+    if (args.length === 1) {
+      output.error(`mv: missing destination file operand after '${args[0]}'`);
+      return 1;
+    }
+
+    // 目标是已有的目录（或指向目录的链接）时移动到其中，多个源时目标必须是目录
+    const dest = args[args.length - 1];
+    const sources = args.slice(0, -1);
+    const destStat = vfs.stat(dest);
+    const intoDirectory = destStat?.type === 'directory';
+    if (sources.length > 1 && !intoDirectory) {
+      output.error(destStat
+        ? `mv: target '${dest}' is not a directory`
+        : `mv: target '${dest}': ${strerror(vfs.lastError)}`);
+      return 1;
+    }
+
+    let exitCode = 0;
+    for (const source of sources) {
+      const target = intoDirectory ? `${dest.replace(/\/+$/, '')}/${basename(source)}` : dest;
+
+      // 移动符号链接本身
+      const stat = vfs.lstat(source);
+      if (!stat) {
+        output.error(`mv: cannot stat '${source}': ${strerror(vfs.lastError)}`);
+        exitCode = 1;
+        continue;
+      }
+
+      const existing = vfs.lstat(target);
+      if (existing) {
+        if (existing.ino === stat.ino) {
+          output.error(`mv: '${source}' and '${target}' are the same file`);
+          exitCode = 1;
+          continue;
+        }
+        if (existing.type === 'directory' && stat.type !== 'directory') {
+          output.error(`mv: cannot overwrite directory '${target}' with non-directory`);
+          exitCode = 1;
+          continue;
+        }
+        if (existing.type !== 'directory' && stat.type === 'directory') {
+          output.error(`mv: cannot overwrite non-directory '${target}' with directory '${source}'`);
+          exitCode = 1;
+          continue;
+        }
+        // -n 不覆盖已有的目标，-i 询问
+        if (noClobber) {
+          continue;
+        }
+        if (interactive) {
+          const answer = await input.readLine({ prompt: `mv: overwrite '${target}'? ` });
+          if (!/^y/i.test(answer ?? '')) {
+            continue;
+          }
+        }
+      }
+
+      if (!vfs.mv(source, target)) {
+        if (vfs.lastError === 'EINVAL') {
+          output.error(`mv: cannot move '${source}' to a subdirectory of itself, '${target}'`);
+        } else {
+          output.error(`mv: cannot move '${source}' to '${target}': ${strerror(vfs.lastError)}`);
+        }
+        exitCode = 1;
+        continue;
+      }
+
+      if (verbose) {
+        output.println(`renamed '${source}' -> '${target}'`);
+      }
+    }
+
+    return exitCode;
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
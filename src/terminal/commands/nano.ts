@@ -0,0 +1,35 @@
+import type { CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+import { runEditor } from '../editor';
+
+export const nano: CommandDefinition = {
+  name: 'nano',
+  description: 'Simple full-screen text editor',
+  usage: 'nano [FILE]',
+  async execute({ vfs, args, output, input }) {
+    if (args.length > 1) {
+      output.error('nano: only one file can be edited at a time');
+      return 1;
+    }
+
+    // 文件不存在时作为新文件编辑，其他错误（如目录、没有读权限）直接报告
+    const path = args[0] ?? null;
+    const content = path === null ? null : vfs.readFile(path);
+    if (path !== null && content === null && vfs.lastError !== 'ENOENT') {
+      output.error(`nano: ${path}: ${strerror(vfs.lastError)}`);
+      return 1;
+    }
+
+    if (!(await runEditor(input, { mode: 'nano', vfs, path, content }))) {
+      output.error('nano: standard input is not a terminal');
+      return 1;
+    }
+    return 0;
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
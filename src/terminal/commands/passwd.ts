@@ -0,0 +1,64 @@
+import type { CommandDefinition } from '../types';
+import { UserDatabase } from '../users';
+
+export const passwd: CommandDefinition = {
+  name: 'passwd',
+  description: 'Change user password',
+  usage: 'passwd [-d|-l|-u] [USER]',
+  async execute({ args, flags, vfs, input, output }) {
+    const users = new UserDatabase(vfs);
+    const current = vfs.getCredentials();
+    const name = args[0] ?? current.user;
+    const isRoot = current.uid === 0;
+
+    if (!users.getUser(name)) {
+      output.error(`passwd: user '${name}' does not exist`);
+      return 1;
+    }
+    if (!isRoot && name !== current.user) {
+      output.error(`passwd: You may not view or modify password information for ${name}.`);
+      return 1;
+    }
+
+    // -d 删除密码，-l 锁定，-u 解锁（仅 root）
+    const admin = ['d', 'l', 'u'].find((flag) => flags.has(flag));
+    if (admin) {
+      if (!isRoot) {
+        output.error('passwd: Permission denied.');
+        return 1;
+      }
+      if (admin === 'd') users.setPassword(name, null);
+      else users.setLocked(name, admin === 'l');
+      output.println('passwd: password changed.');
+      return 0;
+    }
+
+    const fail = (message: string) => {
+      output.error(message);
+      output.error('passwd: Authentication token manipulation error');
+      output.error('passwd: password unchanged');
+      return 10;
+    };
+
+    output.println(`Changing password for ${name}.`);
+    if (!isRoot && users.getPasswordStatus(name) === 'P') {
+      const password = await input.readLine({ prompt: 'Current password: ', echo: false });
+      if (password === null || !users.verifyPassword(name, password)) {
+        return fail('passwd: Authentication failure');
+      }
+    }
+
+    const first = await input.readLine({ prompt: 'New password: ', echo: false });
+    if (!first) {
+      return fail('No password has been supplied.');
+    }
+    const second = await input.readLine({ prompt: 'Retype new password: ', echo: false });
+    if (first !== second) {
+      return fail('Sorry, passwords do not match.');
+    }
+
+    users.setPassword(name, first);
+    output.println('passwd: password updated successfully');
+    return 0;
+  },
+};
@@ -0,0 +1,138 @@
+import type { CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+
+/** 反斜杠转义对应的字符 */
+const Escapes: Record<string, string> = {
+  n: '\n', t: '\t', '\\': '\\', '0': '',
+};
+
+/**
+ * 解析 -d 的分隔符列表（\n、\t、\\ 和表示空字符串的 \0）
+ */
+function parseDelimiters(list: string): string[] {
+  const delimiters: string[] = [];
+  const chars = [...list];
+  for (let i = 0; i < chars.length; i++) {
+    if (chars[i] === '\\' && i + 1 < chars.length) {
+      delimiters.push(Escapes[chars[++i]] ?? chars[i]);
+    } else {
+      delimiters.push(chars[i]);
+    }
+  }
+  return delimiters;
+}
+
+export const paste: CommandDefinition = {
+  name: 'paste',
+  description: 'Merge lines of files',
+  usage: 'paste [-s] [-d LIST] [FILE]...',
+  execute({ argv, vfs, output, stdin }) {
+    let serial = false;
+    let delimiters = ['\t'];
+    const paths: string[] = [];
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      if (arg === '--') {
+        paths.push(...argv.slice(i + 1));
+        break;
+      }
+      if (arg.startsWith('--')) {
+        const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+        if (name === 'serial') {
+          serial = true;
+        } else if (name === 'delimiters') {
+          const value = inline ?? argv[++i];
+          if (value === undefined) {
+            output.error("paste: option '--delimiters' requires an argument");
+            return 1;
+          }
+          delimiters = parseDelimiters(value);
+        } else {
+          output.error(`paste: unrecognized option '${arg}'`);
+          return 1;
+        }
+      } else if (arg.startsWith('-') && arg.length > 1) {
+        // 选项组中的 -d 使用组中剩余的字符，没有剩余时使用下一个参数
+        for (let j = 1; j < arg.length; j++) {
+          const option = arg[j];
+          if (option === 'd') {
+            const value = arg.slice(j + 1) || argv[++i];
+            if (value === undefined) {
+              output.error("paste: option requires an argument -- 'd'");
+              return 1;
+            }
+            delimiters = parseDelimiters(value);
+            break;
+          }
+          if (option !== 's') {
+            output.error(`paste: invalid option -- '${option}'`);
+            return 1;
+          }
+          serial = true;
+        }
+      } else {
+        paths.push(arg);
+      }
+    }
+    if (delimiters.length === 0) {
+      delimiters = [''];
+    }
+
+    // 多次出现的 - 依次读取标准输入的各行
+    const stdinLines = (stdin ?? '').split('\n');
+    if (stdinLines[stdinLines.length - 1] === '') {
+      stdinLines.pop();
+    }
+    const inputs: string[][] = [];
+    const stdinIndexes: number[] = [];
+    for (const path of paths.length > 0 ? paths : ['-']) {
+      if (path === '-') {
+        stdinIndexes.push(inputs.length);
+        inputs.push([]);
+        continue;
+      }
+      const content = vfs.readFile(path);
+      if (content === null) {
+        output.error(`paste: ${path}: ${strerror(vfs.lastError)}`);
+        return 1;
+      }
+      const lines = content.split('\n');
+      if (content === '' || content.endsWith('\n')) {
+        lines.pop();
+      }
+      inputs.push(lines);
+    }
+    if (serial) {
+      stdinIndexes.forEach((index, order) => {
+        inputs[index] = order === 0 ? stdinLines : [];
+      });
+    } else if (stdinIndexes.length > 0) {
+      stdinLines.forEach((line, lineIndex) => {
+        inputs[stdinIndexes[lineIndex % stdinIndexes.length]].push(line);
+      });
+    }
+
+    // 分隔符列表循环使用
+    const join = (items: string[]) =>
+      items.reduce((line, item, index) => (index === 0 ? item : line + delimiters[(index - 1) % delimiters.length] + item), '');
+
+    if (serial) {
+      for (const lines of inputs) {
+        output.println(join(lines));
+      }
+      return 0;
+    }
+    const rows = Math.max(0, ...inputs.map((lines) => lines.length));
+    for (let row = 0; row < rows; row++) {
+      output.println(join(inputs.map((lines) => lines[row] ?? '')));
+    }
+    return 0;
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
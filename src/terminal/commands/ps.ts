@@ -0,0 +1,152 @@
+import type { CommandDefinition, OutputHandler } from '../types';
+import { processMemory, processName } from '../processes';
+
+/** 读取 /proc/meminfo 失败时使用的内存总量（kB） */
+const DefaultMemTotal = 4_046_420;
+
+/** 输出格式：默认、-f（完整）、u（面向用户的 BSD 格式） */
+type PsFormat = 'default' | 'full' | 'user';
+
+/**
+ * 输出用法错误
+ */
+function usageError(output: OutputHandler, message: string): number {
+  output.error(`error: ${message}`);
+  output.error('');
+  output.error('Usage:');
+  output.error(` ${ps.usage}`);
+  return 1;
+}
+
+/**
+ * 格式化时间为 HH:MM
+ */
+function formatClock(time: number): string {
+  const date = new Date(time);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+export const ps: CommandDefinition = {
+  name: 'ps',
+  description: 'Report a snapshot of the current processes',
+  usage: 'ps [-efA] [-p PID[,PID]...] [-u USER] [aux]',
+  execute({ argv, output, vfs, shell }) {
+    const processes = shell.getProcessControl();
+    let format: PsFormat = 'default';
+    let all = false;
+    let allWithTty = false;
+    let withoutTty = false;
+    const pids: number[] = [];
+    const users: string[] = [];
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      if (arg.startsWith('-')) {
+        // UNIX 风格选项，-p 和 -u 的值是选项的剩余部分或下一个参数
+        for (let j = 1; j < arg.length; j++) {
+          const option = arg[j];
+          if (option === 'e' || option === 'A') {
+            all = true;
+          } else if (option === 'f') {
+            format = 'full';
+          } else if (option === 'p' || option === 'u') {
+            const value = j + 1 < arg.length ? arg.slice(j + 1) : argv[++i];
+            if (value === undefined) {
+              return usageError(output, `list of ${option === 'p' ? 'process IDs' : 'users'} must follow -${option}`);
+            }
+            const items = value.split(/[,\s]+/).filter(Boolean);
+            if (option === 'u') {
+              users.push(...items);
+            } else if (items.every((item) => /^\d+$/.test(item))) {
+              pids.push(...items.map(Number));
+            } else {
+              return usageError(output, 'process ID list syntax error');
+            }
+            break;
+          } else {
+            return usageError(output, 'unsupported SysV option');
+          }
+        }
+      } else {
+        // BSD 风格选项（如 aux）
+        for (const option of arg) {
+          if (option === 'a') {
+            allWithTty = true;
+          } else if (option === 'x') {
+            withoutTty = true;
+          } else if (option === 'u') {
+            format = 'user';
+          } else {
+            return usageError(output, 'unsupported option (BSD syntax)');
+          }
+        }
+      }
+    }
+
+    // 默认只显示当前用户在当前终端上的进程
+    const user = vfs.getCredentials().user;
+    const shellTty = processes.list().find((process) => process.pid === processes.shellPid)?.tty;
+    const selected = processes.list().filter((process) => {
+      if (pids.length > 0 || users.length > 0) {
+        return pids.includes(process.pid) || users.includes(process.user);
+      }
+      if (all || (allWithTty && withoutTty)) return true;
+      if (allWithTty) return process.tty !== undefined;
+      if (withoutTty) return process.user === user;
+      return process.user === user && process.tty !== undefined && process.tty === shellTty;
+    });
+
+    const rows: string[] = [];
+    if (format === 'user') {
+      const memTotal = Number(vfs.readFile('/proc/meminfo')?.match(/^MemTotal:\s*(\d+)/m)?.[1] ?? DefaultMemTotal);
+      rows.push('USER         PID %CPU %MEM    VSZ   RSS TTY      STAT START   TIME COMMAND');
+      for (const process of selected) {
+        const { vsz, rss } = processMemory(process);
+        const stat = (process.state ?? 'S') + (process.pid === processes.shellPid ? 's' : '');
+        rows.push([
+          process.user.slice(0, 8).padEnd(8),
+          String(process.pid).padStart(7),
+          '0.0'.padStart(4),
+          (rss / memTotal * 100).toFixed(1).padStart(4),
+          String(vsz).padStart(6),
+          String(rss).padStart(5),
+          (process.tty ?? '?').padEnd(8),
+          stat.padEnd(4),
+          formatClock(process.startTime ?? Date.now()).padEnd(5),
+          '0:00'.padStart(6),
+          process.argv.join(' '),
+        ].join(' '));
+      }
+    } else if (format === 'full') {
+      rows.push('UID          PID    PPID  C STIME TTY          TIME CMD');
+      for (const process of selected) {
+        rows.push([
+          process.user.slice(0, 8).padEnd(8),
+          String(process.pid).padStart(7),
+          String(process.ppid).padStart(7),
+          '0'.padStart(2),
+          formatClock(process.startTime ?? Date.now()).padEnd(5),
+          (process.tty ?? '?').padEnd(8),
+          '00:00:00'.padStart(8),
+          process.argv.join(' '),
+        ].join(' '));
+      }
+    } else {
+      rows.push('    PID TTY          TIME CMD');
+      for (const process of selected) {
+        rows.push([
+          String(process.pid).padStart(7),
+          (process.tty ?? '?').padEnd(8),
+          '00:00:00'.padStart(8),
+          processName(process),
+        ].join(' '));
+      }
+    }
+
+    for (const row of rows) {
+      output.println(row);
+    }
+    // 指定的进程都不存在时退出码为 1
+    return selected.length > 0 || (pids.length === 0 && users.length === 0) ? 0 : 1;
+  },
+};
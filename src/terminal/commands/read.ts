@@ -0,0 +1,158 @@
+import type { CommandDefinition } from '../types';
+
+/** 默认的字段分隔符 */
+const DefaultIFS = ' \t\n';
+
+/**
+ * 按 IFS 拆分一行输入并分配给 count 个变量，最后一个变量得到剩余的全部内容
+ * 没有 -r 时反斜杠转义下一个字符（被转义的分隔符不拆分）
+ */
+function splitFields(line: string, ifs: string, count: number, raw: boolean): string[] {
+  // 标记每个字符是否被转义
+  const chars: { char: string; escaped: boolean }[] = [];
+  for (let i = 0; i < line.length; i++) {
+    if (!raw && line[i] === '\\' && i + 1 < line.length) {
+      chars.push({ char: line[++i], escaped: true });
+    } else if (!raw && line[i] === '\\') {
+      continue;
+    } else {
+      chars.push({ char: line[i], escaped: false });
+    }
+  }
+
+  const isSeparator = (i: number) => !chars[i].escaped && ifs.includes(chars[i].char);
+  const isSpace = (i: number) => isSeparator(i) && /\s/.test(chars[i].char);
+  const text = (start: number, end: number) => chars.slice(start, end).map((c) => c.char).join('');
+
+  const fields: string[] = [];
+  let i = 0;
+  while (i < chars.length && isSpace(i)) i++;
+
+  while (fields.length < count - 1 && i < chars.length) {
+    const start = i;
+    while (i < chars.length && !isSeparator(i)) i++;
+    fields.push(text(start, i));
+
+    // 跳过分隔符：连续的空白算一个，最多再跳过一个非空白的分隔符
+    while (i < chars.length && isSpace(i)) i++;
+    if (i < chars.length && isSeparator(i)) {
+      i++;
+      while (i < chars.length && isSpace(i)) i++;
+    }
+  }
+
+  // 最后一个变量得到剩余内容（去掉末尾的空白分隔符）
+  let end = chars.length;
+  while (end > i && isSpace(end - 1)) end--;
+  fields.push(text(i, end));
+  while (fields.length < count) fields.push('');
+  return fields;
+}
+
+export const read: CommandDefinition = {
+  name: 'read',
+  description: 'Read a line from standard input into variables',
+  usage: 'read [-rs] [-p PROMPT] [-n NCHARS] [NAME]...',
+  async execute({ argv, output, stdin, input, shell, signal }) {
+    let raw = false;
+    let silent = false;
+    let prompt = '';
+    let limit = Infinity;
+
+    let i = 0;
+    for (; i < argv.length; i++) {
+      const arg = argv[i];
+      if (arg === '--') {
+        i++;
+        break;
+      }
+      if (!arg.startsWith('-') || arg === '-') break;
+
+      // 选项可以合并（如 -sp PROMPT），-p 和 -n 的值是选项的剩余部分或下一个参数
+      for (let j = 1; j < arg.length; j++) {
+        const option = arg[j];
+        if (option === 'r') {
+          raw = true;
+        } else if (option === 's') {
+          silent = true;
+        } else if (option === 'p' || option === 'n') {
+          const value = j + 1 < arg.length ? arg.slice(j + 1) : argv[++i];
+          if (value === undefined) {
+            output.error(`read: -${option}: option requires an argument`);
+            output.error(`read: usage: ${read.usage}`);
+            return 2;
+          }
+          if (option === 'p') {
+            prompt = value;
+          } else if (!/^\d+$/.test(value)) {
+            output.error(`read: ${value}: invalid number`);
+            return 1;
+          } else {
+            limit = Number(value);
+          }
+          break;
+        } else {
+          output.error(`read: -${option}: invalid option`);
+          output.error(`read: usage: ${read.usage}`);
+          return 2;
+        }
+      }
+    }
+
+    const names = argv.slice(i);
+    for (const name of names) {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        output.error(`read: \`${name}': not a valid identifier`);
+        return 1;
+      }
+    }
+
+    let line: string | null;
+    if (stdin !== null) {
+      // 从管道或重定向读取，没有 -r 时行尾的反斜杠表示续行
+      line = shell.readInput('\n', limit);
+      while (line !== null && !raw && limit === Infinity && /(^|[^\\])(\\\\)*\\$/.test(line)) {
+        const next = shell.readInput('\n');
+        line = line.slice(0, -1) + (next ?? '');
+        if (next === null) break;
+      }
+    } else if (limit !== Infinity) {
+      // -n：读取指定个数的字符，遇到回车提前结束
+      let text: string | null = '';
+      let keyPrompt: string | undefined = prompt;
+      while (text !== null && [...text].length < limit) {
+        const key = await input.readKey({ prompt: keyPrompt, echo: !silent, signal });
+        keyPrompt = undefined;
+        if (key === null) {
+          text = null;
+        } else if (key === '\r') {
+          break;
+        } else if (!key.startsWith('\x1b') && key >= ' ' && key !== '\x7f') {
+          // 忽略方向键等控制序列和控制字符
+          text += key;
+        }
+      }
+      line = text;
+    } else {
+      line = await input.readLine({ prompt, echo: !silent, signal });
+    }
+
+    if (line === null) {
+      // 输入结束：变量被设置为空
+      for (const name of names.length > 0 ? names : ['REPLY']) {
+        shell.setVariable(name, '');
+      }
+      return 1;
+    }
+
+    // 没有指定变量时整行（不拆分）存入 REPLY
+    if (names.length === 0) {
+      shell.setVariable('REPLY', raw ? line : splitFields(line, '', 1, false)[0]);
+      return 0;
+    }
+
+    const fields = splitFields(line, shell.getVariable('IFS') ?? DefaultIFS, names.length, raw);
+    names.forEach((name, index) => shell.setVariable(name, fields[index]));
+    return 0;
+  },
+};
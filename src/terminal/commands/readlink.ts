@@ -0,0 +1,91 @@
+import type { CommandDefinition, VirtualFileSystem } from '../types';
+
+/** 规范化路径时最多跟随的符号链接数 */
+const MaxLinkDepth = 40;
+
+/**
+ * 规范化路径，最后一级（allowMissing 时任意一级）可以不存在
+ * 不存在的部分按字面拼接，悬空的符号链接继续跟随其目标
+ */
+function canonicalize(
+  vfs: VirtualFileSystem,
+  path: string,
+  allowMissing: boolean,
+  depth: number = 0
+): string | null {
+  const real = vfs.realpath(path);
+  if (real !== null || depth > MaxLinkDepth) {
+    return real;
+  }
+
+  const trimmed = path.replace(/\/+$/, '');
+  if (trimmed === '') {
+    return '/';
+  }
+  const slash = trimmed.lastIndexOf('/');
+  const parentPath = slash < 0 ? '.' : trimmed.slice(0, slash) || '/';
+  const name = trimmed.slice(slash + 1);
+
+  const parent = allowMissing
+    ? canonicalize(vfs, parentPath, true, depth + 1)
+    : vfs.realpath(parentPath);
+  if (parent === null) {
+    return null;
+  }
+  if (name === '.' || name === '') {
+    return parent;
+  }
+  if (name === '..') {
+    return parent.substring(0, parent.lastIndexOf('/')) || '/';
+  }
+
+  const full = parent === '/' ? `/${name}` : `${parent}/${name}`;
+  const target = vfs.readlink(full);
+  if (target !== null) {
+    const next = target.startsWith('/') ? target : `${parent === '/' ? '' : parent}/${target}`;
+    return canonicalize(vfs, next, allowMissing, depth + 1);
+  }
+  return full;
+}
+
+export const readlink: CommandDefinition = {
+  name: 'readlink',
+  description: 'Print resolved symbolic links or canonical file names',
+  usage: 'readlink [-f|-e|-m] [-n] FILE...',
+  execute({ vfs, args, flags, output }) {
+    const noNewline = flags.has('n') || flags.has('no-newline');
+
+    if (args.length === 0) {
+      output.error('readlink: missing operand');
+      return 1;
+    }
+
+    let exitCode = 0;
+    for (const path of args) {
+      let result: string | null;
+      if (flags.has('e') || flags.has('canonicalize-existing')) {
+        result = vfs.realpath(path);
+      } else if (flags.has('m') || flags.has('canonicalize-missing')) {
+        result = canonicalize(vfs, path, true);
+      } else if (flags.has('f') || flags.has('canonicalize')) {
+        result = canonicalize(vfs, path, false);
+      } else {
+        result = vfs.readlink(path);
+      }
+
+      // 与 GNU readlink 一致，失败时不输出错误信息
+      if (result === null) {
+        exitCode = 1;
+        continue;
+      }
+      // 多个参数时 -n 无效
+      if (noNewline && args.length === 1) {
+        output.print(result);
+      } else {
+        output.println(result);
+      }
+    }
+
+    return exitCode;
+  },
+};
@@ -0,0 +1,21 @@
+import type { CommandDefinition } from '../types';
+import { ControlFlow } from '../interpreter';
+
+export const returnCommand: CommandDefinition = {
+  name: 'return',
+  description: 'Return from a shell function or sourced script',
+  usage: 'return [N]',
+  execute({ argv, output, shell }) {
+    if (!shell.canReturn()) {
+      output.error("return: can only `return' from a function or sourced script");
+      return 1;
+    }
+
+    const value = argv[0] ?? shell.getVariable('?') ?? '0';
+    if (!/^-?[0-9]+$/.test(value)) {
+      output.error(`return: ${value}: numeric argument required`);
+      throw new ControlFlow('return', 2);
+    }
+    throw new ControlFlow('return', Number(value) & 255);
+  },
+};
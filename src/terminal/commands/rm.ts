@@ -1,12 +1,44 @@
-import type { CommandDefinition } from '../types';
+import type { CommandDefinition, FileType, OutputHandler, VirtualFileSystem } from '../types';
+import { strerror } from '../vfs';
+
+/**
+ * 删除文件，目录先逐个删除其中的项目，出错时报告出错的具体路径
+ * 目录中有项目删除失败时保留该目录，返回是否删除成功
+ */
+function removeTree(vfs: VirtualFileSystem, path: string, type: FileType, output: OutputHandler): boolean {
+  if (type === 'directory') {
+    const entries = vfs.ls(path);
+    if (entries === null) {
+      output.error(`rm: cannot remove '${path}': ${strerror(vfs.lastError)}`);
+      return false;
+    }
+    let removedAll = true;
+    for (const entry of entries) {
+      if (!removeTree(vfs, `${path.replace(/\/+$/, '')}/${entry.name}`, entry.type, output)) {
+        removedAll = false;
+      }
+    }
+    if (!removedAll) {
+      return false;
+    }
+  }
+
+  if (!vfs.rm(path)) {
+    output.error(`rm: cannot remove '${path}': ${strerror(vfs.lastError)}`);
+    return false;
+  }
+  return true;
+}
 
 export const rm: CommandDefinition = {
   name: 'rm',
   description: 'Remove files or directories',
   usage: 'rm [OPTION]... FILE...',
-  execute({ vfs, args, flags, output }) {
+  async execute({ vfs, args, flags, output, input }) {
     const recursive = flags.has('r') || flags.has('R') || flags.has('recursive');
     const force = flags.has('f') || flags.has('force');
+    const interactive = !force && (flags.has('i') || flags.has('interactive'));
+    const preserveRoot = !flags.has('no-preserve-root');
 
     if (args.length === 0) {
       if (!force) {
@@ -17,10 +49,10 @@ export const rm: CommandDefinition = {
 
     let exitCode = 0;
     for (const path of args) {
-      const stat = vfs.stat(path);
+      const stat = vfs.lstat(path);
       if (!stat) {
-        if (!force) {
-          output.error(`rm: cannot remove '${path}': No such file or directory`);
+        if (!force || vfs.lastError !== 'ENOENT') {
+          output.error(`rm: cannot remove '${path}': ${strerror(vfs.lastError)}`);
           exitCode = 1;
         }
         continue;
@@ -31,11 +63,21 @@ export const rm: CommandDefinition = {
         exitCode = 1;
         continue;
       }
+      if (stat.type === 'directory' && preserveRoot && vfs.realpath(path) === '/') {
+        output.error(`rm: it is dangerous to operate recursively on '${path}'`);
+        output.error('rm: use --no-preserve-root to override this failsafe');
+        exitCode = 1;
+        continue;
+      }
 
-      if (!vfs.rm(path, recursive)) {
-        if (!force) {
-          output.error(`rm: cannot remove '${path}': Permission denied`);
-        }
+      // -i 时逐个确认
+      if (interactive) {
+        const kind = stat.type === 'directory' ? 'directory' : stat.type === 'symlink' ? 'symbolic link' : 'regular file';
+        const answer = await input.readLine({ prompt: `rm: remove ${kind} '${path}'? ` });
+        if (!/^y/i.test(answer ?? '')) continue;
+      }
+
+      if (!removeTree(vfs, path, stat.type, output)) {
         exitCode = 1;
       }
     }
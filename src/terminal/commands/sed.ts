@@ -0,0 +1,896 @@
+import type { CommandDefinition, VirtualFileSystem } from '../types';
+import { strerror } from '../vfs';
+import { translateRegExp } from '../regex';
+
+/** 地址（regex 为 null 表示复用上一次使用的正则表达式） */
+type Address =
+  | { type: 'line'; line: number }
+  | { type: 'last' }
+  | { type: 'regex'; regex: RegExp | null }
+  | { type: 'step'; first: number; step: number }
+  | { type: 'relative'; count: number };
+
+/** 替换文本的组成部分：普通文本或分组编号（0 表示整个匹配） */
+type ReplacementPart = string | number;
+
+/** 命令的动作 */
+type SedAction =
+  | { name: 's'; regex: RegExp | null; replacement: ReplacementPart[]; global: boolean; occurrence: number; print: boolean }
+  | { name: 'y'; map: Map<string, string> }
+  | { name: 'a' | 'i' | 'c'; text: string }
+  | { name: 'r'; path: string }
+  | { name: 'b' | 't' | 'T'; label: string; target: number }
+  | { name: ':'; label: string }
+  | { name: '{'; end: number }
+  | { name: 'q' | 'Q'; exitCode: number }
+  | { name: '}' | 'd' | 'D' | 'p' | 'P' | 'n' | 'N' | '=' | 'h' | 'H' | 'g' | 'G' | 'x' };
+
+/** 编译后的命令 */
+interface SedCommand {
+  address1: Address | null;
+  address2: Address | null;
+  negate: boolean;
+  /** 范围地址是否已开始 */
+  active: boolean;
+  /** addr1,+N 范围的结束行 */
+  endLine: number;
+  action: SedAction;
+}
+
+/** 不带参数的命令 */
+const SimpleCommands = new Set('}dDpPnN=hHgGx');
+
+/**
+ * 脚本解析器：多个 -e 表达式共享同一个命令列表，{ } 可以跨表达式
+ */
+class SedParser {
+  readonly commands: SedCommand[] = [];
+  private blocks: number[] = [];
+  private script = '';
+  private pos = 0;
+  private source = '';
+  private extended: boolean;
+
+  constructor(extended: boolean) {
+    this.extended = extended;
+  }
+
+  /**
+   * 解析一段脚本，source 是错误信息中的来源（如 -e expression #1）
+   */
+  parse(script: string, source: string): void {
+    this.script = script;
+    this.source = source;
+    this.pos = 0;
+
+    for (;;) {
+      this.skip(/[\s;]/);
+      if (this.pos >= this.script.length) {
+        return;
+      }
+      if (this.peek() === '#') {
+        this.skipLine();
+        continue;
+      }
+
+      const command: SedCommand = {
+        address1: this.parseAddress(false),
+        address2: null,
+        negate: false,
+        active: false,
+        endLine: 0,
+        action: { name: 'd' },
+      };
+      if (command.address1 && this.peek() === ',') {
+        this.pos++;
+        this.skip(/[ \t]/);
+        command.address2 = this.parseAddress(true);
+        if (!command.address2) {
+          this.fail("unexpected `,'");
+        }
+      }
+      this.skip(/[ \t]/);
+      while (this.peek() === '!') {
+        command.negate = true;
+        this.pos++;
+        this.skip(/[ \t]/);
+      }
+
+      const name = this.script[this.pos++];
+      if (name === undefined || name === '\n' || name === ';') {
+        this.fail('missing command');
+      }
+      command.action = this.parseAction(name, command);
+      this.commands.push(command);
+    }
+  }
+
+  /**
+   * 检查未闭合的 { 并解析跳转标签
+   */
+  finish(): void {
+    if (this.blocks.length > 0) {
+      this.pos = 0;
+      this.fail("unmatched `{'");
+    }
+    const labels = new Map<string, number>();
+    this.commands.forEach((command, index) => {
+      if (command.action.name === ':') {
+        labels.set(command.action.label, index);
+      }
+    });
+    for (const { action } of this.commands) {
+      if (action.name === 'b' || action.name === 't' || action.name === 'T') {
+        const target = action.label ? labels.get(action.label) : this.commands.length;
+        if (target === undefined) {
+          throw new Error(`can't find label for jump to \`${action.label}'`);
+        }
+        action.target = target;
+      }
+    }
+  }
+
+  private parseAction(name: string, command: SedCommand): SedAction {
+    const { address1, address2 } = command;
+    if ((name === ':' || name === '}') && address1) {
+      this.fail(`${name} doesn't want any addresses`);
+    }
+    if ((name === 'q' || name === 'Q') && address2) {
+      this.fail('command only uses one address');
+    }
+
+    if (SimpleCommands.has(name)) {
+      if (name === '}') {
+        const start = this.blocks.pop();
+        if (start === undefined) {
+          this.fail("unexpected `}'");
+        }
+        const block = this.commands[start].action;
+        if (block.name === '{') {
+          block.end = this.commands.length;
+        }
+      }
+      this.endCommand();
+      return { name } as SedAction;
+    }
+
+    switch (name) {
+      case '{':
+        this.blocks.push(this.commands.length);
+        return { name, end: -1 };
+      case 's':
+        return this.parseSubstitute();
+      case 'y':
+        return this.parseTransliterate();
+      case 'a':
+      case 'i':
+      case 'c':
+        return { name, text: this.readText() };
+      case 'r':
+        this.skip(/[ \t]/);
+        return { name, path: this.readLine() };
+      case 'b':
+      case 't':
+      case 'T':
+        this.skip(/[ \t]/);
+        return { name, label: this.readLabel(), target: -1 };
+      case ':': {
+        this.skip(/[ \t]/);
+        const label = this.readLabel();
+        if (!label) {
+          this.fail('":" lacks a label');
+        }
+        return { name, label };
+      }
+      case 'q':
+      case 'Q': {
+        this.skip(/[ \t]/);
+        const digits = this.script.slice(this.pos).match(/^\d*/)![0];
+        this.pos += digits.length;
+        this.endCommand();
+        return { name, exitCode: Number(digits) };
+      }
+      case '#':
+        return this.fail("comments don't accept any addresses");
+    }
+    return this.fail(`unknown command: \`${name}'`);
+  }
+
+  private parseAddress(second: boolean): Address | null {
+    const rest = this.script.slice(this.pos);
+    const count = second ? rest.match(/^\+(\d+)/) : null;
+    if (count) {
+      this.pos += count[0].length;
+      return { type: 'relative', count: Number(count[1]) };
+    }
+
+    const number = rest.match(/^(\d+)(?:~(\d+))?/);
+    if (number) {
+      this.pos += number[0].length;
+      if (number[2] !== undefined) {
+        return { type: 'step', first: Number(number[1]), step: Number(number[2]) };
+      }
+      if (Number(number[1]) === 0) {
+        this.fail('invalid usage of line address 0');
+      }
+      return { type: 'line', line: Number(number[1]) };
+    }
+    if (rest[0] === '$') {
+      this.pos++;
+      return { type: 'last' };
+    }
+    if (rest[0] === '/' || rest[0] === '\\') {
+      if (rest[0] === '\\') this.pos++;
+      const delimiter = this.script[this.pos++];
+      const pattern = this.readDelimited(delimiter, 'unterminated address regex');
+      let flags = 'g';
+      while (this.peek() === 'I' || this.peek() === 'M') {
+        if (this.script[this.pos++] === 'I') flags += 'i';
+      }
+      return { type: 'regex', regex: this.compile(pattern, flags) };
+    }
+    return null;
+  }
+
+  private parseSubstitute(): SedAction {
+    const delimiter = this.script[this.pos++];
+    if (delimiter === undefined || delimiter === '\n' || delimiter === '\\') {
+      this.fail("unterminated `s' command");
+    }
+    const pattern = this.readDelimited(delimiter, "unterminated `s' command");
+    const replacementText = this.readDelimited(delimiter, "unterminated `s' command", false);
+
+    let global = false;
+    let print = false;
+    let occurrence = 0;
+    let flags = 'g';
+    for (;;) {
+      const flag = this.peek();
+      if (flag === 'g') {
+        global = true;
+      } else if (flag === 'p') {
+        if (print) this.fail("multiple `p' options to `s' command");
+        print = true;
+      } else if (flag === 'i' || flag === 'I') {
+        flags += 'i';
+      } else if (flag !== undefined && /\d/.test(flag)) {
+        const digits = this.script.slice(this.pos).match(/^\d+/)![0];
+        if (occurrence) this.fail("multiple number options to `s' command");
+        if (Number(digits) === 0) this.fail("number option to `s' command may not be zero");
+        occurrence = Number(digits);
+        this.pos += digits.length - 1;
+      } else if (flag === undefined || /[\s;}#]/.test(flag)) {
+        break;
+      } else {
+        this.fail("unknown option to `s'");
+      }
+      this.pos++;
+    }
+    this.endCommand();
+
+    const regex = this.compile(pattern, flags);
+    const replacement = this.parseReplacement(replacementText);
+    // 引用的分组不能超过正则表达式中的分组数量
+    const groups = regex ? new RegExp(`${regex.source}|`).exec('')!.length - 1 : 9;
+    for (const part of replacement) {
+      if (typeof part === 'number' && part > groups) {
+        this.fail(`invalid reference \\${part} on \`s' command's RHS`);
+      }
+    }
+    return { name: 's', regex, replacement, global, occurrence: occurrence || 1, print };
+  }
+
+  private parseReplacement(text: string): ReplacementPart[] {
+    const parts: ReplacementPart[] = [];
+    let literal = '';
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (char === '&') {
+        parts.push(literal, 0);
+        literal = '';
+      } else if (char === '\\' && i + 1 < text.length) {
+        const next = text[++i];
+        if (/\d/.test(next)) {
+          parts.push(literal, Number(next));
+          literal = '';
+        } else {
+          literal += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+        }
+      } else {
+        literal += char;
+      }
+    }
+    parts.push(literal);
+    return parts.filter((part) => part !== '');
+  }
+
+  private parseTransliterate(): SedAction {
+    const delimiter = this.script[this.pos++];
+    if (delimiter === undefined || delimiter === '\n' || delimiter === '\\') {
+      this.fail("unterminated `y' command");
+    }
+    const unescape = (text: string) => [...text.replace(/\\(.)/gs, (_, char: string) => (char === 'n' ? '\n' : char === 't' ? '\t' : char))];
+    const source = unescape(this.readDelimited(delimiter, "unterminated `y' command", false));
+    const target = unescape(this.readDelimited(delimiter, "unterminated `y' command", false));
+    if (source.length !== target.length) {
+      this.fail("strings for `y' command are different lengths");
+    }
+    this.endCommand();
+    return { name: 'y', map: new Map(source.map((char, index) => [char, target[index]])) };
+  }
+
+  /**
+   * 读取 a、i、c 的文本：a\ 换行后的文本，或同一行中的文本（GNU 扩展）
+   * 行尾的反斜杠表示文本延续到下一行
+   */
+  private readText(): string {
+    this.skip(/[ \t]/);
+    if (this.peek() === '\\') {
+      this.pos++;
+      if (this.peek() === '\n') {
+        this.pos++;
+      } else {
+        this.skip(/[ \t]/);
+      }
+    }
+    if (this.pos >= this.script.length) {
+      this.fail("expected \\ after `a', `c' or `i'");
+    }
+
+    let text = '';
+    while (this.pos < this.script.length) {
+      const char = this.script[this.pos++];
+      if (char === '\n') {
+        break;
+      }
+      if (char === '\\' && this.pos < this.script.length) {
+        text += this.script[this.pos++];
+      } else {
+        text += char;
+      }
+    }
+    return text;
+  }
+
+  /**
+   * 读取以 delimiter 结尾的文本，\delimiter 表示分隔符本身，其他转义保持原样
+   * 反斜杠加换行在正则表达式中匹配换行，在替换文本中表示换行
+   */
+  private readDelimited(delimiter: string, error: string, regex = true): string {
+    let text = '';
+    while (this.pos < this.script.length) {
+      const char = this.script[this.pos++];
+      if (char === delimiter) {
+        return text;
+      }
+      if (char === '\n') {
+        break;
+      }
+      if (char === '\\' && this.pos < this.script.length) {
+        const next = this.script[this.pos++];
+        if (next === delimiter) {
+          text += delimiter;
+        } else if (next === '\n') {
+          text += regex ? '\\n' : '\n';
+        } else {
+          text += `\\${next}`;
+        }
+      } else {
+        text += char;
+      }
+    }
+    return this.fail(error);
+  }
+
+  private readLabel(): string {
+    const label = this.script.slice(this.pos).match(/^[^;\n]*/)![0];
+    this.pos += label.length;
+    return label.trim();
+  }
+
+  private readLine(): string {
+    const line = this.script.slice(this.pos).match(/^[^\n]*/)![0];
+    this.pos += line.length;
+    return line;
+  }
+
+  private compile(pattern: string, flags: string): RegExp | null {
+    if (pattern === '') {
+      return null;
+    }
+    try {
+      return new RegExp(translateRegExp(pattern, this.extended), flags);
+    } catch (error) {
+      return this.fail(error instanceof Error ? error.message.replace(/^Invalid regular expression: /, '') : String(error));
+    }
+  }
+
+  /**
+   * 命令之后只能是空白、分号、换行、} 或注释
+   */
+  private endCommand(): void {
+    this.skip(/[ \t]/);
+    const next = this.peek();
+    if (next !== undefined && !';\n}#'.includes(next)) {
+      this.fail('extra characters after command');
+    }
+  }
+
+  private peek(): string | undefined {
+    return this.script[this.pos];
+  }
+
+  private skip(pattern: RegExp): void {
+    while (this.pos < this.script.length && pattern.test(this.script[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private skipLine(): void {
+    while (this.pos < this.script.length && this.script[this.pos] !== '\n') {
+      this.pos++;
+    }
+  }
+
+  private fail(message: string): never {
+    throw new Error(`${this.source}, char ${this.pos}: ${message}`);
+  }
+}
+
+/**
+ * 执行编译后的命令，保持空间、范围状态和退出状态在多个输入流之间共享
+ */
+class SedExecutor {
+  /** 执行 q/Q 后停止处理 */
+  quit = false;
+  exitCode = 0;
+  private commands: SedCommand[];
+  private quiet: boolean;
+  private vfs: VirtualFileSystem;
+  private hold = '';
+  private lastRegex: RegExp | null = null;
+  private lineNumber = 0;
+  private isLast = false;
+
+  constructor(commands: SedCommand[], quiet: boolean, vfs: VirtualFileSystem) {
+    this.commands = commands;
+    this.quiet = quiet;
+    this.vfs = vfs;
+  }
+
+  /**
+   * 处理一个输入流，返回输出的文本
+   * 最后一行没有换行符时输出也不加换行符
+   */
+  run(content: string): string {
+    const lines = content.split('\n');
+    const missingNewline = !content.endsWith('\n');
+    if (!missingNewline || content === '') {
+      lines.pop();
+    }
+
+    let output = '';
+    let pendingNewline = false;
+    const write = (text: string, newline = true) => {
+      if (pendingNewline) {
+        output += '\n';
+        pendingNewline = false;
+      }
+      output += text;
+      if (newline) output += '\n';
+      else pendingNewline = true;
+    };
+
+    let index = 0;
+    this.lineNumber = 0;
+    const read = () => {
+      this.lineNumber++;
+      this.isLast = index === lines.length - 1;
+      return lines[index++];
+    };
+    const printSpace = (text: string) => write(text, !(this.isLast && missingNewline));
+
+    let space = '';
+    let reuse = false;
+    while (!this.quit && (reuse || index < lines.length)) {
+      if (!reuse) {
+        space = read();
+      }
+      reuse = false;
+
+      const appended: string[] = [];
+      const flushAppended = () => {
+        for (const text of appended.splice(0)) {
+          write(text.replace(/\n$/, ''), text.endsWith('\n'));
+        }
+      };
+      let substituted = false;
+      let autoprint = !this.quiet;
+      let pc = 0;
+
+      cycle: while (pc < this.commands.length) {
+        const command = this.commands[pc];
+        if (!this.matches(command, space)) {
+          pc = command.action.name === '{' ? command.action.end + 1 : pc + 1;
+          continue;
+        }
+        pc++;
+
+        const { action } = command;
+        switch (action.name) {
+          case 's': {
+            const result = this.substitute(action, space);
+            if (result !== null) {
+              space = result;
+              substituted = true;
+              if (action.print) printSpace(space);
+            }
+            break;
+          }
+          case 'y':
+            space = [...space].map((char) => action.map.get(char) ?? char).join('');
+            break;
+          case 'p':
+            printSpace(space);
+            break;
+          case 'P':
+            write(space.split('\n')[0]);
+            break;
+          case '=':
+            write(String(this.lineNumber));
+            break;
+          case 'a':
+            appended.push(`${action.text}\n`);
+            break;
+          case 'i':
+            write(action.text);
+            break;
+          case 'c':
+            // 范围中只在最后一行输出文本
+            if (command.negate || !command.address2 || !command.active) {
+              write(action.text);
+            }
+            autoprint = false;
+            break cycle;
+          case 'r': {
+            const text = this.vfs.readFile(action.path);
+            if (text) appended.push(text);
+            break;
+          }
+          case 'd':
+            autoprint = false;
+            break cycle;
+          case 'D': {
+            const newline = space.indexOf('\n');
+            autoprint = false;
+            if (newline >= 0) {
+              space = space.slice(newline + 1);
+              reuse = true;
+            }
+            break cycle;
+          }
+          case 'n':
+            // 没有下一行时结束（GNU 行为：仍然输出模式空间）
+            if (index >= lines.length) break cycle;
+            if (!this.quiet) printSpace(space);
+            flushAppended();
+            space = read();
+            break;
+          case 'N':
+            if (index >= lines.length) break cycle;
+            flushAppended();
+            space += `\n${read()}`;
+            break;
+          case 'h':
+            this.hold = space;
+            break;
+          case 'H':
+            this.hold += `\n${space}`;
+            break;
+          case 'g':
+            space = this.hold;
+            break;
+          case 'G':
+            space += `\n${this.hold}`;
+            break;
+          case 'x':
+            [space, this.hold] = [this.hold, space];
+            break;
+          case 'b':
+            pc = action.target;
+            break;
+          case 't':
+          case 'T':
+            if (substituted === (action.name === 't')) {
+              pc = action.target;
+            }
+            substituted = false;
+            break;
+          case 'q':
+          case 'Q':
+            this.quit = true;
+            this.exitCode = action.exitCode;
+            if (action.name === 'Q') autoprint = false;
+            break cycle;
+        }
+      }
+
+      if (autoprint) {
+        printSpace(space);
+      }
+      flushAppended();
+    }
+
+    return output;
+  }
+
+  /**
+   * 执行 s 命令，没有替换时返回 null
+   */
+  private substitute(action: Extract<SedAction, { name: 's' }>, text: string): string | null {
+    const regex = this.useRegex(action.regex);
+    let result = '';
+    let last = 0;
+    let count = 0;
+    let replaced = false;
+    regex.lastIndex = 0;
+    let end = -1;
+    for (const match of text.matchAll(regex)) {
+      // 紧接在上一个匹配之后的空匹配不算
+      if (match[0] === '' && match.index === end) {
+        continue;
+      }
+      end = match.index + match[0].length;
+      count++;
+      if (count < action.occurrence || (replaced && !action.global)) {
+        continue;
+      }
+      result += text.slice(last, match.index);
+      for (const part of action.replacement) {
+        result += typeof part === 'number' ? match[part] ?? '' : part;
+      }
+      last = match.index + match[0].length;
+      replaced = true;
+    }
+    return replaced ? result + text.slice(last) : null;
+  }
+
+  private matches(command: SedCommand, space: string): boolean {
+    return this.matchRange(command, space) !== command.negate;
+  }
+
+  private matchRange(command: SedCommand, space: string): boolean {
+    const { address1, address2 } = command;
+    if (!address1) {
+      return true;
+    }
+    if (!address2) {
+      return this.matchAddress(address1, space);
+    }
+
+    if (command.active) {
+      const end = address2.type === 'line' ? address2.line : address2.type === 'relative' ? command.endLine : null;
+      if (end !== null ? this.lineNumber >= end : address2.type === 'last' ? this.isLast : this.matchAddress(address2, space)) {
+        command.active = false;
+      }
+      return true;
+    }
+    if (!this.matchAddress(address1, space)) {
+      return false;
+    }
+    // 第二个地址是行号时，行号不大于当前行则只匹配一行
+    if (address2.type === 'line') {
+      command.active = address2.line > this.lineNumber;
+    } else if (address2.type === 'relative') {
+      command.endLine = this.lineNumber + address2.count;
+      command.active = address2.count > 0;
+    } else if (address2.type === 'last') {
+      command.active = !this.isLast;
+    } else {
+      command.active = true;
+    }
+    return true;
+  }
+
+  private matchAddress(address: Address, space: string): boolean {
+    switch (address.type) {
+      case 'line':
+        return this.lineNumber === address.line;
+      case 'last':
+        return this.isLast;
+      case 'step':
+        return address.step > 0
+          ? this.lineNumber >= address.first && (this.lineNumber - address.first) % address.step === 0
+          : this.lineNumber === address.first;
+      case 'relative':
+        return false;
+      case 'regex': {
+        const regex = this.useRegex(address.regex);
+        regex.lastIndex = 0;
+        return regex.test(space);
+      }
+    }
+  }
+
+  /**
+   * 空正则表达式复用上一次使用的正则表达式
+   */
+  private useRegex(regex: RegExp | null): RegExp {
+    const used = regex ?? this.lastRegex;
+    if (!used) {
+      throw new Error('no previous regular expression');
+    }
+    this.lastRegex = used;
+    return used;
+  }
+}
+
+export const sed: CommandDefinition = {
+  name: 'sed',
+  description: 'Stream editor for filtering and transforming text',
+  usage: 'sed [-nEs] [-i[SUFFIX]] [-e SCRIPT]... [-f SCRIPT-FILE]... [SCRIPT] [FILE]...',
+  execute({ argv, vfs, output, stdin }) {
+    const scripts: { text: string; source: string }[] = [];
+    const operands: string[] = [];
+    let quiet = false;
+    let extended = false;
+    let separate = false;
+    let inPlace: string | null = null;
+
+    // 选项可以出现在脚本和文件之后
+    const addScript = (kind: string, value: string | undefined): boolean => {
+      if (value === undefined) {
+        output.error(`sed: option requires an argument -- '${kind}'`);
+        output.error(`Usage: ${sed.usage}`);
+        return false;
+      }
+      if (kind === 'e') {
+        scripts.push({ text: value, source: `-e expression #${scripts.length + 1}` });
+        return true;
+      }
+      const text = vfs.readFile(value);
+      if (text === null) {
+        output.error(`sed: couldn't open file ${value}: ${strerror(vfs.lastError)}`);
+        return false;
+      }
+      scripts.push({ text: text.replace(/\n$/, ''), source: `file ${value}` });
+      return true;
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      if (arg === '--') {
+        operands.push(...argv.slice(i + 1));
+        break;
+      }
+      if (arg.startsWith('--')) {
+        const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+        if (name === 'quiet' || name === 'silent') quiet = true;
+        else if (name === 'regexp-extended') extended = true;
+        else if (name === 'separate') separate = true;
+        else if (name === 'in-place') inPlace = inline ?? '';
+        else if (name === 'expression' || name === 'file') {
+          if (!addScript(name[0], inline ?? argv[++i])) return 1;
+        } else {
+          output.error(`sed: unrecognized option '${arg}'`);
+          output.error(`Usage: ${sed.usage}`);
+          return 1;
+        }
+      } else if (arg.startsWith('-') && arg.length > 1) {
+        // -i 之后的字符是备份后缀，-e、-f 之后的字符是参数
+        for (let j = 1; j < arg.length; j++) {
+          const option = arg[j];
+          if (option === 'n') quiet = true;
+          else if (option === 'E' || option === 'r') extended = true;
+          else if (option === 's') separate = true;
+          else if (option === 'i') {
+            inPlace = arg.slice(j + 1);
+            break;
+          } else if (option === 'e' || option === 'f') {
+            if (!addScript(option, arg.slice(j + 1) || argv[++i])) return 1;
+            break;
+          } else {
+            output.error(`sed: invalid option -- '${option}'`);
+            output.error(`Usage: ${sed.usage}`);
+            return 1;
+          }
+        }
+      } else {
+        operands.push(arg);
+      }
+    }
+
+    // 没有 -e、-f 时第一个操作数是脚本
+    if (scripts.length === 0) {
+      const script = operands.shift();
+      if (script === undefined) {
+        output.error(`Usage: ${sed.usage}`);
+        return 1;
+      }
+      scripts.push({ text: script, source: '-e expression #1' });
+    }
+    // 脚本以 #n 开头的一行等同于 -n
+    if (/^#n(\n|$)/.test(scripts[0].text)) {
+      quiet = true;
+    }
+
+    const parser = new SedParser(extended);
+    try {
+      for (const { text, source } of scripts) {
+        parser.parse(text, source);
+      }
+      parser.finish();
+    } catch (error) {
+      output.error(`sed: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+
+    const executor = new SedExecutor(parser.commands, quiet, vfs);
+    let exitCode = 0;
+    const readInput = (path: string): string | null => {
+      if (path === '-') {
+        return stdin ?? '';
+      }
+      const content = vfs.readFile(path);
+      if (content === null) {
+        output.error(`sed: can't read ${path}: ${strerror(vfs.lastError)}`);
+        exitCode = 2;
+      }
+      return content;
+    };
+
+    try {
+      if (inPlace !== null) {
+        if (operands.length === 0) {
+          output.error('sed: no input files');
+          return 1;
+        }
+        // 每个文件单独处理，结果写回原文件
+        for (const path of operands) {
+          if (executor.quit) break;
+          if (vfs.getNode(path)?.type === 'directory') {
+            output.error(`sed: couldn't edit ${path}: not a regular file`);
+            exitCode = 4;
+            continue;
+          }
+          const content = readInput(path);
+          if (content === null) continue;
+          const result = executor.run(content);
+          if (inPlace && !vfs.writeFile(path + inPlace, content)) {
+            output.error(`sed: cannot rename ${path}: ${strerror(vfs.lastError)}`);
+            return 4;
+          }
+          if (!vfs.writeFile(path, result)) {
+            output.error(`sed: couldn't open file ${path}: ${strerror(vfs.lastError)}`);
+            return 4;
+          }
+        }
+      } else if (separate) {
+        for (const path of operands.length > 0 ? operands : ['-']) {
+          if (executor.quit) break;
+          const content = readInput(path);
+          if (content !== null) output.print(executor.run(content));
+        }
+      } else {
+        // 多个文件作为一个连续的输入流
+        const contents = (operands.length > 0 ? operands : ['-'])
+          .map(readInput)
+          .filter((content): content is string => content !== null);
+        const joined = contents.map((content, index) =>
+          index < contents.length - 1 && content && !content.endsWith('\n') ? `${content}\n` : content).join('');
+        output.print(executor.run(joined));
+      }
+    } catch (error) {
+      output.error(`sed: ${error instanceof Error ? error.message : String(error)}`);
+      return 4;
+    }
+
+    return executor.exitCode || exitCode;
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
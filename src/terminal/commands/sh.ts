@@ -0,0 +1,70 @@
+import type { CommandContext, CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+
+/**
+ * 在新的 shell 环境中执行脚本文件、-c 命令串或标准输入
+ */
+async function runShell(name: string, { argv, stdin, vfs, output, shell }: CommandContext): Promise<number> {
+  // 忽略 -e、-x 等暂不支持的选项
+  let index = 0;
+  let command: string | null = null;
+  let readStdin = false;
+  while (index < argv.length && argv[index].startsWith('-') && argv[index] !== '-') {
+    if (argv[index] === '-c') {
+      if (index + 1 >= argv.length) {
+        output.error(`${name}: -c: option requires an argument`);
+        return 2;
+      }
+      command = argv[index + 1];
+      index += 2;
+    } else if (argv[index] === '-s') {
+      readStdin = true;
+      index++;
+    } else {
+      index++;
+    }
+  }
+
+  const rest = argv.slice(index);
+
+  // -c 命令串：之后的第一个参数为 $0
+  if (command !== null) {
+    return shell.runScript(command, { name: rest[0] ?? name, args: rest.slice(1) });
+  }
+
+  // -s 或没有脚本文件时从标准输入读取，参数均为位置参数
+  if (readStdin || rest.length === 0) {
+    return shell.runScript(stdin ?? '', { name, args: rest });
+  }
+  if (rest[0] === '-') {
+    return shell.runScript(stdin ?? '', { name, args: rest.slice(1) });
+  }
+
+  const [path, ...args] = rest;
+  const content = vfs.readFile(path);
+  if (content === null) {
+    const error = vfs.lastError;
+    output.error(`${name}: ${path}: ${strerror(error)}`);
+    return error === 'ENOENT' ? 127 : 126;
+  }
+
+  return shell.runScript(content, { name: path, args });
+}
+
+export const sh: CommandDefinition = {
+  name: 'sh',
+  description: 'Run a shell script',
+  usage: 'sh [-c COMMAND | -s | FILE] [ARG]...',
+  execute(context) {
+    return runShell('sh', context);
+  },
+};
+
+export const bash: CommandDefinition = {
+  name: 'bash',
+  description: 'Run a shell script',
+  usage: 'bash [-c COMMAND | -s | FILE] [ARG]...',
+  execute(context) {
+    return runShell('bash', context);
+  },
+};
@@ -0,0 +1,21 @@
+import type { CommandDefinition } from '../types';
+
+export const shift: CommandDefinition = {
+  name: 'shift',
+  description: 'Shift positional parameters',
+  usage: 'shift [N]',
+  execute({ argv, output, shell }) {
+    const count = argv[0] ?? '1';
+    if (!/^[0-9]+$/.test(count)) {
+      output.error(`shift: ${count}: numeric argument required`);
+      return 1;
+    }
+
+    const params = shell.getPositionalParams();
+    if (Number(count) > params.length) {
+      return 1;
+    }
+    shell.setPositionalParams(params.slice(Number(count)));
+    return 0;
+  },
+};
@@ -0,0 +1,54 @@
+import type { CommandDefinition } from '../types';
+
+export const shopt: CommandDefinition = {
+  name: 'shopt',
+  description: 'Set and unset shell options',
+  usage: 'shopt [-s|-u] [-pq] [OPTNAME]...',
+  execute({ args, flags, output, shell }) {
+    const enable = flags.has('s');
+    const disable = flags.has('u');
+    const quiet = flags.has('q');
+    const reusable = flags.has('p');
+
+    if (enable && disable) {
+      output.error('shopt: cannot set and unset shell options simultaneously');
+      return 1;
+    }
+
+    const options = shell.getOptions();
+    // -p 以可以再次输入的 shopt 命令形式显示
+    const print = (name: string) => {
+      if (reusable) {
+        output.println(`shopt ${options[name] ? '-s' : '-u'} ${name}`);
+      } else {
+        output.println(`${name.padEnd(15)}\t${options[name] ? 'on' : 'off'}`);
+      }
+    };
+
+    // 未指定选项名：列出全部选项，或仅列出 -s/-u 对应状态的选项
+    if (args.length === 0) {
+      for (const name of Object.keys(options)) {
+        if (!(enable || disable) || options[name] === enable) {
+          print(name);
+        }
+      }
+      return 0;
+    }
+
+    let exitCode = 0;
+    for (const name of args) {
+      if (!(name in options)) {
+        output.error(`shopt: ${name}: invalid shell option name`);
+        exitCode = 1;
+      } else if (enable || disable) {
+        shell.setOption(name, enable);
+      } else {
+        // 查询模式：任一选项未开启时返回 1
+        if (!options[name]) exitCode = 1;
+        if (!quiet) print(name);
+      }
+    }
+
+    return exitCode;
+  },
+};
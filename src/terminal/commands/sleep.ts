@@ -0,0 +1,29 @@
+import type { CommandDefinition } from '../types';
+import { delay, parseDuration, signalStatus } from '../signals';
+
+export const sleep: CommandDefinition = {
+  name: 'sleep',
+  description: 'Delay for a specified amount of time',
+  usage: 'sleep NUMBER[SUFFIX]...',
+  async execute({ argv, output, signal }) {
+    if (argv.length === 0) {
+      output.error('sleep: missing operand');
+      output.error("Try 'sleep --help' for more information.");
+      return 1;
+    }
+
+    // 多个参数的时间相加，后缀 s/m/h/d 分别表示秒、分、时、天
+    let total = 0;
+    for (const arg of argv) {
+      const ms = parseDuration(arg);
+      if (ms === null) {
+        output.error(`sleep: invalid time interval '${arg}'`);
+        output.error("Try 'sleep --help' for more information.");
+        return 1;
+      }
+      total += ms;
+    }
+
+    return (await delay(total, signal)) ? 0 : signalStatus(signal);
+  },
+};
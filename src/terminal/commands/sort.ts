@@ -0,0 +1,187 @@
+import type { CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+
+/** -k 指定的排序键 */
+interface SortKey {
+  /** 起始字段（从 1 开始） */
+  start: number;
+  /** 结束字段，省略时到行尾 */
+  end: number;
+  /** 键的修饰符（n、r、f） */
+  modifiers: string;
+}
+
+/**
+ * 解析 -k 的参数（如 2、2,2、3n、1,1r）
+ */
+function parseKey(spec: string): SortKey | null {
+  const match = spec.match(/^(\d+)([nrf]*)(?:,(\d+)([nrf]*))?$/);
+  if (!match || Number(match[1]) === 0 || match[3] === '0') {
+    return null;
+  }
+  return {
+    start: Number(match[1]),
+    end: match[3] ? Number(match[3]) : Infinity,
+    modifiers: match[2] + (match[4] ?? ''),
+  };
+}
+
+/**
+ * 取数值比较时行首的数字（没有数字时为 0）
+ */
+function numericValue(text: string): number {
+  const match = text.match(/^\s*[-+]?(\d+\.?\d*|\.\d+)/);
+  return match ? parseFloat(match[0]) : 0;
+}
+
+/**
+ * 按码点比较字符串
+ */
+function compareText(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export const sort: CommandDefinition = {
+  name: 'sort',
+  description: 'Sort lines of text files',
+  usage: 'sort [-n] [-r] [-u] [-f] [-t SEP] [-k POS1[,POS2]]... [FILE]...',
+  execute({ argv, vfs, output, stdin }) {
+    let numeric = false;
+    let reverse = false;
+    let unique = false;
+    let foldCase = false;
+    let separator: string | null = null;
+    const keys: SortKey[] = [];
+    const paths: string[] = [];
+
+    const setValue = (option: string, value: string | undefined): boolean => {
+      if (value === undefined) {
+        output.error(`sort: option requires an argument -- '${option}'`);
+        return false;
+      }
+      if (option === 't') {
+        if ([...value].length !== 1) {
+          output.error('sort: multi-character tab');
+          return false;
+        }
+        separator = value;
+        return true;
+      }
+      const key = parseKey(value);
+      if (!key) {
+        output.error(`sort: invalid number at field start: invalid count at start of '${value}'`);
+        return false;
+      }
+      keys.push(key);
+      return true;
+    };
+    const setFlag = (option: string): boolean => {
+      if (option === 'n') numeric = true;
+      else if (option === 'r') reverse = true;
+      else if (option === 'u') unique = true;
+      else if (option === 'f') foldCase = true;
+      else return false;
+      return true;
+    };
+    const longOptions: Record<string, string> = {
+      'numeric-sort': 'n', reverse: 'r', unique: 'u', 'ignore-case': 'f', key: 'k', 'field-separator': 't',
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      if (arg === '--') {
+        paths.push(...argv.slice(i + 1));
+        break;
+      }
+      if (arg.startsWith('--')) {
+        const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+        const option = longOptions[name];
+        if (!option) {
+          output.error(`sort: unrecognized option '${arg}'`);
+          return 2;
+        }
+        if (option === 'k' || option === 't' ? !setValue(option, inline ?? argv[++i]) : !setFlag(option)) {
+          return 2;
+        }
+      } else if (arg.startsWith('-') && arg.length > 1) {
+        // 选项组中的 -k、-t 使用组中剩余的字符，没有剩余时使用下一个参数
+        for (let j = 1; j < arg.length; j++) {
+          const option = arg[j];
+          if (option === 'k' || option === 't') {
+            if (!setValue(option, arg.slice(j + 1) || argv[++i])) return 2;
+            break;
+          }
+          if (!setFlag(option)) {
+            output.error(`sort: invalid option -- '${option}'`);
+            return 2;
+          }
+        }
+      } else {
+        paths.push(arg);
+      }
+    }
+
+    let lines: string[] = [];
+    for (const path of paths.length > 0 ? paths : ['-']) {
+      const content = path === '-' ? stdin ?? '' : vfs.readFile(path);
+      if (content === null) {
+        output.error(`sort: cannot read: ${path}: ${strerror(vfs.lastError)}`);
+        return 2;
+      }
+      const parts = content.split('\n');
+      if (content === '' || content.endsWith('\n')) {
+        parts.pop();
+      }
+      lines = lines.concat(parts);
+    }
+
+    // 字段：指定分隔符时按分隔符拆分，否则按空白拆分
+    const fields = (line: string) => (separator !== null ? line.split(separator) : line.trim().split(/\s+/));
+    const keyText = (line: string, key: SortKey) =>
+      fields(line).slice(key.start - 1, key.end).join(separator ?? ' ');
+
+    // 键的修饰符优先于全局选项
+    const compareBy = (a: string, b: string, modifiers: string) => {
+      const byNumber = modifiers.includes('n') || (!modifiers && numeric);
+      const fold = modifiers.includes('f') || (!modifiers && foldCase);
+      let result = byNumber
+        ? numericValue(a) - numericValue(b)
+        : fold ? compareText(a.toUpperCase(), b.toUpperCase()) : compareText(a, b);
+      if (modifiers.includes('r') || (!modifiers && reverse)) {
+        result = -result;
+      }
+      return Math.sign(result);
+    };
+    const compareKeys = (a: string, b: string) => {
+      if (keys.length === 0) {
+        return compareBy(a, b, '');
+      }
+      for (const key of keys) {
+        const result = compareBy(keyText(a, key), keyText(b, key), key.modifiers);
+        if (result !== 0) return result;
+      }
+      return 0;
+    };
+
+    // 键相同时按整行比较；-u 时只保留键相同的第一行
+    const sorted = lines
+      .map((line, index) => ({ line, index }))
+      .sort((a, b) => compareKeys(a.line, b.line)
+        || (unique ? a.index - b.index : (reverse ? -1 : 1) * compareText(a.line, b.line)))
+      .map(({ line }) => line);
+    const result = unique
+      ? sorted.filter((line, index) => index === 0 || compareKeys(sorted[index - 1], line) !== 0)
+      : sorted;
+
+    for (const line of result) {
+      output.println(line);
+    }
+    return 0;
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
@@ -0,0 +1,40 @@
+import type { CommandContext, CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+
+/**
+ * 在当前 shell 中读取并执行脚本文件
+ */
+async function sourceFile(name: string, { argv, vfs, output, shell }: CommandContext): Promise<number> {
+  const [path, ...args] = argv;
+  if (!path) {
+    output.error(`${name}: filename argument required`);
+    output.println(`${name}: usage: ${name} filename [arguments]`);
+    return 2;
+  }
+
+  const content = vfs.readFile(path);
+  if (content === null) {
+    output.error(`${name}: ${path}: ${strerror(vfs.lastError)}`);
+    return 1;
+  }
+
+  return shell.runScript(content, { name: path, args, source: true });
+}
+
+export const source: CommandDefinition = {
+  name: 'source',
+  description: 'Execute commands from a file in the current shell',
+  usage: 'source FILE [ARG]...',
+  execute(context) {
+    return sourceFile('source', context);
+  },
+};
+
+export const dot: CommandDefinition = {
+  name: '.',
+  description: 'Execute commands from a file in the current shell',
+  usage: '. FILE [ARG]...',
+  execute(context) {
+    return sourceFile('.', context);
+  },
+};
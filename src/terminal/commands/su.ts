@@ -0,0 +1,55 @@
+import type { CommandDefinition } from '../types';
+import { UserDatabase } from '../users';
+
+export const su: CommandDefinition = {
+  name: 'su',
+  description: 'Run a shell as another user',
+  usage: 'su [-] [-c COMMAND] [USER]',
+  async execute({ argv, vfs, env, input, output, shell }) {
+    let login = false;
+    let command: string | null = null;
+    let name: string | null = null;
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      if (arg === '-' || arg === '-l' || arg === '--login') {
+        login = true;
+      } else if (arg === '-c' || arg === '--command') {
+        if (i + 1 >= argv.length) {
+          output.error(`su: option requires an argument -- 'c'`);
+          return 1;
+        }
+        command = argv[++i];
+      } else if (arg.startsWith('-') && name === null) {
+        output.error(`su: invalid option -- '${arg.replace(/^-+/, '')}'`);
+        return 1;
+      } else if (name === null) {
+        name = arg;
+      }
+    }
+
+    const users = new UserDatabase(vfs);
+    const target = name ?? 'root';
+    const session = users.createSession(target, env, login);
+    if (!session) {
+      output.error(`su: user ${target} does not exist or the user entry does not contain all the required fields`);
+      return 1;
+    }
+
+    // root 切换用户不需要密码
+    if (vfs.getCredentials().uid !== 0) {
+      const password = await input.readLine({ prompt: 'Password: ', echo: false });
+      if (password === null || !users.verifyPassword(target, password)) {
+        output.error('su: Authentication failure');
+        return 1;
+      }
+    }
+
+    if (command !== null) {
+      return shell.runAs(session, (child) => child.execute(command));
+    }
+
+    shell.pushSession(session);
+    return 0;
+  },
+};
@@ -0,0 +1,182 @@
+import type { CommandContext, CommandDefinition } from '../types';
+import { UserDatabase } from '../users';
+
+/** 认证有效期（分钟），期间再次使用 sudo 无需输入密码 */
+const TimestampTimeout = 15;
+
+/** 密码重试次数 */
+const PasswordTries = 3;
+
+/** 记录认证时间的目录 */
+const TimestampDir = '/run/sudo/ts';
+
+/**
+ * 检查用户最近是否已经通过认证
+ */
+function isAuthenticated({ vfs }: CommandContext, user: string): boolean {
+  const content = vfs.privileged(() => vfs.readFile(`${TimestampDir}/${user}`));
+  const time = Number(content);
+  return Boolean(content) && Date.now() - time < TimestampTimeout * 60_000;
+}
+
+/**
+ * 更新或清除认证时间
+ */
+function updateTimestamp({ vfs }: CommandContext, user: string, valid: boolean): void {
+  vfs.privileged(() => {
+    const path = `${TimestampDir}/${user}`;
+    if (!valid) {
+      vfs.rm(path);
+      return;
+    }
+    let dir = '';
+    for (const part of TimestampDir.split('/').filter(Boolean)) {
+      dir += `/${part}`;
+      if (!vfs.exists(dir)) {
+        vfs.mkdir(dir);
+        vfs.chmod(dir, 0o700);
+      }
+    }
+    vfs.writeFile(path, String(Date.now()));
+    vfs.chmod(path, 0o600);
+  });
+}
+
+export const sudo: CommandDefinition = {
+  name: 'sudo',
+  description: 'Execute a command as another user',
+  usage: 'sudo [-u USER] [-i|-s] [-k] [-l] [-v] [-n] [-E] [COMMAND [ARG]...]',
+  async execute(context) {
+    const { argv, vfs, env, input, output, shell } = context;
+    let target = 'root';
+    let loginShell = false;
+    let shellMode = false;
+    let list = false;
+    let validate = false;
+    let reset = false;
+    let nonInteractive = false;
+    let preserveEnv = false;
+
+    // 解析选项，第一个非选项参数开始为要执行的命令
+    let index = 0;
+    for (; index < argv.length; index++) {
+      const arg = argv[index];
+      if (arg === '--') {
+        index++;
+        break;
+      }
+      if (!arg.startsWith('-') || arg === '-') break;
+
+      if (arg === '-u' || arg === '--user') {
+        if (index + 1 >= argv.length) {
+          output.error(`sudo: option requires an argument -- 'u'`);
+          return 1;
+        }
+        target = argv[++index];
+        continue;
+      }
+
+      for (const flag of arg.slice(1)) {
+        if (flag === 'i') loginShell = true;
+        else if (flag === 's') shellMode = true;
+        else if (flag === 'l') list = true;
+        else if (flag === 'v') validate = true;
+        else if (flag === 'k' || flag === 'K') reset = true;
+        else if (flag === 'n') nonInteractive = true;
+        else if (flag === 'E') preserveEnv = true;
+        else {
+          output.error(`sudo: invalid option -- '${flag}'`);
+          output.println(`usage: ${sudo.usage}`);
+          return 1;
+        }
+      }
+    }
+    const command = argv.slice(index);
+
+    const users = new UserDatabase(vfs);
+    const current = vfs.getCredentials();
+
+    if (reset) {
+      updateTimestamp(context, current.user, false);
+      if (command.length === 0 && !loginShell && !shellMode && !list && !validate) {
+        return 0;
+      }
+    }
+    if (command.length === 0 && !loginShell && !shellMode && !list && !validate) {
+      output.println(`usage: ${sudo.usage}`);
+      return 1;
+    }
+
+    // 认证：root、NOPASSWD 规则或有效期内无需输入密码
+    const rule = users.getSudoRule(current.user);
+    const needPassword = current.uid !== 0 && !rule?.nopasswd
+      && (reset || !isAuthenticated(context, current.user));
+
+    if (needPassword) {
+      if (nonInteractive) {
+        output.error('sudo: a password is required');
+        return 1;
+      }
+
+      let authenticated = false;
+      for (let attempt = 1; attempt <= PasswordTries && !authenticated; attempt++) {
+        const password = await input.readLine({
+          prompt: `[sudo] password for ${current.user}: `,
+          echo: false,
+        });
+        if (password === null) {
+          output.error('sudo: a password is required');
+          return 1;
+        }
+        authenticated = users.verifyPassword(current.user, password);
+        if (!authenticated && attempt < PasswordTries) {
+          output.error('Sorry, try again.');
+        }
+      }
+      if (!authenticated) {
+        output.error(`sudo: ${PasswordTries} incorrect password attempts`);
+        return 1;
+      }
+    }
+
+    if (!rule) {
+      output.error(`${current.user} is not in the sudoers file.`);
+      return 1;
+    }
+    if (current.uid !== 0) {
+      updateTimestamp(context, current.user, true);
+    }
+
+    if (list) {
+      const hostname = env.HOSTNAME || 'localhost';
+      output.println(`User ${current.user} may run the following commands on ${hostname}:`);
+      output.println(`    (ALL : ALL) ${rule.nopasswd ? 'NOPASSWD: ' : ''}ALL`);
+      return 0;
+    }
+    if (validate && command.length === 0 && !loginShell && !shellMode) {
+      return 0;
+    }
+
+    const session = users.createSession(target, env, loginShell);
+    if (!session) {
+      output.error(`sudo: unknown user ${target}`);
+      return 1;
+    }
+    if (preserveEnv) {
+      session.env = { ...env, ...session.env, HOME: env.HOME };
+    }
+    Object.assign(session.env, {
+      SUDO_USER: current.user,
+      SUDO_UID: String(current.uid),
+      SUDO_GID: String(users.getGroup(current.groups[0])?.gid ?? current.uid),
+      SUDO_COMMAND: command.join(' ') || session.env.SHELL,
+    });
+
+    // 没有命令时进入目标用户的 shell
+    if (command.length === 0) {
+      shell.pushSession(session);
+      return 0;
+    }
+    return shell.runAs(session, (child) => child.exec(command));
+  },
+};
@@ -0,0 +1,136 @@
+import type { CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+import { printBytes } from '../io';
+import { splitLines } from '../text';
+
+export const tail: CommandDefinition = {
+  name: 'tail',
+  description: 'Output the last part of files',
+  usage: 'tail [-n [+]NUM] [-c [+]NUM] [-f] [-q|-v] [FILE]...',
+  async execute({ argv, vfs, output, stdin, stdinBytes, input, signal }) {
+    let count = 10;
+    let fromStart = false;
+    let bytes = false;
+    let follow = false;
+    let headers: boolean | null = null;
+    const paths: string[] = [];
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      const option = arg.match(/^(?:-([nc])|--(lines|bytes)=?)(.*)$/);
+      if (option) {
+        const value = option[3] || argv[++i];
+        bytes = option[1] === 'c' || option[2] === 'bytes';
+        if (value === undefined || !/^[+-]?\d+$/.test(value)) {
+          output.error(`tail: invalid number of ${bytes ? 'bytes' : 'lines'}: '${value ?? ''}'`);
+          return 1;
+        }
+        // +NUM 表示从第 NUM 行（字节）开始输出
+        fromStart = value.startsWith('+');
+        count = Math.abs(Number(value));
+      } else if (/^-\d+$/.test(arg)) {
+        count = Number(arg.slice(1));
+        fromStart = false;
+        bytes = false;
+      } else if (arg === '-f' || arg === '--follow') {
+        follow = true;
+      } else if (arg === '-q' || arg === '--quiet' || arg === '--silent') {
+        headers = false;
+      } else if (arg === '-v' || arg === '--verbose') {
+        headers = true;
+      } else if (/^-[fqv]+$/.test(arg)) {
+        follow ||= arg.includes('f');
+        if (arg.includes('q')) headers = false;
+        if (arg.includes('v')) headers = true;
+      } else if (arg.startsWith('-') && arg !== '-') {
+        output.error(`tail: invalid option -- '${arg.replace(/^-+/, '')}'`);
+        return 1;
+      } else {
+        paths.push(arg);
+      }
+    }
+
+    if (paths.length === 0) {
+      paths.push('-');
+    }
+    const showHeaders = headers ?? paths.length > 1;
+    const start = (length: number) => (fromStart ? Math.min(Math.max(count - 1, 0), length) : Math.max(0, length - count));
+
+    let exitCode = 0;
+    let current: string | null = null;
+    // 跟踪的文件及其已输出的内容
+    const followed = new Map<string, string>();
+
+    const printHeader = (path: string) => {
+      if (showHeaders) {
+        output.print(`${current === null ? '' : '\n'}==> ${path === '-' ? 'standard input' : path} <==\n`);
+      }
+      current = path;
+    };
+
+    for (const path of paths) {
+      const content = path === '-' ? stdin ?? '' : vfs.readFile(path);
+      if (content === null) {
+        output.error(`tail: cannot open '${path}' for reading: ${strerror(vfs.lastError)}`);
+        exitCode = 1;
+        continue;
+      }
+
+      printHeader(path);
+      if (bytes) {
+        const data = path === '-' ? stdinBytes ?? new Uint8Array() : vfs.readFileBytes(path) ?? new Uint8Array();
+        printBytes(output, data.subarray(start(data.length)));
+      } else {
+        const lines = splitLines(content);
+        output.print(lines.slice(start(lines.length)).join(''));
+      }
+      if (path !== '-') {
+        followed.set(path, content);
+      }
+    }
+
+    // -f：输出文件之后追加的内容，直到按下 Ctrl+C 或 Ctrl+D（标准输入不跟踪）
+    if (!follow || followed.size === 0) {
+      return exitCode;
+    }
+
+    const update = (path: string) => {
+      const content = vfs.readFile(path);
+      if (content === null) {
+        return;
+      }
+      const previous = followed.get(path) ?? '';
+      let added = content.slice(previous.length);
+      if (!content.startsWith(previous)) {
+        output.error(`tail: ${path}: file truncated`);
+        added = content;
+      }
+      followed.set(path, content);
+      if (added) {
+        if (current !== path) {
+          printHeader(path);
+        }
+        output.print(added);
+      }
+    };
+
+    const stops = [...followed.keys()].map((path) =>
+      vfs.watch(vfs.realpath(path) ?? path, {}, (event) => {
+        if (event.type === 'create' || event.type === 'modify') {
+          update(path);
+        }
+      }));
+    while ((await input.readLine({ echo: false, signal })) !== null) {
+      // 忽略输入的内容
+    }
+    stops.forEach((stop) => stop());
+
+    return exitCode;
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
@@ -0,0 +1,255 @@
+import type { ArchiveEntry, CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+import { collectEntries, createTar, extractEntries, parseTar, sanitizeName } from '../archive';
+import { gunzip, gzip, isGzip } from '../deflate';
+import { formatPermissions } from '../permissions';
+import { formatDate } from '../text';
+
+/** 需要参数的选项 */
+const ValueOptions = new Set(['f', 'C']);
+
+/** 操作模式的选项 */
+const Modes = new Set(['c', 'x', 't']);
+
+/**
+ * 成员的显示名称（目录带结尾的 /）
+ */
+function displayName(entry: ArchiveEntry): string {
+  return entry.type === 'directory' ? `${entry.name}/` : entry.name;
+}
+
+export const tar: CommandDefinition = {
+  name: 'tar',
+  description: 'Create, extract or list tar archives',
+  usage: 'tar -c|-x|-t [-z] [-v] -f ARCHIVE [-C DIR] [FILE]...',
+  execute({ argv, vfs, output }) {
+    // 在闭包中赋值，需要显式标注类型以免被收窄为 null
+    let mode = null as string | null;
+    let compress = false;
+    let verbose = false;
+    let archive = null as string | null;
+    let directory = null as string | null;
+    const operands: string[] = [];
+
+    const setOption = (option: string, value: string | undefined): boolean => {
+      if (Modes.has(option)) {
+        if (mode !== null && mode !== option) {
+          output.error("tar: You may not specify more than one '-Acdtrux', '--delete' or  '--test-label' option");
+          return false;
+        }
+        mode = option;
+      } else if (option === 'z') {
+        compress = true;
+      } else if (option === 'v') {
+        verbose = true;
+      } else if (ValueOptions.has(option)) {
+        if (value === undefined) {
+          output.error(`tar: option requires an argument -- '${option}'`);
+          return false;
+        }
+        if (option === 'f') archive = value;
+        else directory = value;
+      } else {
+        output.error(`tar: invalid option -- '${option}'`);
+        return false;
+      }
+      return true;
+    };
+
+    const longOptions: Record<string, string> = {
+      create: 'c', extract: 'x', get: 'x', list: 't', gzip: 'z', gunzip: 'z', verbose: 'v', file: 'f', directory: 'C',
+    };
+
+    let i = 0;
+    // 传统格式：第一个参数是不带 - 的选项组，需要参数的选项依次使用后面的参数
+    if (argv[0] && !argv[0].startsWith('-')) {
+      const bundle = argv[0];
+      i = 1;
+      for (const option of bundle) {
+        if (!setOption(option, ValueOptions.has(option) ? argv[i++] : undefined)) return 2;
+      }
+    }
+
+    for (; i < argv.length; i++) {
+      const arg = argv[i];
+      if (arg === '--') {
+        operands.push(...argv.slice(i + 1));
+        break;
+      }
+      if (arg.startsWith('--')) {
+        const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+        const option = longOptions[name];
+        if (!option) {
+          output.error(`tar: unrecognized option '${arg}'`);
+          return 2;
+        }
+        const value = ValueOptions.has(option) ? inline ?? argv[++i] : undefined;
+        if (!setOption(option, value)) return 2;
+      } else if (arg.startsWith('-') && arg.length > 1) {
+        // 选项组中需要参数的选项使用组中剩余的字符，没有剩余时使用下一个参数
+        for (let j = 1; j < arg.length; j++) {
+          const option = arg[j];
+          if (ValueOptions.has(option)) {
+            if (!setOption(option, arg.slice(j + 1) || argv[++i])) return 2;
+            break;
+          }
+          if (!setOption(option, undefined)) return 2;
+        }
+      } else {
+        operands.push(arg);
+      }
+    }
+
+    if (mode === null) {
+      output.error("tar: You must specify one of the '-Acdtrux', '--delete' or '--test-label' options");
+      return 2;
+    }
+    if (archive === null || archive === '-') {
+      output.error(mode === 'c'
+        ? 'tar: Refusing to write archive contents to terminal (missing -f option?)'
+        : 'tar: Refusing to read archive contents from terminal (missing -f option?)');
+      return 2;
+    }
+    const archivePath = archive;
+    if (directory !== null && vfs.stat(directory)?.type !== 'directory') {
+      output.error(`tar: ${directory}: Cannot open: ${strerror(vfs.stat(directory) ? 'ENOTDIR' : vfs.lastError)}`);
+      output.error('tar: Error is not recoverable: exiting now');
+      return 2;
+    }
+    const base = directory ?? '.';
+
+    let exitCode = 0;
+    let strippedSlash = false;
+    const stripLeadingSlash = (name: string) => {
+      if (!name.startsWith('/')) {
+        return name;
+      }
+      if (!strippedSlash) {
+        output.error("tar: Removing leading `/' from member names");
+        strippedSlash = true;
+      }
+      return name.replace(/^\/+/, '');
+    };
+
+    if (mode === 'c') {
+      if (operands.length === 0) {
+        output.error('tar: Cowardly refusing to create an empty archive');
+        return 2;
+      }
+
+      const entries: ArchiveEntry[] = [];
+      const links = new Map<number, string>();
+      for (const operand of operands) {
+        const path = operand.startsWith('/') || directory === null ? operand : `${base}/${operand}`;
+        const name = stripLeadingSlash(operand).replace(/\/+$/, '') || '.';
+        entries.push(...collectEntries(vfs, path, name, {
+          links,
+          onError: (errorPath, code) => {
+            const action = code === 'ENOENT' ? 'Cannot stat' : 'Cannot open';
+            output.error(`tar: ${errorPath}: ${action}: ${strerror(code)}`);
+            exitCode = 2;
+          },
+        }));
+      }
+
+      if (verbose) {
+        entries.forEach((entry) => output.println(displayName(entry)));
+      }
+      const data = createTar(entries);
+      if (!vfs.writeFile(archivePath, compress ? gzip(data) : data)) {
+        output.error(`tar: ${archivePath}: Cannot open: ${strerror(vfs.lastError)}`);
+        output.error('tar: Error is not recoverable: exiting now');
+        return 2;
+      }
+      if (exitCode !== 0) {
+        output.error('tar: Exiting with failure status due to previous errors');
+      }
+      return exitCode;
+    }
+
+    const bytes = vfs.readFileBytes(archivePath);
+    if (bytes === null) {
+      output.error(`tar: ${archivePath}: Cannot open: ${strerror(vfs.lastError)}`);
+      output.error('tar: Error is not recoverable: exiting now');
+      return 2;
+    }
+
+    // 读取时自动识别 gzip 压缩
+    let entries: ArchiveEntry[];
+    try {
+      if (compress && !isGzip(bytes)) {
+        throw new Error('gzip: stdin: not in gzip format');
+      }
+      entries = parseTar(isGzip(bytes) ? gunzip(bytes) : bytes);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      output.error(message.startsWith('gzip:') ? message : `tar: ${message}`);
+      output.error('tar: Error is not recoverable: exiting now');
+      return 2;
+    }
+
+    // 只处理指定的成员（及目录成员下的内容）
+    const matched = new Set<string>();
+    const selected = entries.filter((entry) => {
+      if (operands.length === 0) return true;
+      const operand = operands.find((name) => {
+        const pattern = name.replace(/\/+$/, '');
+        return entry.name === pattern || entry.name.startsWith(`${pattern}/`);
+      });
+      if (operand !== undefined) matched.add(operand);
+      return operand !== undefined;
+    });
+
+    if (mode === 't') {
+      for (const entry of selected) {
+        if (!verbose) {
+          output.println(displayName(entry));
+          continue;
+        }
+        const permissions = formatPermissions(entry.type, entry.mode);
+        const owner = `${entry.owner ?? 'root'}/${entry.group ?? 'root'}`;
+        const size = String(entry.content && entry.link === undefined ? entry.content.length : 0);
+        let name = displayName(entry);
+        if (entry.type === 'symlink') name += ` -> ${entry.target}`;
+        else if (entry.link !== undefined) name += ` link to ${entry.link}`;
+        output.println(`${permissions} ${owner} ${size.padStart(Math.max(1, 19 - owner.length))} ${formatDate(entry.mtime)} ${name}`);
+      }
+    } else {
+      const safe = selected.filter((entry) => {
+        const name = stripLeadingSlash(entry.name);
+        if (sanitizeName(name) === null) {
+          output.error(`tar: ${entry.name}: Member name contains '..'`);
+          exitCode = 2;
+          return false;
+        }
+        return true;
+      });
+      extractEntries(vfs, base, safe, (entry, error) => {
+        if (error) {
+          const action = entry.type === 'directory' ? 'Cannot mkdir' : 'Cannot open';
+          output.error(`tar: ${displayName(entry)}: ${action}: ${strerror(error)}`);
+          exitCode = 2;
+        } else if (verbose) {
+          output.println(displayName(entry));
+        }
+      });
+    }
+
+    for (const operand of operands) {
+      if (!matched.has(operand)) {
+        output.error(`tar: ${operand}: Not found in archive`);
+        exitCode = 2;
+      }
+    }
+    if (exitCode !== 0) {
+      output.error('tar: Exiting with failure status due to previous errors');
+    }
+    return exitCode;
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
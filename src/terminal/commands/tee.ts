@@ -0,0 +1,35 @@
+import type { CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+import { concatContent, fromBytes } from '../encoding';
+import { printBytes } from '../io';
+
+export const tee: CommandDefinition = {
+  name: 'tee',
+  description: 'Read from standard input and write to standard output and files',
+  usage: 'tee [-a] [FILE]...',
+  execute({ vfs, args, flags, output, stdinBytes }) {
+    const append = flags.has('a') || flags.has('append');
+    const bytes = stdinBytes ?? new Uint8Array();
+    const content = fromBytes(bytes);
+
+    let exitCode = 0;
+    for (const path of args) {
+      // 追加只需要写权限，直接读取节点的原有内容
+      const node = append ? vfs.getNode(path) : null;
+      const existing = node?.type === 'file' ? node.content : '';
+      if (!vfs.writeFile(path, concatContent(existing, content))) {
+        output.error(`tee: ${path}: ${strerror(vfs.lastError)}`);
+        exitCode = 1;
+      }
+    }
+
+    printBytes(output, bytes);
+    return exitCode;
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
@@ -0,0 +1,212 @@
+import type { CommandContext, CommandDefinition, VirtualFileSystem } from '../types';
+
+const UnaryOperators = new Set([
+  '-e', '-f', '-d', '-r', '-w', '-x', '-s', '-L', '-h', '-z', '-n',
+]);
+
+const BinaryOperators = new Set([
+  '=', '==', '!=', '<', '>',
+  '-eq', '-ne', '-lt', '-le', '-gt', '-ge',
+  '-nt', '-ot', '-ef',
+]);
+
+/**
+ * 条件表达式求值器
+ * 优先级从低到高：-o、-a、!、括号与基本表达式
+ */
+class TestExpression {
+  private tokens: string[];
+  private pos = 0;
+  private vfs: VirtualFileSystem;
+
+  constructor(tokens: string[], vfs: VirtualFileSystem) {
+    this.tokens = tokens;
+    this.vfs = vfs;
+  }
+
+  evaluate(): boolean {
+    if (this.tokens.length === 0) {
+      return false;
+    }
+    const result = this.parseOr();
+    if (this.pos < this.tokens.length) {
+      throw new Error(`${this.tokens[this.pos]}: unexpected argument`);
+    }
+    return result;
+  }
+
+  private parseOr(): boolean {
+    let result = this.parseAnd();
+    while (this.tokens[this.pos] === '-o') {
+      this.pos++;
+      const right = this.parseAnd();
+      result = result || right;
+    }
+    return result;
+  }
+
+  private parseAnd(): boolean {
+    let result = this.parseNot();
+    while (this.tokens[this.pos] === '-a') {
+      this.pos++;
+      const right = this.parseNot();
+      result = result && right;
+    }
+    return result;
+  }
+
+  private parseNot(): boolean {
+    // 单独的 ! 视为普通字符串
+    if (this.tokens[this.pos] === '!' && this.pos + 1 < this.tokens.length) {
+      this.pos++;
+      return !this.parseNot();
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): boolean {
+    const token = this.tokens[this.pos];
+    const next = this.tokens[this.pos + 1];
+
+    if (token === undefined) {
+      throw new Error('argument expected');
+    }
+
+    // 二元表达式优先，使 [ -n = -n ] 之类的写法按字符串比较
+    if (next !== undefined && BinaryOperators.has(next) && this.pos + 2 < this.tokens.length) {
+      const right = this.tokens[this.pos + 2];
+      this.pos += 3;
+      return this.binary(token, next, right);
+    }
+
+    if (token === '(' && this.pos + 1 < this.tokens.length) {
+      this.pos++;
+      const result = this.parseOr();
+      if (this.tokens[this.pos] !== ')') {
+        throw new Error("`)' expected");
+      }
+      this.pos++;
+      return result;
+    }
+
+    if (UnaryOperators.has(token) && next !== undefined) {
+      this.pos += 2;
+      return this.unary(token, next);
+    }
+
+    this.pos++;
+    return token !== '';
+  }
+
+  private unary(op: string, operand: string): boolean {
+    if (op === '-z') return operand === '';
+    if (op === '-n') return operand !== '';
+    if (op === '-L' || op === '-h') return this.vfs.lstat(operand)?.type === 'symlink';
+
+    const stat = this.vfs.stat(operand);
+    if (!stat) return false;
+
+    switch (op) {
+      case '-f':
+        return stat.type === 'file';
+      case '-d':
+        return stat.type === 'directory';
+      case '-s':
+        return stat.size > 0;
+      case '-r':
+      case '-w':
+      case '-x':
+        return this.vfs.access(operand, op[1]);
+      default:
+        return true;
+    }
+  }
+
+  private binary(left: string, op: string, right: string): boolean {
+    switch (op) {
+      case '=':
+      case '==':
+        return left === right;
+      case '!=':
+        return left !== right;
+      case '<':
+        return left < right;
+      case '>':
+        return left > right;
+      case '-nt':
+      case '-ot': {
+        const a = this.vfs.stat(left)?.modifiedAt.getTime();
+        const b = this.vfs.stat(right)?.modifiedAt.getTime();
+        if (a === undefined || b === undefined) {
+          // 不存在的文件视为最旧
+          return op === '-nt' ? a !== undefined && b === undefined : a === undefined && b !== undefined;
+        }
+        return op === '-nt' ? a > b : a < b;
+      }
+      case '-ef':
+        return this.vfs.exists(left) && this.vfs.resolvePath(left) === this.vfs.resolvePath(right);
+      default:
+        return compareIntegers(toInteger(left), op, toInteger(right));
+    }
+  }
+}
+
+/**
+ * 将参数解析为整数
+ */
+function toInteger(text: string): number {
+  const trimmed = text.trim();
+  if (!/^[+-]?[0-9]+$/.test(trimmed)) {
+    throw new Error(`${text}: integer expression expected`);
+  }
+  return parseInt(trimmed, 10);
+}
+
+/**
+ * 比较两个整数
+ */
+function compareIntegers(left: number, op: string, right: number): boolean {
+  switch (op) {
+    case '-eq': return left === right;
+    case '-ne': return left !== right;
+    case '-lt': return left < right;
+    case '-le': return left <= right;
+    case '-gt': return left > right;
+    default: return left >= right;
+  }
+}
+
+/**
+ * 执行条件测试，返回退出码（0 为真，1 为假，2 为语法错误）
+ */
+function runTest(name: string, tokens: string[], { vfs, output }: CommandContext): number {
+  try {
+    return new TestExpression(tokens, vfs).evaluate() ? 0 : 1;
+  } catch (error) {
+    output.error(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+    return 2;
+  }
+}
+
+export const test: CommandDefinition = {
+  name: 'test',
+  description: 'Evaluate conditional expression',
+  usage: 'test EXPRESSION',
+  execute(context) {
+    return runTest('test', context.argv, context);
+  },
+};
+
+export const bracket: CommandDefinition = {
+  name: '[',
+  description: 'Evaluate conditional expression',
+  usage: '[ EXPRESSION ]',
+  execute(context) {
+    const { argv, output } = context;
+    if (argv[argv.length - 1] !== ']') {
+      output.error("[: missing `]'");
+      return 2;
+    }
+    return runTest('[', argv.slice(0, -1), context);
+  },
+};
@@ -0,0 +1,85 @@
+import type { CommandDefinition, OutputHandler } from '../types';
+import { Signals, delay, parseDuration, parseSignal } from '../signals';
+
+/**
+ * 输出用法错误，timeout 自身出错时退出码为 125
+ */
+function usageError(output: OutputHandler, message: string): number {
+  output.error(`timeout: ${message}`);
+  output.error("Try 'timeout --help' for more information.");
+  return 125;
+}
+
+export const timeout: CommandDefinition = {
+  name: 'timeout',
+  description: 'Run a command with a time limit',
+  usage: 'timeout [-s SIGNAL] [--preserve-status] DURATION COMMAND [ARG]...',
+  async execute({ argv, output, shell, signal }) {
+    let signalNumber = Signals.TERM;
+    let preserveStatus = false;
+
+    let i = 0;
+    for (; i < argv.length; i++) {
+      const arg = argv[i];
+      if (arg === '--') {
+        i++;
+        break;
+      }
+      if (!arg.startsWith('-') || arg === '-' || /^-\d/.test(arg)) break;
+
+      if (arg === '--preserve-status') {
+        preserveStatus = true;
+      } else if (arg === '-s' || arg === '--signal' || arg.startsWith('--signal=') || /^-s./.test(arg)) {
+        const value = arg.startsWith('--signal=') ? arg.slice(9) : arg.length > 2 && arg[1] === 's' ? arg.slice(2) : argv[++i];
+        if (value === undefined) {
+          return usageError(output, `option requires an argument -- 's'`);
+        }
+        const number = parseSignal(value);
+        if (number === null) {
+          output.error(`timeout: ${value}: invalid signal`);
+          return 125;
+        }
+        signalNumber = number;
+      } else {
+        return usageError(output, arg.startsWith('--') ? `unrecognized option '${arg}'` : `invalid option -- '${arg[1]}'`);
+      }
+    }
+
+    const [duration, ...command] = argv.slice(i);
+    if (duration === undefined || command.length === 0) {
+      return usageError(output, 'missing operand');
+    }
+    const ms = parseDuration(duration);
+    if (ms === null) {
+      return usageError(output, `invalid time interval '${duration}'`);
+    }
+
+    // 超时或 timeout 自身被中断时中断命令（时间为 0 表示不限制）
+    const controller = new AbortController();
+    const forward = () => controller.abort(signal.reason);
+    signal.addEventListener('abort', forward, { once: true });
+    const timer = new AbortController();
+    let timedOut = false;
+    if (ms > 0) {
+      delay(ms, timer.signal).then((elapsed) => {
+        if (!elapsed) return;
+        timedOut = true;
+        controller.abort(signalNumber);
+      });
+    }
+
+    let exitCode: number;
+    try {
+      exitCode = await shell.exec(command, undefined, controller.signal);
+    } finally {
+      timer.abort();
+      signal.removeEventListener('abort', forward);
+    }
+
+    // 超时时退出码为 124，KILL 信号或 --preserve-status 时为命令的退出码
+    if (timedOut && !preserveStatus && signalNumber !== Signals.KILL) {
+      return 124;
+    }
+    return exitCode;
+  },
+};
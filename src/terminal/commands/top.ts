@@ -0,0 +1,175 @@
+import type { CommandDefinition, ProcessControl, ProcessInfo, VirtualFileSystem } from '../types';
+import { delay, signalStatus } from '../signals';
+import { processMemory, processName } from '../processes';
+
+/** 默认的刷新间隔（秒） */
+const DefaultDelay = 3;
+
+/** 进程列表的表头 */
+const Header = '    PID USER      PR  NI    VIRT    RES    SHR S  %CPU  %MEM     TIME+ COMMAND';
+
+/**
+ * 读取 /proc 下的文件，读取失败时返回空字符串
+ */
+function readProc(vfs: VirtualFileSystem, name: string): string {
+  return vfs.readFile(`/proc/${name}`) ?? '';
+}
+
+/**
+ * 格式化运行时间（如 "5 min"、"1:02"、"2 days,  3:04"）
+ */
+function formatUptime(seconds: number): string {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const time = hours > 0 ? `${String(hours).padStart(2)}:${String(minutes).padStart(2, '0')}` : `${minutes} min`;
+  return days > 0 ? `${days} day${days > 1 ? 's' : ''}, ${time}` : time;
+}
+
+/**
+ * 生成一屏内容：系统概况和进程列表
+ */
+function renderFrame(vfs: VirtualFileSystem, processes: ProcessControl): { summary: string[]; rows: string[] } {
+  const now = new Date();
+  const clock = [now.getHours(), now.getMinutes(), now.getSeconds()].map((n) => String(n).padStart(2, '0')).join(':');
+  const uptime = Number(readProc(vfs, 'uptime').split(' ')[0]) || 0;
+  const load = readProc(vfs, 'loadavg').split(' ').slice(0, 3);
+  const meminfo = readProc(vfs, 'meminfo');
+  const mem = (name: string) => Number(meminfo.match(new RegExp(`^${name}:\\s*(\\d+)`, 'm'))?.[1] ?? 0);
+  const mib = (kb: number) => (kb / 1024).toFixed(1).padStart(8);
+
+  const list = [...processes.list()].sort((a, b) => a.pid - b.pid);
+  const count = (state: string) => list.filter((process) => (process.state ?? 'S') === state).length;
+  const total = mem('MemTotal');
+  const free = mem('MemFree');
+  const cache = mem('Buffers') + mem('Cached');
+
+  const summary = [
+    `top - ${clock} up ${formatUptime(uptime)},  1 user,  load average: ${load.join(', ')}`,
+    `Tasks: ${String(list.length).padStart(3)} total, ${String(count('R')).padStart(3)} running, ` +
+      `${String(count('S')).padStart(3)} sleeping, ${String(count('T')).padStart(3)} stopped,   0 zombie`,
+    '%Cpu(s):  0.3 us,  0.2 sy,  0.0 ni, 99.5 id,  0.0 wa,  0.0 hi,  0.0 si,  0.0 st',
+    `MiB Mem : ${mib(total)} total, ${mib(free)} free, ${mib(total - free - cache)} used, ${mib(cache)} buff/cache`,
+    `MiB Swap: ${mib(mem('SwapTotal'))} total, ${mib(mem('SwapFree'))} free, ${mib(0)} used. ${mib(mem('MemAvailable'))} avail Mem`,
+  ];
+  const rows = list.map((process: ProcessInfo) => {
+    const { vsz, rss } = processMemory(process);
+    return [
+      String(process.pid).padStart(7),
+      process.user.slice(0, 8).padEnd(8),
+      '20'.padStart(3),
+      '0'.padStart(3),
+      String(vsz).padStart(7),
+      String(rss).padStart(6),
+      String(Math.round(rss * 0.72)).padStart(6),
+      process.state ?? 'S',
+      '0.0'.padStart(5),
+      (total > 0 ? (rss / total) * 100 : 0).toFixed(1).padStart(5),
+      '0:00.00'.padStart(9),
+      processName(process),
+    ].join(' ');
+  });
+  return { summary, rows };
+}
+
+export const top: CommandDefinition = {
+  name: 'top',
+  description: 'Display processes and system usage, refreshing periodically',
+  usage: 'top [-b] [-d SECONDS] [-n ITERATIONS]',
+  async execute({ argv, output, vfs, input, shell, signal }) {
+    const processes = shell.getProcessControl();
+    let batch = false;
+    let interval = DefaultDelay;
+    let iterations = Infinity;
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      if (!arg.startsWith('-') || arg === '-') {
+        output.error(`top: unknown option '${arg}'`);
+        output.error(`Usage:\n  ${top.usage}`);
+        return 1;
+      }
+
+      // 选项可以合并（如 -bn1），-d 和 -n 的值是选项的剩余部分或下一个参数
+      for (let j = 1; j < arg.length; j++) {
+        const option = arg[j];
+        if (option === 'b') {
+          batch = true;
+        } else if (option === 'd' || option === 'n') {
+          const value = j + 1 < arg.length ? arg.slice(j + 1) : argv[++i];
+          if (option === 'd') {
+            if (value === undefined || !/^(\d+(\.\d*)?|\.\d+)$/.test(value)) {
+              output.error(`top: bad delay interval '${value ?? ''}'`);
+              return 1;
+            }
+            interval = Number(value);
+          } else {
+            if (value === undefined || !/^\d+$/.test(value) || Number(value) === 0) {
+              output.error(`top: bad iterations argument '${value ?? ''}'`);
+              return 1;
+            }
+            iterations = Number(value);
+          }
+          break;
+        } else {
+          output.error(`top: unknown option '${option}'`);
+          output.error(`Usage:\n  ${top.usage}`);
+          return 1;
+        }
+      }
+    }
+
+    // 批处理模式（或没有终端时）依次输出每次刷新的内容
+    if (batch || output.isTerminal === false) {
+      for (let count = 0; count < (batch ? iterations : 1); count++) {
+        if (count > 0 && !(await delay(interval * 1000, signal))) {
+          return signalStatus(signal);
+        }
+        const { summary, rows } = renderFrame(vfs, processes);
+        output.println([...summary, '', Header, ...rows, ''].join('\n'));
+      }
+      return 0;
+    }
+
+    // 全屏模式：q 或 Ctrl+C 退出，空格立即刷新
+    let quit = false;
+    let wake = new AbortController();
+    const screen = input.openScreen({
+      onKey: (data) => {
+        if (data === 'q' || data === '\x03') {
+          quit = true;
+          wake.abort();
+        } else if (data === ' ') {
+          wake.abort();
+        }
+      },
+      onResize: () => wake.abort(),
+    });
+    if (!screen) {
+      output.error('top: failed tty get');
+      return 1;
+    }
+
+    const interrupt = () => wake.abort();
+    signal.addEventListener('abort', interrupt, { once: true });
+    try {
+      for (let count = 0; count < iterations && !quit && !signal.aborted; count++) {
+        const { summary, rows } = renderFrame(vfs, processes);
+        const header = `\x1b[7m${Header.padEnd(screen.columns).slice(0, screen.columns)}\x1b[0m`;
+        const lines = [...summary.map((line) => line.slice(0, screen.columns)), '', header];
+        for (const row of rows.slice(0, Math.max(0, screen.rows - lines.length))) {
+          lines.push(row.slice(0, screen.columns));
+        }
+        screen.write(`\x1b[?25l\x1b[H${lines.join('\x1b[K\r\n')}\x1b[K\x1b[J`);
+
+        wake = new AbortController();
+        if (signal.aborted || quit) break;
+        await delay(interval * 1000, wake.signal);
+      }
+    } finally {
+      signal.removeEventListener('abort', interrupt);
+      screen.close();
+    }
+    return signal.aborted ? signalStatus(signal) : 0;
+  },
+};
@@ -1,4 +1,5 @@
 import type { CommandDefinition } from '../types';
+import { strerror } from '../vfs';
 
 export const touch: CommandDefinition = {
   name: 'touch',
@@ -10,17 +11,16 @@ export const touch: CommandDefinition = {
       return 1;
     }
 
+    let exitCode = 0;
     for (const path of args) {
-      // 如果文件已存在，更新时间戳（这里只是简单地重写内容）
-      const existing = vfs.readFile(path);
-      if (existing !== null) {
-        vfs.writeFile(path, existing);
-      } else {
-        vfs.writeFile(path, '');
+      // 文件已存在时更新时间戳，否则创建空文件
+      if (!vfs.touch(path)) {
+        output.error(`touch: cannot touch '${path}': ${strerror(vfs.lastError)}`);
+        exitCode = 1;
       }
     }
 
-    return 0;
+    return exitCode;
   },
   complete(partial, { vfs }) {
     const entries = vfs.ls('.') || [];
@@ -0,0 +1,121 @@
+import type { CommandDefinition } from '../types';
+
+/** 字符类对应的字符范围 */
+const CharacterClasses: Record<string, string> = {
+  alpha: 'a-zA-Z',
+  digit: '0-9',
+  alnum: 'a-zA-Z0-9',
+  upper: 'A-Z',
+  lower: 'a-z',
+  space: ' \\t\\n\\r\\f\\v',
+  blank: ' \\t',
+  punct: '!-/:-@[-`{-~',
+  xdigit: '0-9A-Fa-f',
+};
+
+/** 反斜杠转义对应的字符 */
+const Escapes: Record<string, string> = {
+  n: '\n', t: '\t', r: '\r', f: '\f', v: '\v', a: '\x07', b: '\b', '\\': '\\',
+};
+
+/**
+ * 展开字符集（支持 a-z 范围、[:class:] 字符类和 \n、\NNN 等转义）
+ */
+function expandSet(spec: string): string[] {
+  // 先展开字符类，再把转义替换为字符
+  const source = spec.replace(/\[:(\w+):\]/g, (match, name: string) => CharacterClasses[name] ?? match);
+  const chars: string[] = [];
+  const input = [...source];
+  for (let i = 0; i < input.length; i++) {
+    if (input[i] === '\\' && i + 1 < input.length) {
+      const octal = input.slice(i + 1, i + 4).join('').match(/^[0-7]{1,3}/);
+      if (octal) {
+        chars.push(String.fromCharCode(parseInt(octal[0], 8)));
+        i += octal[0].length;
+      } else {
+        chars.push(Escapes[input[++i]] ?? input[i]);
+      }
+    } else {
+      chars.push(input[i]);
+    }
+  }
+
+  // 展开范围
+  const result: string[] = [];
+  for (let i = 0; i < chars.length; i++) {
+    if (chars[i + 1] === '-' && i + 2 < chars.length && chars[i].codePointAt(0)! <= chars[i + 2].codePointAt(0)!) {
+      for (let code = chars[i].codePointAt(0)!; code <= chars[i + 2].codePointAt(0)!; code++) {
+        result.push(String.fromCodePoint(code));
+      }
+      i += 2;
+    } else {
+      result.push(chars[i]);
+    }
+  }
+  return result;
+}
+
+export const tr: CommandDefinition = {
+  name: 'tr',
+  description: 'Translate or delete characters',
+  usage: 'tr [-c] [-d] [-s] SET1 [SET2]',
+  execute({ args, flags, output, stdin }) {
+    const complement = flags.has('c') || flags.has('C') || flags.has('complement');
+    const remove = flags.has('d') || flags.has('delete');
+    const squeeze = flags.has('s') || flags.has('squeeze-repeats');
+
+    if (args.length === 0) {
+      output.error('tr: missing operand');
+      return 1;
+    }
+    // 只有 -d 或只有 -s 时可以省略 SET2，-d -s 同时使用时需要 SET2
+    const translating = !remove && !(squeeze && args.length === 1);
+    const needed = translating || (remove && squeeze) ? 2 : 1;
+    if (args.length < needed) {
+      output.error(`tr: missing operand after '${args[args.length - 1]}'`);
+      return 1;
+    }
+    if (args.length > needed) {
+      output.error(`tr: extra operand '${args[needed]}'`);
+      return 1;
+    }
+
+    const set1 = expandSet(args[0]);
+    const set2 = args[1] !== undefined ? expandSet(args[1]) : [];
+    if (translating && set2.length === 0) {
+      output.error('tr: when not truncating set1, string2 must be non-empty');
+      return 1;
+    }
+    const members = new Set(set1);
+    const inSet1 = (char: string) => members.has(char) !== complement;
+
+    // 转换时 SET2 不足的部分用最后一个字符补齐，-c 时全部转换为最后一个字符
+    const translate = (char: string) => {
+      if (!inSet1(char)) return char;
+      if (complement) return set2[set2.length - 1];
+      const index = set1.lastIndexOf(char);
+      return set2[Math.min(index, set2.length - 1)];
+    };
+
+    // -s 压缩的是最后一个字符集中的字符
+    const squeezeSet = new Set(translating || remove ? set2 : set1);
+    const inSqueezeSet = (char: string) => (translating || remove ? squeezeSet.has(char) : inSet1(char));
+
+    let result = '';
+    let previous: string | null = null;
+    for (const char of stdin ?? '') {
+      if (remove && inSet1(char)) {
+        continue;
+      }
+      const translated = translating ? translate(char) : char;
+      if (squeeze && translated === previous && inSqueezeSet(translated)) {
+        continue;
+      }
+      result += translated;
+      previous = translated;
+    }
+
+    output.print(result);
+    return 0;
+  },
+};
@@ -0,0 +1,10 @@
+import type { CommandDefinition } from '../types';
+
+export const trueCommand: CommandDefinition = {
+  name: 'true',
+  description: 'Do nothing, successfully',
+  usage: 'true',
+  execute() {
+    return 0;
+  },
+};
@@ -0,0 +1,40 @@
+import type { CommandDefinition } from '../types';
+import { parseModeSpec, formatOctalMode, formatSymbolicMode } from '../permissions';
+
+export const umask: CommandDefinition = {
+  name: 'umask',
+  description: 'Display or set the file mode creation mask',
+  usage: 'umask [-p] [-S] [MODE]',
+  execute({ args, flags, vfs, output }) {
+    const symbolic = flags.has('S');
+    const mask = vfs.getUmask();
+
+    if (args.length === 0) {
+      if (symbolic) {
+        output.println(`${flags.has('p') ? 'umask -S ' : ''}${formatSymbolicMode(~mask & 0o777)}`);
+      } else {
+        output.println(`${flags.has('p') ? 'umask ' : ''}${formatOctalMode(mask)}`);
+      }
+      return 0;
+    }
+
+    const spec = args[0];
+    if (/^[0-7]+$/.test(spec)) {
+      if (spec.length > 4 || parseInt(spec, 8) > 0o777) {
+        output.error(`umask: ${spec}: octal number out of range`);
+        return 1;
+      }
+      vfs.setUmask(parseInt(spec, 8));
+      return 0;
+    }
+
+    // 符号模式描述的是允许的权限，掩码为其补集
+    const allowed = parseModeSpec(spec, ~mask & 0o777, true);
+    if (allowed === null) {
+      output.error(`umask: \`${spec}': invalid symbolic mode operator`);
+      return 1;
+    }
+    vfs.setUmask(~allowed & 0o777);
+    return 0;
+  },
+};
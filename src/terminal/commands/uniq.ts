@@ -0,0 +1,63 @@
+import type { CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+
+export const uniq: CommandDefinition = {
+  name: 'uniq',
+  description: 'Report or omit repeated lines',
+  usage: 'uniq [-c] [-d] [-u] [-i] [INPUT [OUTPUT]]',
+  execute({ vfs, args, flags, output, stdin }) {
+    const showCount = flags.has('c') || flags.has('count');
+    const repeatedOnly = flags.has('d') || flags.has('repeated');
+    const uniqueOnly = flags.has('u') || flags.has('unique');
+    const ignoreCase = flags.has('i') || flags.has('ignore-case');
+
+    if (args.length > 2) {
+      output.error(`uniq: extra operand '${args[2]}'`);
+      return 1;
+    }
+    const [inputPath = '-', outputPath] = args;
+    const content = inputPath === '-' ? stdin ?? '' : vfs.readFile(inputPath);
+    if (content === null) {
+      output.error(`uniq: ${inputPath}: ${strerror(vfs.lastError)}`);
+      return 1;
+    }
+
+    const lines = content.split('\n');
+    if (content === '' || content.endsWith('\n')) {
+      lines.pop();
+    }
+
+    // 只合并相邻的重复行
+    const groups: { line: string; count: number }[] = [];
+    const normalize = (line: string) => (ignoreCase ? line.toLowerCase() : line);
+    for (const line of lines) {
+      const last = groups[groups.length - 1];
+      if (last && normalize(last.line) === normalize(line)) {
+        last.count++;
+      } else {
+        groups.push({ line, count: 1 });
+      }
+    }
+
+    const result = groups
+      .filter(({ count }) => (!repeatedOnly || count > 1) && (!uniqueOnly || count === 1))
+      .map(({ line, count }) => `${showCount ? `${String(count).padStart(7)} ` : ''}${line}\n`)
+      .join('');
+
+    if (outputPath !== undefined && outputPath !== '-') {
+      if (!vfs.writeFile(outputPath, result)) {
+        output.error(`uniq: ${outputPath}: ${strerror(vfs.lastError)}`);
+        return 1;
+      }
+      return 0;
+    }
+    output.print(result);
+    return 0;
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
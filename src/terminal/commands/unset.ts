@@ -0,0 +1,19 @@
+import type { CommandDefinition } from '../types';
+
+export const unset: CommandDefinition = {
+  name: 'unset',
+  description: 'Unset shell variables',
+  usage: 'unset NAME...',
+  execute({ args, output, shell }) {
+    let exitCode = 0;
+    for (const name of args) {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        output.error(`unset: \`${name}': not a valid identifier`);
+        exitCode = 1;
+        continue;
+      }
+      shell.unsetVariable(name);
+    }
+    return exitCode;
+  },
+};
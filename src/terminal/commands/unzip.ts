@@ -0,0 +1,188 @@
+import type { ArchiveEntry, CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+import { extractEntries, parseZip, sanitizeName } from '../archive';
+import { byteLength } from '../encoding';
+import { globToRegExp } from '../glob';
+import { formatDate } from '../text';
+
+/**
+ * 成员的大小（符号链接为目标路径的长度）
+ */
+function entrySize(entry: ArchiveEntry): number {
+  return entry.type === 'symlink' ? byteLength(entry.target ?? '') : entry.content?.length ?? 0;
+}
+
+export const unzip: CommandDefinition = {
+  name: 'unzip',
+  description: 'List or extract files from a zip archive',
+  usage: 'unzip [-l] [-o|-n] [-q] [-d DIR] ZIPFILE [MEMBER]...',
+  async execute({ argv, vfs, output, input }) {
+    let list = false;
+    let overwrite: boolean | null = null;
+    let quiet = false;
+    let directory: string | null = null;
+    const operands: string[] = [];
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      if (arg === '-d') {
+        directory = argv[++i] ?? null;
+        if (directory === null) {
+          output.error('error:  must specify directory to which to extract with -d option');
+          return 10;
+        }
+      } else if (/^-[lonq]+$/.test(arg)) {
+        list ||= arg.includes('l');
+        quiet ||= arg.includes('q');
+        if (arg.includes('o')) overwrite = true;
+        if (arg.includes('n')) overwrite = false;
+      } else if (arg.startsWith('-') && arg.length > 1) {
+        output.error(`unzip:  invalid option -- '${arg.slice(1)}'`);
+        return 10;
+      } else {
+        operands.push(arg);
+      }
+    }
+
+    const [target, ...members] = operands;
+    if (!target) {
+      output.error(`Usage: ${unzip.usage}`);
+      return 10;
+    }
+    const archive = [target, `${target}.zip`, `${target}.ZIP`].find((path) => vfs.stat(path)?.type === 'file');
+    if (!archive) {
+      output.error(`unzip:  cannot find or open ${target}, ${target}.zip or ${target}.ZIP.`);
+      return 9;
+    }
+    const bytes = vfs.readFileBytes(archive);
+    if (bytes === null) {
+      output.error(`unzip:  cannot open ${archive}: ${strerror(vfs.lastError)}`);
+      return 9;
+    }
+
+    let entries: ArchiveEntry[];
+    try {
+      entries = parseZip(bytes);
+    } catch (error) {
+      output.println(`Archive:  ${archive}`);
+      output.error(`  ${error instanceof Error ? error.message : String(error)}`);
+      return 9;
+    }
+
+    // 只处理指定的成员（支持通配符）
+    const patterns = members.map((member) => ({ member, regex: globToRegExp(member) }));
+    const matched = new Set<string>();
+    const selected = entries.filter((entry) => {
+      if (patterns.length === 0) return true;
+      const name = entry.type === 'directory' ? `${entry.name}/` : entry.name;
+      const pattern = patterns.find(({ regex }) => regex.test(name) || regex.test(entry.name));
+      if (pattern) matched.add(pattern.member);
+      return pattern !== undefined;
+    });
+    const unmatched = members.filter((member) => !matched.has(member));
+    const reportUnmatched = () => {
+      for (const member of unmatched) {
+        output.error(`caution: filename not matched:  ${member}`);
+      }
+      return unmatched.length > 0 ? 11 : 0;
+    };
+
+    if (list) {
+      output.println(`Archive:  ${archive}`);
+      output.println('  Length      Date    Time    Name');
+      output.println('---------  ---------- -----   ----');
+      let total = 0;
+      for (const entry of selected) {
+        const size = entrySize(entry);
+        total += size;
+        const name = entry.type === 'directory' ? `${entry.name}/` : entry.name;
+        output.println(`${String(size).padStart(9)}  ${formatDate(entry.mtime)}   ${name}`);
+      }
+      output.println('---------                     -------');
+      output.println(`${String(total).padStart(9)}                     ${selected.length} file${selected.length === 1 ? '' : 's'}`);
+      return reportUnmatched();
+    }
+
+    const base = directory ?? '.';
+    if (directory !== null && !vfs.stat(directory)) {
+      // -d 指定的目录不存在时逐级创建
+      let current = directory.startsWith('/') ? '' : '.';
+      for (const part of directory.split('/').filter(Boolean)) {
+        current = `${current}/${part}`;
+        if (!vfs.stat(current) && !vfs.mkdir(current)) {
+          output.error(`checkdir:  cannot create extraction directory: ${directory}: ${strerror(vfs.lastError)}`);
+          return 3;
+        }
+      }
+    }
+    const displayPath = (entry: ArchiveEntry) => {
+      const name = entry.type === 'directory' ? `${entry.name}/` : entry.name;
+      return directory === null ? name : `${directory.replace(/\/+$/, '')}/${name}`;
+    };
+
+    if (!quiet) {
+      output.println(`Archive:  ${archive}`);
+    }
+
+    // 已存在的文件按 -o/-n 处理，都没有指定时询问
+    const extract: ArchiveEntry[] = [];
+    for (const entry of selected) {
+      const name = sanitizeName(entry.name);
+      if (name === null) {
+        output.warn(`warning:  skipped "../" path component(s) in ${entry.name}`);
+        continue;
+      }
+      if (entry.type !== 'directory' && name && vfs.lstat(`${base}/${name}`)) {
+        let replace: boolean | null = overwrite;
+        while (replace === null) {
+          const answer = await input.readLine({ prompt: `replace ${displayPath(entry)}? [y]es, [n]o, [A]ll, [N]one: ` });
+          switch (answer) {
+            case null:
+              output.println('(EOF or read error, treating as "[N]one" ...)');
+              overwrite = replace = false;
+              break;
+            case 'A':
+              overwrite = replace = true;
+              break;
+            case 'N':
+              overwrite = replace = false;
+              break;
+            case 'y':
+              replace = true;
+              break;
+            case 'n':
+              replace = false;
+              break;
+            default:
+              output.error(`error:  invalid response [${answer}]`);
+          }
+        }
+        if (!replace) {
+          continue;
+        }
+      }
+      extract.push(entry);
+    }
+
+    let exitCode = 0;
+    extractEntries(vfs, base, extract, (entry, error) => {
+      const path = displayPath(entry);
+      if (error) {
+        output.error(`error:  cannot create ${path}: ${strerror(error)}`);
+        exitCode = error === 'ENOSPC' ? 50 : 1;
+      } else if (!quiet) {
+        if (entry.type === 'directory') output.println(`   creating: ${path}`);
+        else if (entry.type === 'symlink') output.println(`    linking: ${path}  -> ${entry.target}`);
+        else output.println(`  inflating: ${path}`);
+      }
+    });
+
+    return reportUnmatched() || exitCode;
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
@@ -0,0 +1,127 @@
+import type { CommandDefinition } from '../types';
+import { NameReg, UserDatabase } from '../users';
+
+/** 需要参数的选项 */
+const ValueOptions: Record<string, string> = {
+  '-d': 'home',
+  '--home-dir': 'home',
+  '-s': 'shell',
+  '--shell': 'shell',
+  '-u': 'uid',
+  '--uid': 'uid',
+  '-g': 'gid',
+  '--gid': 'gid',
+  '-G': 'groups',
+  '--groups': 'groups',
+  '-c': 'comment',
+  '--comment': 'comment',
+};
+
+export const useradd: CommandDefinition = {
+  name: 'useradd',
+  description: 'Create a new user',
+  usage: 'useradd [-m] [-d HOME] [-s SHELL] [-u UID] [-g GROUP] [-G GROUPS] [-c COMMENT] LOGIN',
+  execute({ argv, vfs, output }) {
+    const values: Record<string, string> = {};
+    let createHome = false;
+    let userGroup = true;
+    let name: string | null = null;
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      if (arg in ValueOptions) {
+        if (i + 1 >= argv.length) {
+          output.error(`useradd: option '${arg}' requires an argument`);
+          return 2;
+        }
+        values[ValueOptions[arg]] = argv[++i];
+      } else if (arg === '-m' || arg === '--create-home') {
+        createHome = true;
+      } else if (arg === '-M' || arg === '--no-create-home') {
+        createHome = false;
+      } else if (arg === '-N' || arg === '--no-user-group') {
+        userGroup = false;
+      } else if (arg.startsWith('-')) {
+        output.error(`useradd: invalid option -- '${arg.replace(/^-+/, '')}'`);
+        return 2;
+      } else {
+        name = arg;
+      }
+    }
+
+    if (name === null) {
+      output.println(`Usage: ${useradd.usage}`);
+      return 2;
+    }
+    if (vfs.getCredentials().uid !== 0) {
+      output.error('useradd: Permission denied.');
+      return 1;
+    }
+    if (!NameReg.test(name) || name.length > 32) {
+      output.error(`useradd: invalid user name '${name}'`);
+      return 3;
+    }
+
+    const users = new UserDatabase(vfs);
+    if (users.getUser(name)) {
+      output.error(`useradd: user '${name}' already exists`);
+      return 9;
+    }
+
+    let uid: number | undefined;
+    if (values.uid !== undefined) {
+      uid = Number(values.uid);
+      if (!/^\d+$/.test(values.uid)) {
+        output.error(`useradd: invalid user ID '${values.uid}'`);
+        return 3;
+      }
+      if (users.getUserById(uid)) {
+        output.error(`useradd: UID ${uid} is not unique`);
+        return 4;
+      }
+    }
+
+    // 主组：-g 指定的组，或与用户同名的新组
+    let gid: number;
+    if (values.gid !== undefined) {
+      const group = /^\d+$/.test(values.gid) ? users.getGroupById(Number(values.gid)) : users.getGroup(values.gid);
+      if (!group) {
+        output.error(`useradd: group '${values.gid}' does not exist`);
+        return 6;
+      }
+      gid = group.gid;
+    } else if (userGroup) {
+      if (users.getGroup(name)) {
+        output.error(`useradd: group ${name} exists - if you want to add this user to that group, use -g.`);
+        return 9;
+      }
+      gid = users.addGroup(name, uid !== undefined && !users.getGroupById(uid) ? uid : undefined).gid;
+    } else {
+      gid = 100;
+    }
+
+    const supplementary = (values.groups ?? '').split(',').filter(Boolean);
+    for (const group of supplementary) {
+      if (!users.getGroup(group)) {
+        output.error(`useradd: group '${group}' does not exist`);
+        return 6;
+      }
+    }
+
+    const user = users.addUser(name, {
+      uid,
+      gid,
+      gecos: values.comment,
+      home: values.home,
+      shell: values.shell,
+    });
+    for (const group of supplementary) {
+      users.addToGroup(group, name);
+    }
+
+    if (createHome && !users.createHome(user)) {
+      output.warn(`useradd: warning: the home directory ${user.home} already exists.`);
+    }
+    return 0;
+  },
+};
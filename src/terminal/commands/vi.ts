@@ -0,0 +1,57 @@
+import type { CommandContext, CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+import { runEditor } from '../editor';
+
+/**
+ * 用 vi 方式编辑文件
+ */
+async function editFile(name: string, { vfs, args, output, input }: CommandContext): Promise<number> {
+  if (args.length > 1) {
+    output.error(`${name}: only one file can be edited at a time`);
+    return 1;
+  }
+
+  // 文件不存在时作为新文件编辑，其他错误（如目录、没有读权限）直接报告
+  const path = args[0] ?? null;
+  const content = path === null ? null : vfs.readFile(path);
+  if (path !== null && content === null && vfs.lastError !== 'ENOENT') {
+    output.error(`${name}: ${path}: ${strerror(vfs.lastError)}`);
+    return 1;
+  }
+
+  if (!(await runEditor(input, { mode: 'vi', vfs, path, content }))) {
+    output.error(`${name}: standard input is not a terminal`);
+    return 1;
+  }
+  return 0;
+}
+
+/**
+ * 补全当前目录中的文件名
+ */
+function completeFile(partial: string, { vfs }: CommandContext): string[] {
+  const entries = vfs.ls('.') || [];
+  return entries
+    .filter((e) => e.name.startsWith(partial))
+    .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+}
+
+export const vi: CommandDefinition = {
+  name: 'vi',
+  description: 'Modal full-screen text editor',
+  usage: 'vi [FILE]',
+  execute(context) {
+    return editFile('vi', context);
+  },
+  complete: completeFile,
+};
+
+export const vim: CommandDefinition = {
+  name: 'vim',
+  description: 'Modal full-screen text editor',
+  usage: 'vim [FILE]',
+  execute(context) {
+    return editFile('vim', context);
+  },
+  complete: completeFile,
+};
@@ -0,0 +1,52 @@
+import type { CommandDefinition } from '../types';
+import { signalStatus } from '../signals';
+
+export const wait: CommandDefinition = {
+  name: 'wait',
+  description: 'Wait for jobs to complete and return their exit status',
+  usage: 'wait [PID | JOBSPEC]...',
+  async execute({ argv, output, shell, signal }) {
+    const processes = shell.getProcessControl();
+
+    // 没有参数时等待全部正在运行的作业，退出码为 0
+    if (argv.length === 0) {
+      const running = processes.jobs().filter((job) => job.status === 'running');
+      for (const job of running) {
+        await processes.wait(job.pid, signal);
+        if (signal.aborted) return signalStatus(signal);
+      }
+      return 0;
+    }
+
+    // 退出码为最后一个进程的退出码
+    let exitCode = 0;
+    for (const target of argv) {
+      let pid: number;
+      if (target.startsWith('%')) {
+        const job = processes.findJob(target);
+        if (!job) {
+          output.error(`wait: ${target}: no such job`);
+          exitCode = 127;
+          continue;
+        }
+        pid = job.pid;
+      } else if (/^\d+$/.test(target)) {
+        pid = Number(target);
+      } else {
+        output.error(`wait: \`${target}': not a pid or valid job spec`);
+        exitCode = 2;
+        continue;
+      }
+
+      const result = await processes.wait(pid, signal);
+      if (signal.aborted) return signalStatus(signal);
+      if (result === null) {
+        output.error(`wait: pid ${pid} is not a child of this shell`);
+        exitCode = 127;
+      } else {
+        exitCode = result;
+      }
+    }
+    return exitCode;
+  },
+};
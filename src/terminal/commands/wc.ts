@@ -0,0 +1,83 @@
+import type { CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+import { byteLength } from '../encoding';
+
+/** 各项统计（按输出顺序） */
+type Counts = [lines: number, words: number, chars: number, bytes: number];
+
+/**
+ * 统计文本的行数、单词数、字符数和字节数
+ */
+function count(text: string): Counts {
+  const lines = text.split('\n').length - 1;
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return [lines, words, [...text].length, byteLength(text)];
+}
+
+export const wc: CommandDefinition = {
+  name: 'wc',
+  description: 'Print newline, word, and byte counts',
+  usage: 'wc [-l] [-w] [-m] [-c] [FILE]...',
+  execute({ vfs, args, flags, output, stdin, stdinBytes }) {
+    // 未指定时输出行数、单词数和字节数
+    let selected = [
+      flags.has('l') || flags.has('lines'),
+      flags.has('w') || flags.has('words'),
+      flags.has('m') || flags.has('chars'),
+      flags.has('c') || flags.has('bytes'),
+    ];
+    if (!selected.some(Boolean)) {
+      selected = [true, true, false, true];
+    }
+
+    const paths = args.length > 0 ? args : ['-'];
+    const results: { name: string; counts: Counts }[] = [];
+    let exitCode = 0;
+    for (const path of paths) {
+      const content = path === '-' ? stdin ?? '' : vfs.readFile(path);
+      if (content === null) {
+        output.error(`wc: ${path}: ${strerror(vfs.lastError)}`);
+        exitCode = 1;
+        continue;
+      }
+      // 字节数按文件的实际内容计算（二进制内容解码后长度会变化）
+      const counts = count(content);
+      counts[3] = path === '-' ? stdinBytes?.length ?? 0 : vfs.stat(path)?.size ?? counts[3];
+      results.push({ name: path === '-' ? '' : path, counts });
+    }
+
+    if (paths.length > 1) {
+      const total: Counts = [0, 0, 0, 0];
+      for (const { counts } of results) {
+        counts.forEach((value, index) => {
+          total[index] += value;
+        });
+      }
+      results.push({ name: 'total', counts: total });
+    }
+
+    // 只有一项统计和一个输入时不对齐；读取标准输入时宽度至少为 7
+    const columns = selected.filter(Boolean).length;
+    const width = columns === 1 && results.length === 1
+      ? 1
+      : Math.max(
+        paths.includes('-') ? 7 : 1,
+        ...results.flatMap(({ counts }) => counts.filter((_, index) => selected[index]).map((value) => String(value).length)),
+      );
+
+    for (const { name, counts } of results) {
+      const values = counts
+        .filter((_, index) => selected[index])
+        .map((value) => String(value).padStart(width));
+      output.println([...values, ...(name ? [name] : [])].join(' '));
+    }
+
+    return exitCode;
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
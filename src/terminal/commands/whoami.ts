@@ -4,8 +4,9 @@ export const whoami: CommandDefinition = {
   name: 'whoami',
   description: 'Print the current user',
   usage: 'whoami',
-  execute({ env, output }) {
-    output.println(env.USER);
+  execute({ vfs, output }) {
+    // 有效用户（sudo 执行时为目标用户）
+    output.println(vfs.getCredentials().user);
     return 0;
   },
 };
@@ -0,0 +1,155 @@
+import type { CommandDefinition } from '../types';
+
+/**
+ * 按空白拆分输入，支持单引号、双引号和反斜杠转义
+ */
+function splitItems(input: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let inItem = false;
+  let quote: string | null = null;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\n') {
+        throw new Error(`unmatched ${quote === '"' ? 'double' : 'single'} quote; by default quotes are special to xargs unless you use the -0 option`);
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inItem = true;
+    } else if (char === '\\' && i + 1 < input.length) {
+      current += input[++i];
+      inItem = true;
+    } else if (/\s/.test(char)) {
+      if (inItem) items.push(current);
+      current = '';
+      inItem = false;
+    } else {
+      current += char;
+      inItem = true;
+    }
+  }
+  if (quote) {
+    throw new Error(`unmatched ${quote === '"' ? 'double' : 'single'} quote; by default quotes are special to xargs unless you use the -0 option`);
+  }
+  if (inItem) {
+    items.push(current);
+  }
+  return items;
+}
+
+export const xargs: CommandDefinition = {
+  name: 'xargs',
+  description: 'Build and execute command lines from standard input',
+  usage: 'xargs [-0] [-d DELIM] [-n MAX-ARGS] [-I REPLACE] [-r] [-t] [COMMAND [ARG]...]',
+  async execute({ argv, output, stdin, shell }) {
+    let maxArgs = Infinity;
+    let replace: string | null = null;
+    let delimiter: string | null = null;
+    let noRunIfEmpty = false;
+    let trace = false;
+
+    // 第一个非选项参数之后都是要执行的命令
+    let i = 0;
+    for (; i < argv.length; i++) {
+      const arg = argv[i];
+      const option = arg.match(/^-([nId])(.*)$/s);
+      if (option) {
+        const value = option[2] || argv[++i];
+        if (value === undefined) {
+          output.error(`xargs: option requires an argument -- '${option[1]}'`);
+          return 1;
+        }
+        if (option[1] === 'n') {
+          if (!/^\d+$/.test(value) || Number(value) === 0) {
+            output.error(`xargs: invalid number "${value}" for -n option`);
+            return 1;
+          }
+          maxArgs = Number(value);
+        } else if (option[1] === 'I') {
+          replace = value;
+        } else {
+          delimiter = value.replace(/^\\n$/, '\n').replace(/^\\t$/, '\t');
+        }
+      } else if (arg === '-0' || arg === '--null') {
+        delimiter = '\0';
+      } else if (/^-[rt]+$/.test(arg)) {
+        noRunIfEmpty ||= arg.includes('r');
+        trace ||= arg.includes('t');
+      } else if (arg === '--no-run-if-empty') {
+        noRunIfEmpty = true;
+      } else if (arg === '--verbose') {
+        trace = true;
+      } else if (arg === '--') {
+        i++;
+        break;
+      } else if (arg.startsWith('-') && arg !== '-') {
+        output.error(`xargs: invalid option -- '${arg.replace(/^-+/, '')}'`);
+        return 1;
+      } else {
+        break;
+      }
+    }
+    const command = argv.length > i ? argv.slice(i) : ['echo'];
+
+    // -I 时每行是一项，否则按分隔符或空白拆分
+    const input = stdin ?? '';
+    let items: string[];
+    try {
+      if (replace !== null) {
+        items = input.split('\n').map((line) => line.replace(/^\s+/, '')).filter(Boolean);
+      } else if (delimiter !== null) {
+        items = input.split(delimiter);
+        if (items[items.length - 1] === '' || (delimiter !== '\n' && items[items.length - 1] === '\n')) {
+          items.pop();
+        }
+      } else {
+        items = splitItems(input);
+      }
+    } catch (error) {
+      output.error(`xargs: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+
+    const batches: string[][] = [];
+    if (replace !== null) {
+      const pattern = replace;
+      for (const item of items) {
+        batches.push(command.map((arg) => arg.split(pattern).join(item)));
+      }
+    } else if (items.length === 0) {
+      // 没有输入时仍执行一次命令（-r 时不执行）
+      if (!noRunIfEmpty) batches.push(command);
+    } else {
+      const size = Math.min(maxArgs, items.length);
+      for (let start = 0; start < items.length; start += size) {
+        batches.push([...command, ...items.slice(start, start + size)]);
+      }
+    }
+
+    // 命令以 255 退出时停止；找不到或不能执行命令时返回 127/126，其他失败返回 123
+    let exitCode = 0;
+    for (const args of batches) {
+      if (trace) {
+        output.error(args.join(' '));
+      }
+      const code = await shell.exec(args, null);
+      if (code === 255) {
+        output.error(`xargs: ${args[0]}: exited with status 255; aborting`);
+        return 124;
+      }
+      if (code === 126 || code === 127) {
+        return code;
+      }
+      if (code !== 0) {
+        exitCode = 123;
+      }
+    }
+    return exitCode;
+  },
+};
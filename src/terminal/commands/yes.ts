@@ -0,0 +1,24 @@
+import type { CommandDefinition } from '../types';
+import { delay, signalStatus } from '../signals';
+
+/** 每批输出的行数 */
+const BatchLines = 100;
+
+/** 每批之间的间隔（毫秒），让出事件循环以便响应 Ctrl+C 和 timeout */
+const BatchInterval = 10;
+
+export const yes: CommandDefinition = {
+  name: 'yes',
+  description: 'Output a string repeatedly until interrupted',
+  usage: 'yes [STRING]...',
+  async execute({ argv, output, signal }) {
+    const line = (argv.length > 0 ? argv.join(' ') : 'y') + '\n';
+
+    // 输出到终端、管道或文件时都一直输出，直到被中断
+    const batch = line.repeat(BatchLines);
+    do {
+      output.print(batch);
+    } while (await delay(BatchInterval, signal));
+    return signalStatus(signal);
+  },
+};
@@ -0,0 +1,108 @@
+import type { ArchiveEntry, CommandDefinition } from '../types';
+import { strerror } from '../vfs';
+import { collectEntries, createZip, parseZip } from '../archive';
+import { byteLength } from '../encoding';
+
+export const zip: CommandDefinition = {
+  name: 'zip',
+  description: 'Package and compress files into a zip archive',
+  usage: 'zip [-r] [-q] [-y] ZIPFILE FILE...',
+  execute({ vfs, args, flags, output }) {
+    const recursive = flags.has('r') || flags.has('recurse-paths');
+    const quiet = flags.has('q') || flags.has('quiet');
+    const storeLinks = flags.has('y') || flags.has('symlinks');
+
+    const [target, ...paths] = args;
+    if (!target) {
+      output.error('zip error: Nothing to do!');
+      return 12;
+    }
+    // 没有扩展名时加上 .zip
+    const archive = /\.[^/]*$/.test(target) ? target : `${target}.zip`;
+    if (paths.length === 0) {
+      output.error(`zip error: Nothing to do! (${archive})`);
+      return 12;
+    }
+
+    // 已有的归档中的成员被保留，同名成员被替换
+    let existing: ArchiveEntry[] = [];
+    if (vfs.exists(archive)) {
+      const bytes = vfs.readFileBytes(archive);
+      try {
+        existing = bytes ? parseZip(bytes) : [];
+      } catch {
+        output.error(`zip error: Zip file structure invalid (${archive})`);
+        return 3;
+      }
+    }
+
+    let exitCode = 0;
+    const added: ArchiveEntry[] = [];
+    for (const path of paths) {
+      if (!vfs.lstat(path)) {
+        output.warn(`zip warning: name not matched: ${path}`);
+        continue;
+      }
+      const name = path.replace(/^\/+/, '').replace(/\/+$/, '');
+      const entries = collectEntries(vfs, path, name, {
+        recursive,
+        onError: (errorPath, code) => {
+          output.warn(`zip warning: could not open for reading: ${errorPath}: ${strerror(code)}`);
+          exitCode = 18;
+        },
+      });
+
+      for (const entry of entries) {
+        if (entry.type !== 'symlink' || storeLinks) {
+          added.push(entry);
+          continue;
+        }
+        // 不带 -y 时保存符号链接指向的文件的内容（指向目录的链接仍保存为链接）
+        const linkPath = path + entry.name.slice(name.length);
+        const stat = vfs.stat(linkPath);
+        const content = stat?.type === 'file' ? vfs.readFileBytes(linkPath) : null;
+        if (content !== null) {
+          added.push({ ...entry, type: 'file', mode: 0o644, content, target: undefined });
+        } else if (stat?.type === 'directory') {
+          added.push(entry);
+        } else {
+          output.warn(`zip warning: name not matched: ${linkPath}`);
+        }
+      }
+    }
+
+    if (added.length === 0) {
+      output.error(`zip error: Nothing to do! (${archive})`);
+      return 12;
+    }
+
+    const names = new Set(added.map((entry) => entry.name));
+    const updated = new Set(existing.map((entry) => entry.name).filter((name) => names.has(name)));
+    const entries = [...existing.filter((entry) => !names.has(entry.name)), ...added];
+
+    const data = createZip(entries, (entry, compressedSize) => {
+      if (quiet || !names.has(entry.name)) {
+        return;
+      }
+      const size = entry.type === 'symlink' ? byteLength(entry.target ?? '') : entry.content?.length ?? 0;
+      const method = compressedSize < size
+        ? `deflated ${Math.round((1 - compressedSize / size) * 100)}%`
+        : 'stored 0%';
+      const name = entry.type === 'directory' ? `${entry.name}/` : entry.name;
+      output.println(`${updated.has(entry.name) ? 'updating' : '  adding'}: ${name} (${method})`);
+    });
+
+    if (!vfs.writeFile(archive, data)) {
+      output.error(`zip I/O error: ${strerror(vfs.lastError)}`);
+      output.error(`zip error: Could not create output file (${archive})`);
+      return 15;
+    }
+    return exitCode;
+  },
+  complete(partial, { vfs }) {
+    const entries = vfs.ls('.') || [];
+    return entries
+      .filter((e) => e.name.startsWith(partial))
+      .map((e) => e.name + (e.type === 'directory' ? '/' : ''));
+  },
+};
@@ -0,0 +1,481 @@
+/**
+ * DEFLATE 压缩与解压（RFC 1951）及 gzip 封装（RFC 1952）
+ * 纯 TypeScript 实现，压缩使用 LZ77 和固定 Huffman 编码，解压支持全部三种块类型
+ */
+
+/** 滑动窗口大小 */
+const WindowSize = 32768;
+
+/** 最短和最长的匹配长度 */
+const MinMatch = 3;
+const MaxMatch = 258;
+
+/** 查找匹配时最多比较的候选位置数 */
+const MaxChainLength = 128;
+
+/** 哈希表大小（以 2 为底的对数） */
+const HashBits = 15;
+
+/** 存储块的最大长度 */
+const MaxStoredBlock = 65535;
+
+/** 长度码 257..285 对应的基础长度和额外位数 */
+const LengthBase = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LengthExtra = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+
+/** 距离码 0..29 对应的基础距离和额外位数 */
+const DistanceBase = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193,
+  257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DistanceExtra = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+/** 动态块中码长码的排列顺序 */
+const CodeLengthOrder = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+/** 范式 Huffman 码表：每种码长的符号数和按码排序的符号 */
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+/**
+ * 由各符号的码长构造范式 Huffman 码表
+ */
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i]]++;
+  }
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 16; len++) {
+    offsets[len] = offsets[len - 1] + counts[len - 1];
+  }
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i] !== 0) symbols[offsets[lengths[i]]++] = i;
+  }
+  return { counts, symbols };
+}
+
+/** 固定 Huffman 编码的码长 */
+const FixedLiteralLengths = Array.from({ length: 288 }, (_, i) => (i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8));
+const FixedDistanceLengths = new Array<number>(30).fill(5);
+
+let fixedTables: { literal: Huffman; distance: Huffman } | null = null;
+
+/**
+ * 按需增长的字节缓冲区
+ */
+class ByteBuffer {
+  private data: Uint8Array;
+  length = 0;
+
+  constructor(capacity: number = 1024) {
+    this.data = new Uint8Array(Math.max(capacity, 16));
+  }
+
+  private reserve(extra: number): void {
+    if (this.length + extra <= this.data.length) {
+      return;
+    }
+    let capacity = this.data.length * 2;
+    while (capacity < this.length + extra) capacity *= 2;
+    const data = new Uint8Array(capacity);
+    data.set(this.data.subarray(0, this.length));
+    this.data = data;
+  }
+
+  push(byte: number): void {
+    this.reserve(1);
+    this.data[this.length++] = byte;
+  }
+
+  append(bytes: Uint8Array): void {
+    this.reserve(bytes.length);
+    this.data.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  /** 复制已输出的内容（LZ77 回溯引用，允许重叠） */
+  copyWithin(distance: number, length: number): void {
+    this.reserve(length);
+    for (let i = 0; i < length; i++) {
+      this.data[this.length] = this.data[this.length - distance];
+      this.length++;
+    }
+  }
+
+  toBytes(): Uint8Array {
+    return this.data.slice(0, this.length);
+  }
+}
+
+/**
+ * 解压原始 DEFLATE 数据，数据无效时抛出异常
+ */
+export function inflateRaw(input: Uint8Array): Uint8Array {
+  const output = new ByteBuffer(input.length * 3);
+  let pos = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const bits = (count: number): number => {
+    while (bitCount < count) {
+      if (pos >= input.length) {
+        throw new Error('unexpected end of compressed data');
+      }
+      bitBuffer |= input[pos++] << bitCount;
+      bitCount += 8;
+    }
+    const value = bitBuffer & ((1 << count) - 1);
+    bitBuffer >>>= count;
+    bitCount -= count;
+    return value;
+  };
+
+  // 逐位解码（码的高位先出现）
+  const decode = (table: Huffman): number => {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len < 16; len++) {
+      code |= bits(1);
+      const count = table.counts[len];
+      if (code - first < count) {
+        return table.symbols[index + code - first];
+      }
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('invalid Huffman code');
+  };
+
+  const inflateBlock = (literal: Huffman, distance: Huffman) => {
+    for (;;) {
+      const symbol = decode(literal);
+      if (symbol < 256) {
+        output.push(symbol);
+      } else if (symbol === 256) {
+        return;
+      } else {
+        const lengthCode = symbol - 257;
+        if (lengthCode >= LengthBase.length) {
+          throw new Error('invalid length code');
+        }
+        const length = LengthBase[lengthCode] + bits(LengthExtra[lengthCode]);
+        const distanceCode = decode(distance);
+        if (distanceCode >= DistanceBase.length) {
+          throw new Error('invalid distance code');
+        }
+        const offset = DistanceBase[distanceCode] + bits(DistanceExtra[distanceCode]);
+        if (offset > output.length) {
+          throw new Error('invalid distance too far back');
+        }
+        output.copyWithin(offset, length);
+      }
+    }
+  };
+
+  let last = 0;
+  while (!last) {
+    last = bits(1);
+    const type = bits(2);
+
+    if (type === 0) {
+      // 存储块：丢弃剩余的位，按字节读取
+      bitBuffer = 0;
+      bitCount = 0;
+      if (pos + 4 > input.length) {
+        throw new Error('unexpected end of compressed data');
+      }
+      const length = input[pos] | (input[pos + 1] << 8);
+      const complement = input[pos + 2] | (input[pos + 3] << 8);
+      pos += 4;
+      if (length !== (~complement & 0xffff) || pos + length > input.length) {
+        throw new Error('invalid stored block');
+      }
+      output.append(input.subarray(pos, pos + length));
+      pos += length;
+    } else if (type === 1) {
+      fixedTables ??= { literal: buildHuffman(FixedLiteralLengths), distance: buildHuffman(FixedDistanceLengths) };
+      inflateBlock(fixedTables.literal, fixedTables.distance);
+    } else if (type === 2) {
+      const literalCount = bits(5) + 257;
+      const distanceCount = bits(5) + 1;
+      const codeLengthCount = bits(4) + 4;
+
+      const codeLengths = new Uint8Array(19);
+      for (let i = 0; i < codeLengthCount; i++) {
+        codeLengths[CodeLengthOrder[i]] = bits(3);
+      }
+      const codeLengthTable = buildHuffman(codeLengths);
+
+      const lengths = new Uint8Array(literalCount + distanceCount);
+      for (let i = 0; i < lengths.length;) {
+        const symbol = decode(codeLengthTable);
+        if (symbol < 16) {
+          lengths[i++] = symbol;
+          continue;
+        }
+        let repeat: number;
+        let value = 0;
+        if (symbol === 16) {
+          if (i === 0) throw new Error('invalid bit length repeat');
+          value = lengths[i - 1];
+          repeat = 3 + bits(2);
+        } else if (symbol === 17) {
+          repeat = 3 + bits(3);
+        } else {
+          repeat = 11 + bits(7);
+        }
+        if (i + repeat > lengths.length) {
+          throw new Error('invalid bit length repeat');
+        }
+        lengths.fill(value, i, i + repeat);
+        i += repeat;
+      }
+
+      inflateBlock(buildHuffman(lengths.subarray(0, literalCount)), buildHuffman(lengths.subarray(literalCount)));
+    } else {
+      throw new Error('invalid block type');
+    }
+  }
+
+  return output.toBytes();
+}
+
+/**
+ * 按位写入（低位在前）
+ */
+class BitWriter {
+  readonly buffer: ByteBuffer;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(capacity: number) {
+    this.buffer = new ByteBuffer(capacity);
+  }
+
+  write(value: number, count: number): void {
+    this.bitBuffer |= value << this.bitCount;
+    this.bitCount += count;
+    while (this.bitCount >= 8) {
+      this.buffer.push(this.bitBuffer & 0xff);
+      this.bitBuffer >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  /** 写入 Huffman 码（码的高位先写） */
+  writeCode(code: number, length: number): void {
+    let reversed = 0;
+    for (let i = 0; i < length; i++) {
+      reversed = (reversed << 1) | ((code >> i) & 1);
+    }
+    this.write(reversed, length);
+  }
+
+  flush(): Uint8Array {
+    if (this.bitCount > 0) {
+      this.buffer.push(this.bitBuffer & 0xff);
+      this.bitBuffer = 0;
+      this.bitCount = 0;
+    }
+    return this.buffer.toBytes();
+  }
+}
+
+/**
+ * 写入固定 Huffman 编码的字面量或长度码
+ */
+function writeFixedLiteral(writer: BitWriter, symbol: number): void {
+  if (symbol < 144) {
+    writer.writeCode(0x30 + symbol, 8);
+  } else if (symbol < 256) {
+    writer.writeCode(0x190 + symbol - 144, 9);
+  } else if (symbol < 280) {
+    writer.writeCode(symbol - 256, 7);
+  } else {
+    writer.writeCode(0xc0 + symbol - 280, 8);
+  }
+}
+
+/**
+ * 查找小于等于 value 的最大基础值的下标
+ */
+function findCode(bases: number[], value: number): number {
+  let index = bases.length - 1;
+  while (bases[index] > value) index--;
+  return index;
+}
+
+/**
+ * 使用存储块编码（不压缩）
+ */
+function storeRaw(input: Uint8Array): Uint8Array {
+  const output = new ByteBuffer(input.length + 5 * (Math.ceil(input.length / MaxStoredBlock) || 1));
+  let pos = 0;
+  do {
+    const length = Math.min(MaxStoredBlock, input.length - pos);
+    const last = pos + length >= input.length;
+    output.push(last ? 1 : 0);
+    output.push(length & 0xff);
+    output.push(length >> 8);
+    output.push(~length & 0xff);
+    output.push((~length >> 8) & 0xff);
+    output.append(input.subarray(pos, pos + length));
+    pos += length;
+  } while (pos < input.length);
+  return output.toBytes();
+}
+
+/**
+ * 压缩为原始 DEFLATE 数据（压缩后反而更大时使用存储块）
+ */
+export function deflateRaw(input: Uint8Array): Uint8Array {
+  const writer = new BitWriter(input.length / 2);
+  writer.write(1, 1);
+  writer.write(1, 2);
+
+  const hashSize = 1 << HashBits;
+  const head = new Int32Array(hashSize).fill(-1);
+  const previous = new Int32Array(WindowSize);
+  const hashAt = (i: number) => ((input[i] << 10) ^ (input[i + 1] << 5) ^ input[i + 2]) & (hashSize - 1);
+  const insert = (i: number) => {
+    if (i + MinMatch > input.length) return;
+    const hash = hashAt(i);
+    previous[i & (WindowSize - 1)] = head[hash];
+    head[hash] = i;
+  };
+
+  let pos = 0;
+  while (pos < input.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (pos + MinMatch <= input.length) {
+      const limit = Math.min(MaxMatch, input.length - pos);
+      let candidate = head[hashAt(pos)];
+      for (let chain = 0; candidate >= 0 && pos - candidate <= WindowSize && chain < MaxChainLength; chain++) {
+        let length = 0;
+        while (length < limit && input[candidate + length] === input[pos + length]) length++;
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = pos - candidate;
+          if (length === limit) break;
+        }
+        const next = previous[candidate & (WindowSize - 1)];
+        if (next >= candidate) break;
+        candidate = next;
+      }
+    }
+
+    if (bestLength >= MinMatch) {
+      const lengthCode = findCode(LengthBase, bestLength);
+      writeFixedLiteral(writer, 257 + lengthCode);
+      writer.write(bestLength - LengthBase[lengthCode], LengthExtra[lengthCode]);
+      const distanceCode = findCode(DistanceBase, bestDistance);
+      writer.writeCode(distanceCode, 5);
+      writer.write(bestDistance - DistanceBase[distanceCode], DistanceExtra[distanceCode]);
+      for (let i = 0; i < bestLength; i++) insert(pos + i);
+      pos += bestLength;
+    } else {
+      writeFixedLiteral(writer, input[pos]);
+      insert(pos);
+      pos++;
+    }
+  }
+  writeFixedLiteral(writer, 256);
+
+  const compressed = writer.flush();
+  return compressed.length > input.length + 5 ? storeRaw(input) : compressed;
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * 计算 CRC-32
+ */
+export function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * 判断数据是否为 gzip 格式
+ */
+export function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length >= 18 && bytes[0] === 0x1f && bytes[1] === 0x8b && bytes[2] === 8;
+}
+
+/**
+ * 压缩为 gzip 格式
+ */
+export function gzip(input: Uint8Array, mtime: Date = new Date()): Uint8Array {
+  const compressed = deflateRaw(input);
+  const output = new Uint8Array(10 + compressed.length + 8);
+  const view = new DataView(output.buffer);
+  output.set([0x1f, 0x8b, 8, 0]);
+  view.setUint32(4, Math.floor(mtime.getTime() / 1000), true);
+  // 额外标志为 0，操作系统为 Unix
+  output[9] = 3;
+  output.set(compressed, 10);
+  view.setUint32(10 + compressed.length, crc32(input), true);
+  view.setUint32(14 + compressed.length, input.length, true);
+  return output;
+}
+
+/**
+ * 解压 gzip 数据（只处理第一个成员），数据无效时抛出异常
+ */
+export function gunzip(input: Uint8Array): Uint8Array {
+  if (!isGzip(input)) {
+    throw new Error('not in gzip format');
+  }
+
+  const flags = input[3];
+  let pos = 10;
+  if (flags & 4) {
+    // FEXTRA
+    pos += 2 + (input[pos] | (input[pos + 1] << 8));
+  }
+  for (const flag of [8, 16]) {
+    // FNAME 和 FCOMMENT 以 NUL 结尾
+    if (flags & flag) {
+      while (pos < input.length && input[pos] !== 0) pos++;
+      pos++;
+    }
+  }
+  if (flags & 2) {
+    // FHCRC
+    pos += 2;
+  }
+  if (pos > input.length - 8) {
+    throw new Error('unexpected end of file');
+  }
+
+  const output = inflateRaw(input.subarray(pos, input.length - 8));
+  const view = new DataView(input.buffer, input.byteOffset, input.byteLength);
+  if (view.getUint32(input.length - 8, true) !== crc32(output)) {
+    throw new Error('invalid compressed data--crc error');
+  }
+  return output;
+}
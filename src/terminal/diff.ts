@@ -0,0 +1,85 @@
+/**
+ * 文本行差异比较
+ * 基于最长公共子序列（LCS）计算两段文本之间的逐行差异
+ */
+
+import type { DiffLine } from './types';
+import { splitLines } from './text';
+
+/** LCS 表的最大单元数，超过时退化为整体替换，避免大文件占用过多内存 */
+const MaxTableSize = 4_000_000;
+
+/**
+ * 逐行比较两段文本
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  // 比较时不包括行尾的换行
+  const a = splitLines(before).map((line) => line.replace(/\n$/, ''));
+  const b = splitLines(after).map((line) => line.replace(/\n$/, ''));
+
+  // 跳过相同的开头和结尾，缩小 LCS 的计算范围
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map((text) => ({ type: 'equal', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if ((midA.length + 1) * (midB.length + 1) > MaxTableSize) {
+    result.push(...midA.map((text): DiffLine => ({ type: 'remove', text })));
+    result.push(...midB.map((text): DiffLine => ({ type: 'add', text })));
+  } else {
+    result.push(...diffMiddle(midA, midB));
+  }
+
+  result.push(...a.slice(endA).map((text): DiffLine => ({ type: 'equal', text })));
+  return result;
+}
+
+/**
+ * 使用 LCS 动态规划比较中间部分
+ */
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const width = b.length + 1;
+  // lengths[i * width + j] 为 a[i..] 与 b[j..] 的 LCS 长度
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      result.push({ type: 'remove', text: a[i++] });
+    } else {
+      result.push({ type: 'add', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: 'remove', text: a[i++] });
+  while (j < b.length) result.push({ type: 'add', text: b[j++] });
+  return result;
+}
+
+/**
+ * 将差异格式化为 diff -u 风格的文本（不含文件头）
+ */
+export function formatDiff(lines: DiffLine[]): string {
+  const prefix = { equal: ' ', add: '+', remove: '-' } as const;
+  return lines.map((line) => prefix[line.type] + line.text).join('\n');
+}
@@ -0,0 +1,1634 @@
+/**
+ * 全屏文本编辑器
+ * 支持 nano 风格（无模式，用 Ctrl 组合键操作）和 vi 风格（普通、插入和命令行模式）两种操作方式
+ */
+import type { InputReader, TerminalScreen, VirtualFileSystem } from './types';
+import { strerror } from './vfs';
+import { escapeRegExp, translateRegExp } from './regex';
+import { isPrintable, keyName, splitKeys } from './keys';
+import { charWidth } from './text';
+import { byteLength } from './encoding';
+
+/** 编辑器的操作方式 */
+export type EditorMode = 'nano' | 'vi';
+
+/** 编辑器选项 */
+export interface EditorOptions {
+  mode: EditorMode;
+  vfs: VirtualFileSystem;
+  /** 编辑的文件，null 表示未命名的缓冲区 */
+  path: string | null;
+  /** 文件原有的内容，null 表示新文件 */
+  content: string | null;
+}
+
+/** 底部提示行的文本输入（nano 的文件名和搜索，vi 的命令行） */
+interface TextPrompt {
+  label: string;
+  text: string;
+  /** 光标位置（字符下标） */
+  cursor: number;
+  submit(text: string): void;
+  cancel(): void;
+}
+
+/** nano 的单键确认（如退出时是否保存） */
+interface Question {
+  label: string;
+  answer(name: string): void;
+}
+
+/** vi 的寄存器：整行内容（dd、yy）或行内的字符（x、dw） */
+type Register =
+  | { linewise: true; lines: string[][] }
+  | { linewise: false; chars: string[] };
+
+/** 撤销记录 */
+interface Snapshot {
+  lines: string[][];
+  row: number;
+  col: number;
+}
+
+/** 制表位宽度 */
+const TabWidth = 8;
+
+/** 最多保留的撤销记录 */
+const MaxUndo = 100;
+
+/** nano 底部的快捷键 */
+const NanoShortcuts: [string, string][] = [
+  ['^G', 'Help'],
+  ['^O', 'Write Out'],
+  ['^W', 'Where Is'],
+  ['^K', 'Cut'],
+  ['^C', 'Location'],
+  ['^X', 'Exit'],
+  ['^_', 'Go To Line'],
+  ['^U', 'Paste'],
+  ['^Y', 'Prev Page'],
+  ['^V', 'Next Page'],
+];
+
+/** nano 的帮助内容 */
+const NanoHelp = [
+  'Main nano help text',
+  '',
+  'Commands are shown as ^ followed by a letter, meaning Ctrl plus that key.',
+  'The status bar shows messages; the two bottom lines list common shortcuts.',
+  '',
+  '^G          Display this help text',
+  '^X          Close the buffer and exit from nano',
+  '^O          Write the current buffer to disk',
+  '^W          Search forward for a string',
+  '^K          Cut the current line into the cutbuffer',
+  '^U          Paste the contents of the cutbuffer',
+  '^C          Display the position of the cursor',
+  '^_          Go to line and column number',
+  '^Y  PgUp    Go one screenful up',
+  '^V  PgDn    Go one screenful down',
+  '^A  Home    Go to beginning of current line',
+  '^E  End     Go to end of current line',
+  '^D  Del     Delete the character under the cursor',
+  '',
+  'Press any key to return to the buffer.',
+];
+
+/**
+ * 字符串的显示宽度
+ */
+function textWidth(text: string): number {
+  let width = 0;
+  for (const char of text) width += charWidth(char);
+  return width;
+}
+
+/**
+ * 截断或补齐字符串到指定的显示宽度
+ */
+function fitText(text: string, width: number): string {
+  let result = '';
+  let used = 0;
+  for (const char of text) {
+    const w = charWidth(char);
+    if (used + w > width) break;
+    result += char;
+    used += w;
+  }
+  return result + ' '.repeat(width - used);
+}
+
+/**
+ * 行内字符在屏幕上的显示方式
+ */
+function displayChar(char: string, column: number): string {
+  if (char === '\t') return ' '.repeat(TabWidth - (column % TabWidth));
+  const code = char.codePointAt(0)!;
+  if (code < 0x20) return '^' + String.fromCharCode(code + 0x40);
+  if (code === 0x7f) return '^?';
+  return char;
+}
+
+/**
+ * 行中前 count 个字符占用的显示宽度（制表符展开到下一个制表位）
+ */
+function displayColumn(chars: string[], count: number): number {
+  let x = 0;
+  for (let i = 0; i < count && i < chars.length; i++) {
+    x += chars[i] === '\t' ? TabWidth - (x % TabWidth) : charWidth(chars[i]);
+  }
+  return x;
+}
+
+/**
+ * 渲染一行中从 left 列开始、宽度为 width 的可见部分
+ */
+function renderLine(chars: string[], left: number, width: number): string {
+  let out = '';
+  let x = 0;
+  for (const char of chars) {
+    const w = char === '\t' ? TabWidth - (x % TabWidth) : charWidth(char);
+    const end = x + w;
+    if (end > left + width) break;
+    if (end > left) {
+      // 被左边界截断的宽字符或制表符显示为空格
+      out += x < left ? ' '.repeat(end - left) : displayChar(char, x);
+    }
+    x = end;
+  }
+  return out;
+}
+
+/**
+ * 统计文本的行数（最后一行没有换行也算一行）
+ */
+function countLines(text: string): number {
+  if (!text) return 0;
+  return text.split('\n').length - (text.endsWith('\n') ? 1 : 0);
+}
+
+/**
+ * 字符的类别：0 空白，1 单词字符，2 其他符号（vi 按类别划分单词）
+ */
+function charClass(char: string | undefined): number {
+  if (char === undefined || /\s/.test(char)) return 0;
+  return /[\p{L}\p{N}_]/u.test(char) ? 1 : 2;
+}
+
+/**
+ * 编译搜索模式：vi 按 BRE 处理，nano 按普通文本不区分大小写；无效的正则表达式按普通文本搜索
+ */
+function compilePattern(pattern: string, mode: EditorMode): RegExp {
+  if (mode === 'nano') {
+    return new RegExp(escapeRegExp(pattern), 'gi');
+  }
+  try {
+    return new RegExp(translateRegExp(pattern, false), 'gu');
+  } catch {
+    return new RegExp(escapeRegExp(pattern), 'g');
+  }
+}
+
+class Editor {
+  private mode: EditorMode;
+  private vfs: VirtualFileSystem;
+  private path: string | null;
+  private screen: TerminalScreen | null = null;
+  private onExit: (() => void) | null = null;
+
+  /** 缓冲区内容，每行是字符数组 */
+  private lines: string[][];
+  private row = 0;
+  private col = 0;
+  /** 上下移动时希望保持的列（vi 的 $ 之后为 Infinity） */
+  private goalCol = 0;
+  /** 第一个显示的行 */
+  private top = 0;
+  /** 水平滚动的列数 */
+  private left = 0;
+  private modified = false;
+  private message = '';
+  private messageIsError = false;
+  private prompt: TextPrompt | null = null;
+  private question: Question | null = null;
+  private lastSearch = '';
+
+  /** nano：剪切的行 */
+  private cutBuffer: string[][] = [];
+  /** nano：上一个按键是否为剪切（连续剪切的行合并到一起） */
+  private cutting = false;
+  private showHelp = false;
+
+  /** vi：是否处于插入模式 */
+  private insertMode = false;
+  /** vi：等待后续按键的命令（d、y、c、g、r、Z） */
+  private pending = '';
+  /** vi：命令前输入的次数 */
+  private count = '';
+  private register: Register | null = null;
+  private undoStack: Snapshot[] = [];
+  private redoStack: Snapshot[] = [];
+  private searchBackward = false;
+  private showNumbers = false;
+
+  constructor(options: EditorOptions) {
+    this.mode = options.mode;
+    this.vfs = options.vfs;
+    this.path = options.path;
+
+    const content = options.content;
+    if (content === null || content === '') {
+      this.lines = [[]];
+    } else {
+      const lines = content.split('\n');
+      // vi 不显示最后的换行，nano 把它显示为末尾的空行
+      if (this.mode === 'vi' && content.endsWith('\n')) lines.pop();
+      this.lines = lines.map((line) => [...line]);
+    }
+
+    if (this.mode === 'nano') {
+      this.message = content === null ? 'New File' : `Read ${countLines(content)} line${countLines(content) === 1 ? '' : 's'}`;
+    } else if (this.path !== null) {
+      this.message = content === null
+        ? `"${this.path}" [New]`
+        : `"${this.path}" ${countLines(content)}L, ${byteLength(content)}B`;
+    }
+  }
+
+  /**
+   * 在全屏界面上开始编辑，退出时调用 onExit
+   */
+  start(screen: TerminalScreen, onExit: () => void): void {
+    this.screen = screen;
+    this.onExit = onExit;
+    this.render();
+  }
+
+  /**
+   * 处理终端输入
+   */
+  handleInput(data: string): void {
+    for (const key of splitKeys(data)) {
+      if (!this.screen) return;
+      const name = keyName(key);
+      if (this.mode === 'nano') {
+        this.handleNanoKey(name);
+      } else {
+        this.handleViKey(name);
+      }
+    }
+    this.render();
+  }
+
+  /**
+   * 退出编辑器
+   */
+  private quit(): void {
+    const screen = this.screen;
+    if (!screen) return;
+    this.screen = null;
+    screen.close();
+    this.onExit?.();
+  }
+
+  // ==================== 缓冲区操作 ====================
+
+  private get line(): string[] {
+    return this.lines[this.row];
+  }
+
+  /** 光标可以到达的最后一列（vi 普通模式下不能停在行尾之后） */
+  private maxCol(): number {
+    const length = this.line.length;
+    return this.mode === 'vi' && !this.insertMode ? Math.max(0, length - 1) : length;
+  }
+
+  private setCol(col: number): void {
+    this.col = Math.max(0, Math.min(col, this.maxCol()));
+    this.goalCol = this.col;
+  }
+
+  private moveVertical(delta: number): void {
+    this.row = Math.max(0, Math.min(this.row + delta, this.lines.length - 1));
+    this.col = Math.min(this.goalCol, this.maxCol());
+  }
+
+  private firstNonBlank(): number {
+    const index = this.line.findIndex((char) => char !== ' ' && char !== '\t');
+    return index < 0 ? this.maxCol() : index;
+  }
+
+  private gotoLine(line: number): void {
+    this.row = Math.max(0, Math.min(line - 1, this.lines.length - 1));
+    this.setCol(this.firstNonBlank());
+  }
+
+  private insertChar(char: string): void {
+    this.line.splice(this.col, 0, char);
+    this.col++;
+    this.goalCol = this.col;
+    this.modified = true;
+  }
+
+  private insertNewline(): void {
+    const rest = this.line.splice(this.col);
+    this.lines.splice(this.row + 1, 0, rest);
+    this.row++;
+    this.col = 0;
+    this.goalCol = 0;
+    this.modified = true;
+  }
+
+  private insertText(text: string): void {
+    for (const char of text) {
+      if (char === '\n') {
+        this.insertNewline();
+      } else {
+        this.insertChar(char);
+      }
+    }
+  }
+
+  /** 删除光标前的字符，在行首时与上一行合并 */
+  private deleteBackward(): void {
+    if (this.col > 0) {
+      this.line.splice(this.col - 1, 1);
+      this.col--;
+    } else if (this.row > 0) {
+      const previous = this.lines[this.row - 1];
+      this.col = previous.length;
+      previous.push(...this.line);
+      this.lines.splice(this.row, 1);
+      this.row--;
+    } else {
+      return;
+    }
+    this.goalCol = this.col;
+    this.modified = true;
+  }
+
+  /** 删除光标处的字符，在行尾时与下一行合并 */
+  private deleteForward(): void {
+    if (this.col < this.line.length) {
+      this.line.splice(this.col, 1);
+    } else if (this.row < this.lines.length - 1) {
+      this.line.push(...this.lines[this.row + 1]);
+      this.lines.splice(this.row + 1, 1);
+    } else {
+      return;
+    }
+    this.modified = true;
+  }
+
+  /**
+   * 生成要保存的文件内容：总是以换行结尾，空缓冲区保存为空文件
+   */
+  private serialize(): string {
+    const lines = this.lines.map((line) => line.join(''));
+    if (this.mode === 'nano') {
+      const text = lines.join('\n');
+      return lines[lines.length - 1] === '' ? text : text + '\n';
+    }
+    if (lines.length === 1 && lines[0] === '') return '';
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * 将缓冲区写入文件，成功时显示写入的行数
+   */
+  private writeFile(path: string): boolean {
+    const text = this.serialize();
+    const isNew = !this.vfs.exists(path);
+    if (!this.vfs.writeFile(path, text)) {
+      if (this.mode === 'nano') {
+        this.setError(`Error writing ${path}: ${strerror(this.vfs.lastError)}`);
+      } else {
+        this.setError(`"${path}" E212: Can't open file for writing: ${strerror(this.vfs.lastError)}`);
+      }
+      return false;
+    }
+
+    const lines = countLines(text);
+    if (this.mode === 'nano') {
+      this.path = path;
+      this.setMessage(`Wrote ${lines} line${lines === 1 ? '' : 's'}`);
+    } else {
+      this.path ??= path;
+      this.setMessage(`"${path}" ${isNew ? '[New] ' : ''}${lines}L, ${byteLength(text)}B written`);
+    }
+    if (path === this.path) {
+      this.modified = false;
+    }
+    return true;
+  }
+
+  /**
+   * 从光标处搜索，到达末尾（向后搜索时为开头）后从另一端继续
+   */
+  private search(regex: RegExp, backward: boolean): 'found' | 'wrapped' | 'none' {
+    const count = this.lines.length;
+    for (let step = 0; step <= count; step++) {
+      const row = backward ? (this.row - step + count * 2) % count : (this.row + step) % count;
+      const chars = this.lines[row];
+      const text = chars.join('');
+      const cursor = chars.slice(0, this.col).join('').length;
+
+      // 找出这一行所有匹配的位置
+      const starts: number[] = [];
+      regex.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(text)) !== null) {
+        starts.push(match.index);
+        if (match[0] === '') regex.lastIndex++;
+      }
+
+      let start: number | undefined;
+      if (backward) {
+        start = starts.filter((index) => (step === 0 ? index < cursor : step === count ? index >= cursor : true)).pop();
+      } else {
+        start = starts.find((index) => (step === 0 ? index > cursor : step === count ? index <= cursor : true));
+      }
+      if (start !== undefined) {
+        const wrapped = backward ? this.row - step < 0 : this.row + step >= count;
+        this.row = row;
+        this.setCol([...text.slice(0, start)].length);
+        return wrapped ? 'wrapped' : 'found';
+      }
+    }
+    return 'none';
+  }
+
+  private setMessage(message: string): void {
+    this.message = message;
+    this.messageIsError = false;
+  }
+
+  private setError(message: string): void {
+    this.message = message;
+    this.messageIsError = true;
+  }
+
+  private openPrompt(label: string, text: string, submit: (text: string) => void, cancel: () => void): void {
+    this.prompt = { label, text, cursor: [...text].length, submit, cancel };
+  }
+
+  /**
+   * 处理提示行中的按键
+   */
+  private handlePromptKey(name: string): void {
+    const prompt = this.prompt!;
+    const chars = [...prompt.text];
+    switch (name) {
+      case 'enter':
+        this.prompt = null;
+        prompt.submit(prompt.text);
+        return;
+      case 'ctrl-c':
+      case 'escape':
+        this.prompt = null;
+        prompt.cancel();
+        return;
+      case 'backspace':
+        if (prompt.cursor > 0) {
+          chars.splice(--prompt.cursor, 1);
+        } else if (this.mode === 'vi' && chars.length === 0) {
+          // vi 中在空的命令行上退格会退出命令行
+          this.prompt = null;
+          prompt.cancel();
+          return;
+        }
+        break;
+      case 'delete':
+        chars.splice(prompt.cursor, 1);
+        break;
+      case 'left':
+        prompt.cursor = Math.max(0, prompt.cursor - 1);
+        break;
+      case 'right':
+        prompt.cursor = Math.min(chars.length, prompt.cursor + 1);
+        break;
+      case 'home':
+      case 'ctrl-a':
+        prompt.cursor = 0;
+        break;
+      case 'end':
+      case 'ctrl-e':
+        prompt.cursor = chars.length;
+        break;
+      case 'tab':
+        chars.splice(prompt.cursor++, 0, '\t');
+        break;
+      default:
+        if (isPrintable(name)) {
+          chars.splice(prompt.cursor++, 0, name);
+        }
+    }
+    prompt.text = chars.join('');
+  }
+
+  // ==================== nano ====================
+
+  private handleNanoKey(name: string): void {
+    if (this.question) {
+      this.question.answer(name);
+      return;
+    }
+    if (this.prompt) {
+      this.handlePromptKey(name);
+      return;
+    }
+    if (this.showHelp) {
+      this.showHelp = false;
+      return;
+    }
+
+    const cutting = this.cutting;
+    this.cutting = false;
+    this.message = '';
+
+    switch (name) {
+      case 'ctrl-x':
+        this.nanoExit();
+        break;
+      case 'ctrl-o':
+        this.nanoWriteOut(() => {});
+        break;
+      case 'ctrl-w':
+        this.nanoSearch();
+        break;
+      case 'ctrl-k':
+        this.nanoCut(cutting);
+        break;
+      case 'ctrl-u':
+        if (this.cutBuffer.length > 0) {
+          this.insertText(this.cutBuffer.map((line) => line.join('') + '\n').join(''));
+        }
+        break;
+      case 'ctrl-c':
+        this.nanoLocation();
+        break;
+      case 'ctrl-g':
+        this.showHelp = true;
+        break;
+      case 'ctrl-_':
+        this.openPrompt('Enter line number, column number: ', '', (text) => this.nanoGoto(text), () => this.setMessage('Cancelled'));
+        break;
+      case 'up':
+      case 'ctrl-p':
+        this.moveVertical(-1);
+        break;
+      case 'down':
+      case 'ctrl-n':
+        this.moveVertical(1);
+        break;
+      case 'left':
+      case 'ctrl-b':
+        if (this.col > 0) {
+          this.setCol(this.col - 1);
+        } else if (this.row > 0) {
+          this.row--;
+          this.setCol(this.line.length);
+        }
+        break;
+      case 'right':
+      case 'ctrl-f':
+        if (this.col < this.line.length) {
+          this.setCol(this.col + 1);
+        } else if (this.row < this.lines.length - 1) {
+          this.row++;
+          this.setCol(0);
+        }
+        break;
+      case 'home':
+      case 'ctrl-a':
+        this.setCol(0);
+        break;
+      case 'end':
+      case 'ctrl-e':
+        this.setCol(this.line.length);
+        break;
+      case 'pageup':
+      case 'ctrl-y':
+        this.moveVertical(-this.textHeight());
+        break;
+      case 'pagedown':
+      case 'ctrl-v':
+        this.moveVertical(this.textHeight());
+        break;
+      case 'enter':
+        this.insertNewline();
+        break;
+      case 'backspace':
+        this.deleteBackward();
+        break;
+      case 'delete':
+      case 'ctrl-d':
+        this.deleteForward();
+        break;
+      case 'tab':
+        this.insertChar('\t');
+        break;
+      default:
+        if (isPrintable(name)) {
+          this.insertChar(name);
+        }
+    }
+  }
+
+  /**
+   * 退出 nano：缓冲区修改过时先询问是否保存
+   */
+  private nanoExit(): void {
+    if (!this.modified) {
+      this.quit();
+      return;
+    }
+    this.question = {
+      label: 'Save modified buffer?',
+      answer: (name) => {
+        if (name === 'y' || name === 'Y') {
+          this.question = null;
+          this.nanoWriteOut(() => this.quit());
+        } else if (name === 'n' || name === 'N') {
+          this.question = null;
+          this.quit();
+        } else if (name === 'ctrl-c') {
+          this.question = null;
+          this.setMessage('Cancelled');
+        }
+      },
+    };
+  }
+
+  /**
+   * 询问文件名并保存，成功后调用 then
+   */
+  private nanoWriteOut(then: () => void): void {
+    this.openPrompt('File Name to Write: ', this.path ?? '', (name) => {
+      if (!name) {
+        this.setMessage('Cancelled');
+      } else if (this.writeFile(name)) {
+        then();
+      }
+    }, () => this.setMessage('Cancelled'));
+  }
+
+  private nanoSearch(): void {
+    const label = this.lastSearch ? `Search [${this.lastSearch}]: ` : 'Search: ';
+    this.openPrompt(label, '', (text) => {
+      const pattern = text || this.lastSearch;
+      if (!pattern) {
+        this.setMessage('Cancelled');
+        return;
+      }
+      this.lastSearch = pattern;
+      const row = this.row;
+      const col = this.col;
+      const result = this.search(compilePattern(pattern, 'nano'), false);
+      if (result === 'none') {
+        this.setMessage(`"${pattern}" not found`);
+      } else if (this.row === row && this.col === col) {
+        this.setMessage('This is the only occurrence');
+      } else if (result === 'wrapped') {
+        this.setMessage('Search Wrapped');
+      }
+    }, () => this.setMessage('Cancelled'));
+  }
+
+  /**
+   * 剪切当前行，连续剪切时追加到剪切缓冲区
+   */
+  private nanoCut(append: boolean): void {
+    if (!append) this.cutBuffer = [];
+    if (this.lines.length === 1 && this.line.length === 0) return;
+
+    this.cutBuffer.push(this.line);
+    if (this.lines.length > 1) {
+      this.lines.splice(this.row, 1);
+      this.row = Math.min(this.row, this.lines.length - 1);
+    } else {
+      this.lines[0] = [];
+    }
+    this.setCol(0);
+    this.cutting = true;
+    this.modified = true;
+  }
+
+  private nanoLocation(): void {
+    const percent = (value: number, total: number) => Math.round((value * 100) / total);
+    const lineCount = this.lines.length;
+    const length = this.line.length;
+    let before = 0;
+    let total = 0;
+    this.lines.forEach((line, index) => {
+      if (index < this.row) before += line.length + 1;
+      total += line.length + (index < lineCount - 1 ? 1 : 0);
+    });
+    before += this.col;
+    this.setMessage(
+      `line ${this.row + 1}/${lineCount} (${percent(this.row + 1, lineCount)}%), ` +
+      `col ${this.col + 1}/${length + 1} (${percent(this.col + 1, length + 1)}%), ` +
+      `char ${before + 1}/${total + 1} (${percent(before + 1, total + 1)}%)`,
+    );
+  }
+
+  private nanoGoto(text: string): void {
+    const match = text.trim().match(/^(\d+)?(?:\s*[,\s]\s*(\d+))?$/);
+    if (!text.trim() || !match) {
+      this.setError('Invalid line or column number');
+      return;
+    }
+    this.row = Math.max(0, Math.min(Number(match[1] ?? this.row + 1) - 1, this.lines.length - 1));
+    this.setCol(Number(match[2] ?? 1) - 1);
+  }
+
+  // ==================== vi ====================
+
+  private handleViKey(name: string): void {
+    if (this.prompt) {
+      this.handlePromptKey(name);
+    } else if (this.insertMode) {
+      this.handleViInsert(name);
+    } else {
+      this.handleViNormal(name);
+    }
+  }
+
+  private handleViInsert(name: string): void {
+    switch (name) {
+      case 'escape':
+      case 'ctrl-c':
+        this.insertMode = false;
+        this.message = '';
+        this.setCol(this.col - 1);
+        break;
+      case 'enter':
+        this.insertNewline();
+        break;
+      case 'backspace':
+        this.deleteBackward();
+        break;
+      case 'delete':
+        this.deleteForward();
+        break;
+      case 'left':
+        this.setCol(this.col - 1);
+        break;
+      case 'right':
+        this.setCol(this.col + 1);
+        break;
+      case 'up':
+        this.moveVertical(-1);
+        break;
+      case 'down':
+        this.moveVertical(1);
+        break;
+      case 'home':
+        this.setCol(0);
+        break;
+      case 'end':
+        this.setCol(this.line.length);
+        break;
+      case 'pageup':
+        this.moveVertical(-this.textHeight());
+        break;
+      case 'pagedown':
+        this.moveVertical(this.textHeight());
+        break;
+      case 'tab':
+        this.insertChar('\t');
+        break;
+      default:
+        if (isPrintable(name)) {
+          this.insertChar(name);
+        }
+    }
+  }
+
+  private handleViNormal(name: string): void {
+    if (this.pending === 'r') {
+      this.pending = '';
+      if (isPrintable(name) && this.line.length > 0) {
+        this.saveUndo();
+        this.line[this.col] = name;
+        this.modified = true;
+      }
+      return;
+    }
+
+    // 命令前的次数（单独的 0 是移到行首）
+    if (/^[1-9]$/.test(name) || (name === '0' && this.count)) {
+      this.count += name;
+      return;
+    }
+    const countGiven = this.count !== '';
+    const count = countGiven ? Number(this.count) : 1;
+    this.count = '';
+    const pending = this.pending;
+    this.pending = '';
+    this.message = '';
+
+    if (pending === 'g') {
+      if (name === 'g') this.gotoLine(countGiven ? count : 1);
+      return;
+    }
+    if (pending === 'Z') {
+      if (name === 'Z') this.exCommand('x');
+      if (name === 'Q') this.exCommand('q!');
+      return;
+    }
+    if (pending === 'd' || pending === 'y' || pending === 'c') {
+      this.viOperator(pending, name, count);
+      return;
+    }
+
+    switch (name) {
+      case 'h':
+      case 'left':
+      case 'backspace':
+        this.setCol(this.col - count);
+        break;
+      case 'l':
+      case 'right':
+      case ' ':
+        this.setCol(this.col + count);
+        break;
+      case 'j':
+      case 'down':
+      case 'ctrl-n':
+        this.moveVertical(count);
+        break;
+      case 'k':
+      case 'up':
+      case 'ctrl-p':
+        this.moveVertical(-count);
+        break;
+      case 'enter':
+      case '+':
+        this.moveVertical(count);
+        this.setCol(this.firstNonBlank());
+        break;
+      case '-':
+        this.moveVertical(-count);
+        this.setCol(this.firstNonBlank());
+        break;
+      case '0':
+      case 'home':
+        this.setCol(0);
+        break;
+      case '^':
+        this.setCol(this.firstNonBlank());
+        break;
+      case '$':
+      case 'end':
+        this.moveVertical(count - 1);
+        this.setCol(this.line.length);
+        this.goalCol = Infinity;
+        break;
+      case 'w':
+        for (let i = 0; i < count; i++) this.wordForward();
+        break;
+      case 'b':
+        for (let i = 0; i < count; i++) this.wordBackward();
+        break;
+      case 'e':
+        for (let i = 0; i < count; i++) this.wordEnd();
+        break;
+      case 'G':
+        this.gotoLine(countGiven ? count : this.lines.length);
+        break;
+      case 'g':
+      case 'Z':
+      case 'r':
+        this.pending = name;
+        break;
+      case 'd':
+      case 'y':
+      case 'c':
+        // 次数留给操作符后面的动作
+        this.pending = name;
+        this.count = countGiven ? String(count) : '';
+        break;
+      case 'x':
+      case 'delete':
+        if (this.line.length > 0) {
+          this.saveUndo();
+          this.register = { linewise: false, chars: this.line.splice(this.col, count) };
+          this.modified = true;
+        }
+        break;
+      case 'X':
+        if (this.col > 0) {
+          this.saveUndo();
+          const length = Math.min(count, this.col);
+          this.register = { linewise: false, chars: this.line.splice(this.col - length, length) };
+          this.setCol(this.col - length);
+          this.modified = true;
+        }
+        break;
+      case 'D':
+        this.viOperator('d', '$', 1);
+        break;
+      case 'C':
+        this.viOperator('c', '$', 1);
+        break;
+      case 'p':
+      case 'P':
+        this.viPut(name === 'p', count);
+        break;
+      case 'i':
+      case 'insert':
+        this.startInsert();
+        break;
+      case 'a':
+        this.startInsert();
+        this.setCol(this.col + 1);
+        break;
+      case 'I':
+        this.startInsert();
+        this.setCol(this.firstNonBlank());
+        break;
+      case 'A':
+        this.startInsert();
+        this.setCol(this.line.length);
+        break;
+      case 'o':
+      case 'O':
+        this.startInsert();
+        this.lines.splice(name === 'o' ? this.row + 1 : this.row, 0, []);
+        if (name === 'o') this.row++;
+        this.setCol(0);
+        this.modified = true;
+        break;
+      case 'J':
+        this.viJoin(Math.max(1, count - 1));
+        break;
+      case 'u':
+        for (let i = 0; i < count; i++) this.undo(this.undoStack, this.redoStack, 'Already at oldest change');
+        break;
+      case 'ctrl-r':
+        for (let i = 0; i < count; i++) this.undo(this.redoStack, this.undoStack, 'Already at newest change');
+        break;
+      case ':':
+        this.openPrompt(':', '', (text) => this.exCommand(text), () => {});
+        break;
+      case '/':
+      case '?':
+        this.openPrompt(name, '', (text) => {
+          this.searchBackward = name === '?';
+          this.viSearch(text || this.lastSearch, this.searchBackward);
+        }, () => {});
+        break;
+      case 'n':
+      case 'N':
+        this.viSearch(this.lastSearch, this.searchBackward !== (name === 'N'));
+        break;
+      case 'pagedown':
+      case 'ctrl-f':
+        this.moveVertical(this.textHeight() * count);
+        break;
+      case 'pageup':
+      case 'ctrl-b':
+        this.moveVertical(-this.textHeight() * count);
+        break;
+      case 'ctrl-d':
+        this.moveVertical(Math.ceil(this.textHeight() / 2));
+        break;
+      case 'ctrl-u':
+        this.moveVertical(-Math.ceil(this.textHeight() / 2));
+        break;
+      case 'ctrl-g': {
+        const lineCount = this.lines.length;
+        const file = this.path === null ? '[No Name]' : `"${this.path}"`;
+        this.setMessage(`${file}${this.modified ? ' [Modified]' : ''} ${lineCount} line${lineCount === 1 ? '' : 's'} --${Math.floor(((this.row + 1) * 100) / lineCount)}%--`);
+        break;
+      }
+      case 'ctrl-c':
+        this.setMessage('Type  :qa!  and press <Enter> to abandon all changes and exit Vim');
+        break;
+    }
+    // 不改变 goalCol，上下移动后仍回到原来的列
+    this.col = Math.min(this.col, this.maxCol());
+  }
+
+  private startInsert(): void {
+    this.saveUndo();
+    this.insertMode = true;
+  }
+
+  private saveUndo(): void {
+    this.undoStack.push(this.snapshot());
+    if (this.undoStack.length > MaxUndo) this.undoStack.shift();
+    this.redoStack = [];
+  }
+
+  private snapshot(): Snapshot {
+    return { lines: this.lines.map((line) => [...line]), row: this.row, col: this.col };
+  }
+
+  /**
+   * 撤销或重做：从 from 取出记录恢复，当前状态保存到 to
+   */
+  private undo(from: Snapshot[], to: Snapshot[], emptyMessage: string): void {
+    const snapshot = from.pop();
+    if (!snapshot) {
+      this.setMessage(emptyMessage);
+      return;
+    }
+    to.push(this.snapshot());
+    this.lines = snapshot.lines;
+    this.row = snapshot.row;
+    this.setCol(snapshot.col);
+    this.modified = true;
+  }
+
+  /** 移到下一个单词的开头（空行也算一个单词） */
+  private wordForward(): void {
+    let chars = this.line;
+    const kind = charClass(chars[this.col]);
+    if (kind !== 0) {
+      while (this.col < chars.length && charClass(chars[this.col]) === kind) this.col++;
+    }
+    for (;;) {
+      if (this.col >= chars.length) {
+        if (this.row >= this.lines.length - 1) {
+          this.col = Math.max(0, chars.length - 1);
+          break;
+        }
+        this.row++;
+        this.col = 0;
+        chars = this.line;
+        if (chars.length === 0) break;
+        continue;
+      }
+      if (charClass(chars[this.col]) !== 0) break;
+      this.col++;
+    }
+    this.goalCol = this.col;
+  }
+
+  /** 移到上一个单词的开头 */
+  private wordBackward(): void {
+    let chars = this.line;
+    this.col--;
+    for (;;) {
+      if (this.col < 0) {
+        if (this.row === 0) {
+          this.col = 0;
+          break;
+        }
+        this.row--;
+        chars = this.line;
+        this.col = chars.length - 1;
+        if (chars.length === 0) {
+          this.col = 0;
+          break;
+        }
+        continue;
+      }
+      if (charClass(chars[this.col]) !== 0) break;
+      this.col--;
+    }
+    const kind = charClass(chars[this.col]);
+    while (kind !== 0 && this.col > 0 && charClass(chars[this.col - 1]) === kind) this.col--;
+    this.goalCol = this.col;
+  }
+
+  /** 移到单词的结尾 */
+  private wordEnd(): void {
+    let chars = this.line;
+    this.col++;
+    for (;;) {
+      if (this.col >= chars.length) {
+        if (this.row >= this.lines.length - 1) {
+          this.col = Math.max(0, chars.length - 1);
+          this.goalCol = this.col;
+          return;
+        }
+        this.row++;
+        this.col = 0;
+        chars = this.line;
+        continue;
+      }
+      if (charClass(chars[this.col]) !== 0) break;
+      this.col++;
+    }
+    const kind = charClass(chars[this.col]);
+    while (this.col + 1 < chars.length && charClass(chars[this.col + 1]) === kind) this.col++;
+    this.goalCol = this.col;
+  }
+
+  /**
+   * 执行操作符 d（删除）、y（复制）、c（修改）：重复操作符表示整行，否则作用于行内的动作范围
+   */
+  private viOperator(operator: string, motion: string, count: number): void {
+    if (motion === operator) {
+      const length = Math.min(count, this.lines.length - this.row);
+      const lines = this.lines.slice(this.row, this.row + length).map((line) => [...line]);
+      this.register = { linewise: true, lines };
+      if (operator === 'y') {
+        if (length > 2) this.setMessage(`${length} lines yanked`);
+        return;
+      }
+      this.saveUndo();
+      this.modified = true;
+      if (operator === 'c') {
+        this.lines.splice(this.row, length, []);
+        this.insertMode = true;
+        this.setCol(0);
+        return;
+      }
+      this.lines.splice(this.row, length);
+      if (this.lines.length === 0) this.lines.push([]);
+      this.row = Math.min(this.row, this.lines.length - 1);
+      this.setCol(this.firstNonBlank());
+      if (length > 2) this.setMessage(`${length} fewer lines`);
+      return;
+    }
+
+    // 行内动作的范围 [start, end)
+    const chars = this.line;
+    let start = this.col;
+    let end = this.col;
+    switch (motion) {
+      case 'w':
+      case 'e':
+        for (let i = 0; i < count && end < chars.length; i++) {
+          // cw 和 ce 不包括单词后面的空白
+          const last = i === count - 1 && (operator === 'c' || motion === 'e');
+          if (motion === 'e' || last) {
+            while (end < chars.length && charClass(chars[end]) === 0) end++;
+          }
+          const kind = charClass(chars[end]);
+          while (end < chars.length && charClass(chars[end]) === kind && kind !== 0) end++;
+          if (!last && motion === 'w') {
+            while (end < chars.length && charClass(chars[end]) === 0) end++;
+          }
+        }
+        break;
+      case '$':
+        end = chars.length;
+        break;
+      case '0':
+        start = 0;
+        break;
+      case 'b':
+        for (let i = 0; i < count && start > 0; i++) {
+          while (start > 0 && charClass(chars[start - 1]) === 0) start--;
+          const kind = charClass(chars[start - 1]);
+          while (start > 0 && charClass(chars[start - 1]) === kind) start--;
+        }
+        break;
+      case 'l':
+        end = Math.min(chars.length, this.col + count);
+        break;
+      case 'h':
+        start = Math.max(0, this.col - count);
+        break;
+      default:
+        return;
+    }
+
+    if (operator === 'y') {
+      this.register = { linewise: false, chars: chars.slice(start, end) };
+      this.setCol(start);
+      return;
+    }
+    this.saveUndo();
+    this.register = { linewise: false, chars: chars.splice(start, end - start) };
+    this.modified = true;
+    if (operator === 'c') {
+      this.insertMode = true;
+    }
+    this.setCol(start);
+  }
+
+  /**
+   * 粘贴寄存器内容：整行内容粘贴到当前行之后（P 为之前），字符粘贴到光标之后（P 为光标处）
+   */
+  private viPut(after: boolean, count: number): void {
+    const register = this.register;
+    if (!register) return;
+    this.saveUndo();
+    this.modified = true;
+    if (register.linewise) {
+      const lines: string[][] = [];
+      for (let i = 0; i < count; i++) lines.push(...register.lines.map((line) => [...line]));
+      const row = after ? this.row + 1 : this.row;
+      this.lines.splice(row, 0, ...lines);
+      this.row = row;
+      this.setCol(this.firstNonBlank());
+      return;
+    }
+    const chars: string[] = [];
+    for (let i = 0; i < count; i++) chars.push(...register.chars);
+    const col = after && this.line.length > 0 ? this.col + 1 : this.col;
+    this.line.splice(col, 0, ...chars);
+    this.setCol(col + chars.length - 1);
+  }
+
+  /** 合并下一行，中间用一个空格分隔 */
+  private viJoin(times: number): void {
+    if (this.row >= this.lines.length - 1) return;
+    this.saveUndo();
+    for (let i = 0; i < times && this.row < this.lines.length - 1; i++) {
+      const next = this.lines[this.row + 1];
+      const start = next.findIndex((char) => char !== ' ' && char !== '\t');
+      const rest = start < 0 ? [] : next.slice(start);
+      const line = this.line;
+      this.col = line.length;
+      if (line.length > 0 && rest.length > 0 && line[line.length - 1] !== ' ') {
+        line.push(' ');
+      }
+      line.push(...rest);
+      this.lines.splice(this.row + 1, 1);
+    }
+    this.setCol(this.col);
+    this.modified = true;
+  }
+
+  private viSearch(pattern: string, backward: boolean): void {
+    if (!pattern) {
+      this.setError('E35: No previous regular expression');
+      return;
+    }
+    this.lastSearch = pattern;
+    const result = this.search(compilePattern(pattern, 'vi'), backward);
+    if (result === 'none') {
+      this.setError(`E486: Pattern not found: ${pattern}`);
+    } else if (result === 'wrapped') {
+      this.setError(backward ? 'search hit TOP, continuing at BOTTOM' : 'search hit BOTTOM, continuing at TOP');
+    } else {
+      this.setMessage((backward ? '?' : '/') + pattern);
+    }
+  }
+
+  /**
+   * 解析命令行中的行地址（. 当前行，$ 最后一行，数字为行号），返回行下标
+   */
+  private parseAddress(address: string): number {
+    if (address === '.' || address === '') return this.row;
+    if (address === '$') return this.lines.length - 1;
+    return Math.max(0, Math.min(Number(address) - 1, this.lines.length - 1));
+  }
+
+  /**
+   * 执行 vi 的命令行命令
+   */
+  private exCommand(input: string): void {
+    const command = input.trim();
+    if (!command) return;
+
+    const match = command.match(/^(%|[.$\d]*(?:,[.$\d]*)?)\s*([a-zA-Z]*)(!?)\s*(.*)$/s);
+    if (!match) {
+      this.setError(`E492: Not an editor command: ${command}`);
+      return;
+    }
+    const [, range, name, bang, arg] = match;
+
+    // 只有地址时跳到该行
+    if (!name) {
+      if (!range || bang || arg) {
+        this.setError(`E492: Not an editor command: ${command}`);
+      } else {
+        this.gotoLine(this.parseAddress(range.split(',').pop()!) + 1);
+      }
+      return;
+    }
+
+    switch (name) {
+      case 'w':
+      case 'write': {
+        const path = arg || this.path;
+        if (!path) {
+          this.setError('E32: No file name');
+        } else {
+          this.writeFile(path);
+        }
+        break;
+      }
+      case 'q':
+      case 'quit':
+      case 'qa':
+      case 'qall':
+        if (this.modified && !bang) {
+          this.setError('E37: No write since last change (add ! to override)');
+        } else {
+          this.quit();
+        }
+        break;
+      case 'wq':
+      case 'x':
+      case 'xit':
+      case 'exit': {
+        const path = arg || this.path;
+        // :x 只在修改过时写入
+        if (name !== 'wq' && !this.modified && !arg) {
+          this.quit();
+        } else if (!path) {
+          this.setError('E32: No file name');
+        } else if (this.writeFile(path)) {
+          this.quit();
+        }
+        break;
+      }
+      case 's':
+      case 'substitute':
+        this.exSubstitute(range, arg);
+        break;
+      case 'set':
+      case 'se':
+        if (arg === 'nu' || arg === 'number') {
+          this.showNumbers = true;
+        } else if (arg === 'nonu' || arg === 'nonumber') {
+          this.showNumbers = false;
+        } else {
+          this.setError(`E518: Unknown option: ${arg}`);
+        }
+        break;
+      default:
+        this.setError(`E492: Not an editor command: ${command}`);
+    }
+  }
+
+  /**
+   * :[range]s/pattern/replacement/[flags]，flags 支持 g（替换所有匹配）和 i（忽略大小写）
+   */
+  private exSubstitute(range: string, arg: string): void {
+    const delimiter = arg[0];
+    if (!delimiter || /[\w\s\\"|]/.test(delimiter)) {
+      this.setError('E146: Regular expressions can\'t be delimited by letters');
+      return;
+    }
+
+    // 按未转义的分隔符拆分出模式、替换文本和标志
+    const parts: string[] = [''];
+    for (let i = 1; i < arg.length; i++) {
+      if (arg[i] === '\\' && arg[i + 1] === delimiter) {
+        parts[parts.length - 1] += delimiter;
+        i++;
+      } else if (arg[i] === '\\' && i + 1 < arg.length) {
+        parts[parts.length - 1] += arg[i] + arg[++i];
+      } else if (arg[i] === delimiter && parts.length < 3) {
+        parts.push('');
+      } else {
+        parts[parts.length - 1] += arg[i];
+      }
+    }
+    const pattern = parts[0] || this.lastSearch;
+    const replacement = parts[1] ?? '';
+    const flags = parts[2] ?? '';
+    if (!pattern) {
+      this.setError('E35: No previous regular expression');
+      return;
+    }
+    if (/[^gi]/.test(flags)) {
+      this.setError(`E488: Trailing characters: ${flags}`);
+      return;
+    }
+    this.lastSearch = pattern;
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(translateRegExp(pattern, false), 'u' + (flags.includes('g') ? 'g' : '') + (flags.includes('i') ? 'i' : ''));
+    } catch {
+      this.setError(`E486: Pattern not found: ${pattern}`);
+      return;
+    }
+
+    // 替换文本中 & 表示整个匹配，\1 ~ \9 表示分组
+    const replace = (matched: string, groups: (string | undefined)[]): string => {
+      let result = '';
+      for (let i = 0; i < replacement.length; i++) {
+        const char = replacement[i];
+        if (char === '&') {
+          result += matched;
+        } else if (char === '\\' && i + 1 < replacement.length) {
+          const next = replacement[++i];
+          if (/[1-9]/.test(next)) result += groups[Number(next) - 1] ?? '';
+          else if (next === 't') result += '\t';
+          else result += next;
+        } else {
+          result += char;
+        }
+      }
+      return result;
+    };
+
+    let first: number;
+    let last: number;
+    if (range === '%') {
+      first = 0;
+      last = this.lines.length - 1;
+    } else {
+      const [from, to = from] = range.split(',');
+      first = this.parseAddress(from);
+      last = this.parseAddress(to);
+    }
+    if (first > last) [first, last] = [last, first];
+
+    const results: { row: number; chars: string[] }[] = [];
+    let substitutions = 0;
+    for (let row = first; row <= last; row++) {
+      const text = this.lines[row].join('');
+      let changed = false;
+      const replaced = text.replace(regex, (matched: string, ...rest: unknown[]) => {
+        changed = true;
+        substitutions++;
+        const groups = rest.slice(0, -2).map((group) => group as string | undefined);
+        return replace(matched, groups);
+      });
+      if (changed) results.push({ row, chars: [...replaced] });
+    }
+    if (results.length === 0) {
+      this.setError(`E486: Pattern not found: ${pattern}`);
+      return;
+    }
+
+    this.saveUndo();
+    for (const { row, chars } of results) {
+      this.lines[row] = chars;
+    }
+    this.modified = true;
+    this.row = results[results.length - 1].row;
+    this.setCol(this.firstNonBlank());
+    if (substitutions > 2) {
+      this.setMessage(`${substitutions} substitution${substitutions === 1 ? '' : 's'} on ${results.length} line${results.length === 1 ? '' : 's'}`);
+    }
+  }
+
+  // ==================== 显示 ====================
+
+  /** 文本区域的行数（nano 上方有标题栏、下方有状态栏和两行快捷键，vi 下方有一行命令行） */
+  private textHeight(): number {
+    const rows = this.screen?.rows ?? 24;
+    return Math.max(1, this.mode === 'nano' ? rows - 4 : rows - 1);
+  }
+
+  /** vi 显示行号时行号占用的列数 */
+  private gutterWidth(): number {
+    return this.mode === 'vi' && this.showNumbers ? Math.max(3, String(this.lines.length).length) + 1 : 0;
+  }
+
+  /**
+   * 重新绘制整个屏幕
+   */
+  render(): void {
+    const screen = this.screen;
+    if (!screen) return;
+
+    const columns = Math.max(1, screen.columns);
+    const rows = Math.max(1, screen.rows);
+    const height = this.textHeight();
+    const firstRow = this.mode === 'nano' ? 2 : 1;
+    const gutter = this.gutterWidth();
+    const width = Math.max(1, columns - gutter);
+
+    // 滚动到光标可见
+    if (this.row < this.top) this.top = this.row;
+    if (this.row >= this.top + height) this.top = this.row - height + 1;
+    const cursorX = displayColumn(this.line, this.col);
+    if (cursorX < this.left) this.left = cursorX;
+    if (cursorX >= this.left + width) this.left = cursorX - width + 1;
+
+    let out = '\x1b[?25l';
+    if (this.mode === 'nano') {
+      out += '\x1b[1;1H' + this.nanoTitle(columns);
+    }
+
+    for (let i = 0; i < height; i++) {
+      const index = this.top + i;
+      out += `\x1b[${firstRow + i};1H`;
+      if (this.showHelp) {
+        out += fitText(NanoHelp[i] ?? '', columns);
+      } else if (index < this.lines.length) {
+        if (gutter) {
+          out += `\x1b[33m${String(index + 1).padStart(gutter - 1)}\x1b[0m `;
+        }
+        out += renderLine(this.lines[index], this.left, width);
+      } else if (this.mode === 'vi') {
+        out += '\x1b[34m~\x1b[0m';
+      }
+      out += '\x1b[K';
+    }
+
+    let cursorRow = firstRow + this.row - this.top;
+    let cursorCol = gutter + cursorX - this.left + 1;
+    if (this.mode === 'nano') {
+      out += `\x1b[${rows - 2};1H` + this.nanoStatus(columns);
+      const [first, second] = this.nanoShortcuts(columns);
+      out += `\x1b[${rows - 1};1H${first}\x1b[K\x1b[${rows};1H${second}\x1b[K`;
+      if (this.prompt) {
+        cursorRow = rows - 2;
+        cursorCol = textWidth(this.prompt.label + [...this.prompt.text].slice(0, this.prompt.cursor).join('')) + 1;
+      } else if (this.question) {
+        cursorRow = rows - 2;
+        cursorCol = textWidth(this.question.label) + 2;
+      }
+    } else {
+      out += `\x1b[${rows};1H` + this.viStatus(columns, height);
+      if (this.prompt) {
+        cursorRow = rows;
+        cursorCol = textWidth(this.prompt.label + [...this.prompt.text].slice(0, this.prompt.cursor).join('')) + 1;
+      }
+    }
+
+    out += `\x1b[${cursorRow};${Math.min(cursorCol, columns)}H\x1b[?25h`;
+    screen.write(out);
+  }
+
+  private nanoTitle(columns: number): string {
+    const name = this.showHelp ? 'Help' : this.path ?? 'New Buffer';
+    const left = '  nano';
+    const right = this.modified && !this.showHelp ? 'Modified  ' : '';
+    const start = Math.max(left.length + 2, Math.floor((columns - textWidth(name)) / 2));
+    const title = fitText(left, start) + name;
+    const body = fitText(title, Math.max(0, columns - right.length)) + right;
+    return `\x1b[7m${fitText(body, columns)}\x1b[0m`;
+  }
+
+  private nanoStatus(columns: number): string {
+    if (this.question) {
+      return `\x1b[7m${fitText(this.question.label + ' ', columns)}\x1b[0m`;
+    }
+    if (this.prompt) {
+      const text = this.prompt.label + this.prompt.text.replace(/\t/g, ' ');
+      return `\x1b[7m${fitText(text, columns)}\x1b[0m`;
+    }
+    if (!this.message) {
+      return '\x1b[K';
+    }
+    const message = `[ ${this.message} ]`;
+    const start = Math.max(0, Math.floor((columns - textWidth(message)) / 2));
+    const color = this.messageIsError ? '\x1b[1;37;41m' : '\x1b[7m';
+    return `\x1b[K${' '.repeat(start)}${color}${fitText(message, Math.min(textWidth(message), columns - start))}\x1b[0m`;
+  }
+
+  /**
+   * nano 底部两行快捷键：提示和询问时只显示可用的按键
+   */
+  private nanoShortcuts(columns: number): [string, string] {
+    let items = NanoShortcuts;
+    if (this.question) {
+      items = [[' Y', 'Yes'], [' N', 'No'], ['^C', 'Cancel']];
+    } else if (this.prompt) {
+      items = [['^C', 'Cancel']];
+    } else if (this.showHelp) {
+      items = [['^X', 'Close']];
+    }
+
+    const perRow = Math.ceil(items.length / 2);
+    const cellWidth = Math.max(1, Math.min(16, Math.floor(columns / Math.max(perRow, 1))));
+    const renderRow = (cells: [string, string][]) => cells.map(([key, label]) => {
+      if (cellWidth <= key.length) return `\x1b[7m${fitText(key, cellWidth)}\x1b[0m`;
+      return `\x1b[7m${key}\x1b[0m${fitText(' ' + label, cellWidth - key.length)}`;
+    }).join('');
+    return [renderRow(items.slice(0, perRow)), renderRow(items.slice(perRow))];
+  }
+
+  /**
+   * vi 的最后一行：命令行、模式提示或消息，右侧显示光标位置
+   */
+  private viStatus(columns: number, height: number): string {
+    if (this.prompt) {
+      return fitText(this.prompt.label + this.prompt.text.replace(/\t/g, ' '), columns);
+    }
+
+    // 右侧的标尺：行号、列号和位置
+    const lineCount = this.lines.length;
+    const column = this.line.length === 0 ? '0-1' : String(this.col + 1);
+    let position: string;
+    if (lineCount <= height) position = 'All';
+    else if (this.top === 0) position = 'Top';
+    else if (this.top + height >= lineCount) position = 'Bot';
+    else position = `${Math.floor((this.top * 100) / (lineCount - height))}%`;
+    const ruler = `${`${this.row + 1},${column}`.padEnd(14)}${position.padStart(4)}`;
+    const rulerStart = Math.max(0, columns - 18);
+
+    let left = '';
+    if (this.message) {
+      left = this.messageIsError ? `\x1b[1;37;41m${fitText(this.message, Math.min(textWidth(this.message), rulerStart))}\x1b[0m` : fitText(this.message, Math.min(textWidth(this.message), rulerStart));
+    } else if (this.insertMode) {
+      left = '\x1b[1m-- INSERT --\x1b[0m';
+    }
+    return `${left}\x1b[K\x1b[${rulerStart + 1}G${fitText(ruler, columns - rulerStart)}`;
+  }
+}
+
+/**
+ * 在全屏界面中运行编辑器，用户退出后返回 true；没有终端（不能打开全屏界面）时返回 false
+ */
+export function runEditor(input: InputReader, options: EditorOptions): Promise<boolean> {
+  const editor = new Editor(options);
+  return new Promise((resolve) => {
+    const screen = input.openScreen({
+      onKey: (data) => editor.handleInput(data),
+      onResize: () => editor.render(),
+    });
+    if (!screen) {
+      resolve(false);
+      return;
+    }
+    editor.start(screen, () => resolve(true));
+  });
+}
@@ -0,0 +1,141 @@
+/**
+ * 文件内容编码工具
+ * 文件内容可以是文本（string）或二进制数据（Uint8Array），文本按 UTF-8 编码计算字节
+ */
+
+import type { FileContent } from './types';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+/** 严格解码（保留 BOM，遇到无效的字节序列时抛出异常） */
+const strictDecoder = new TextDecoder('utf-8', { fatal: true, ignoreBOM: true });
+
+/** base64 编解码时每次处理的字节数（避免参数过多） */
+const Base64ChunkSize = 0x8000;
+
+/**
+ * 将文本编码为 UTF-8 字节
+ */
+export function encodeText(text: string): Uint8Array {
+  return encoder.encode(text);
+}
+
+/**
+ * 将 UTF-8 字节解码为文本（无效的字节序列替换为 U+FFFD）
+ */
+export function decodeText(bytes: Uint8Array): string {
+  return decoder.decode(bytes);
+}
+
+/**
+ * 获取文件内容的字节（总是返回新的数组）
+ */
+export function toBytes(content: FileContent): Uint8Array {
+  return typeof content === 'string' ? encodeText(content) : content.slice();
+}
+
+/**
+ * 由字节生成文件内容：有效的 UTF-8 文本保存为文本，其他保存为二进制数据
+ */
+export function fromBytes(bytes: Uint8Array): FileContent {
+  try {
+    return strictDecoder.decode(bytes);
+  } catch {
+    return bytes.slice();
+  }
+}
+
+/**
+ * 获取文件内容的文本
+ */
+export function toText(content: FileContent): string {
+  return typeof content === 'string' ? content : decodeText(content);
+}
+
+/**
+ * 计算文件内容的字节数（文本按 UTF-8 编码计算，不实际编码）
+ */
+export function byteLength(content: FileContent): number {
+  if (typeof content !== 'string') {
+    return content.length;
+  }
+
+  let length = 0;
+  for (let i = 0; i < content.length; i++) {
+    const code = content.charCodeAt(i);
+    if (code < 0x80) {
+      length += 1;
+    } else if (code < 0x800) {
+      length += 2;
+    } else if (code >= 0xd800 && code <= 0xdbff && i + 1 < content.length
+      && (content.charCodeAt(i + 1) & 0xfc00) === 0xdc00) {
+      // 代理对编码为 4 个字节
+      length += 4;
+      i++;
+    } else {
+      // 其他字符（包括单独的代理项，编码为 U+FFFD）为 3 个字节
+      length += 3;
+    }
+  }
+  return length;
+}
+
+/**
+ * 比较两份文件内容是否相同（文本与二进制之间按字节比较）
+ */
+export function contentEquals(a: FileContent, b: FileContent): boolean {
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a === b;
+  }
+  if (a === b) {
+    return true;
+  }
+
+  const left = toBytes(a);
+  const right = toBytes(b);
+  if (left.length !== right.length) {
+    return false;
+  }
+  for (let i = 0; i < left.length; i++) {
+    if (left[i] !== right[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * 拼接两份文件内容，都是文本时结果仍为文本
+ */
+export function concatContent(a: FileContent, b: FileContent): FileContent {
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a + b;
+  }
+  const left = toBytes(a);
+  const right = toBytes(b);
+  const result = new Uint8Array(left.length + right.length);
+  result.set(left);
+  result.set(right, left.length);
+  return result;
+}
+
+/**
+ * 将字节编码为 base64
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += Base64ChunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + Base64ChunkSize));
+  }
+  return btoa(binary);
+}
+
+/**
+ * 将 base64 解码为字节，格式无效时抛出异常
+ */
+export function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,407 @@
+/**
+ * Shell 单词展开
+ * 依次处理花括号、波浪号、参数、命令替换和算术展开，随后进行字段拆分、路径名展开和引号去除
+ */
+
+import { isExpansionStart, scanExpansion } from './parser';
+import { evaluateArithmetic } from './arith';
+import { escapeGlob, hasGlobChars } from './glob';
+
+/** 展开过程所需的 Shell 状态 */
+export interface ExpansionContext {
+  /** 读取变量（包括 ?、$ 等特殊参数） */
+  lookup: (name: string) => string | undefined;
+  /** 设置变量（用于 ${VAR:=default} 和算术赋值） */
+  assign: (name: string, value: string) => void;
+  /** 当前用户主目录 */
+  home: () => string;
+  /** 指定用户的主目录（用于 ~user），用户不存在时返回 null */
+  userHome: (name: string) => string | null;
+  /** 当前位置参数（用于 "$@"） */
+  positional: () => string[];
+  /** 执行命令替换，返回去除末尾换行的标准输出 */
+  substitute: (command: string) => Promise<string>;
+  /**
+   * 路径名展开，返回匹配结果
+   * 返回 null 表示没有匹配且保留原单词
+   */
+  glob: (pattern: string) => string[] | null;
+}
+
+/** 展开中的字段 */
+interface Field {
+  value: string;
+  /** 引号内的通配符已被转义的 glob 模式 */
+  pattern: string;
+  /** 是否包含引号部分（空的引号字段也需要保留） */
+  quoted: boolean;
+}
+
+const NamePattern = /^[A-Za-z_][A-Za-z0-9_]*/;
+const SpecialParams = '?$#@*!-0123456789';
+
+/**
+ * 字段构建器
+ * 负责对未加引号的展开结果进行字段拆分
+ */
+class FieldBuilder {
+  private fields: Field[] = [];
+  private current: Field | null = null;
+  /** 当前字段中出现了没有参数的 "$@" */
+  private emptyParams = false;
+
+  /** 追加文本到当前字段 */
+  append(text: string, quoted: boolean): void {
+    if (!text && !quoted) return;
+    this.current ??= { value: '', pattern: '', quoted: false };
+    this.current.value += text;
+    this.current.pattern += quoted ? escapeGlob(text) : text;
+    this.current.quoted ||= quoted;
+  }
+
+  /** 追加需要字段拆分的文本 */
+  appendSplit(text: string): void {
+    const parts = text.split(/[ \t\n]+/);
+    parts.forEach((part, index) => {
+      if (index > 0) this.finishField();
+      this.append(part, false);
+    });
+  }
+
+  /**
+   * 追加 "$@" 展开的参数，每个参数成为独立字段
+   * 首尾参数与前后相邻的文本相连，如 "x$@y"
+   */
+  appendParams(params: string[]): void {
+    if (params.length === 0) {
+      this.emptyParams = true;
+      return;
+    }
+    params.forEach((param, index) => {
+      if (index > 0) this.finishField();
+      this.append(param, true);
+    });
+  }
+
+  /** 结束当前字段 */
+  finishField(): void {
+    // 仅由引号和空的 "$@" 组成的字段不产生任何单词
+    if (this.current && !(this.emptyParams && this.current.value === '')) {
+      this.fields.push(this.current);
+    }
+    this.current = null;
+    this.emptyParams = false;
+  }
+
+  /** 获取所有字段 */
+  finish(): Field[] {
+    this.finishField();
+    return this.fields;
+  }
+}
+
+/**
+ * 展开单词，返回字段拆分后的结果
+ */
+export async function expandWord(word: string, ctx: ExpansionContext): Promise<string[]> {
+  const result: string[] = [];
+
+  for (const part of expandBraces(word)) {
+    const builder = new FieldBuilder();
+    await expandInto(part, ctx, builder, true);
+
+    for (const field of builder.finish()) {
+      const matches = hasGlobChars(field.pattern) ? ctx.glob(field.pattern) : null;
+      result.push(...(matches ?? [field.value]));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 展开单词为单个字符串（不进行字段拆分，用于赋值和重定向目标）
+ */
+export async function expandString(word: string, ctx: ExpansionContext): Promise<string> {
+  const builder = new FieldBuilder();
+  await expandInto(word, ctx, builder, false);
+  return builder.finish().map((field) => field.value).join(' ');
+}
+
+/**
+ * 展开 case 分支等使用的模式（不拆分，引号内的通配符被转义）
+ */
+export async function expandPattern(word: string, ctx: ExpansionContext): Promise<string> {
+  const builder = new FieldBuilder();
+  await expandInto(word, ctx, builder, false);
+  return builder.finish().map((field) => field.pattern).join(' ');
+}
+
+/**
+ * 花括号展开
+ * 支持 {a,b,c} 列表和 {1..10}、{a..e}、{1..10..2} 序列，可嵌套
+ */
+export function expandBraces(word: string): string[] {
+  let inDouble = false;
+
+  for (let i = 0; i < word.length; i++) {
+    const char = word[i];
+
+    if (char === '\\') {
+      i++;
+    } else if (char === "'" && !inDouble) {
+      i = word.indexOf("'", i + 1);
+    } else if (char === '"') {
+      inDouble = !inDouble;
+    } else if (isExpansionStart(word, i)) {
+      i = scanExpansion(word, i) - 1;
+    } else if (char === '{' && !inDouble) {
+      const brace = parseBrace(word, i);
+      if (!brace) continue;
+
+      const prefix = word.slice(0, i);
+      const suffix = word.slice(brace.end + 1);
+      return brace.items.flatMap((item) => expandBraces(prefix + item + suffix));
+    }
+  }
+
+  return [word];
+}
+
+/**
+ * 解析从指定位置开始的花括号表达式
+ * 不构成列表或序列时返回 null（花括号按普通字符处理）
+ */
+function parseBrace(word: string, start: number): { items: string[]; end: number } | null {
+  const commas: number[] = [];
+  let depth = 0;
+  let inDouble = false;
+
+  for (let i = start; i < word.length; i++) {
+    const char = word[i];
+
+    if (char === '\\') {
+      i++;
+    } else if (char === "'" && !inDouble) {
+      i = word.indexOf("'", i + 1);
+    } else if (char === '"') {
+      inDouble = !inDouble;
+    } else if (inDouble) {
+      continue;
+    } else if (isExpansionStart(word, i)) {
+      i = scanExpansion(word, i) - 1;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === ',' && depth === 1) {
+      commas.push(i);
+    } else if (char === '}' && --depth === 0) {
+      const body = word.slice(start + 1, i);
+      if (commas.length > 0) {
+        const bounds = [start, ...commas, i];
+        const items = bounds.slice(1).map((end, index) => word.slice(bounds[index] + 1, end));
+        return { items, end: i };
+      }
+      const items = expandSequence(body);
+      return items ? { items, end: i } : null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 展开 {x..y[..step]} 序列
+ */
+function expandSequence(body: string): string[] | null {
+  const numeric = body.match(/^(-?[0-9]+)\.\.(-?[0-9]+)(?:\.\.(-?[0-9]+))?$/);
+  const alpha = body.match(/^([A-Za-z])\.\.([A-Za-z])(?:\.\.(-?[0-9]+))?$/);
+  const match = numeric ?? alpha;
+  if (!match) return null;
+
+  const from = numeric ? parseInt(match[1], 10) : match[1].charCodeAt(0);
+  const to = numeric ? parseInt(match[2], 10) : match[2].charCodeAt(0);
+  const step = Math.abs(parseInt(match[3] ?? '1', 10)) || 1;
+  const direction = from <= to ? 1 : -1;
+
+  // 任一端带前导零时按最大宽度补零
+  const padded = numeric && [match[1], match[2]].some((end) => /^-?0[0-9]/.test(end));
+  const width = Math.max(match[1].length, match[2].length);
+
+  const items: string[] = [];
+  for (let n = from; direction > 0 ? n <= to : n >= to; n += step * direction) {
+    if (!numeric) {
+      items.push(String.fromCharCode(n));
+    } else if (padded) {
+      items.push(n < 0 ? '-' + String(-n).padStart(width - 1, '0') : String(n).padStart(width, '0'));
+    } else {
+      items.push(String(n));
+    }
+  }
+  return items;
+}
+
+/**
+ * 扫描单词并将展开结果写入字段构建器
+ */
+async function expandInto(
+  word: string,
+  ctx: ExpansionContext,
+  builder: FieldBuilder,
+  split: boolean
+): Promise<void> {
+  let inDouble = false;
+  let i = 0;
+
+  // 展开结果：引号内或不拆分时作为整体，否则进行字段拆分
+  const emit = (text: string) => {
+    if (inDouble || !split) {
+      builder.append(text, inDouble);
+    } else {
+      builder.appendSplit(text);
+    }
+  };
+
+  // 波浪号展开（仅在单词开头），~user 展开为该用户的主目录
+  const tilde = word.match(/^~([a-z_][a-z0-9_-]*)?(?=\/|$)/);
+  if (tilde) {
+    const home = tilde[1] ? ctx.userHome(tilde[1]) : ctx.home();
+    if (home !== null) {
+      builder.append(home, true);
+      i = tilde[0].length;
+    }
+  }
+
+  while (i < word.length) {
+    const char = word[i];
+
+    if (char === '\\') {
+      const next = word[i + 1] ?? '';
+      if (inDouble && !'"\\$`'.includes(next)) {
+        builder.append(char, true);
+        i++;
+      } else {
+        builder.append(next, true);
+        i += 2;
+      }
+      continue;
+    }
+
+    if (char === "'" && !inDouble) {
+      const end = word.indexOf("'", i + 1);
+      builder.append(word.slice(i + 1, end), true);
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      inDouble = !inDouble;
+      builder.append('', true);
+      i++;
+      continue;
+    }
+
+    if (isExpansionStart(word, i)) {
+      const end = scanExpansion(word, i);
+      if (inDouble && split && word.slice(i, end) === '${@}') {
+        builder.appendParams(ctx.positional());
+        i = end;
+        continue;
+      }
+      emit(await expandStructure(word.slice(i, end), ctx));
+      i = end;
+      continue;
+    }
+
+    if (char === '$') {
+      const rest = word.slice(i + 1);
+      const name = rest.match(NamePattern)?.[0]
+        ?? (rest && SpecialParams.includes(rest[0]) ? rest[0] : '');
+      if (name === '@' && inDouble && split) {
+        builder.appendParams(ctx.positional());
+        i += 2;
+        continue;
+      }
+      if (name) {
+        emit(ctx.lookup(name) ?? '');
+        i += name.length + 1;
+        continue;
+      }
+    }
+
+    builder.append(char, inDouble);
+    i++;
+  }
+}
+
+/**
+ * 展开 $(...)、$((...))、${...} 或 `...` 结构
+ */
+async function expandStructure(text: string, ctx: ExpansionContext): Promise<string> {
+  if (text.startsWith('`')) {
+    return ctx.substitute(text.slice(1, -1).replace(/\\([`$\\])/g, '$1'));
+  }
+
+  if (text.startsWith('$((') && text.endsWith('))')) {
+    const expression = await expandString(text.slice(3, -2), ctx);
+    return String(evaluateArithmetic(expression, {
+      get: ctx.lookup,
+      set: ctx.assign,
+    }));
+  }
+
+  if (text.startsWith('$(')) {
+    return ctx.substitute(text.slice(2, -1));
+  }
+
+  return expandParameter(text.slice(2, -1), ctx);
+}
+
+/**
+ * 展开 ${...} 参数
+ * 支持 ${#VAR}、${VAR:-word}、${VAR:=word}、${VAR:+word}、${VAR:?word} 及不带冒号的形式
+ */
+async function expandParameter(body: string, ctx: ExpansionContext): Promise<string> {
+  if (body.startsWith('#') && body.length > 1) {
+    return String((ctx.lookup(body.slice(1)) ?? '').length);
+  }
+
+  const name = body.match(NamePattern)?.[0]
+    ?? body.match(/^[0-9]+/)?.[0]
+    ?? (SpecialParams.includes(body[0]) ? body[0] : '');
+  if (!name) {
+    throw new Error(`\${${body}}: bad substitution`);
+  }
+
+  const value = ctx.lookup(name);
+  const rest = body.slice(name.length);
+  if (!rest) {
+    return value ?? '';
+  }
+
+  const operator = rest.match(/^:?[-=+?]/)?.[0];
+  if (!operator) {
+    throw new Error(`\${${body}}: bad substitution`);
+  }
+
+  // 带冒号时空值与未设置同等对待
+  const isSet = operator.startsWith(':') ? !!value : value !== undefined;
+  const word = rest.slice(operator.length);
+
+  switch (operator.slice(-1)) {
+    case '-':
+      return isSet ? value! : expandString(word, ctx);
+    case '=': {
+      if (isSet) return value!;
+      const expanded = await expandString(word, ctx);
+      ctx.assign(name, expanded);
+      return expanded;
+    }
+    case '+':
+      return isSet ? expandString(word, ctx) : '';
+    default: {
+      if (isSet) return value!;
+      const message = word ? await expandString(word, ctx) : 'parameter null or not set';
+      throw new Error(`${name}: ${message}`);
+    }
+  }
+}
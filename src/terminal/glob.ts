@@ -0,0 +1,218 @@
+/**
+ * 路径名展开（glob）
+ * 将 *、?、[...] 和 ** 模式与虚拟文件系统中的节点进行匹配
+ */
+
+import type { VirtualFileSystem } from './types';
+import { escapeRegExp } from './regex';
+
+/** glob 匹配选项 */
+export interface GlobOptions {
+  /** 通配符是否匹配以 . 开头的文件 */
+  dotglob: boolean;
+  /** ** 是否匹配任意层级目录 */
+  globstar: boolean;
+  /** 是否忽略大小写 */
+  nocase: boolean;
+}
+
+/** POSIX 字符类对应的正则片段 */
+const CharacterClasses: Record<string, string> = {
+  alpha: 'A-Za-z',
+  digit: '0-9',
+  alnum: 'A-Za-z0-9',
+  upper: 'A-Z',
+  lower: 'a-z',
+  space: '\\s',
+  blank: ' \\t',
+  punct: '!-\\/:-@\\[-`{-~',
+  xdigit: '0-9A-Fa-f',
+  word: 'A-Za-z0-9_',
+};
+
+/**
+ * 转义文本中的 glob 特殊字符
+ */
+export function escapeGlob(text: string): string {
+  return text.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * 去除模式中的转义
+ */
+export function unescapeGlob(pattern: string): string {
+  return pattern.replace(/\\(.)/g, '$1');
+}
+
+/**
+ * 判断模式是否包含未转义的通配符
+ */
+export function hasGlobChars(pattern: string): boolean {
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] === '\\') {
+      i++;
+    } else if ('*?['.includes(pattern[i])) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * 将 glob 模式转换为正则表达式（匹配整个字符串）
+ */
+export function globToRegExp(pattern: string, flags: string = ''): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[') {
+      const parsed = parseBracket(pattern, i);
+      if (parsed) {
+        source += parsed.source;
+        i = parsed.end;
+      } else {
+        source += '\\[';
+      }
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`, `s${flags}`);
+}
+
+/**
+ * 解析 [...] 字符集合，返回正则片段和结束位置
+ */
+function parseBracket(pattern: string, start: number): { source: string; end: number } | null {
+  let i = start + 1;
+  let negate = false;
+  if (pattern[i] === '!' || pattern[i] === '^') {
+    negate = true;
+    i++;
+  }
+
+  let body = '';
+  let first = true;
+  while (i < pattern.length) {
+    const char = pattern[i];
+
+    // 紧跟在 [ 之后的 ] 视为普通字符
+    if (char === ']' && !first) {
+      return { source: `[${negate ? '^' : ''}${body}]`, end: i };
+    }
+
+    const cls = pattern.slice(i).match(/^\[:([a-z]+):\]/);
+    if (cls && CharacterClasses[cls[1]]) {
+      body += CharacterClasses[cls[1]];
+      i += cls[0].length;
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      // 转义的 - 在集合中表示字符本身
+      body += pattern[i + 1] === '-' ? '\\-' : escapeRegExp(pattern[i + 1]);
+      i += 2;
+    } else {
+      body += char === '-' ? '-' : escapeRegExp(char);
+      i++;
+    }
+    first = false;
+  }
+
+  return null;
+}
+
+/**
+ * 拼接显示路径
+ */
+function joinPath(base: string, name: string): string {
+  if (base === '') return name;
+  if (base.endsWith('/')) return base + name;
+  return `${base}/${name}`;
+}
+
+/**
+ * 判断名称是否可以被模式匹配（隐藏文件规则与 ls -a 一致）
+ */
+function isVisible(name: string, segment: string, options: GlobOptions): boolean {
+  return !name.startsWith('.') || options.dotglob || segment.startsWith('.') || segment.startsWith('\\.');
+}
+
+/**
+ * 收集目录下的所有后代路径（用于 **）
+ */
+function collectDescendants(
+  vfs: VirtualFileSystem,
+  base: string,
+  options: GlobOptions,
+  directoriesOnly: boolean
+): string[] {
+  const result: string[] = [];
+  const entries = vfs.ls(base || '.') || [];
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.') && !options.dotglob) continue;
+    const path = joinPath(base, entry.name);
+    if (entry.type === 'directory') {
+      result.push(path);
+      result.push(...collectDescendants(vfs, path, options, directoriesOnly));
+    } else if (!directoriesOnly) {
+      result.push(path);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 展开 glob 模式，返回排序后的匹配路径（无匹配时返回空数组）
+ */
+export function expandGlob(pattern: string, vfs: VirtualFileSystem, options: GlobOptions): string[] {
+  const trailingSlash = pattern.endsWith('/');
+  const segments = pattern.split('/').filter(Boolean);
+  let paths: string[] = [pattern.startsWith('/') ? '/' : ''];
+
+  segments.forEach((segment, index) => {
+    const isLast = index === segments.length - 1;
+    const next: string[] = [];
+
+    if (segment === '**' && options.globstar) {
+      for (const base of paths) {
+        // ** 可以匹配零层目录
+        if (!isLast) next.push(base);
+        next.push(...collectDescendants(vfs, base, options, !isLast));
+      }
+    } else if (hasGlobChars(segment)) {
+      const regex = globToRegExp(segment, options.nocase ? 'i' : '');
+      for (const base of paths) {
+        for (const entry of vfs.ls(base || '.') || []) {
+          if (isVisible(entry.name, segment, options) && regex.test(entry.name)) {
+            next.push(joinPath(base, entry.name));
+          }
+        }
+      }
+    } else {
+      // 不含通配符的部分按字面拼接，最后统一检查是否存在
+      const name = unescapeGlob(segment);
+      for (const base of paths) {
+        next.push(joinPath(base, name));
+      }
+    }
+
+    paths = next;
+  });
+
+  return [...new Set(paths)]
+    .filter((path) => {
+      const node = vfs.getNode(path || '.');
+      return node !== null && (!trailingSlash || node.type === 'directory');
+    })
+    .map((path) => (trailingSlash ? `${path}/` : path))
+    .sort((a, b) => a.localeCompare(b));
+}
@@ -1,13 +1,26 @@
 // 导出核心类
-export { VFS, VirtualFileSystem } from './vfs';
+export { VFS, VirtualFileSystem, strerror } from './vfs';
 export { CLI } from './cli';
+export { Interpreter, ControlFlow } from './interpreter';
 export { PromptManager } from './prompt';
 export { FakeShell } from './shell';
+export { SessionPersistence } from './session';
+export { diffLines, formatDiff } from './diff';
+export { MemoryStorage, LocalStorageBackend, IndexedDBStorage, createBrowserStorage } from './storage';
+export { UserDatabase, hashPassword } from './users';
+export { parseModeSpec, formatPermissions, parsePermissions } from './permissions';
+export { createProcProvider, createDevProvider, createSysProvider, createTreeProvider } from './mounts';
+export { encodeText, decodeText, toBytes, toText, byteLength } from './encoding';
+export { gzip, gunzip, deflateRaw, inflateRaw, crc32 } from './deflate';
+export { createTar, parseTar, createZip, parseZip, readArchive, writeArchive } from './archive';
+export { ProcessTable, formatJob } from './processes';
+export { Signals, parseSignal, signalName } from './signals';
 
 // 导出类型
 export type {
   FileType,
   FileNode,
+  FileContent,
   FileStat,
   CommandContext,
   EnvironmentVariables,
@@ -16,6 +29,42 @@ export type {
   PromptContext,
   PromptFormatter,
   ShellOptions,
+  ShellRuntime,
+  ScriptOptions,
+  SerializedFileNode,
+  SerializedVFS,
+  StorageBackend,
+  SessionState,
+  SnapshotNode,
+  DiffLine,
+  DiffEntry,
+  ModifiedEntry,
+  MovedEntry,
+  VFSDiff,
+  VFSErrorCode,
+  Credentials,
+  PasswdEntry,
+  GroupEntry,
+  UserSession,
+  InputReader,
+  ReadLineOptions,
+  ScreenHandlers,
+  TerminalScreen,
+  MountEntry,
+  MountProvider,
+  MountTree,
+  ProcessInfo,
+  ProcessState,
+  JobInfo,
+  ProcessControl,
+  VFSEvent,
+  VFSEventType,
+  VFSWatchListener,
+  WatchOptions,
+  VFSLimits,
+  VFSUsage,
+  ArchiveEntry,
+  ArchiveFormat,
 } from './types';
 
 // 导出命令
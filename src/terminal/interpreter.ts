@@ -0,0 +1,1191 @@
+/**
+ * Shell 解释器
+ * 执行语法树：命令链、管道、复合命令、函数和脚本，并维护变量作用域与位置参数
+ */
+
+import type {
+  CommandDefinition,
+  CommandContext,
+  EnvironmentVariables,
+  VirtualFileSystem,
+  OutputHandler,
+  ShellRuntime,
+  ScriptOptions,
+  Credentials,
+  InputReader,
+  UserSession,
+  FileContent,
+  ProcessControl,
+  ReadLineOptions,
+} from './types';
+import { tokenize, parseCommandList } from './parser';
+import type {
+  Command,
+  CommandList,
+  Pipeline,
+  SimpleCommand,
+  Redirect,
+  FunctionDefinition,
+} from './parser';
+import { InputBuffer, OutputBuffer, createRedirectedOutput } from './io';
+import type { OutputTarget } from './io';
+import { expandWord, expandString, expandPattern } from './expand';
+import type { ExpansionContext } from './expand';
+import { expandGlob, unescapeGlob, globToRegExp } from './glob';
+import { evaluateArithmetic } from './arith';
+import { strerror } from './vfs';
+import { UserDatabase } from './users';
+import { concatContent, fromBytes } from './encoding';
+import { delay, signalStatus, whileStopped } from './signals';
+import { ProcessTable } from './processes';
+
+/** 输出重定向到的文件 */
+interface RedirectFile {
+  path: string;
+  append: boolean;
+  buffer: OutputBuffer;
+}
+
+/** 执行时的输入输出环境 */
+export interface ExecutionIO {
+  /** 标准输入，null 表示终端 */
+  stdin: InputBuffer | null;
+  stdout: OutputTarget;
+  stderr: OutputTarget;
+  /** 中断信号，触发后不再执行之后的命令 */
+  signal: AbortSignal;
+}
+
+/** 应用重定向后的输入输出状态 */
+interface RedirectState extends ExecutionIO {
+  files: RedirectFile[];
+}
+
+/** 位置参数帧（脚本或函数调用） */
+interface PositionalFrame {
+  /** $0 */
+  name: string;
+  /** $1, $2, ... */
+  params: string[];
+}
+
+/** 子 shell 和独立脚本需要隔离的解释器状态 */
+interface ShellSnapshot {
+  env: EnvironmentVariables;
+  cwd: string;
+  functions: Map<string, FunctionDefinition>;
+  options: Record<string, boolean>;
+  scopes: Map<string, string | undefined>[];
+  loopDepth: number;
+  returnDepth: number;
+}
+
+/** su 进入的会话，exit 时恢复到之前的状态 */
+interface SessionFrame {
+  snapshot: ShellSnapshot;
+  credentials: Credentials;
+  login: boolean;
+}
+
+/** 控制流信号类型 */
+export type ControlFlowKind = 'break' | 'continue' | 'return' | 'exit' | 'interrupt';
+
+/**
+ * 控制流信号
+ * 由 break/continue/return/exit 命令抛出，在对应的循环、函数或脚本边界被捕获
+ * interrupt 在执行被中断（Ctrl+C）后抛出，结束整个命令行
+ */
+export class ControlFlow extends Error {
+  readonly kind: ControlFlowKind;
+  /** break/continue 的层数，或 return/exit/interrupt 的退出码 */
+  readonly value: number;
+
+  constructor(kind: ControlFlowKind, value: number) {
+    super(kind);
+    this.kind = kind;
+    this.value = value;
+  }
+}
+
+/** 终端输入输出（无重定向，不会被中断） */
+export const TerminalIO: ExecutionIO = {
+  stdin: null,
+  stdout: 'stdout',
+  stderr: 'stderr',
+  signal: new AbortController().signal,
+};
+
+/** 没有连接终端时的输入（总是返回输入结束，不能打开全屏界面） */
+export const NoInput: InputReader = {
+  readLine: async () => null,
+  readKey: async () => null,
+  openScreen: () => null,
+};
+
+/**
+ * 后台作业的终端输入：读取终端时一直等到作业被中断
+ * （bash 中读取终端的后台作业被 SIGTTIN 停止），不能打开全屏界面
+ */
+function backgroundInput(signal: AbortSignal): InputReader {
+  const wait = async (options?: ReadLineOptions) => {
+    const signals = options?.signal ? [signal, options.signal] : [signal];
+    await Promise.race(signals.map((item) => delay(Infinity, item)));
+    return null;
+  };
+  return { readLine: wait, readKey: wait, openScreen: () => null };
+}
+
+/** 函数调用的最大嵌套层数 */
+const MaxFunctionDepth = 256;
+
+/** 每执行若干次循环让出一次事件循环，避免死循环卡住页面 */
+const LoopYieldInterval = 256;
+
+const AssignmentReg = /^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/s;
+
+/**
+ * 将参数拆分为普通参数和选项
+ */
+export function parseArgs(tokens: string[]): { args: string[]; flags: Set<string> } {
+  const args: string[] = [];
+  const flags = new Set<string>();
+
+  for (const token of tokens) {
+    if (token.startsWith('--')) {
+      flags.add(token.substring(2));
+    } else if (token.startsWith('-') && token.length > 1) {
+      // 处理短选项如 -la
+      for (let j = 1; j < token.length; j++) {
+        flags.add(token[j]);
+      }
+    } else {
+      args.push(token);
+    }
+  }
+
+  return { args, flags };
+}
+
+/**
+ * Shell 解释器
+ */
+export class Interpreter {
+  private vfs: VirtualFileSystem;
+  private env: EnvironmentVariables;
+  private output: OutputHandler;
+  private findCommand: (name: string) => CommandDefinition | undefined;
+  private lastExitCode: number = 0;
+  /** 最近一次命令替换的退出码（仅有赋值的命令以此作为退出码） */
+  private substitutionExitCode: number = 0;
+  private functions: Map<string, FunctionDefinition> = new Map();
+  /** 函数的局部变量作用域（undefined 表示局部声明但未设置） */
+  private scopes: Map<string, string | undefined>[] = [];
+  private frames: PositionalFrame[] = [{ name: 'bash', params: [] }];
+  private loopDepth: number = 0;
+  /** 可以执行 return 的层数（函数调用和 source 的脚本） */
+  private returnDepth: number = 0;
+  private exitHandler: ((code: number) => void) | null = null;
+  private input: InputReader = NoInput;
+  private processes: ProcessControl = new ProcessTable();
+  /** su 进入的会话栈 */
+  private sessions: SessionFrame[] = [];
+  /**
+   * Shell 选项（shopt）
+   * globstar 默认开启，便于在教学中直接使用 **
+   */
+  private options: Record<string, boolean> = {
+    dotglob: false,
+    failglob: false,
+    globstar: true,
+    nocaseglob: false,
+    nullglob: false,
+  };
+
+  constructor(
+    vfs: VirtualFileSystem,
+    env: EnvironmentVariables,
+    output: OutputHandler,
+    findCommand: (name: string) => CommandDefinition | undefined
+  ) {
+    this.vfs = vfs;
+    this.env = env;
+    this.output = output;
+    this.findCommand = findCommand;
+    this.env['?'] = '0';
+  }
+
+  /**
+   * 获取 shell 选项的值
+   */
+  getOption(name: string): boolean | undefined {
+    return this.options[name];
+  }
+
+  /**
+   * 设置 shell 选项
+   */
+  setOption(name: string, value: boolean): boolean {
+    if (!(name in this.options)) {
+      return false;
+    }
+    this.options[name] = value;
+    return true;
+  }
+
+  /**
+   * 获取全部 shell 选项
+   */
+  getOptions(): Record<string, boolean> {
+    return { ...this.options };
+  }
+
+  /**
+   * 获取上一条命令的退出码（即 $?）
+   */
+  getLastExitCode(): number {
+    return this.lastExitCode;
+  }
+
+  /**
+   * 设置 $?（命令行被停止、没有执行完时由 CLI 设置）
+   */
+  setLastExitCode(code: number): void {
+    this.setExitCode(code);
+  }
+
+  /**
+   * 设置顶层 exit 的处理函数
+   */
+  setExitHandler(handler: ((code: number) => void) | null): void {
+    this.exitHandler = handler;
+  }
+
+  /**
+   * 设置终端输入
+   */
+  setInput(input: InputReader | null): void {
+    this.input = input ?? NoInput;
+  }
+
+  /**
+   * 设置进程表（后台作业、$$ 和 $!）
+   */
+  setProcessControl(processes: ProcessControl): void {
+    this.processes = processes;
+  }
+
+  /**
+   * 执行顶层命令行
+   */
+  async execute(input: string, io: ExecutionIO = TerminalIO): Promise<number> {
+    try {
+      return await this.executeInput(input, io);
+    } catch (error) {
+      if (!(error instanceof ControlFlow)) throw error;
+      const code = this.setExitCode(error.value);
+      if (error.kind === 'exit') {
+        // su 进入的会话中 exit 只结束该会话
+        const session = this.sessions.pop();
+        if (session) {
+          this.createOutput(io).println(session.login ? 'logout' : 'exit');
+          this.restoreState(session.snapshot);
+          this.vfs.setCredentials(session.credentials);
+          this.setExitCode(code);
+        } else {
+          this.exitHandler?.(code);
+        }
+      }
+      return code;
+    }
+  }
+
+  /**
+   * 执行脚本
+   * 独立脚本在隔离的状态中运行；source 的脚本直接作用于当前 shell
+   */
+  async runScript(source: string, options: ScriptOptions, io: ExecutionIO): Promise<number> {
+    const frame: PositionalFrame = {
+      name: options.source ? this.frames[this.frames.length - 1].name : options.name,
+      params: options.args ?? [],
+    };
+    // source 未提供参数时沿用当前位置参数
+    const pushFrame = !options.source || (options.args?.length ?? 0) > 0;
+
+    const shell = options.source ? this : this.fork();
+    if (pushFrame) shell.frames.push(frame);
+    if (options.source) shell.returnDepth++;
+    try {
+      return await shell.executeInput(source, io);
+    } catch (error) {
+      if (error instanceof ControlFlow && error.kind === 'return' && options.source) {
+        return shell.setExitCode(error.value);
+      }
+      if (error instanceof ControlFlow && error.kind === 'exit' && !options.source) {
+        return shell.setExitCode(error.value);
+      }
+      throw error;
+    } finally {
+      if (options.source) shell.returnDepth--;
+      if (pushFrame) shell.frames.pop();
+    }
+  }
+
+  /**
+   * 创建供命令使用的运行时接口，命令内执行的命令继承其输入输出
+   */
+  createRuntime(io: ExecutionIO): ShellRuntime {
+    return {
+      getOption: (name) => this.getOption(name),
+      setOption: (name, value) => this.setOption(name, value),
+      getOptions: () => this.getOptions(),
+      execute: (input, stdin) => this.executeInput(input, { ...io, stdin: stdin == null ? null : new InputBuffer(stdin) }),
+      exec: async (argv, stdin, signal) => {
+        try {
+          return await this.runProgram(argv, {
+            ...io,
+            stdin: stdin === undefined ? io.stdin : stdin === null ? null : new InputBuffer(stdin),
+            signal: signal ?? io.signal,
+          });
+        } catch (error) {
+          // 单独的中断信号触发的中断只结束这次执行
+          if (error instanceof ControlFlow && error.kind === 'interrupt' && signal && !io.signal.aborted) {
+            return error.value;
+          }
+          throw error;
+        }
+      },
+      readInput: (delimiter, limit) => io.stdin?.read(delimiter, limit) ?? null,
+      runScript: (source, options) => this.runScript(source, options, io),
+      getVariable: (name) => this.getVariable(name),
+      setVariable: (name, value, options) => {
+        if (options?.local) {
+          this.scopes[this.scopes.length - 1]?.set(name, value);
+        } else {
+          this.setVariable(name, value);
+        }
+      },
+      unsetVariable: (name) => this.unsetVariable(name),
+      getVariables: () => this.collectVariables(),
+      getPositionalParams: () => [...this.frames[this.frames.length - 1].params],
+      setPositionalParams: (params) => {
+        this.frames[this.frames.length - 1].params = [...params];
+      },
+      isInFunction: () => this.scopes.length > 0,
+      isInLoop: () => this.loopDepth > 0,
+      canReturn: () => this.returnDepth > 0,
+      runAs: (session, run) => this.runAs(session, run, io),
+      getProcessControl: () => this.processes,
+      pushSession: (session) => {
+        this.sessions.push({
+          snapshot: this.snapshotState(),
+          credentials: this.vfs.getCredentials(),
+          login: session.login,
+        });
+        this.enterSession(session);
+      },
+    };
+  }
+
+  /**
+   * 以其他用户的身份在子 shell 中执行（sudo、su -c），身份只属于子 shell
+   */
+  private async runAs(
+    session: UserSession,
+    run: (shell: ShellRuntime) => Promise<number>,
+    io: ExecutionIO
+  ): Promise<number> {
+    const shell = this.fork();
+    shell.enterSession(session);
+
+    try {
+      return await run(shell.createRuntime(io));
+    } catch (error) {
+      if (error instanceof ControlFlow && error.kind === 'exit') return error.value;
+      throw error;
+    } finally {
+      if (shell.sessions.length > 0) {
+        this.adoptSessions(shell);
+      }
+    }
+  }
+
+  /**
+   * 子 shell 中执行的命令进入了新会话（如 sudo su）时，当前 shell 进入该会话，退出时回到之前的状态
+   */
+  private adoptSessions(shell: Interpreter): void {
+    const [first, ...rest] = shell.sessions;
+    this.sessions.push({ snapshot: this.snapshotState(), credentials: this.vfs.getCredentials(), login: first.login }, ...rest);
+    this.vfs.setCredentials(shell.vfs.getCredentials());
+    this.restoreState({ ...shell.snapshotState(), loopDepth: this.loopDepth, returnDepth: this.returnDepth });
+  }
+
+  /**
+   * 切换到会话的身份、环境变量和工作目录
+   */
+  private enterSession(session: UserSession): void {
+    this.vfs.setCredentials(session.credentials);
+    const exitCode = this.env['?'];
+    for (const key of Object.keys(this.env)) {
+      delete this.env[key];
+    }
+    Object.assign(this.env, session.env, { '?': exitCode });
+    if (session.cwd !== null) {
+      this.vfs.cd(session.cwd);
+    }
+  }
+
+  /**
+   * 在指定的输入输出环境中解析并执行命令行
+   */
+  private async executeInput(input: string, io: ExecutionIO): Promise<number> {
+    if (!input.trim()) {
+      return 0;
+    }
+
+    let list: CommandList;
+    try {
+      list = parseCommandList(tokenize(input));
+    } catch (error) {
+      this.createOutput(io).error(error instanceof Error ? error.message : String(error));
+      return this.setExitCode(2);
+    }
+
+    return this.executeList(list, io);
+  }
+
+  /**
+   * 执行命令链
+   * && 仅在前一项成功时执行，|| 仅在前一项失败时执行，; 总是执行
+   */
+  private async executeList(list: CommandList, io: ExecutionIO): Promise<number> {
+    let exitCode = this.lastExitCode;
+
+    for (const { connector, pipeline, background } of list.items) {
+      await whileStopped(io.signal);
+      this.checkInterrupt(io);
+      if (connector === '&&' && exitCode !== 0) continue;
+      if (connector === '||' && exitCode === 0) continue;
+      if (background !== undefined) {
+        exitCode = this.setExitCode(this.startJob(pipeline, background, io));
+        continue;
+      }
+      exitCode = this.setExitCode(await this.executePipeline(pipeline, io));
+    }
+
+    return exitCode;
+  }
+
+  /**
+   * 在后台的子 shell 中执行管道，交互执行时显示作业号和进程号
+   * 作业的标准输入为空，不能读取终端
+   */
+  private startJob(pipeline: Pipeline, command: string, io: ExecutionIO): number {
+    const job = this.processes.spawn(command, async (signal) => {
+      const shell = this.fork(backgroundInput(signal));
+      try {
+        return await shell.executePipeline(pipeline, { ...io, stdin: new InputBuffer(''), signal });
+      } catch (error) {
+        if (error instanceof ControlFlow) return error.value;
+        throw error;
+      }
+    });
+    if (this.frames.length === 1 && io.stdout === 'stdout') {
+      this.output.println(`[${job.id}] ${job.pid}`);
+    }
+    return 0;
+  }
+
+  /**
+   * 执行已被中断时结束整个命令行
+   */
+  private checkInterrupt(io: ExecutionIO): void {
+    if (io.signal.aborted) {
+      throw new ControlFlow('interrupt', signalStatus(io.signal));
+    }
+  }
+
+  /**
+   * 记录退出码并同步到 $?
+   */
+  private setExitCode(code: number): number {
+    this.lastExitCode = code;
+    this.env['?'] = String(code);
+    return code;
+  }
+
+  /**
+   * 执行管道
+   * 依次运行各命令，前一个命令的标准输出作为后一个命令的标准输入
+   */
+  private async executePipeline(pipeline: Pipeline, io: ExecutionIO): Promise<number> {
+    let stdin = io.stdin;
+    let exitCode = 0;
+
+    for (let i = 0; i < pipeline.commands.length; i++) {
+      this.checkInterrupt(io);
+      const isLast = i === pipeline.commands.length - 1;
+      const pipe = isLast ? null : new OutputBuffer();
+      exitCode = await this.executeCommand(pipeline.commands[i], {
+        stdin,
+        stdout: pipe ?? io.stdout,
+        stderr: io.stderr,
+        signal: io.signal,
+      });
+      stdin = pipe ? new InputBuffer(pipe.content()) : null;
+    }
+
+    if (pipeline.negate) {
+      return exitCode === 0 ? 1 : 0;
+    }
+    return exitCode;
+  }
+
+  /**
+   * 执行单个命令
+   */
+  private async executeCommand(command: Command, io: ExecutionIO): Promise<number> {
+    if (command.type === 'simple') {
+      return this.executeSimpleCommand(command, io);
+    }
+
+    if (command.type === 'function') {
+      this.functions.set(command.name, command);
+      return 0;
+    }
+
+    let redirects: Redirect[];
+    try {
+      redirects = await this.expandRedirects(command.redirects, io);
+    } catch (error) {
+      this.createOutput(io).error(error instanceof Error ? error.message : String(error));
+      return 1;
+    }
+
+    const state = this.openRedirects(redirects, io);
+    if (!state) {
+      return 1;
+    }
+
+    let exitCode: number;
+    try {
+      exitCode = await this.executeCompound(command, state);
+    } finally {
+      // 控制流信号穿过复合命令时也要写出已捕获的输出
+      if (!this.closeRedirects(state)) exitCode = 1;
+    }
+    return exitCode;
+  }
+
+  /**
+   * 执行复合命令
+   */
+  private async executeCompound(command: Command, io: ExecutionIO): Promise<number> {
+    switch (command.type) {
+      case 'if': {
+        for (const clause of command.clauses) {
+          if (await this.executeList(clause.condition, io) === 0) {
+            return this.executeList(clause.body, io);
+          }
+        }
+        return command.elseBody ? this.executeList(command.elseBody, io) : 0;
+      }
+
+      case 'for': {
+        const items: string[] = [];
+        if (command.items) {
+          try {
+            for (const word of command.items) {
+              items.push(...await expandWord(word, this.createExpansionContext(io)));
+            }
+          } catch (error) {
+            this.createOutput(io).error(error instanceof Error ? error.message : String(error));
+            return 1;
+          }
+        } else {
+          items.push(...this.frames[this.frames.length - 1].params);
+        }
+
+        let exitCode = 0;
+        for (let i = 0; i < items.length; i++) {
+          this.setVariable(command.variable, items[i]);
+          const result = await this.runLoopBody(command.body, io, i);
+          exitCode = result.exitCode;
+          if (result.stop) break;
+        }
+        return exitCode;
+      }
+
+      case 'arith-for': {
+        let exitCode = 0;
+        if (await this.evaluateCommandArithmetic(command.init, io) === null) return 1;
+        for (let i = 0; ; i++) {
+          if (command.condition.trim()) {
+            const condition = await this.evaluateCommandArithmetic(command.condition, io);
+            if (condition === null) return 1;
+            if (condition === 0) break;
+          }
+          const result = await this.runLoopBody(command.body, io, i);
+          exitCode = result.exitCode;
+          if (result.stop) break;
+          if (await this.evaluateCommandArithmetic(command.update, io) === null) return 1;
+        }
+        return exitCode;
+      }
+
+      case 'while': {
+        let exitCode = 0;
+        for (let i = 0; ; i++) {
+          const condition = await this.executeList(command.condition, io);
+          if (command.until ? condition === 0 : condition !== 0) break;
+          const result = await this.runLoopBody(command.body, io, i);
+          exitCode = result.exitCode;
+          if (result.stop) break;
+        }
+        return exitCode;
+      }
+
+      case 'case': {
+        let value: string;
+        try {
+          value = await expandString(command.word, this.createExpansionContext(io));
+          for (const clause of command.clauses) {
+            for (const pattern of clause.patterns) {
+              const expanded = await expandPattern(pattern, this.createExpansionContext(io));
+              if (globToRegExp(expanded).test(value)) {
+                return this.executeList(clause.body, io);
+              }
+            }
+          }
+        } catch (error) {
+          if (error instanceof ControlFlow) throw error;
+          this.createOutput(io).error(error instanceof Error ? error.message : String(error));
+          return 1;
+        }
+        return 0;
+      }
+
+      case 'group':
+        if (command.subshell) {
+          try {
+            return await this.fork().executeList(command.body, io);
+          } catch (error) {
+            // 子 shell 中的 exit 只结束子 shell
+            if (error instanceof ControlFlow && error.kind === 'exit') return error.value;
+            throw error;
+          }
+        }
+        return this.executeList(command.body, io);
+
+      case 'arith': {
+        const value = await this.evaluateCommandArithmetic(command.expression, io);
+        if (value === null) return 1;
+        return value !== 0 ? 0 : 1;
+      }
+
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * 执行一次循环体，处理 break 和 continue
+   */
+  private async runLoopBody(
+    body: CommandList,
+    io: ExecutionIO,
+    iteration: number
+  ): Promise<{ exitCode: number; stop: boolean }> {
+    if (iteration > 0 && iteration % LoopYieldInterval === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    await whileStopped(io.signal);
+    this.checkInterrupt(io);
+
+    this.loopDepth++;
+    try {
+      return { exitCode: await this.executeList(body, io), stop: false };
+    } catch (error) {
+      if (!(error instanceof ControlFlow) || (error.kind !== 'break' && error.kind !== 'continue')) {
+        throw error;
+      }
+      // break 2 / continue 2 继续作用于外层循环
+      if (error.value > 1) {
+        throw new ControlFlow(error.kind, error.value - 1);
+      }
+      return { exitCode: 0, stop: error.kind === 'break' };
+    } finally {
+      this.loopDepth--;
+    }
+  }
+
+  /**
+   * 计算 (( )) 和 for (( )) 中的算术表达式，出错时返回 null
+   */
+  private async evaluateCommandArithmetic(expression: string, io: ExecutionIO): Promise<number | null> {
+    try {
+      const expanded = await expandString(expression, this.createExpansionContext(io));
+      return evaluateArithmetic(expanded, {
+        get: (name) => this.getVariable(name),
+        set: (name, value) => this.setVariable(name, value),
+      });
+    } catch (error) {
+      this.createOutput(io).error(`((: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * 执行简单命令（含变量赋值、展开与重定向）
+   */
+  private async executeSimpleCommand(simple: SimpleCommand, io: ExecutionIO): Promise<number> {
+    const localEnv: Record<string, string> = {};
+    const words: string[] = [];
+    let redirects: Redirect[];
+
+    this.substitutionExitCode = 0;
+    try {
+      // 处理变量赋值 (VAR=value command)
+      let index = 0;
+      for (; index < simple.words.length; index++) {
+        const match = simple.words[index].match(AssignmentReg);
+        if (!match) break;
+        localEnv[match[1]] = await expandString(match[2], this.createExpansionContext(io));
+      }
+
+      for (const word of simple.words.slice(index)) {
+        words.push(...await expandWord(word, this.createExpansionContext(io)));
+      }
+
+      redirects = await this.expandRedirects(simple.redirects, io);
+    } catch (error) {
+      this.createOutput(io).error(error instanceof Error ? error.message : String(error));
+      return 1;
+    }
+
+    // 应用重定向
+    const state = this.openRedirects(redirects, io);
+    if (!state) {
+      return 1;
+    }
+
+    let exitCode: number;
+    try {
+      if (words.length === 0) {
+        // 仅有变量赋值时设置 shell 变量，退出码为最后一个命令替换的退出码
+        for (const [name, value] of Object.entries(localEnv)) {
+          this.setVariable(name, value);
+        }
+        exitCode = this.substitutionExitCode;
+      } else {
+        exitCode = await this.withAssignments(localEnv, () => this.runCommand(words, state));
+      }
+    } finally {
+      if (!this.closeRedirects(state)) exitCode = 1;
+    }
+
+    return exitCode;
+  }
+
+  /**
+   * 展开重定向目标
+   */
+  private async expandRedirects(redirects: Redirect[], io: ExecutionIO): Promise<Redirect[]> {
+    const result: Redirect[] = [];
+    for (const redirect of redirects) {
+      result.push({ ...redirect, target: await expandString(redirect.target, this.createExpansionContext(io)) });
+    }
+    return result;
+  }
+
+  /**
+   * 打开重定向
+   * 输出重定向的文件会先被创建（或截断），命令结束后写入捕获的内容
+   */
+  private openRedirects(redirects: Redirect[], io: ExecutionIO): RedirectState | null {
+    const fds = new Map<number, OutputTarget>([[1, io.stdout], [2, io.stderr]]);
+    const files: RedirectFile[] = [];
+    let stdin = io.stdin;
+
+    for (const redirect of redirects) {
+      const { fd, op, target } = redirect;
+
+      if (op === '<') {
+        const content = this.vfs.readFileBytes(target);
+        if (content === null) {
+          this.reportFileError(target, io);
+          return null;
+        }
+        stdin = new InputBuffer(fromBytes(content));
+      } else if (op === '>&') {
+        const source = fds.get(Number(target));
+        if (!/^[0-9]+$/.test(target) || source === undefined) {
+          this.createOutput(io).error(`${target}: Bad file descriptor`);
+          return null;
+        }
+        fds.set(fd, source);
+      } else {
+        const append = op === '>>';
+        if (!this.vfs.writeFile(target, append ? this.appendBase(target) : '')) {
+          this.reportFileError(target, io);
+          return null;
+        }
+        const buffer = new OutputBuffer();
+        files.push({ path: target, append, buffer });
+        fds.set(fd, buffer);
+      }
+    }
+
+    return {
+      stdin,
+      stdout: fds.get(1)!,
+      stderr: fds.get(2)!,
+      signal: io.signal,
+      files,
+    };
+  }
+
+  /**
+   * 关闭重定向，将捕获的输出写入文件
+   */
+  private closeRedirects(state: RedirectState): boolean {
+    for (const file of state.files) {
+      const existing = file.append ? this.appendBase(file.path) : '';
+      if (!this.vfs.writeFile(file.path, concatContent(existing, file.buffer.content()))) {
+        this.reportFileError(file.path, state);
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 获取追加重定向时文件的原有内容
+   * 追加只需要写权限，因此直接读取节点而不检查读权限
+   */
+  private appendBase(path: string): FileContent {
+    const node = this.vfs.getNode(path);
+    return node?.type === 'file' ? node.content : '';
+  }
+
+  /**
+   * 输出文件访问的错误信息（需紧跟在失败的文件操作之后调用）
+   */
+  private reportFileError(path: string, io: ExecutionIO): void {
+    this.createOutput(io).error(`${path}: ${strerror(this.vfs.lastError)}`);
+  }
+
+  /**
+   * 创建指向给定输入输出环境的输出处理器
+   */
+  private createOutput(io: ExecutionIO): OutputHandler {
+    return createRedirectedOutput(this.output, io.stdout, io.stderr);
+  }
+
+  /**
+   * 创建展开上下文，命令替换继承执行环境的中断信号
+   */
+  private createExpansionContext(io: ExecutionIO): ExpansionContext {
+    return {
+      lookup: (name) => this.getVariable(name),
+      assign: (name, value) => this.setVariable(name, value),
+      home: () => this.env.HOME,
+      userHome: (name) => new UserDatabase(this.vfs).getUser(name)?.home ?? null,
+      positional: () => this.frames[this.frames.length - 1].params,
+      substitute: (command) => this.captureOutput(command, io.signal),
+      glob: (pattern) => this.expandPathname(pattern),
+    };
+  }
+
+  /**
+   * 按 shell 选项进行路径名展开
+   * 没有匹配时：failglob 报错，nullglob 删除该单词，否则保留原单词
+   */
+  private expandPathname(pattern: string): string[] | null {
+    const matches = expandGlob(pattern, this.vfs, {
+      dotglob: this.options.dotglob,
+      globstar: this.options.globstar,
+      nocase: this.options.nocaseglob,
+    });
+
+    if (matches.length > 0) return matches;
+    if (this.options.failglob) throw new Error(`no match: ${unescapeGlob(pattern)}`);
+    if (this.options.nullglob) return [];
+    return null;
+  }
+
+  /**
+   * 执行命令替换，捕获标准输出并去除末尾换行
+   * 命令替换在子 shell 中运行，其中的变量修改不影响当前 shell
+   */
+  private async captureOutput(command: string, signal: AbortSignal): Promise<string> {
+    const buffer = new OutputBuffer();
+    try {
+      const io: ExecutionIO = { stdin: null, stdout: buffer, stderr: 'stderr', signal };
+      this.substitutionExitCode = await this.fork().executeInput(command, io);
+    } catch (error) {
+      if (!(error instanceof ControlFlow && error.kind === 'exit')) throw error;
+      this.substitutionExitCode = error.value;
+    }
+    return buffer.toString().replace(/\n+$/, '');
+  }
+
+  /**
+   * 创建子 shell（子 shell、命令替换、独立脚本和后台作业）
+   * 子 shell 复制变量、函数、选项、位置参数和工作目录，其中的修改不影响当前 shell
+   */
+  private fork(input: InputReader = this.input): Interpreter {
+    const shell = new Interpreter(this.vfs.fork(), { ...this.env }, this.output, this.findCommand);
+    shell.setExitCode(this.lastExitCode);
+    shell.functions = new Map(this.functions);
+    shell.scopes = this.scopes.map((scope) => new Map(scope));
+    shell.frames = this.frames.map((frame) => ({ ...frame, params: [...frame.params] }));
+    shell.options = { ...this.options };
+    shell.input = input;
+    shell.processes = this.processes;
+    return shell;
+  }
+
+  /**
+   * 保存解释器状态
+   */
+  private snapshotState(): ShellSnapshot {
+    return {
+      env: { ...this.env },
+      cwd: this.vfs.pwd(),
+      functions: new Map(this.functions),
+      options: { ...this.options },
+      scopes: this.scopes.map((scope) => new Map(scope)),
+      loopDepth: this.loopDepth,
+      returnDepth: this.returnDepth,
+    };
+  }
+
+  /**
+   * 恢复解释器状态（保留 $?）
+   */
+  private restoreState(snapshot: ShellSnapshot): void {
+    const exitCode = this.env['?'];
+    for (const key of Object.keys(this.env)) {
+      delete this.env[key];
+    }
+    Object.assign(this.env, snapshot.env, { '?': exitCode });
+    this.vfs.cd(snapshot.cwd);
+    this.functions = snapshot.functions;
+    this.options = snapshot.options;
+    this.scopes = snapshot.scopes;
+    this.loopDepth = snapshot.loopDepth;
+    this.returnDepth = snapshot.returnDepth;
+  }
+
+  /**
+   * 读取变量（含位置参数和特殊参数）
+   */
+  private getVariable(name: string): string | undefined {
+    const frame = this.frames[this.frames.length - 1];
+
+    if (name === '#') return String(frame.params.length);
+    if (name === '@' || name === '*') return frame.params.join(' ');
+    if (name === '0') return frame.name;
+    if (name === '$') return String(this.processes.shellPid);
+    if (name === '!') return this.processes.lastBackgroundPid?.toString();
+    if (/^[1-9][0-9]*$/.test(name)) return frame.params[Number(name) - 1];
+
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      if (this.scopes[i].has(name)) {
+        return this.scopes[i].get(name);
+      }
+    }
+    return this.env[name];
+  }
+
+  /**
+   * 设置变量，已声明为局部变量时写入对应的函数作用域
+   */
+  private setVariable(name: string, value: string): void {
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      if (this.scopes[i].has(name)) {
+        this.scopes[i].set(name, value);
+        return;
+      }
+    }
+    this.env[name] = value;
+  }
+
+  /**
+   * 删除变量
+   */
+  private unsetVariable(name: string): void {
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      if (this.scopes[i].has(name)) {
+        this.scopes[i].set(name, undefined);
+        return;
+      }
+    }
+    delete this.env[name];
+  }
+
+  /**
+   * 收集当前可见的全部变量（局部变量覆盖全局变量）
+   */
+  private collectVariables(): EnvironmentVariables {
+    const variables = { ...this.env };
+    for (const scope of this.scopes) {
+      for (const [name, value] of scope) {
+        if (value === undefined) {
+          delete variables[name];
+        } else {
+          variables[name] = value;
+        }
+      }
+    }
+    return variables;
+  }
+
+  /**
+   * 在命令执行期间临时设置变量（VAR=value command），结束后恢复原值
+   */
+  private async withAssignments<T>(assignments: Record<string, string>, run: () => Promise<T>): Promise<T> {
+    const saved = Object.keys(assignments).map((name) => [name, this.env[name]] as const);
+    Object.assign(this.env, assignments);
+
+    try {
+      return await run();
+    } finally {
+      for (const [name, value] of saved) {
+        if (value === undefined) {
+          delete this.env[name];
+        } else {
+          this.env[name] = value;
+        }
+      }
+    }
+  }
+
+  /**
+   * 查找并运行命令（函数、内置命令或脚本文件）
+   */
+  private async runCommand(words: string[], io: ExecutionIO): Promise<number> {
+    const [command, ...rest] = words;
+
+    const fn = this.functions.get(command);
+    if (fn) {
+      return this.callFunction(fn, rest, io);
+    }
+
+    return this.runProgram(words, io);
+  }
+
+  /**
+   * 执行内置命令或脚本文件（不查找函数）
+   */
+  private async runProgram(words: string[], io: ExecutionIO): Promise<number> {
+    const [command, ...rest] = words;
+    const output = this.createOutput(io);
+
+    const cmd = this.findCommand(command);
+    if (!cmd) {
+      if (command.includes('/')) {
+        return this.runScriptFile(command, rest, io);
+      }
+      output.error(`${command}: command not found`);
+      return 127;
+    }
+
+    // 创建命令上下文
+    const context: CommandContext = {
+      vfs: this.vfs,
+      env: this.collectVariables(),
+      output,
+      cwd: this.vfs.pwd(),
+      ...parseArgs(rest),
+      argv: rest,
+      stdin: io.stdin?.remaining() ?? null,
+      get stdinBytes() {
+        return io.stdin?.remainingBytes() ?? null;
+      },
+      input: this.input,
+      signal: io.signal,
+      shell: this.createRuntime(io),
+    };
+
+    try {
+      const exitCode = await this.untilInterrupted(cmd.execute(context), io.signal);
+      return io.signal.aborted ? signalStatus(io.signal) : exitCode;
+    } catch (error) {
+      if (error instanceof ControlFlow) throw error;
+      output.error(`${command}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return 1;
+    }
+  }
+
+  /**
+   * 等待命令结束，被中断时不再等待没有响应中断的命令（避免终端一直无法使用）
+   */
+  private async untilInterrupted(result: number | Promise<number>, signal: AbortSignal): Promise<number> {
+    let abort = () => {};
+    const interrupted = new Promise<number>((resolve) => {
+      abort = () => resolve(signalStatus(signal));
+      signal.addEventListener('abort', abort, { once: true });
+    });
+    try {
+      return await Promise.race([result, interrupted]);
+    } finally {
+      signal.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * 调用函数
+   */
+  private async callFunction(fn: FunctionDefinition, args: string[], io: ExecutionIO): Promise<number> {
+    if (this.scopes.length >= MaxFunctionDepth) {
+      this.createOutput(io).error(`${fn.name}: maximum function nesting level exceeded (${MaxFunctionDepth})`);
+      return 1;
+    }
+
+    this.frames.push({ name: this.frames[this.frames.length - 1].name, params: args });
+    this.scopes.push(new Map());
+    this.returnDepth++;
+    // 函数体内的 break/continue 不作用于调用处的循环
+    const loopDepth = this.loopDepth;
+    this.loopDepth = 0;
+
+    try {
+      return await this.executeCommand(fn.body, io);
+    } catch (error) {
+      if (error instanceof ControlFlow && error.kind === 'return') {
+        return error.value;
+      }
+      throw error;
+    } finally {
+      this.loopDepth = loopDepth;
+      this.returnDepth--;
+      this.scopes.pop();
+      this.frames.pop();
+    }
+  }
+
+  /**
+   * 执行脚本文件（如 ./script.sh）
+   */
+  private async runScriptFile(path: string, args: string[], io: ExecutionIO): Promise<number> {
+    const stat = this.vfs.stat(path);
+    if (!stat) {
+      this.reportFileError(path, io);
+      return this.vfs.lastError === 'ENOENT' ? 127 : 126;
+    }
+    if (stat.type === 'directory') {
+      this.createOutput(io).error(`${path}: Is a directory`);
+      return 126;
+    }
+
+    // 直接执行脚本需要读和执行权限
+    const content = this.vfs.access(path, 'x') ? this.vfs.readFile(path) : null;
+    if (content === null) {
+      this.reportFileError(path, io);
+      return 126;
+    }
+
+    return this.runScript(content, { name: path, args }, io);
+  }
+}
@@ -0,0 +1,202 @@
+import type { AnsiColor, FileContent, OutputHandler } from './types';
+import { decodeText, encodeText, fromBytes, toBytes, toText } from './encoding';
+
+const AnsiEscapeReg = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+/**
+ * 去除文本中的 ANSI 转义序列
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(AnsiEscapeReg, '');
+}
+
+/**
+ * 输入缓冲区
+ * 来自管道或 < 重定向的标准输入，使用同一输入的命令共享读取位置：
+ * read 逐行消耗输入，其他命令得到剩余的全部内容
+ * 二进制内容保留原始字节，按文本读取时才解码
+ */
+export class InputBuffer {
+  private content: FileContent;
+  private text: string;
+  private offset = 0;
+
+  constructor(content: FileContent) {
+    this.content = content;
+    this.text = toText(content);
+  }
+
+  /** 获取剩余未读取的内容 */
+  remaining(): string {
+    return this.text.slice(this.offset);
+  }
+
+  /** 获取剩余未读取内容的字节（尚未读取时为原始字节） */
+  remainingBytes(): Uint8Array {
+    return this.offset === 0 ? toBytes(this.content) : encodeText(this.remaining());
+  }
+
+  /**
+   * 读取到分隔符为止（分隔符被消耗但不返回）或最多 limit 个字符，没有剩余内容时返回 null
+   */
+  read(delimiter: string, limit: number = Infinity): string | null {
+    if (this.offset >= this.text.length) {
+      return null;
+    }
+
+    let result = '';
+    let count = 0;
+    while (this.offset < this.text.length && count < limit) {
+      const char = String.fromCodePoint(this.text.codePointAt(this.offset)!);
+      this.offset += char.length;
+      if (char === delimiter) break;
+      result += char;
+      count++;
+    }
+    return result;
+  }
+}
+
+/**
+ * 输出缓冲区
+ * 用于捕获管道和重定向中的命令输出
+ */
+export class OutputBuffer {
+  private chunks: FileContent[] = [];
+
+  /** 写入文本（颜色控制符会被去除） */
+  write(text: string): void {
+    this.chunks.push(stripAnsi(text));
+  }
+
+  /** 写入原始字节 */
+  writeBytes(data: Uint8Array): void {
+    this.chunks.push(data.slice());
+  }
+
+  /** 获取已写入的全部内容的文本 */
+  toString(): string {
+    return toText(this.content());
+  }
+
+  /**
+   * 获取已写入的全部内容，写入过字节且不是有效的 UTF-8 文本时为二进制数据
+   */
+  content(): FileContent {
+    if (this.chunks.every((chunk) => typeof chunk === 'string')) {
+      return this.chunks.join('');
+    }
+
+    const parts = this.chunks.map(toBytes);
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return fromBytes(result);
+  }
+}
+
+/**
+ * 输出原始字节，输出处理器不支持字节时按 UTF-8 解码后输出
+ */
+export function printBytes(output: OutputHandler, data: Uint8Array): void {
+  if (output.write) {
+    output.write(data);
+  } else {
+    output.print(decodeText(data));
+  }
+}
+
+/** 输出样式对应的颜色 */
+const StyleColors: Record<'success' | 'error' | 'warn', AnsiColor> = {
+  success: 'green',
+  error: 'red',
+  warn: 'yellow',
+};
+
+/** 输出目标：缓冲区，或终端的标准输出/标准错误 */
+export type OutputTarget = OutputBuffer | 'stdout' | 'stderr';
+
+/**
+ * 创建可重定向的输出处理器
+ * 根据标准输出和标准错误的目标分发写入
+ */
+export function createRedirectedOutput(
+  base: OutputHandler,
+  stdout: OutputTarget,
+  stderr: OutputTarget
+): OutputHandler {
+  const write = (
+    target: OutputTarget,
+    text: string,
+    newline: boolean,
+    style: 'plain' | 'success' | 'error' | 'warn'
+  ): void => {
+    if (target instanceof OutputBuffer) {
+      target.write(newline ? `${text}\n` : text);
+      return;
+    }
+
+    if (target === 'stderr' && style === 'plain') {
+      style = 'error';
+    }
+
+    if (!newline) {
+      base.print(style === 'plain' ? text : base.color(text, StyleColors[style]));
+    } else if (style === 'success') {
+      base.success(text);
+    } else if (style === 'error') {
+      base.error(text);
+    } else if (style === 'warn') {
+      base.warn(text);
+    } else {
+      base.println(text);
+    }
+  };
+
+  return {
+    print(text: string): void {
+      write(stdout, text, false, 'plain');
+    },
+
+    write(data: Uint8Array): void {
+      if (stdout instanceof OutputBuffer) {
+        stdout.writeBytes(data);
+      } else if (stdout === 'stdout') {
+        printBytes(base, data);
+      } else {
+        write(stdout, decodeText(data), false, 'plain');
+      }
+    },
+
+    println(text: string = ''): void {
+      write(stdout, text, true, 'plain');
+    },
+
+    error(text: string): void {
+      write(stderr, text, true, 'error');
+    },
+
+    warn(text: string): void {
+      write(stderr, text, true, 'warn');
+    },
+
+    success(text: string): void {
+      write(stdout, text, true, 'success');
+    },
+
+    color(text: string, color: AnsiColor): string {
+      return base.color(text, color);
+    },
+
+    clear(): void {
+      if (stdout === 'stdout') {
+        base.clear();
+      }
+    },
+
+    isTerminal: stdout === 'stdout' && base.isTerminal !== false,
+  };
+}
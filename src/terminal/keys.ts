@@ -0,0 +1,88 @@
+/**
+ * 终端按键解析
+ * 将终端发送的原始输入拆分为按键，并把控制序列转换为按键名称，供全屏界面使用
+ */
+
+/** 控制序列和控制字符对应的按键名称 */
+const KeyNames: Record<string, string> = {
+  '\x1b[A': 'up',
+  '\x1bOA': 'up',
+  '\x1b[B': 'down',
+  '\x1bOB': 'down',
+  '\x1b[C': 'right',
+  '\x1bOC': 'right',
+  '\x1b[D': 'left',
+  '\x1bOD': 'left',
+  '\x1b[H': 'home',
+  '\x1bOH': 'home',
+  '\x1b[1~': 'home',
+  '\x1b[7~': 'home',
+  '\x1b[F': 'end',
+  '\x1bOF': 'end',
+  '\x1b[4~': 'end',
+  '\x1b[8~': 'end',
+  '\x1b[2~': 'insert',
+  '\x1b[3~': 'delete',
+  '\x1b[5~': 'pageup',
+  '\x1b[6~': 'pagedown',
+  '\x1b': 'escape',
+  '\r': 'enter',
+  '\n': 'enter',
+  '\t': 'tab',
+  '\x7f': 'backspace',
+  '\b': 'backspace',
+};
+
+/**
+ * 将输入数据拆分为按键：CSI/SS3 控制序列或单个字符
+ * Esc 后面跟着的其他字符作为单独的按键（如 vi 中快速输入的 Esc 和命令）
+ */
+export function splitKeys(data: string): string[] {
+  const keys: string[] = [];
+  let i = 0;
+  while (i < data.length) {
+    if (data[i] === '\x1b' && i + 1 < data.length) {
+      const next = data[i + 1];
+      if (next === '[') {
+        // CSI：参数和中间字节之后以 0x40-0x7E 结束
+        let end = i + 2;
+        while (end < data.length && !/[\x40-\x7e]/.test(data[end])) end++;
+        keys.push(data.slice(i, end + 1));
+        i = end + 1;
+        continue;
+      }
+      if (next === 'O' && i + 2 < data.length && /[A-DFHP-S]/.test(data[i + 2])) {
+        keys.push(data.slice(i, i + 3));
+        i += 3;
+        continue;
+      }
+    }
+    const char = String.fromCodePoint(data.codePointAt(i)!);
+    keys.push(char);
+    i += char.length;
+  }
+  return keys;
+}
+
+/**
+ * 获取按键名称：特殊键返回名称（如 up、enter），Ctrl 组合键返回 ctrl-x，
+ * 可打印字符返回字符本身，无法识别的控制序列原样返回
+ */
+export function keyName(key: string): string {
+  const name = KeyNames[key];
+  if (name) return name;
+
+  const code = key.codePointAt(0)!;
+  if (key.length === 1 && code < 0x20) {
+    // Ctrl+A ~ Ctrl+Z 用小写字母表示，其余为 ctrl-@、ctrl-_ 等
+    return 'ctrl-' + String.fromCharCode(code >= 1 && code <= 26 ? code + 0x60 : code + 0x40);
+  }
+  return key;
+}
+
+/**
+ * 判断按键名称是否为可打印字符
+ */
+export function isPrintable(name: string): boolean {
+  return name.length <= 2 && [...name].length === 1 && name >= ' ' && name !== '\x7f';
+}
@@ -0,0 +1,306 @@
+/**
+ * 伪文件系统
+ * 通过 VFS.mount 挂载的 /proc、/dev、/sys，以及只读的打包目录树
+ */
+
+import type { FileContent, MountEntry, MountProvider, MountTree, ProcessInfo, ProcessState } from './types';
+import { processName } from './processes';
+
+/** 每次读取 /dev/zero、/dev/random 得到的字节数 */
+const DeviceBlockSize = 512;
+
+/** 模拟的处理器数量 */
+const CpuCount = 2;
+
+/** 模拟的内存总量（kB） */
+const MemTotal = 4_046_420;
+
+/** 内核版本 */
+const KernelRelease = '6.1.0-midrai';
+
+/** 每秒的时钟周期数（/proc/<pid>/stat 中时间的单位） */
+const ClockTicks = 100;
+
+/** 进程状态的名称 */
+const StateNames: Record<ProcessState, string> = { R: 'running', S: 'sleeping', T: 'stopped' };
+
+/**
+ * 将路径拆分为各级名称（/ 为空数组）
+ */
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+/**
+ * 创建只读的打包目录树
+ */
+export function createTreeProvider(tree: MountTree): MountProvider {
+  const isFile = (node: FileContent | MountTree): node is FileContent =>
+    typeof node === 'string' || node instanceof Uint8Array;
+
+  const find = (path: string): FileContent | MountTree | null => {
+    let current: FileContent | MountTree = tree;
+    for (const name of splitPath(path)) {
+      if (isFile(current) || !Object.hasOwn(current, name)) {
+        return null;
+      }
+      current = current[name];
+    }
+    return current;
+  };
+
+  return {
+    readonly: true,
+    list(path) {
+      const node = find(path);
+      if (node === null || isFile(node)) {
+        return null;
+      }
+      return Object.entries(node).map(([name, child]): MountEntry => (
+        isFile(child)
+          ? { name, type: 'file', mode: 0o644 }
+          : { name, type: 'directory', mode: 0o755 }
+      ));
+    },
+    read(path) {
+      const node = find(path);
+      return node !== null && isFile(node) ? node : null;
+    },
+  };
+}
+
+/**
+ * 创建 /dev：null 丢弃写入、读取为空，zero 读取为 NUL 字节，random 和 urandom 读取为随机字节
+ */
+export function createDevProvider(): MountProvider {
+  const devices: Record<string, () => FileContent> = {
+    null: () => '',
+    zero: () => new Uint8Array(DeviceBlockSize),
+    random: randomBytes,
+    urandom: randomBytes,
+  };
+
+  return {
+    list(path) {
+      if (path !== '/') {
+        return null;
+      }
+      return Object.keys(devices).map((name): MountEntry => ({ name, type: 'file', mode: 0o666 }));
+    },
+    read(path) {
+      const name = path.slice(1);
+      return Object.hasOwn(devices, name) ? devices[name]() : null;
+    },
+    write(path) {
+      // 写入的内容全部丢弃
+      return Object.hasOwn(devices, path.slice(1));
+    },
+  };
+}
+
+/**
+ * 生成一块随机字节
+ */
+function randomBytes(): Uint8Array {
+  const bytes = new Uint8Array(DeviceBlockSize);
+  crypto.getRandomValues(bytes);
+  return bytes;
+}
+
+/** /proc 的数据来源 */
+export interface ProcOptions {
+  /** 当前的进程列表 */
+  processes: () => ProcessInfo[];
+  /** 当前 shell 的进程号（/proc/self 指向的进程） */
+  self: () => number;
+}
+
+/**
+ * 创建 /proc：系统信息文件和每个进程的目录
+ */
+export function createProcProvider(options: ProcOptions): MountProvider {
+  const bootTime = Date.now();
+
+  const files: Record<string, () => string> = {
+    cpuinfo: formatCpuInfo,
+    meminfo: formatMemInfo,
+    uptime: () => {
+      const seconds = (Date.now() - bootTime) / 1000;
+      return `${seconds.toFixed(2)} ${(seconds * CpuCount * 0.97).toFixed(2)}\n`;
+    },
+    loadavg: () => {
+      const processes = options.processes();
+      const last = Math.max(...processes.map((process) => process.pid));
+      return `0.08 0.03 0.01 1/${processes.length} ${last}\n`;
+    },
+    version: () => `Linux version ${KernelRelease} (root@midrai) (gcc 12.2.0) #1 SMP PREEMPT_DYNAMIC\n`,
+  };
+
+  const processFiles: Record<string, (process: ProcessInfo) => string> = {
+    cmdline: (process) => process.argv.map((arg) => `${arg}\0`).join(''),
+    comm: (process) => `${processName(process)}\n`,
+    environ: (process) => Object.entries(process.env ?? {})
+      .filter(([name]) => name !== '?')
+      .map(([name, value]) => `${name}=${value}\0`)
+      .join(''),
+    stat: (process) => {
+      // 启动时间为开机后的时钟周期数，CPU 时间为 0
+      const start = Math.max(0, Math.round(((process.startTime ?? bootTime) - bootTime) / 1000 * ClockTicks));
+      const fields = [process.pid, `(${processName(process)})`, process.state ?? 'S', process.ppid, process.pid, process.ppid,
+        process.tty ? 34816 : 0, -1, 4194304, 0, 0, 0, 0, 0, 0, 0, 0, 20, 0, 1, 0, start];
+      return fields.join(' ') + '\n';
+    },
+    status: formatStatus,
+  };
+
+  const findProcess = (pid: string) => options.processes().find((process) => String(process.pid) === pid);
+
+  return {
+    list(path) {
+      const [pid, ...rest] = splitPath(path);
+      if (pid === undefined) {
+        return [
+          ...Object.keys(files).map((name): MountEntry => ({ name, type: 'file' })),
+          { name: 'self', type: 'symlink', target: String(options.self()) },
+          ...options.processes().map((process): MountEntry => ({
+            name: String(process.pid),
+            type: 'directory',
+            owner: process.user,
+            group: process.user,
+          })),
+        ];
+      }
+
+      const process = findProcess(pid);
+      if (!process || rest.length > 0) {
+        return null;
+      }
+      const owner = { owner: process.user, group: process.user };
+      return [
+        ...Object.keys(processFiles).map((name): MountEntry => ({
+          name,
+          type: 'file',
+          // 环境变量只有进程的所有者可以读取
+          mode: name === 'environ' ? 0o400 : 0o444,
+          ...owner,
+        })),
+        { name: 'cwd', type: 'symlink', target: process.cwd ?? '/', ...owner },
+      ];
+    },
+    read(path) {
+      const [first, second, ...rest] = splitPath(path);
+      if (second === undefined) {
+        return Object.hasOwn(files, first) ? files[first]() : null;
+      }
+      const process = findProcess(first);
+      if (!process || rest.length > 0 || !Object.hasOwn(processFiles, second)) {
+        return null;
+      }
+      return processFiles[second](process);
+    },
+  };
+}
+
+/**
+ * 生成 /proc/cpuinfo
+ */
+function formatCpuInfo(): string {
+  const blocks: string[] = [];
+  for (let cpu = 0; cpu < CpuCount; cpu++) {
+    blocks.push([
+      `processor\t: ${cpu}`,
+      'vendor_id\t: GenuineIntel',
+      'cpu family\t: 6',
+      'model\t\t: 85',
+      'model name\t: Intel(R) Xeon(R) Platinum 8259CL CPU @ 2.50GHz',
+      'stepping\t: 7',
+      'cpu MHz\t\t: 2499.998',
+      'cache size\t: 36608 KB',
+      `physical id\t: 0`,
+      `siblings\t: ${CpuCount}`,
+      `core id\t\t: ${cpu}`,
+      `cpu cores\t: ${CpuCount}`,
+      'fpu\t\t: yes',
+      'flags\t\t: fpu vme de pse tsc msr pae mce cx8 apic sep mtrr pge mca cmov pat pse36 clflush mmx fxsr sse sse2 ht syscall nx lm avx avx2',
+      'bogomips\t: 4999.99',
+      'address sizes\t: 46 bits physical, 48 bits virtual',
+    ].join('\n'));
+  }
+  return `${blocks.join('\n\n')}\n\n`;
+}
+
+/**
+ * 生成 /proc/meminfo（数值单位为 kB）
+ */
+function formatMemInfo(): string {
+  const free = Math.round(MemTotal * 0.42);
+  const buffers = Math.round(MemTotal * 0.03);
+  const cached = Math.round(MemTotal * 0.31);
+  const fields: [string, number][] = [
+    ['MemTotal', MemTotal],
+    ['MemFree', free],
+    ['MemAvailable', free + buffers + cached],
+    ['Buffers', buffers],
+    ['Cached', cached],
+    ['SwapCached', 0],
+    ['Active', Math.round(MemTotal * 0.28)],
+    ['Inactive', Math.round(MemTotal * 0.19)],
+    ['SwapTotal', 0],
+    ['SwapFree', 0],
+    ['Dirty', 84],
+    ['Shmem', Math.round(MemTotal * 0.01)],
+  ];
+  return fields
+    .map(([name, value]) => `${`${name}:`.padEnd(16)}${String(value).padStart(8)} kB`)
+    .join('\n') + '\n';
+}
+
+/**
+ * 生成 /proc/<pid>/status
+ */
+function formatStatus(process: ProcessInfo): string {
+  return [
+    `Name:\t${processName(process)}`,
+    `State:\t${process.state ?? 'S'} (${StateNames[process.state ?? 'S']})`,
+    `Pid:\t${process.pid}`,
+    `PPid:\t${process.ppid}`,
+    `Uid:\t${process.user}`,
+    'Threads:\t1',
+  ].join('\n') + '\n';
+}
+
+/** /sys 的数据来源 */
+export interface SysOptions {
+  /** 主机名 */
+  hostname: () => string;
+}
+
+/**
+ * 创建 /sys（仅包含 kernel 目录下的少量信息）
+ */
+export function createSysProvider(options: SysOptions): MountProvider {
+  const kernel: Record<string, () => string> = {
+    hostname: () => `${options.hostname()}\n`,
+    osrelease: () => `${KernelRelease}\n`,
+    ostype: () => 'Linux\n',
+  };
+
+  return {
+    list(path) {
+      if (path === '/') {
+        return [{ name: 'kernel', type: 'directory' }];
+      }
+      if (path === '/kernel') {
+        return Object.keys(kernel).map((name): MountEntry => ({ name, type: 'file' }));
+      }
+      return null;
+    },
+    read(path) {
+      const [dir, name, ...rest] = splitPath(path);
+      if (dir !== 'kernel' || rest.length > 0 || !Object.hasOwn(kernel, name)) {
+        return null;
+      }
+      return kernel[name]();
+    },
+  };
+}
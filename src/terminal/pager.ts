@@ -0,0 +1,511 @@
+/**
+ * 分页显示文本（less、more）
+ * 按终端宽度折行，支持翻页、逐行滚动和搜索（高亮所有匹配），终端大小改变时重新排版
+ */
+import type { InputReader, OutputHandler, TerminalScreen } from './types';
+import { escapeRegExp, translateRegExp } from './regex';
+import { isPrintable, keyName, splitKeys } from './keys';
+import { charWidth } from './text';
+
+/** 分页器选项 */
+export interface PagerOptions {
+  /** 要显示的文本 */
+  text: string;
+  /** 文件名，显示在第一屏的提示中；显示标准输入时为 null */
+  name: string | null;
+  /** more 风格：提示中显示百分比，在末尾继续向后翻页时退出 */
+  more?: boolean;
+  /** 一屏能显示完时不进入分页（less -F） */
+  quitIfOneScreen?: boolean;
+  /** 搜索时忽略大小写（less -i） */
+  ignoreCase?: boolean;
+}
+
+/** 带样式的字符 */
+interface Cell {
+  /** 显示的文本（控制字符显示为 ^X） */
+  char: string;
+  /** 字符生效的 SGR 控制序列 */
+  style: string;
+  width: number;
+}
+
+/** 文本中的一行 */
+interface PagerLine {
+  cells: Cell[];
+  /** 去掉样式后的文本，用于搜索 */
+  plain: string;
+  /** 每个字符在 plain 中的起始位置 */
+  offsets: number[];
+}
+
+/** 折行后屏幕上的一行：第 line 行中 [start, end) 的字符 */
+interface ScreenRow {
+  line: number;
+  start: number;
+  end: number;
+}
+
+/** 制表位宽度 */
+const TabWidth = 8;
+
+/**
+ * 拆分一行文本：保留颜色等 SGR 样式，去掉其他控制序列，展开制表符
+ */
+function parseLine(text: string): PagerLine {
+  const cells: Cell[] = [];
+  const offsets: number[] = [];
+  let plain = '';
+  let style = '';
+  let column = 0;
+
+  const push = (char: string, width: number) => {
+    cells.push({ char, style, width });
+    offsets.push(plain.length);
+    plain += char;
+    column += width;
+  };
+
+  for (let i = 0; i < text.length;) {
+    if (text[i] === '\x1b') {
+      const sequence = text.slice(i).match(/^\x1b\[[0-9;?]*[ -/]*[@-~]/);
+      if (sequence) {
+        if (sequence[0].endsWith('m')) {
+          style = /^\x1b\[0*m$/.test(sequence[0]) ? '' : style + sequence[0];
+        }
+        i += sequence[0].length;
+      } else {
+        i++;
+      }
+      continue;
+    }
+
+    const char = String.fromCodePoint(text.codePointAt(i)!);
+    i += char.length;
+    const code = char.codePointAt(0)!;
+    if (char === '\t') {
+      const spaces = TabWidth - (column % TabWidth);
+      for (let n = 0; n < spaces; n++) push(' ', 1);
+    } else if (char === '\r') {
+      continue;
+    } else if (code < 0x20 || code === 0x7f) {
+      push(code === 0x7f ? '^?' : '^' + String.fromCharCode(code + 0x40), 2);
+    } else {
+      push(char, charWidth(char));
+    }
+  }
+  return { cells, plain, offsets };
+}
+
+class Pager {
+  private name: string | null;
+  private more: boolean;
+  private quitIfOneScreen: boolean;
+  private ignoreCase: boolean;
+  private screen: TerminalScreen | null = null;
+  private onExit: (() => void) | null = null;
+
+  private lines: PagerLine[];
+  /** 按当前宽度折行后的屏幕行 */
+  private rows: ScreenRow[] = [];
+  private width = 0;
+  /** 第一个显示的屏幕行 */
+  private top = 0;
+  /** 命令前输入的次数 */
+  private count = '';
+  private message = '';
+  /** 是否还在第一屏（提示中显示文件名） */
+  private firstScreen = true;
+  /** 搜索输入（/ 或 ?） */
+  private prompt: { label: string; text: string } | null = null;
+  private pattern: RegExp | null = null;
+  private searchBackward = false;
+
+  constructor(options: PagerOptions) {
+    this.name = options.name;
+    this.more = options.more ?? false;
+    this.quitIfOneScreen = options.quitIfOneScreen ?? false;
+    this.ignoreCase = options.ignoreCase ?? false;
+
+    const text = options.text.endsWith('\n') ? options.text.slice(0, -1) : options.text;
+    this.lines = text.split('\n').map(parseLine);
+  }
+
+  /**
+   * 在全屏界面上开始分页，退出时调用 onExit
+   * 设置了 quitIfOneScreen 且一屏能显示完时返回 false，不进入分页
+   */
+  start(screen: TerminalScreen, onExit: () => void): boolean {
+    this.screen = screen;
+    this.layout();
+    if (this.quitIfOneScreen && this.rows.length <= this.pageHeight()) {
+      this.screen = null;
+      return false;
+    }
+    this.onExit = onExit;
+    this.render();
+    return true;
+  }
+
+  /**
+   * 终端大小改变时重新折行，保持第一个显示的行不变
+   */
+  resize(): void {
+    if (!this.screen) return;
+    const line = this.rows[this.top]?.line ?? 0;
+    this.layout();
+    this.top = Math.min(this.rows.findIndex((row) => row.line === line), this.maxTop());
+    this.render();
+  }
+
+  /**
+   * 处理终端输入
+   */
+  handleInput(data: string): void {
+    for (const key of splitKeys(data)) {
+      if (!this.screen) return;
+      this.handleKey(keyName(key));
+    }
+    this.render();
+  }
+
+  private quit(): void {
+    const screen = this.screen;
+    if (!screen) return;
+    this.screen = null;
+    screen.close();
+    this.onExit?.();
+  }
+
+  /**
+   * 按终端宽度把每行拆分为屏幕行
+   */
+  private layout(): void {
+    this.width = Math.max(1, this.screen?.columns ?? 80);
+    this.rows = [];
+    this.lines.forEach((line, index) => {
+      let start = 0;
+      let used = 0;
+      line.cells.forEach((cell, i) => {
+        if (used + cell.width > this.width && i > start) {
+          this.rows.push({ line: index, start, end: i });
+          start = i;
+          used = 0;
+        }
+        used += cell.width;
+      });
+      this.rows.push({ line: index, start, end: line.cells.length });
+    });
+  }
+
+  /** 显示文本的行数（最后一行是提示） */
+  private pageHeight(): number {
+    return Math.max(1, (this.screen?.rows ?? 24) - 1);
+  }
+
+  private maxTop(): number {
+    return Math.max(0, this.rows.length - this.pageHeight());
+  }
+
+  private scroll(delta: number): void {
+    if (this.more && delta > 0 && this.top >= this.maxTop()) {
+      this.quit();
+      return;
+    }
+    this.top = Math.max(0, Math.min(this.top + delta, this.maxTop()));
+  }
+
+  /** 把第 line 行（从 0 开始）显示在第一行 */
+  private showLine(line: number): void {
+    const index = this.rows.findIndex((row) => row.line >= line);
+    this.top = Math.min(index < 0 ? this.rows.length : index, this.maxTop());
+  }
+
+  private handleKey(name: string): void {
+    if (this.prompt) {
+      this.handlePromptKey(name);
+      return;
+    }
+    if (/^[0-9]$/.test(name)) {
+      this.count += name;
+      return;
+    }
+
+    const count = this.count ? Number(this.count) : null;
+    this.count = '';
+    this.message = '';
+    this.firstScreen = false;
+    const page = this.pageHeight();
+    const half = Math.ceil(page / 2);
+
+    switch (name) {
+      case 'q':
+      case 'Q':
+        this.quit();
+        break;
+      case ' ':
+      case 'f':
+      case 'z':
+      case 'ctrl-f':
+      case 'ctrl-v':
+      case 'pagedown':
+        this.scroll(count ?? page);
+        break;
+      case 'b':
+      case 'w':
+      case 'ctrl-b':
+      case 'pageup':
+        this.scroll(-(count ?? page));
+        break;
+      case 'enter':
+      case 'j':
+      case 'e':
+      case 'ctrl-n':
+      case 'ctrl-e':
+      case 'down':
+        this.scroll(count ?? 1);
+        break;
+      case 'k':
+      case 'y':
+      case 'ctrl-p':
+      case 'ctrl-y':
+      case 'ctrl-k':
+      case 'up':
+        this.scroll(-(count ?? 1));
+        break;
+      case 'd':
+      case 'ctrl-d':
+        this.scroll(count ?? half);
+        break;
+      case 'u':
+      case 'ctrl-u':
+        this.scroll(-(count ?? half));
+        break;
+      case 'g':
+      case '<':
+      case 'home':
+        this.showLine((count ?? 1) - 1);
+        break;
+      case 'G':
+      case '>':
+      case 'end':
+        if (count === null) {
+          this.top = this.maxTop();
+        } else {
+          this.showLine(count - 1);
+        }
+        break;
+      case 'p':
+      case '%':
+        this.showLine(Math.floor(((count ?? 0) * this.lines.length) / 100));
+        break;
+      case '/':
+      case '?':
+        this.prompt = { label: name, text: '' };
+        break;
+      case 'n':
+      case 'N':
+        if (!this.pattern) {
+          this.message = 'No previous regular expression';
+        } else {
+          this.search(this.searchBackward !== (name === 'N'));
+        }
+        break;
+      case '=':
+      case 'ctrl-g':
+        this.message = this.describe();
+        break;
+    }
+  }
+
+  private handlePromptKey(name: string): void {
+    const prompt = this.prompt!;
+    if (name === 'enter') {
+      this.prompt = null;
+      this.searchBackward = prompt.label === '?';
+      if (prompt.text) {
+        this.pattern = this.compile(prompt.text);
+      }
+      if (!this.pattern) {
+        this.message = 'No previous regular expression';
+        return;
+      }
+      this.search(this.searchBackward);
+    } else if (name === 'escape' || name === 'ctrl-c' || (name === 'backspace' && !prompt.text)) {
+      this.prompt = null;
+    } else if (name === 'backspace') {
+      prompt.text = [...prompt.text].slice(0, -1).join('');
+    } else if (isPrintable(name)) {
+      prompt.text += name;
+    }
+  }
+
+  /**
+   * 编译搜索模式（扩展正则表达式，无效时按普通文本搜索）
+   */
+  private compile(source: string): RegExp {
+    const flags = this.ignoreCase ? 'gi' : 'g';
+    try {
+      return new RegExp(translateRegExp(source, true), flags);
+    } catch {
+      return new RegExp(escapeRegExp(source), flags);
+    }
+  }
+
+  /**
+   * 从屏幕第一行之后（向后搜索时为之前）查找包含匹配的行
+   */
+  private search(backward: boolean): void {
+    const pattern = this.pattern!;
+    const current = this.rows[this.top]?.line ?? 0;
+    const matches = (line: PagerLine) => {
+      pattern.lastIndex = 0;
+      return pattern.test(line.plain);
+    };
+
+    let found = -1;
+    if (backward) {
+      for (let i = current - 1; i >= 0 && found < 0; i--) {
+        if (matches(this.lines[i])) found = i;
+      }
+    } else {
+      // 还在开头时从第一行开始搜索
+      const start = this.top === 0 ? 0 : current + 1;
+      for (let i = start; i < this.lines.length && found < 0; i++) {
+        if (matches(this.lines[i])) found = i;
+      }
+    }
+
+    if (found < 0) {
+      this.message = 'Pattern not found';
+    } else {
+      this.showLine(found);
+    }
+  }
+
+  /** 当前位置的描述（= 命令） */
+  private describe(): string {
+    const first = (this.rows[this.top]?.line ?? 0) + 1;
+    const last = this.lastVisibleLine() + 1;
+    const total = this.lines.length;
+    return `${this.name ?? 'Standard input'} lines ${first}-${last}/${total} ${Math.floor((last * 100) / total)}%`;
+  }
+
+  private lastVisibleLine(): number {
+    const row = this.rows[Math.min(this.top + this.pageHeight(), this.rows.length) - 1];
+    return row?.line ?? 0;
+  }
+
+  /**
+   * 找出一行中需要高亮的字符（匹配当前搜索模式）
+   */
+  private highlights(line: PagerLine): Set<number> {
+    const marked = new Set<number>();
+    const pattern = this.pattern;
+    if (!pattern) return marked;
+
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(line.plain)) !== null) {
+      if (match[0] === '') {
+        pattern.lastIndex++;
+        continue;
+      }
+      const end = match.index + match[0].length;
+      line.offsets.forEach((offset, i) => {
+        if (offset >= match!.index && offset < end) marked.add(i);
+      });
+    }
+    return marked;
+  }
+
+  /**
+   * 重新绘制整个屏幕
+   */
+  private render(): void {
+    const screen = this.screen;
+    if (!screen) return;
+
+    const height = this.pageHeight();
+    this.top = Math.min(this.top, this.maxTop());
+
+    let out = '\x1b[?25l';
+    const marks = new Map<number, Set<number>>();
+    for (let i = 0; i < height; i++) {
+      out += `\x1b[${i + 1};1H`;
+      const row = this.rows[this.top + i];
+      if (!row) {
+        out += '~\x1b[K';
+        continue;
+      }
+
+      const line = this.lines[row.line];
+      if (!marks.has(row.line)) marks.set(row.line, this.highlights(line));
+      const marked = marks.get(row.line)!;
+
+      // 样式变化时先重置再应用新样式，高亮用反色显示
+      let current = '';
+      for (let j = row.start; j < row.end; j++) {
+        const cell = line.cells[j];
+        const style = cell.style + (marked.has(j) ? '\x1b[7m' : '');
+        if (style !== current) {
+          out += '\x1b[0m' + style;
+          current = style;
+        }
+        out += cell.char;
+      }
+      out += (current ? '\x1b[0m' : '') + '\x1b[K';
+    }
+
+    // 最后一行：搜索输入、消息或提示
+    let status: string;
+    if (this.prompt) {
+      status = this.prompt.label + this.prompt.text;
+    } else if (this.message) {
+      status = `\x1b[7m${this.message}\x1b[0m`;
+    } else if (this.more) {
+      const percent = Math.floor(((this.lastVisibleLine() + 1) * 100) / this.lines.length);
+      status = `\x1b[7m--More--(${percent}%)\x1b[0m`;
+    } else if (this.top >= this.maxTop()) {
+      status = '\x1b[7m(END)\x1b[0m';
+    } else if (this.firstScreen && this.name) {
+      status = `\x1b[7m${this.name}\x1b[0m`;
+    } else {
+      status = ':';
+    }
+    out += `\x1b[${height + 1};1H${status}\x1b[K\x1b[?25h`;
+    screen.write(out);
+  }
+}
+
+/**
+ * 在全屏界面中分页显示文本，用户退出后返回 true
+ * 没有终端，或设置了 quitIfOneScreen 且一屏能显示完时返回 false，由调用者直接输出
+ */
+export function runPager(input: InputReader, options: PagerOptions): Promise<boolean> {
+  const pager = new Pager(options);
+  return new Promise((resolve) => {
+    const screen = input.openScreen({
+      onKey: (data) => pager.handleInput(data),
+      onResize: () => pager.resize(),
+    });
+    if (!screen) {
+      resolve(false);
+      return;
+    }
+    if (!pager.start(screen, () => resolve(true))) {
+      screen.close();
+      resolve(false);
+    }
+  });
+}
+
+/**
+ * 输出文本：标准输出是终端且一屏显示不下时通过分页器显示
+ */
+export async function pageOutput(input: InputReader, output: OutputHandler, text: string): Promise<void> {
+  if (output.isTerminal !== false && (await runPager(input, { text, name: null, quitIfOneScreen: true }))) {
+    return;
+  }
+  output.print(text);
+}
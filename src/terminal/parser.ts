@@ -0,0 +1,838 @@
+/**
+ * 命令行解析器
+ * 将输入拆分为词法单元，并构建命令链、管道、复合命令与重定向结构
+ */
+
+/** 控制操作符 */
+export type ControlOperator = '|' | '&&' | '||' | ';' | ';;' | '&' | '(' | ')';
+
+/** 命令链连接符 */
+export type ChainOperator = '&&' | '||' | ';';
+
+/** 重定向操作符 */
+export type RedirectOperator = '<' | '>' | '>>' | '>&';
+
+/** 词法单元 */
+export type Token =
+  | { type: 'word'; value: string }
+  | { type: 'operator'; value: ControlOperator }
+  | { type: 'redirect'; op: RedirectOperator; fd: number }
+  | { type: 'arith'; expression: string };
+
+/** 重定向 */
+export interface Redirect {
+  /** 文件描述符（0 标准输入，1 标准输出，2 标准错误） */
+  fd: number;
+  /** 重定向操作符 */
+  op: RedirectOperator;
+  /** 目标文件路径，`>&` 时为目标文件描述符 */
+  target: string;
+}
+
+/** 简单命令 */
+export interface SimpleCommand {
+  type: 'simple';
+  /** 命令名及参数 */
+  words: string[];
+  /** 按出现顺序排列的重定向 */
+  redirects: Redirect[];
+}
+
+/** if/elif/else 条件命令 */
+export interface IfCommand {
+  type: 'if';
+  clauses: { condition: CommandList; body: CommandList }[];
+  elseBody: CommandList | null;
+  redirects: Redirect[];
+}
+
+/** for 循环（items 为 null 时遍历位置参数） */
+export interface ForCommand {
+  type: 'for';
+  variable: string;
+  items: string[] | null;
+  body: CommandList;
+  redirects: Redirect[];
+}
+
+/** C 风格的 for ((init; condition; update)) 循环 */
+export interface ArithForCommand {
+  type: 'arith-for';
+  init: string;
+  condition: string;
+  update: string;
+  body: CommandList;
+  redirects: Redirect[];
+}
+
+/** while/until 循环 */
+export interface WhileCommand {
+  type: 'while';
+  until: boolean;
+  condition: CommandList;
+  body: CommandList;
+  redirects: Redirect[];
+}
+
+/** case 分支 */
+export interface CaseCommand {
+  type: 'case';
+  word: string;
+  clauses: { patterns: string[]; body: CommandList }[];
+  redirects: Redirect[];
+}
+
+/** { ...; } 命令组或 ( ... ) 子 shell */
+export interface GroupCommand {
+  type: 'group';
+  subshell: boolean;
+  body: CommandList;
+  redirects: Redirect[];
+}
+
+/** (( ... )) 算术命令 */
+export interface ArithCommand {
+  type: 'arith';
+  expression: string;
+  redirects: Redirect[];
+}
+
+/** 函数定义 */
+export interface FunctionDefinition {
+  type: 'function';
+  name: string;
+  body: Command;
+  redirects: Redirect[];
+}
+
+/** 命令 */
+export type Command =
+  | SimpleCommand
+  | IfCommand
+  | ForCommand
+  | ArithForCommand
+  | WhileCommand
+  | CaseCommand
+  | GroupCommand
+  | ArithCommand
+  | FunctionDefinition;
+
+/** 管道 */
+export interface Pipeline {
+  commands: Command[];
+  /** 是否以 ! 取反退出码 */
+  negate: boolean;
+}
+
+/** 命令链中的一项 */
+export interface ListItem {
+  /** 与前一项的连接符，第一项为 null */
+  connector: ChainOperator | null;
+  pipeline: Pipeline;
+  /** 以 & 结尾时在后台执行，值为作业显示的命令行 */
+  background?: string;
+}
+
+/** 命令链（由 &&、||、; 和 & 连接的管道） */
+export interface CommandList {
+  items: ListItem[];
+}
+
+/**
+ * 分词处理
+ * 处理引号、转义以及控制/重定向操作符
+ * 单词保留原始文本（含引号和 $ 展开），由展开阶段负责去除引号
+ */
+export function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let current = '';
+  let hasWord = false;
+  let quoted = false;
+  let inDouble = false;
+
+  const pushWord = () => {
+    if (hasWord) {
+      tokens.push({ type: 'word', value: current });
+      current = '';
+      hasWord = false;
+      quoted = false;
+    }
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (char === '\\') {
+      // 引号外行尾的反斜杠表示续行
+      if (input[i + 1] === '\n' && !inDouble) {
+        i++;
+        continue;
+      }
+      current += input.slice(i, i + 2);
+      hasWord = true;
+      quoted = true;
+      i++;
+      continue;
+    }
+
+    if (char === "'" && !inDouble) {
+      const end = input.indexOf("'", i + 1);
+      if (end === -1) {
+        throw new SyntaxError("unexpected EOF while looking for matching `''");
+      }
+      current += input.slice(i, end + 1);
+      hasWord = true;
+      quoted = true;
+      i = end;
+      continue;
+    }
+
+    if (char === '"') {
+      inDouble = !inDouble;
+      current += char;
+      hasWord = true;
+      quoted = true;
+      continue;
+    }
+
+    if (isExpansionStart(input, i)) {
+      const end = scanExpansion(input, i);
+      current += input.slice(i, end);
+      hasWord = true;
+      i = end - 1;
+      continue;
+    }
+
+    if (inDouble) {
+      current += char;
+      continue;
+    }
+
+    if (char === ' ' || char === '\t') {
+      pushWord();
+      continue;
+    }
+
+    // 单词开头的 # 表示注释
+    if (char === '#' && !hasWord) {
+      const end = input.indexOf('\n', i);
+      i = (end === -1 ? input.length : end) - 1;
+      continue;
+    }
+
+    // 换行等同于 ;（紧跟在 |、&& 或 || 之后的换行表示续行）
+    if (char === '\n' || char === ';') {
+      pushWord();
+      if (char === ';' && input[i + 1] === ';') {
+        tokens.push({ type: 'operator', value: ';;' });
+        i++;
+        continue;
+      }
+      const last = tokens[tokens.length - 1];
+      if (char === ';' || !(last?.type === 'operator' && ['|', '&&', '||'].includes(last.value))) {
+        tokens.push({ type: 'operator', value: ';' });
+      }
+      continue;
+    }
+
+    // 单词开头的 (( 为算术命令，其余括号为子 shell/函数定义操作符
+    if (char === '(' && input[i + 1] === '(' && !hasWord) {
+      const end = scanBalanced(input, i + 2, '(', ')', 2);
+      if (input[end - 2] === ')') {
+        tokens.push({ type: 'arith', expression: input.slice(i + 2, end - 2) });
+        i = end - 1;
+        continue;
+      }
+    }
+
+    if (char === '(' || char === ')') {
+      pushWord();
+      tokens.push({ type: 'operator', value: char });
+      continue;
+    }
+
+    if (char === '|' || (char === '&' && input[i + 1] === '&')) {
+      pushWord();
+      if (input[i + 1] === char) {
+        tokens.push({ type: 'operator', value: char === '|' ? '||' : '&&' });
+        i++;
+      } else {
+        tokens.push({ type: 'operator', value: '|' });
+      }
+      continue;
+    }
+
+    // &> 同时重定向标准输出和标准错误
+    if (char === '&' && input[i + 1] === '>') {
+      pushWord();
+      tokens.push({ type: 'redirect', op: '>', fd: 1 });
+      tokens.push({ type: 'redirect', op: '>&', fd: 2 });
+      tokens.push({ type: 'word', value: '1' });
+      i++;
+      continue;
+    }
+
+    // 单独的 & 表示在后台执行
+    if (char === '&') {
+      pushWord();
+      tokens.push({ type: 'operator', value: '&' });
+      continue;
+    }
+
+    if (char === '>' || char === '<') {
+      // 紧挨操作符的数字视为文件描述符，如 2>
+      let fd = char === '<' ? 0 : 1;
+      if (!quoted && /^[0-9]$/.test(current)) {
+        fd = Number(current);
+        current = '';
+        hasWord = false;
+      } else {
+        pushWord();
+      }
+
+      let op: RedirectOperator = char;
+      if (char === '>' && input[i + 1] === '>') {
+        op = '>>';
+        i++;
+      } else if (char === '>' && input[i + 1] === '&') {
+        op = '>&';
+        i++;
+      }
+      tokens.push({ type: 'redirect', op, fd });
+      continue;
+    }
+
+    current += char;
+    hasWord = true;
+  }
+
+  if (inDouble) {
+    throw new SyntaxError('unexpected EOF while looking for matching `"\'');
+  }
+
+  pushWord();
+  return tokens;
+}
+
+/**
+ * 判断指定位置是否为 $(、${ 或 ` 开头的展开结构
+ */
+export function isExpansionStart(input: string, index: number): boolean {
+  const char = input[index];
+  return char === '`' || (char === '$' && (input[index + 1] === '(' || input[index + 1] === '{'));
+}
+
+/**
+ * 扫描 $(...)、$((...))、${...} 或 `...` 结构
+ * 返回结构结束后的位置，支持嵌套和内部引号
+ */
+export function scanExpansion(input: string, start: number): number {
+  if (input[start] === '`') {
+    for (let j = start + 1; j < input.length; j++) {
+      if (input[j] === '\\') {
+        j++;
+      } else if (input[j] === '`') {
+        return j + 1;
+      }
+    }
+    throw new SyntaxError('unexpected EOF while looking for matching ``\'');
+  }
+
+  const open = input[start + 1];
+  return scanBalanced(input, start + 2, open, open === '(' ? ')' : '}', 1);
+}
+
+/**
+ * 从指定位置开始扫描，直到括号深度归零
+ * 返回闭合括号之后的位置
+ */
+function scanBalanced(input: string, start: number, open: string, close: string, depth: number): number {
+  let j = start;
+
+  while (j < input.length) {
+    const char = input[j];
+    if (char === '\\') {
+      j += 2;
+    } else if (char === "'" && open === '(') {
+      const end = input.indexOf("'", j + 1);
+      if (end === -1) break;
+      j = end + 1;
+    } else if (char === '"') {
+      j = scanDoubleQuote(input, j);
+    } else if (isExpansionStart(input, j)) {
+      j = scanExpansion(input, j);
+    } else {
+      if (char === open) depth++;
+      if (char === close && --depth === 0) {
+        return j + 1;
+      }
+      j++;
+    }
+  }
+
+  throw new SyntaxError(`unexpected EOF while looking for matching \`${close}'`);
+}
+
+/**
+ * 扫描双引号字符串，返回结束引号之后的位置
+ */
+function scanDoubleQuote(input: string, start: number): number {
+  let j = start + 1;
+  while (j < input.length) {
+    const char = input[j];
+    if (char === '\\') {
+      j += 2;
+    } else if (char === '"') {
+      return j + 1;
+    } else if (isExpansionStart(input, j)) {
+      j = scanExpansion(input, j);
+    } else {
+      j++;
+    }
+  }
+  throw new SyntaxError('unexpected EOF while looking for matching `"\'');
+}
+
+/**
+ * 去除单词中的引号和转义（不执行展开）
+ */
+export function removeQuotes(word: string): string {
+  let result = '';
+  let inDouble = false;
+
+  for (let i = 0; i < word.length; i++) {
+    const char = word[i];
+    if (char === '\\' && i + 1 < word.length) {
+      if (inDouble && !'"\\$`'.includes(word[i + 1])) {
+        result += char;
+      } else {
+        result += word[++i];
+      }
+    } else if (char === "'" && !inDouble) {
+      const end = word.indexOf("'", i + 1);
+      result += word.slice(i + 1, end === -1 ? undefined : end);
+      i = end === -1 ? word.length : end;
+    } else if (char === '"') {
+      inDouble = !inDouble;
+    } else {
+      result += char;
+    }
+  }
+
+  return result;
+}
+
+
+/** 保留字 */
+const ReservedWords = new Set([
+  'if', 'then', 'elif', 'else', 'fi', 'for', 'in', 'do', 'done',
+  'while', 'until', 'case', 'esac', 'function', '{', '}', '!',
+]);
+
+const NameReg = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * 构建命令链结构
+ */
+export function parseCommandList(tokens: Token[]): CommandList {
+  return new Parser(tokens).parseProgram();
+}
+
+/**
+ * 语法分析器（递归下降）
+ */
+class Parser {
+  private tokens: Token[];
+  private pos = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  /**
+   * 解析完整输入
+   */
+  parseProgram(): CommandList {
+    const list = this.parseList([]);
+    if (this.pos < this.tokens.length) {
+      throw this.unexpected();
+    }
+    return list;
+  }
+
+  private peek(offset: number = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private isOperator(token: Token | undefined, ...values: ControlOperator[]): boolean {
+    return token?.type === 'operator' && values.includes(token.value);
+  }
+
+  private isWord(token: Token | undefined, ...values: string[]): boolean {
+    return token?.type === 'word' && values.includes(token.value);
+  }
+
+  private skipSeparators(): void {
+    while (this.isOperator(this.peek(), ';')) {
+      this.pos++;
+    }
+  }
+
+  private unexpected(): SyntaxError {
+    const token = this.peek();
+    if (!token) {
+      return new SyntaxError('syntax error: unexpected end of file');
+    }
+    return new SyntaxError(`syntax error near unexpected token \`${describeToken(token)}'`);
+  }
+
+  private expectWord(value: string): void {
+    if (!this.isWord(this.peek(), value)) {
+      throw this.unexpected();
+    }
+    this.pos++;
+  }
+
+  private expectOperator(value: ControlOperator): void {
+    if (!this.isOperator(this.peek(), value)) {
+      throw this.unexpected();
+    }
+    this.pos++;
+  }
+
+  /**
+   * 解析命令链，遇到终止符（保留字或操作符）时停止
+   */
+  private parseList(terminators: string[]): CommandList {
+    const items: ListItem[] = [];
+    this.skipSeparators();
+
+    while (this.pos < this.tokens.length && !this.isTerminator(terminators)) {
+      const start = this.pos;
+      const first = items.length;
+      items.push({ connector: items.length === 0 ? null : ';', pipeline: this.parsePipeline() });
+
+      for (;;) {
+        const token = this.peek();
+        if (!this.isOperator(token, '&&', '||')) break;
+        this.pos++;
+        items.push({ connector: (token as { value: ChainOperator }).value, pipeline: this.parsePipeline() });
+      }
+
+      if (this.isOperator(this.peek(), '&')) {
+        // & 作用于整个 && / || 命令链，多个管道时合并为一个命令组
+        const background = formatTokens(this.tokens.slice(start, this.pos));
+        const chain = items.splice(first);
+        const pipeline: Pipeline = chain.length === 1 ? chain[0].pipeline : {
+          commands: [{ type: 'group', subshell: false, body: { items: [{ ...chain[0], connector: null }, ...chain.slice(1)] }, redirects: [] }],
+          negate: false,
+        };
+        items.push({ connector: chain[0].connector, pipeline, background });
+        this.pos++;
+      } else if (!this.isOperator(this.peek(), ';')) {
+        break;
+      }
+      this.skipSeparators();
+    }
+
+    return { items };
+  }
+
+  private isTerminator(terminators: string[]): boolean {
+    const token = this.peek();
+    if (token?.type === 'operator') {
+      return token.value === ')' || token.value === ';;';
+    }
+    return token?.type === 'word' && terminators.includes(token.value);
+  }
+
+  /**
+   * 解析必须非空的命令链（如 if 条件、循环体）
+   */
+  private parseBody(terminators: string[]): CommandList {
+    const list = this.parseList(terminators);
+    if (list.items.length === 0) {
+      throw this.unexpected();
+    }
+    return list;
+  }
+
+  /**
+   * 解析管道
+   */
+  private parsePipeline(): Pipeline {
+    let negate = false;
+    if (this.isWord(this.peek(), '!')) {
+      negate = true;
+      this.pos++;
+    }
+
+    const commands = [this.parseCommand()];
+    while (this.isOperator(this.peek(), '|')) {
+      this.pos++;
+      commands.push(this.parseCommand());
+    }
+
+    return { commands, negate };
+  }
+
+  /**
+   * 解析单个命令（简单命令、复合命令或函数定义）
+   */
+  private parseCommand(): Command {
+    const token = this.peek();
+    let command: Command;
+
+    if (token?.type === 'arith') {
+      this.pos++;
+      command = { type: 'arith', expression: token.expression, redirects: [] };
+    } else if (this.isOperator(token, '(')) {
+      this.pos++;
+      const body = this.parseBody([]);
+      this.expectOperator(')');
+      command = { type: 'group', subshell: true, body, redirects: [] };
+    } else if (token?.type === 'word' && ReservedWords.has(token.value)) {
+      command = this.parseCompound(token.value);
+    } else {
+      return this.parseSimple();
+    }
+
+    while (this.peek()?.type === 'redirect') {
+      command.redirects.push(this.parseRedirect());
+    }
+    return command;
+  }
+
+  /**
+   * 解析以保留字开头的复合命令
+   */
+  private parseCompound(word: string): Command {
+    this.pos++;
+
+    switch (word) {
+      case 'if':
+        return this.parseIf();
+      case 'for':
+        return this.parseFor();
+      case 'while':
+      case 'until': {
+        const condition = this.parseBody(['do']);
+        const body = this.parseDoGroup();
+        return { type: 'while', until: word === 'until', condition, body, redirects: [] };
+      }
+      case 'case':
+        return this.parseCase();
+      case 'function': {
+        const name = this.peek();
+        if (name?.type !== 'word' || !NameReg.test(name.value)) {
+          throw this.unexpected();
+        }
+        this.pos++;
+        if (this.isOperator(this.peek(), '(')) {
+          this.pos++;
+          this.expectOperator(')');
+        }
+        return this.parseFunctionBody(name.value);
+      }
+      case '{': {
+        const body = this.parseBody(['}']);
+        this.expectWord('}');
+        return { type: 'group', subshell: false, body, redirects: [] };
+      }
+      default:
+        this.pos--;
+        throw this.unexpected();
+    }
+  }
+
+  private parseIf(): IfCommand {
+    const clauses: IfCommand['clauses'] = [];
+    let elseBody: CommandList | null = null;
+
+    for (;;) {
+      const condition = this.parseBody(['then']);
+      this.expectWord('then');
+      clauses.push({ condition, body: this.parseBody(['elif', 'else', 'fi']) });
+      if (!this.isWord(this.peek(), 'elif')) break;
+      this.pos++;
+    }
+
+    if (this.isWord(this.peek(), 'else')) {
+      this.pos++;
+      elseBody = this.parseBody(['fi']);
+    }
+
+    this.expectWord('fi');
+    return { type: 'if', clauses, elseBody, redirects: [] };
+  }
+
+  private parseFor(): ForCommand | ArithForCommand {
+    const token = this.peek();
+
+    if (token?.type === 'arith') {
+      this.pos++;
+      const parts = token.expression.split(';');
+      if (parts.length !== 3) {
+        throw new SyntaxError(`syntax error: arithmetic expression required`);
+      }
+      this.skipSeparators();
+      const body = this.parseDoGroup();
+      const [init, condition, update] = parts.map((part) => part.trim());
+      return { type: 'arith-for', init, condition, update, body, redirects: [] };
+    }
+
+    if (token?.type !== 'word' || !NameReg.test(token.value)) {
+      throw this.unexpected();
+    }
+    this.pos++;
+
+    let items: string[] | null = null;
+    if (this.isWord(this.peek(), 'in')) {
+      this.pos++;
+      items = [];
+      for (let next = this.peek(); next?.type === 'word'; next = this.peek()) {
+        items.push(next.value);
+        this.pos++;
+      }
+    }
+
+    this.skipSeparators();
+    const body = this.parseDoGroup();
+    return { type: 'for', variable: token.value, items, body, redirects: [] };
+  }
+
+  private parseDoGroup(): CommandList {
+    this.expectWord('do');
+    const body = this.parseBody(['done']);
+    this.expectWord('done');
+    return body;
+  }
+
+  private parseCase(): CaseCommand {
+    const word = this.peek();
+    if (word?.type !== 'word') {
+      throw this.unexpected();
+    }
+    this.pos++;
+    this.skipSeparators();
+    this.expectWord('in');
+    this.skipSeparators();
+
+    const clauses: CaseCommand['clauses'] = [];
+    while (!this.isWord(this.peek(), 'esac')) {
+      if (this.isOperator(this.peek(), '(')) {
+        this.pos++;
+      }
+
+      const patterns: string[] = [];
+      for (;;) {
+        const pattern = this.peek();
+        if (pattern?.type !== 'word') {
+          throw this.unexpected();
+        }
+        patterns.push(pattern.value);
+        this.pos++;
+        if (!this.isOperator(this.peek(), '|')) break;
+        this.pos++;
+      }
+      this.expectOperator(')');
+
+      clauses.push({ patterns, body: this.parseList(['esac']) });
+
+      if (this.isOperator(this.peek(), ';;')) {
+        this.pos++;
+        this.skipSeparators();
+      } else if (!this.isWord(this.peek(), 'esac')) {
+        throw this.unexpected();
+      }
+    }
+
+    this.pos++;
+    return { type: 'case', word: word.value, clauses, redirects: [] };
+  }
+
+  private parseFunctionBody(name: string): FunctionDefinition {
+    this.skipSeparators();
+    const body = this.parseCommand();
+    if (body.type === 'simple' || body.type === 'function') {
+      throw new SyntaxError(`syntax error near \`${name}'`);
+    }
+    return { type: 'function', name, body, redirects: [] };
+  }
+
+  /**
+   * 解析简单命令；name ( ) 形式为函数定义
+   */
+  private parseSimple(): Command {
+    const command: SimpleCommand = { type: 'simple', words: [], redirects: [] };
+
+    for (let token = this.peek(); token; token = this.peek()) {
+      if (token.type === 'word') {
+        command.words.push(token.value);
+        this.pos++;
+      } else if (token.type === 'redirect') {
+        command.redirects.push(this.parseRedirect());
+      } else {
+        break;
+      }
+    }
+
+    if (
+      command.words.length === 1 &&
+      command.redirects.length === 0 &&
+      this.isOperator(this.peek(), '(') &&
+      this.isOperator(this.peek(1), ')')
+    ) {
+      if (!NameReg.test(command.words[0])) {
+        throw new SyntaxError(`\`${command.words[0]}': not a valid identifier`);
+      }
+      this.pos += 2;
+      return this.parseFunctionBody(command.words[0]);
+    }
+
+    if (command.words.length === 0 && command.redirects.length === 0) {
+      throw this.unexpected();
+    }
+    return command;
+  }
+
+  private parseRedirect(): Redirect {
+    const token = this.peek() as { op: RedirectOperator; fd: number };
+    const target = this.peek(1);
+    if (target?.type !== 'word') {
+      this.pos++;
+      throw target ? this.unexpected() : new SyntaxError("syntax error near unexpected token `newline'");
+    }
+    this.pos += 2;
+    return { fd: token.fd, op: token.op, target: target.value };
+  }
+}
+
+/**
+ * 将词法单元还原为命令行文本（用于显示后台作业）
+ */
+function formatTokens(tokens: Token[]): string {
+  let text = '';
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    if (token.type === 'redirect') {
+      const defaultFd = token.op === '<' ? 0 : 1;
+      text += (text ? ' ' : '') + (token.fd === defaultFd ? '' : token.fd) + token.op;
+    } else if (previous?.type === 'redirect' || (token.type === 'operator' && token.value === ';')) {
+      text += describeToken(token);
+    } else {
+      text += (text ? ' ' : '') + describeToken(token);
+    }
+  });
+  return text;
+}
+
+/**
+ * 获取词法单元的显示文本（用于错误信息）
+ */
+function describeToken(token: Token): string {
+  if (token.type === 'word') return token.value;
+  if (token.type === 'operator') return token.value;
+  if (token.type === 'arith') return `((${token.expression}))`;
+  return token.op;
+}
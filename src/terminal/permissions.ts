@@ -0,0 +1,145 @@
+/**
+ * 文件权限工具
+ * 在 ls -l 风格的权限字符串与数字模式之间转换，并解析 chmod/umask 的模式参数
+ */
+
+import type { FileType } from './types';
+
+/** 特殊权限位 */
+export const SetUidBit = 0o4000;
+export const SetGidBit = 0o2000;
+export const StickyBit = 0o1000;
+
+/** 访问类型对应的权限位（以“其他用户”位表示） */
+export const AccessBits = { r: 4, w: 2, x: 1 } as const;
+
+/** 访问类型 */
+export type AccessMode = keyof typeof AccessBits;
+
+/**
+ * 将权限字符串（如 drwxr-xr-x）解析为数字模式
+ */
+export function parsePermissions(permissions: string): number {
+  const bits = permissions.slice(1);
+  let mode = 0;
+
+  for (let i = 0; i < 9; i++) {
+    const char = bits[i];
+    if (char && char !== '-' && char !== 'S' && char !== 'T') {
+      mode |= 1 << (8 - i);
+    }
+  }
+
+  if (bits[2] === 's' || bits[2] === 'S') mode |= SetUidBit;
+  if (bits[5] === 's' || bits[5] === 'S') mode |= SetGidBit;
+  if (bits[8] === 't' || bits[8] === 'T') mode |= StickyBit;
+  return mode;
+}
+
+/**
+ * 将数字模式格式化为权限字符串
+ */
+export function formatPermissions(type: FileType, mode: number): string {
+  const chars = type === 'directory' ? ['d'] : type === 'symlink' ? ['l'] : ['-'];
+  const letters = 'rwxrwxrwx';
+
+  for (let i = 0; i < 9; i++) {
+    chars.push(mode & (1 << (8 - i)) ? letters[i] : '-');
+  }
+
+  // 特殊位与执行位共用同一列，没有执行位时显示为大写
+  const special: [number, number, string][] = [
+    [SetUidBit, 3, 's'],
+    [SetGidBit, 6, 's'],
+    [StickyBit, 9, 't'],
+  ];
+  for (const [bit, index, letter] of special) {
+    if (mode & bit) {
+      chars[index] = chars[index] === '-' ? letter.toUpperCase() : letter;
+    }
+  }
+
+  return chars.join('');
+}
+
+/**
+ * 将模式格式化为八进制字符串（如 0755）
+ */
+export function formatOctalMode(mode: number): string {
+  return (mode & 0o7777).toString(8).padStart(4, '0');
+}
+
+/**
+ * 解析 chmod 的模式参数
+ * 支持八进制（755、0644）和符号形式（u+x、go-w、a=r、u=rw,g=r、+X）
+ * 无效时返回 null
+ */
+export function parseModeSpec(
+  spec: string,
+  current: number,
+  isDirectory: boolean,
+  umask: number = 0
+): number | null {
+  if (/^[0-7]{1,4}$/.test(spec)) {
+    return parseInt(spec, 8);
+  }
+
+  let mode = current;
+  for (const clause of spec.split(',')) {
+    const match = clause.match(/^([ugoa]*)((?:[-+=][rwxXst]*)+)$/);
+    if (!match) {
+      return null;
+    }
+
+    // 未指定作用对象时等同于 a，但受 umask 限制
+    const who = match[1] || 'a';
+    const mask = match[1] ? 0o7777 : ~umask & 0o7777;
+    const targets = who.includes('a') ? 'ugo' : who;
+
+    for (const action of match[2].match(/[-+=][rwxXst]*/g) ?? []) {
+      const op = action[0];
+      let bits = 0;
+
+      for (const perm of action.slice(1)) {
+        for (const target of targets) {
+          const shift = target === 'u' ? 6 : target === 'g' ? 3 : 0;
+          if (perm === 'r') bits |= 4 << shift;
+          if (perm === 'w') bits |= 2 << shift;
+          if (perm === 'x') bits |= 1 << shift;
+          // X：仅对目录或已有执行位的文件添加执行权限
+          if (perm === 'X' && (isDirectory || (current & 0o111))) bits |= 1 << shift;
+          if (perm === 's' && target === 'u') bits |= SetUidBit;
+          if (perm === 's' && target === 'g') bits |= SetGidBit;
+          if (perm === 't') bits |= StickyBit;
+        }
+      }
+
+      if (op === '=') {
+        // 清除目标对象原有的权限位
+        let clear = 0;
+        for (const target of targets) {
+          clear |= target === 'u' ? 0o4700 : target === 'g' ? 0o2070 : 0o1007;
+        }
+        mode = (mode & ~clear) | (bits & mask);
+      } else if (op === '+') {
+        mode |= bits & mask;
+      } else {
+        mode &= ~(bits & mask);
+      }
+    }
+  }
+
+  return mode;
+}
+
+/**
+ * 将权限位格式化为 umask -S 风格的符号表示（如 u=rwx,g=rx,o=rx）
+ */
+export function formatSymbolicMode(mode: number): string {
+  return ['u', 'g', 'o']
+    .map((target, index) => {
+      const bits = (mode >> (6 - index * 3)) & 7;
+      return `${target}=${bits & 4 ? 'r' : ''}${bits & 2 ? 'w' : ''}${bits & 1 ? 'x' : ''}`;
+    })
+    .join(',');
+}
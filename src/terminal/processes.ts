@@ -0,0 +1,423 @@
+/**
+ * 进程表
+ * 为 shell 执行的每个命令行和后台作业分配进程号，记录状态和启动时间；
+ * 信号通过进程的 AbortController 传递，停止和继续见 signals.ts 的 suspend/resume
+ */
+
+import type { JobInfo, ProcessControl, ProcessInfo } from './types';
+import { Signals, resume, signalDescription, signalStatus, suspend } from './signals';
+
+/** 进程表配置 */
+export interface ProcessTableOptions {
+  /** shell 的进程号，shell 启动的进程以它为父进程，默认为 100 */
+  shellPid?: number;
+  /** 控制终端（如 pts/0） */
+  tty?: string;
+  /** 常驻的进程（如 init 和 shell 本身），不能被信号结束 */
+  system?: () => ProcessInfo[];
+  /** 新进程的用户、工作目录和环境变量 */
+  context?: () => { user: string; cwd: string; env: Record<string, string> };
+}
+
+/** 进程表中的进程 */
+interface ProcessEntry {
+  info: ProcessInfo;
+  command: string;
+  controller: AbortController;
+  stopped: boolean;
+  /** 作业号，前台进程被停止之前为 null */
+  job: number | null;
+  exitCode: number | null;
+  /** 结束或停止进程的信号 */
+  signal: number | null;
+  /** 状态改变后还没有报告给用户 */
+  changed: boolean;
+  /** 进程结束时调用 */
+  onExit: (() => void)[];
+  /** 前台进程结束或被停止时调用 */
+  onRelease: (() => void) | null;
+}
+
+/** jobs 输出中状态栏的宽度 */
+const StatusWidth = 24;
+
+/** 移出作业表后仍保留退出码（供 wait 查询）的进程数 */
+const FinishedLimit = 64;
+
+/**
+ * 格式化作业状态（jobs 的输出和作业结束时的通知），showPid 时显示进程号（jobs -l）
+ */
+export function formatJob(job: JobInfo, showPid: boolean = false): string {
+  let status: string;
+  if (job.status === 'running') {
+    status = 'Running';
+  } else if (job.status === 'stopped' || job.signal !== null) {
+    status = signalDescription(job.signal ?? Signals.TSTP);
+  } else {
+    status = job.exitCode === 0 ? 'Done' : `Exit ${job.exitCode}`;
+  }
+  const pid = showPid ? ` ${job.pid}` : ' ';
+  const suffix = job.status === 'running' ? ' &' : '';
+  return `[${job.id}]${job.marker}${pid} ${status.padEnd(StatusWidth)}${job.command}${suffix}`;
+}
+
+/**
+ * 进程名（命令的文件名，登录 shell 去掉开头的 -）
+ */
+export function processName(process: ProcessInfo): string {
+  return (process.argv[0] ?? '').replace(/^-/, '').split('/').pop() ?? '';
+}
+
+/**
+ * 进程占用的虚拟内存和常驻内存（kB），ps 和 top 中显示的模拟值
+ */
+export function processMemory(process: ProcessInfo): { vsz: number; rss: number } {
+  if (process.pid === 1) {
+    return { vsz: 167_744, rss: 11_520 };
+  }
+  // 登录 shell 的 argv[0] 以 - 开头
+  if (process.argv[0]?.startsWith('-')) {
+    return { vsz: 8_960, rss: 5_120 };
+  }
+  return { vsz: 5_480, rss: 1_024 };
+}
+
+/**
+ * 进程表
+ */
+export class ProcessTable implements ProcessControl {
+  readonly shellPid: number;
+  private tty: string | undefined;
+  private system: () => ProcessInfo[];
+  private context: () => { user: string; cwd: string; env: Record<string, string> };
+  /** 正在运行（包括被停止）的进程 */
+  private processes = new Map<number, ProcessEntry>();
+  /** 作业（包括已结束但还没有报告的作业） */
+  private jobTable = new Map<number, ProcessEntry>();
+  /** 按最近使用排列的作业号，最后一个为当前作业 */
+  private recent: number[] = [];
+  /** 前台进程，fg 的作业在命令行之上 */
+  private foregroundStack: ProcessEntry[] = [];
+  private nextPid: number;
+  private lastBackground: number | null = null;
+  /** 已结束并移出作业表的作业的退出码 */
+  private finished = new Map<number, number>();
+
+  constructor(options: ProcessTableOptions = {}) {
+    this.shellPid = options.shellPid ?? 100;
+    this.tty = options.tty;
+    this.system = options.system ?? (() => []);
+    this.context = options.context ?? (() => ({ user: 'root', cwd: '/', env: {} }));
+    this.nextPid = this.shellPid + 1;
+  }
+
+  get lastBackgroundPid(): number | null {
+    return this.lastBackground;
+  }
+
+  /**
+   * 在前台执行命令行，进程结束或被停止（成为作业）时返回退出码
+   * signal 触发时向进程发送同样的信号
+   */
+  async run(command: string, run: (signal: AbortSignal) => Promise<number>, signal?: AbortSignal): Promise<number> {
+    const entry = this.create(command);
+    this.foregroundStack.push(entry);
+    const released = new Promise<void>((resolve) => {
+      entry.onRelease = resolve;
+    });
+    const forward = () => {
+      this.kill(entry.info.pid, typeof signal?.reason === 'number' ? signal.reason : Signals.INT);
+    };
+    signal?.addEventListener('abort', forward, { once: true });
+    try {
+      await Promise.race([this.start(entry, run), released]);
+    } finally {
+      signal?.removeEventListener('abort', forward);
+    }
+    return entry.exitCode ?? 128 + (entry.signal ?? Signals.TSTP);
+  }
+
+  /**
+   * 向前台进程发送信号（终端的 Ctrl+C、Ctrl+Z），没有前台进程时返回 false
+   */
+  signalForeground(signal: number): boolean {
+    const entry = this.foregroundStack[this.foregroundStack.length - 1];
+    return entry ? this.kill(entry.info.pid, signal) : false;
+  }
+
+  /**
+   * 向所有作业发送信号（会话结束时发送 SIGHUP）
+   */
+  killAll(signal: number): void {
+    for (const entry of [...this.processes.values()]) {
+      if (entry.job !== null) {
+        this.kill(entry.info.pid, signal);
+      }
+    }
+  }
+
+  /**
+   * 取出状态改变（结束或停止）后还没有报告的作业，已结束的作业移出作业表
+   */
+  takeNotifications(): JobInfo[] {
+    const changed = [...this.jobTable.values()].filter((entry) => entry.changed);
+    return this.report(changed);
+  }
+
+  list(): ProcessInfo[] {
+    const top = this.foregroundStack[this.foregroundStack.length - 1];
+    return [
+      ...this.system(),
+      ...[...this.processes.values()].map((entry): ProcessInfo => ({
+        ...entry.info,
+        state: entry.stopped ? 'T' : entry === top ? 'R' : 'S',
+      })),
+    ];
+  }
+
+  jobs(): JobInfo[] {
+    return this.report([...this.jobTable.values()]);
+  }
+
+  findJob(spec: string): JobInfo | null {
+    const entries = [...this.jobTable.values()];
+    let entry: ProcessEntry | undefined;
+    if (['', '%', '%%', '%+'].includes(spec)) {
+      entry = this.jobTable.get(this.recent[this.recent.length - 1]);
+    } else if (spec === '%-') {
+      entry = this.jobTable.get(this.recent[this.recent.length - 2]);
+    } else if (/^%\d+$/.test(spec)) {
+      entry = this.jobTable.get(Number(spec.slice(1)));
+    } else if (spec.startsWith('%?')) {
+      entry = entries.find((item) => item.command.includes(spec.slice(2)));
+    } else if (spec.startsWith('%')) {
+      entry = entries.find((item) => item.command.startsWith(spec.slice(1)));
+    }
+    return entry ? this.describe(entry) : null;
+  }
+
+  spawn(command: string, run: (signal: AbortSignal) => Promise<number>): JobInfo {
+    const entry = this.create(command);
+    this.addJob(entry);
+    this.lastBackground = entry.info.pid;
+    this.start(entry, run).catch(() => {});
+    return this.describe(entry);
+  }
+
+  kill(pid: number, signal: number): boolean {
+    const entry = this.processes.get(pid);
+    if (!entry) {
+      // 常驻进程忽略信号
+      return this.system().some((process) => process.pid === pid);
+    }
+    if (signal === 0 || signal === Signals.CHLD) {
+      return true;
+    }
+
+    if (signal === Signals.STOP || signal === Signals.TSTP) {
+      if (!entry.stopped) {
+        entry.stopped = true;
+        entry.signal = signal;
+        entry.changed = true;
+        suspend(entry.controller.signal);
+        // 前台进程被停止后成为作业，终端回到提示符
+        if (entry.job === null) {
+          this.addJob(entry);
+        } else {
+          this.touch(entry.job);
+        }
+        this.release(entry);
+      }
+    } else if (signal === Signals.CONT) {
+      if (entry.stopped) {
+        entry.stopped = false;
+        entry.signal = null;
+        resume(entry.controller.signal);
+      }
+    } else {
+      entry.controller.abort(signal);
+      entry.stopped = false;
+      resume(entry.controller.signal);
+    }
+    return true;
+  }
+
+  async wait(pid: number, signal: AbortSignal): Promise<number | null> {
+    // 只能等待作业，前台的命令行不是 wait 所在 shell 的子进程
+    const entry = [...this.jobTable.values()].find((item) => item.info.pid === pid);
+    if (!entry) {
+      return this.finished.get(pid) ?? null;
+    }
+
+    if (entry.exitCode === null && !signal.aborted) {
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          signal.removeEventListener('abort', done);
+          resolve();
+        };
+        entry.onExit.push(done);
+        signal.addEventListener('abort', done, { once: true });
+      });
+    }
+    if (entry.exitCode === null) {
+      return signalStatus(signal);
+    }
+
+    // 等待过的作业不再报告
+    this.removeJob(entry);
+    return entry.exitCode;
+  }
+
+  async foreground(id: number, signal: AbortSignal): Promise<number> {
+    const entry = this.jobTable.get(id);
+    if (!entry) {
+      return 1;
+    }
+
+    if (entry.exitCode === null) {
+      this.touch(id);
+      this.foregroundStack.push(entry);
+      entry.changed = false;
+      this.kill(entry.info.pid, Signals.CONT);
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          signal.removeEventListener('abort', done);
+          resolve();
+        };
+        entry.onRelease = done;
+        signal.addEventListener('abort', done, { once: true });
+      });
+      this.release(entry);
+    }
+
+    if (entry.exitCode !== null) {
+      this.removeJob(entry);
+      return entry.exitCode;
+    }
+    return entry.stopped ? 128 + (entry.signal ?? Signals.TSTP) : signalStatus(signal);
+  }
+
+  /**
+   * 创建进程（还没有开始执行）
+   */
+  private create(command: string): ProcessEntry {
+    const { user, cwd, env } = this.context();
+    return {
+      info: {
+        pid: this.nextPid++,
+        ppid: this.shellPid,
+        user,
+        argv: command.trim().split(/\s+/),
+        cwd,
+        env: { ...env },
+        startTime: Date.now(),
+        tty: this.tty,
+      },
+      command,
+      controller: new AbortController(),
+      stopped: false,
+      job: null,
+      exitCode: null,
+      signal: null,
+      changed: false,
+      onExit: [],
+      onRelease: null,
+    };
+  }
+
+  /**
+   * 执行进程，结束时记录退出码（被信号结束时为 128 加信号编号）
+   */
+  private async start(entry: ProcessEntry, run: (signal: AbortSignal) => Promise<number>): Promise<void> {
+    const { signal } = entry.controller;
+    this.processes.set(entry.info.pid, entry);
+    let exitCode = 1;
+    try {
+      exitCode = await run(signal);
+    } finally {
+      entry.exitCode = signal.aborted ? signalStatus(signal) : exitCode;
+      entry.signal = signal.aborted ? entry.exitCode - 128 : null;
+      entry.stopped = false;
+      entry.changed = entry.job !== null;
+      resume(signal);
+      this.processes.delete(entry.info.pid);
+      this.release(entry);
+      entry.onExit.splice(0).forEach((callback) => callback());
+    }
+  }
+
+  /**
+   * 进程离开前台（结束或被停止）
+   */
+  private release(entry: ProcessEntry): void {
+    const index = this.foregroundStack.indexOf(entry);
+    if (index !== -1) {
+      this.foregroundStack.splice(index, 1);
+    }
+    const onRelease = entry.onRelease;
+    entry.onRelease = null;
+    onRelease?.();
+  }
+
+  /**
+   * 分配作业号（当前最大的作业号加一）
+   */
+  private addJob(entry: ProcessEntry): void {
+    const id = Math.max(0, ...this.jobTable.keys()) + 1;
+    entry.job = id;
+    this.jobTable.set(id, entry);
+    this.touch(id);
+  }
+
+  /**
+   * 把作业设为当前作业
+   */
+  private touch(id: number): void {
+    this.recent = this.recent.filter((item) => item !== id);
+    this.recent.push(id);
+  }
+
+  private removeJob(entry: ProcessEntry): void {
+    if (entry.job === null) return;
+    this.jobTable.delete(entry.job);
+    this.recent = this.recent.filter((item) => item !== entry.job);
+
+    if (entry.exitCode !== null) {
+      this.finished.set(entry.info.pid, entry.exitCode);
+      if (this.finished.size > FinishedLimit) {
+        this.finished.delete(this.finished.keys().next().value!);
+      }
+    }
+  }
+
+  /**
+   * 生成作业的报告，之后已结束的作业移出作业表
+   */
+  private report(entries: ProcessEntry[]): JobInfo[] {
+    const jobs = entries
+      .sort((a, b) => a.job! - b.job!)
+      .map((entry) => this.describe(entry));
+    for (const entry of entries) {
+      entry.changed = false;
+      if (entry.exitCode !== null) {
+        this.removeJob(entry);
+      }
+    }
+    return jobs;
+  }
+
+  private describe(entry: ProcessEntry): JobInfo {
+    const id = entry.job!;
+    // 从后往前数的位置：0 为当前作业，1 为前一个作业
+    const position = this.recent.length - 1 - this.recent.lastIndexOf(id);
+    return {
+      id,
+      pid: entry.info.pid,
+      command: entry.command,
+      status: entry.exitCode !== null ? 'done' : entry.stopped ? 'stopped' : 'running',
+      exitCode: entry.exitCode,
+      signal: entry.signal,
+      marker: !this.recent.includes(id) ? ' ' : position === 0 ? '+' : position === 1 ? '-' : ' ',
+    };
+  }
+}
@@ -52,10 +52,11 @@ export class PromptManager {
    */
   generate(): string {
     const ctx: PromptContext = {
-      user: this.env.USER,
+      user: this.vfs.getCredentials().user,
       host: this.env.HOSTNAME,
       path: this.formatPath(this.vfs.pwd()),
-      isRoot: this.env.USER === 'root',
+      // 按有效 uid 判断，而不是用户名
+      isRoot: this.vfs.getCredentials().uid === 0,
     };
 
     return this.formatter(ctx);
@@ -73,10 +74,10 @@ export class PromptManager {
   }
 
   /**
-   * 格式化路径（将 /home/user 替换为 ~）
+   * 格式化路径（将主目录替换为 ~）
    */
   private formatPath(path: string): string {
-    const home = `/home/${this.env.USER}`;
+    const home = this.env.HOME || this.vfs.getCredentials().home;
     if (path === home) {
       return '~';
     }
@@ -0,0 +1,121 @@
+/**
+ * POSIX 正则表达式（BRE/ERE）到 JavaScript 正则表达式的转换
+ * 供 grep、sed 等命令使用
+ */
+
+/** 方括号表达式中的字符类 */
+const CharacterClasses: Record<string, string> = {
+  alpha: 'a-zA-Z',
+  digit: '0-9',
+  alnum: 'a-zA-Z0-9',
+  upper: 'A-Z',
+  lower: 'a-z',
+  space: ' \\t\\n\\r\\f\\v',
+  blank: ' \\t',
+  punct: '!-\\/:-@\\[-`{-~',
+  xdigit: '0-9A-Fa-f',
+  cntrl: '\\x00-\\x1f\\x7f',
+  print: '\\x20-\\x7e',
+  graph: '\\x21-\\x7e',
+};
+
+/** BRE 中需要加反斜杠才有特殊含义的字符（ERE 中正好相反） */
+const BasicSpecials = '(){}|+?';
+
+/**
+ * 转义正则表达式特殊字符
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 转换方括号表达式的内容（不含两侧的方括号）
+ * POSIX 中方括号内的反斜杠是普通字符，开头的 ] 表示字符本身
+ */
+function translateBracket(body: string): string {
+  let result = '';
+  let i = 0;
+  if (body[0] === '^') {
+    result += '^';
+    i++;
+  }
+  if (body[i] === ']') {
+    result += '\\]';
+    i++;
+  }
+  while (i < body.length) {
+    const match = body.slice(i).match(/^\[:(\w+):\]/);
+    if (match) {
+      const chars = CharacterClasses[match[1]];
+      if (chars === undefined) {
+        throw new Error('Invalid character class name');
+      }
+      result += chars;
+      i += match[0].length;
+      continue;
+    }
+    const char = body[i++];
+    result += char === '\\' || char === '[' ? `\\${char}` : char;
+  }
+  return result;
+}
+
+/**
+ * 将 POSIX 正则表达式转换为 JavaScript 正则表达式的源码
+ * extended 为 false 时按 BRE 处理：\( \) \{ \} \| \+ \? 是元字符，不带反斜杠时是普通字符
+ * 两种模式都支持 [[:alpha:]] 等字符类和 \< \> 单词边界
+ */
+export function translateRegExp(pattern: string, extended: boolean): string {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '[') {
+      // 找到方括号表达式的结尾（开头的 ] 和 [:class:] 中的 ] 不算）
+      let end = i + 1;
+      if (pattern[end] === '^') end++;
+      if (pattern[end] === ']') end++;
+      while (end < pattern.length && pattern[end] !== ']') {
+        if (pattern[end] === '[' && ':.='.includes(pattern[end + 1])) {
+          const close = pattern.indexOf(`${pattern[end + 1]}]`, end + 2);
+          if (close >= 0) {
+            end = close + 2;
+            continue;
+          }
+        }
+        end++;
+      }
+      if (end >= pattern.length) {
+        throw new Error('Unmatched [, [^, [:, [., or [=');
+      }
+      source += `[${translateBracket(pattern.slice(i + 1, end))}]`;
+      i = end;
+      continue;
+    }
+
+    if (char === '\\' && i + 1 < pattern.length) {
+      const next = pattern[++i];
+      if (next === '<' || next === '>') {
+        source += '\\b';
+      } else if (!extended && BasicSpecials.includes(next)) {
+        source += next;
+      } else {
+        source += `\\${next}`;
+      }
+      continue;
+    }
+
+    if (!extended && BasicSpecials.includes(char)) {
+      source += `\\${char}`;
+    } else if (!extended && char === '*' && (i === 0 || (i === 1 && pattern[0] === '^'))) {
+      // BRE 开头的 * 是普通字符
+      source += '\\*';
+    } else {
+      source += char;
+    }
+  }
+
+  return source;
+}
@@ -0,0 +1,90 @@
+/**
+ * 会话持久化
+ * 将 FakeShell 的状态保存到存储后端，并在下次打开时恢复
+ */
+
+import type { FakeShell } from './shell';
+import type { SessionState, StorageBackend } from './types';
+
+/**
+ * 会话持久化管理器
+ * 命令执行后延迟保存，短时间内的多次修改只写入一次
+ */
+export class SessionPersistence {
+  private shell: FakeShell;
+  private storage: StorageBackend;
+  private key: string;
+  private delay: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(shell: FakeShell, storage: StorageBackend, key: string, delay: number = 500) {
+    this.shell = shell;
+    this.storage = storage;
+    this.key = key;
+    this.delay = delay;
+  }
+
+  /**
+   * 从存储中恢复会话，没有保存的数据或数据无效时返回 false
+   */
+  async restore(): Promise<boolean> {
+    try {
+      const data = await this.storage.load(this.key);
+      if (data === null) {
+        return false;
+      }
+      return this.shell.importState(JSON.parse(data) as SessionState);
+    } catch (error) {
+      console.warn(`Failed to restore terminal session "${this.key}":`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 立即保存当前会话
+   */
+  async save(): Promise<void> {
+    this.cancel();
+    try {
+      await this.storage.save(this.key, JSON.stringify(this.shell.exportState()));
+    } catch (error) {
+      console.warn(`Failed to save terminal session "${this.key}":`, error);
+    }
+  }
+
+  /**
+   * 延迟保存
+   */
+  scheduleSave(): void {
+    this.cancel();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.save();
+    }, this.delay);
+  }
+
+  /**
+   * 删除保存的会话
+   */
+  async clear(): Promise<void> {
+    this.cancel();
+    await this.storage.remove(this.key);
+  }
+
+  /**
+   * 如有尚未写入的修改则立即保存
+   */
+  flush(): void {
+    if (this.timer !== null) {
+      void this.save();
+    }
+  }
+
+  /** 取消等待中的保存 */
+  private cancel(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
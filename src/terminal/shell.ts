@@ -5,14 +5,36 @@ import { VFS } from './vfs';
 import { CLI, AnsiColors, AnsiReset } from './cli';
 import { PromptManager } from './prompt';
 import { getBuiltInCommands } from './commands';
+import { UserDatabase } from './users';
+import { createDevProvider, createProcProvider, createSysProvider, createTreeProvider } from './mounts';
+import { BundledDocs } from './bundle';
+import { splitKeys } from './keys';
+import { Signals } from './signals';
+import { ProcessTable, formatJob } from './processes';
 import type {
   ShellOptions,
   EnvironmentVariables,
   OutputHandler,
   AnsiColor,
   CommandDefinition,
+  SessionState,
+  PasswdEntry,
+  ReadLineOptions,
+  ScreenHandlers,
+  TerminalScreen,
+  MountProvider,
+  ProcessInfo,
 } from './types';
 
+/** 会话状态格式版本 */
+const SessionStateVersion = 1;
+
+/** shell 的进程号 */
+const ShellPid = 100;
+
+/** shell 的控制终端 */
+const ShellTty = 'pts/0';
+
 /**
  * Shell 控制器
  * 整合 VFS、CLI、Prompt 管理器，并与 xterm.js 集成
@@ -29,37 +51,81 @@ export class FakeShell {
   private commandHistory: string[] = [];
   private historyIndex: number = -1;
   private isProcessing: boolean = false;
+  /** 进程表：前台命令行、后台和被停止的作业 */
+  private processes: ProcessTable;
+  /** shell 的启动时间 */
+  private startTime: number = Date.now();
+  /** 未完成的多行输入（如缺少 done/fi 的循环或条件） */
+  private pendingInput: string = '';
+  /** 是否已执行 exit 结束会话 */
+  private isExited: boolean = false;
+  /** 命令正在读取的一行输入（如密码提示） */
+  private lineReader: { buffer: string; echo: boolean; resolve: (line: string | null) => void } | null = null;
+  /** 命令正在等待的一个按键 */
+  private keyReader: { echo: boolean; resolve: (key: string | null) => void } | null = null;
+  /** 命令执行期间提前输入、还没有被读取的内容，留给之后的读取或命令行 */
+  private typeahead: string[] = [];
+  /** 命令打开的全屏界面（如编辑器），按键直接交给它处理 */
+  private screen: ScreenHandlers | null = null;
   private options: ShellOptions;
   private onCommandCallback: ((command: string) => void) | null = null;
+  private onCommandCompleteCallback: ((command: string, exitCode: number) => void) | null = null;
 
   constructor(options: ShellOptions = {}) {
     this.options = options;
 
+    // 初始化虚拟文件系统，并以指定用户的身份登录
+    this.vfs = new VFS();
+    if (options.limits) {
+      this.vfs.setLimits(options.limits);
+    }
+    const user = this.ensureUser(options.env?.USER || 'guest', options.env?.HOME);
+
     // 初始化环境变量
     this.env = {
-      USER: options.env?.USER || 'guest',
+      USER: user.name,
+      LOGNAME: user.name,
       HOSTNAME: options.env?.HOSTNAME || 'midrai',
-      HOME: options.env?.HOME || '/home/guest',
+      HOME: options.env?.HOME || user.home,
+      SHELL: user.shell,
       PATH: options.env?.PATH || '/usr/local/bin:/usr/bin:/bin',
-      PWD: options.initialPath || '/home/guest',
+      PWD: options.initialPath || user.home,
       ...options.env,
     };
 
-    // 初始化虚拟文件系统
-    this.vfs = new VFS();
-    if (options.initialPath) {
-      this.vfs.cd(options.initialPath);
-    }
+    this.vfs.cd(options.initialPath || user.home);
+    this.processes = new ProcessTable({
+      shellPid: ShellPid,
+      tty: ShellTty,
+      system: () => this.getSystemProcesses(),
+      context: () => ({ user: this.env.USER, cwd: this.vfs.pwd(), env: this.env }),
+    });
+    this.mountFilesystems();
 
     // 创建输出处理器
     const output = this.createOutputHandler();
 
     // 初始化 CLI
     this.cli = new CLI(this.vfs, this.env, output);
+    this.cli.setProcessTable(this.processes);
 
     // 注册内置命令
     this.cli.registerCommands(getBuiltInCommands());
 
+    // 命令通过终端读取输入；回到提示符后（如被 bg 继续执行的作业）不能再读取终端
+    this.cli.setInput({
+      readLine: (options) => (this.isProcessing ? this.readLine(options) : Promise.resolve(null)),
+      readKey: (options) => (this.isProcessing ? this.readKey(options) : Promise.resolve(null)),
+      openScreen: (handlers) => (this.isProcessing ? this.openScreen(handlers) : null),
+    });
+
+    // 顶层 exit 结束会话，向作业发送 SIGHUP
+    this.cli.setExitHandler(() => {
+      this.isExited = true;
+      this.terminal?.writeln('logout');
+      this.processes.killAll(Signals.HUP);
+    });
+
     // 初始化 Prompt 管理器
     this.prompt = new PromptManager(this.vfs, this.env);
 
@@ -71,6 +137,72 @@ export class FakeShell {
     }
   }
 
+  /**
+   * 确保用户存在（不存在时创建用户、同名组和主目录），并切换到该用户的身份
+   */
+  private ensureUser(name: string, home?: string): PasswdEntry {
+    const users = new UserDatabase(this.vfs);
+    let user = users.getUser(name);
+
+    if (!user) {
+      const group = users.getGroup(name) ?? users.addGroup(name);
+      user = users.addUser(name, { gid: group.gid, home });
+      users.createHome(user);
+    }
+
+    const credentials = users.getCredentials(name);
+    if (credentials) {
+      this.vfs.setCredentials({ ...credentials, home: home || credentials.home });
+    }
+    return user;
+  }
+
+  /**
+   * 挂载 /proc、/dev、/sys、打包的文档，以及选项中指定的其他文件系统
+   */
+  private mountFilesystems(): void {
+    const mounts: Record<string, MountProvider> = {
+      '/proc': createProcProvider({ processes: () => this.getProcesses(), self: () => ShellPid }),
+      '/dev': createDevProvider(),
+      '/sys': createSysProvider({ hostname: () => this.env.HOSTNAME }),
+      '/usr/share/doc': createTreeProvider(BundledDocs),
+      ...this.options.mounts,
+    };
+
+    this.vfs.privileged(() => {
+      for (const [path, provider] of Object.entries(mounts)) {
+        // 挂载点不存在时逐级创建
+        let current = '';
+        for (const name of path.split('/').filter(Boolean)) {
+          current += `/${name}`;
+          if (!this.vfs.exists(current)) {
+            this.vfs.mkdir(current);
+          }
+        }
+        this.vfs.mount(path, provider);
+      }
+    });
+  }
+
+  /**
+   * 获取常驻进程（init 和当前 shell）
+   */
+  private getSystemProcesses(): ProcessInfo[] {
+    return [
+      { pid: 1, ppid: 0, user: 'root', argv: ['/sbin/init'], cwd: '/', env: {}, startTime: this.startTime },
+      {
+        pid: ShellPid,
+        ppid: 1,
+        user: this.env.USER,
+        argv: ['-bash'],
+        cwd: this.vfs.pwd(),
+        env: { ...this.env },
+        startTime: this.startTime,
+        tty: ShellTty,
+      },
+    ];
+  }
+
   /**
    * 创建输出处理器
    */
@@ -105,6 +237,8 @@ export class FakeShell {
       clear(): void {
         self.terminal?.clear();
       },
+
+      isTerminal: true,
     };
   }
 
@@ -123,6 +257,7 @@ export class FakeShell {
     terminal.onData(this.handleInput.bind(this));
     terminal.onResize(() => {
       this.fitAddon?.fit();
+      this.screen?.onResize?.();
     });
 
     // 显示欢迎消息
@@ -178,6 +313,49 @@ export class FakeShell {
     this.onCommandCallback = callback;
   }
 
+  /**
+   * 设置命令执行完成回调（用于自动保存会话等）
+   */
+  setOnCommandComplete(callback: (command: string, exitCode: number) => void): void {
+    this.onCommandCompleteCallback = callback;
+  }
+
+  /**
+   * 导出会话状态（文件系统、工作目录、环境变量和命令历史）
+   */
+  exportState(): SessionState {
+    return {
+      version: SessionStateVersion,
+      fs: this.vfs.serialize(),
+      cwd: this.vfs.pwd(),
+      env: { ...this.env },
+      history: [...this.commandHistory],
+      savedAt: Date.now(),
+    };
+  }
+
+  /**
+   * 恢复会话状态，数据无效时返回 false 且不做任何修改
+   */
+  importState(state: SessionState): boolean {
+    if (state?.version !== SessionStateVersion || !this.vfs.deserialize(state.fs)) {
+      return false;
+    }
+
+    for (const key of Object.keys(this.env)) {
+      delete this.env[key];
+    }
+    Object.assign(this.env, state.env);
+    const credentials = new UserDatabase(this.vfs).getCredentials(this.env.USER);
+    if (credentials) {
+      this.vfs.setCredentials({ ...credentials, home: this.env.HOME || credentials.home });
+    }
+    this.vfs.cd(state.cwd);
+    this.commandHistory = [...(state.history ?? [])];
+    this.historyIndex = -1;
+    return true;
+  }
+
   /**
    * 设置环境变量
    */
@@ -199,11 +377,26 @@ export class FakeShell {
     return [...this.commandHistory];
   }
 
+  /**
+   * 获取进程列表（常驻进程、正在执行的命令行和作业）
+   */
+  getProcesses(): ProcessInfo[] {
+    return this.processes.list();
+  }
+
+  /**
+   * 向进程发送信号（默认为 SIGTERM），进程不存在时返回 false
+   */
+  killProcess(pid: number, signal: number = Signals.TERM): boolean {
+    return this.processes.kill(pid, signal);
+  }
+
   /**
    * 显示提示符
    */
   private showPrompt(): void {
-    const prompt = this.prompt.generate();
+    // 多行输入时显示续行提示符
+    const prompt = this.pendingInput ? '> ' : this.prompt.generate();
     this.terminal?.write(prompt);
   }
 
@@ -211,7 +404,39 @@ export class FakeShell {
    * 处理输入
    */
   private handleInput(data: string): void {
-    if (this.isProcessing) return;
+    if (this.isExited) return;
+
+    // 全屏界面接收原始按键
+    if (this.screen) {
+      this.screen.onKey(data);
+      return;
+    }
+
+    // Ctrl+C 中断正在执行的命令，Ctrl+Z 停止它
+    if (data === '\x03' && this.isProcessing) {
+      this.interrupt();
+      return;
+    }
+    if (data === '\x1a' && this.isProcessing) {
+      this.stop();
+      return;
+    }
+
+    // 命令正在读取输入
+    if (this.lineReader) {
+      this.handleReaderInput(data);
+      return;
+    }
+    if (this.keyReader) {
+      this.handleKeyReaderInput(data);
+      return;
+    }
+
+    // 命令还没有读取输入时先保存起来
+    if (this.isProcessing) {
+      this.typeahead.push(data);
+      return;
+    }
 
     const code = data.charCodeAt(0);
 
@@ -259,6 +484,16 @@ export class FakeShell {
     } else if (data === '\x15') {
       // Ctrl+U - 清除整行
       this.clearLine();
+    } else if (data === '\x03') {
+      // Ctrl+C - 放弃当前输入
+      this.cancelLine();
+    } else if (data === '\x04') {
+      // Ctrl+D - 空行时结束会话，否则删除光标处的字符
+      if (!this.inputBuffer && !this.pendingInput) {
+        this.endSession();
+      } else {
+        this.handleDelete();
+      }
     } else if (code >= 32 || data.length > 1) {
       // 可打印字符（包括 ASCII 和 Unicode 字符如中文）
       // data.length > 1 用于处理多字节的 Unicode 字符（如中文）
@@ -266,6 +501,229 @@ export class FakeShell {
     }
   }
 
+  /**
+   * 为命令读取一行输入
+   */
+  readLine(options: ReadLineOptions = {}): Promise<string | null> {
+    if (!this.terminal || this.lineReader || this.keyReader || this.screen) {
+      return Promise.resolve(null);
+    }
+
+    if (options.signal?.aborted) {
+      return Promise.resolve(null);
+    }
+
+    if (options.prompt) {
+      this.terminal.write(options.prompt);
+    }
+    return new Promise((resolve) => {
+      const reader = { buffer: '', echo: options.echo ?? true, resolve: this.cancelOnAbort(resolve, options.signal, () => {
+        if (this.lineReader !== reader) return false;
+        this.lineReader = null;
+        return true;
+      }) };
+      this.lineReader = reader;
+      this.flushTypeahead();
+    });
+  }
+
+  /**
+   * 为命令读取一个按键
+   */
+  readKey(options: ReadLineOptions = {}): Promise<string | null> {
+    if (!this.terminal || this.lineReader || this.keyReader || this.screen) {
+      return Promise.resolve(null);
+    }
+
+    if (options.signal?.aborted) {
+      return Promise.resolve(null);
+    }
+
+    if (options.prompt) {
+      this.terminal.write(options.prompt);
+    }
+    return new Promise((resolve) => {
+      const reader = { echo: options.echo ?? true, resolve: this.cancelOnAbort(resolve, options.signal, () => {
+        if (this.keyReader !== reader) return false;
+        this.keyReader = null;
+        return true;
+      }) };
+      this.keyReader = reader;
+      this.flushTypeahead();
+    });
+  }
+
+  /**
+   * 读取的中断信号触发时结束读取（detach 返回 false 表示读取已经结束）
+   * 返回包装后的 resolve，读取正常结束时移除对信号的监听
+   */
+  private cancelOnAbort<T>(
+    resolve: (value: T | null) => void,
+    signal: AbortSignal | undefined,
+    detach: () => boolean
+  ): (value: T | null) => void {
+    if (!signal) return resolve;
+
+    const cancel = () => {
+      if (detach()) resolve(null);
+    };
+    signal.addEventListener('abort', cancel, { once: true });
+    return (value) => {
+      signal.removeEventListener('abort', cancel);
+      resolve(value);
+    };
+  }
+
+  /**
+   * 中断正在执行的命令：丢弃提前输入的内容，结束正在进行的读取
+   */
+  private interrupt(): void {
+    this.terminal?.writeln('^C');
+    this.typeahead = [];
+    this.processes.signalForeground(Signals.INT);
+    this.cancelReaders();
+  }
+
+  /**
+   * 停止正在执行的命令（SIGTSTP），命令成为作业，终端回到提示符
+   */
+  private stop(): void {
+    this.terminal?.writeln('^Z');
+    this.processes.signalForeground(Signals.TSTP);
+    this.cancelReaders();
+  }
+
+  /**
+   * 结束正在进行的读取
+   */
+  private cancelReaders(): void {
+    const { lineReader, keyReader } = this;
+    this.lineReader = null;
+    this.keyReader = null;
+    lineReader?.resolve(null);
+    keyReader?.resolve(null);
+  }
+
+  /**
+   * 把提前输入的内容交给正在等待的读取
+   */
+  private flushTypeahead(): void {
+    while (this.typeahead.length > 0 && (this.lineReader || this.keyReader)) {
+      this.handleInput(this.typeahead.shift()!);
+    }
+  }
+
+  /**
+   * 处理命令读取按键时的输入，同时输入的其他按键留给之后的读取
+   */
+  private handleKeyReaderInput(data: string): void {
+    const reader = this.keyReader!;
+    const [key, ...rest] = splitKeys(data);
+    if (rest.length > 0) {
+      this.typeahead.unshift(rest.join(''));
+    }
+    this.keyReader = null;
+
+    if (key === '\x03') {
+      // Ctrl+C 取消读取
+      this.terminal?.writeln('^C');
+      reader.resolve(null);
+      return;
+    }
+    if (key === '\x04') {
+      // Ctrl+D 表示输入结束
+      reader.resolve(null);
+      return;
+    }
+    if (reader.echo) {
+      if (key === '\r') {
+        this.terminal?.writeln('');
+      } else if (key >= ' ' && !key.startsWith('\x1B') && key !== '\x7F') {
+        this.terminal?.write(key);
+      }
+    }
+    reader.resolve(key);
+  }
+
+  /**
+   * 为命令打开全屏界面：切换到备用屏幕缓冲区，关闭前所有按键都交给 handlers
+   */
+  openScreen(handlers: ScreenHandlers): TerminalScreen | null {
+    const terminal = this.terminal;
+    if (!terminal || this.screen || this.lineReader || this.keyReader) {
+      return null;
+    }
+
+    this.screen = handlers;
+    terminal.write('\x1B[?1049h\x1B[H\x1B[2J');
+    let closed = false;
+    return {
+      get columns() {
+        return terminal.cols || 80;
+      },
+      get rows() {
+        return terminal.rows || 24;
+      },
+      write: (data) => {
+        if (!closed) terminal.write(data);
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        this.screen = null;
+        // 恢复光标显示并回到主屏幕
+        terminal.write('\x1B[?25h\x1B[?1049l');
+      },
+    };
+  }
+
+  /**
+   * 处理命令读取输入时的按键
+   */
+  private handleReaderInput(data: string): void {
+    // 读取一行时忽略方向键等控制序列
+    if (data.startsWith('\x1B')) return;
+
+    const chars = [...data];
+    for (let i = 0; i < chars.length; i++) {
+      const char = chars[i];
+      const reader = this.lineReader;
+      if (!reader) {
+        // 读取已经结束，剩下的输入留给之后的读取
+        this.typeahead.unshift(chars.slice(i).join(''));
+        return;
+      }
+
+      const finish = (line: string | null) => {
+        this.lineReader = null;
+        reader.resolve(line);
+      };
+
+      if (char === '\r') {
+        this.terminal?.writeln('');
+        finish(reader.buffer);
+      } else if (char === '\x7F' || char === '\b') {
+        if (reader.buffer) {
+          reader.buffer = reader.buffer.slice(0, -1);
+          if (reader.echo) this.terminal?.write('\b \b');
+        }
+      } else if (char === '\x03') {
+        // Ctrl+C 取消读取
+        this.terminal?.writeln('^C');
+        finish(null);
+      } else if (char === '\x04') {
+        // Ctrl+D 在空行上表示输入结束
+        if (!reader.buffer) {
+          this.terminal?.writeln('');
+          finish(null);
+        }
+      } else if (char >= ' ') {
+        reader.buffer += char;
+        if (reader.echo) this.terminal?.write(char);
+      }
+    }
+  }
+
   /**
    * 判断是否为 F1-F12 功能键转义序列
    */
@@ -483,10 +941,22 @@ export class FakeShell {
    * 执行命令
    */
   private async executeCommand(): Promise<void> {
-    const command = this.inputBuffer.trim();
+    const source = this.pendingInput + this.inputBuffer;
 
     this.terminal?.writeln('');
 
+    // 输入不完整时继续读取下一行
+    if (source.trim() && this.cli.isIncomplete(source)) {
+      this.pendingInput = source + '\n';
+      this.inputBuffer = '';
+      this.cursorPosition = 0;
+      this.showPrompt();
+      return;
+    }
+    this.pendingInput = '';
+
+    const command = source.trim();
+
     if (command) {
       // 触发命令执行回调（用于考试系统等）
       if (this.onCommandCallback) {
@@ -497,28 +967,65 @@ export class FakeShell {
       this.commandHistory.push(command);
       this.historyIndex = -1;
 
-      // 处理 exit 命令
-      if (command === 'exit') {
-        this.terminal?.writeln('logout');
-        return;
-      }
-
       // 执行命令
       this.isProcessing = true;
+      let exitCode = 1;
       try {
-        await this.cli.execute(command);
+        exitCode = await this.cli.execute(command);
       } catch (error) {
         this.terminal?.writeln(`${AnsiColors.red}Error: ${error}${AnsiReset}`);
       }
       this.isProcessing = false;
+      this.onCommandCompleteCallback?.(command, exitCode);
     }
 
+    // 会话已结束，不再显示提示符
+    if (this.isExited) return;
+
     // 重置输入缓冲区
     this.inputBuffer = '';
     this.cursorPosition = 0;
 
-    // 显示新提示符
+    // 报告结束或被停止的作业，然后显示新提示符
+    for (const job of this.processes.takeNotifications()) {
+      this.terminal?.writeln(formatJob(job));
+    }
     this.showPrompt();
+
+    // 命令执行期间输入的内容交给命令行
+    const typeahead = this.typeahead;
+    this.typeahead = [];
+    for (const data of typeahead) {
+      this.handleInput(data);
+    }
+  }
+
+  /**
+   * 放弃正在输入的命令（包括多行输入），显示新的提示符
+   */
+  private cancelLine(): void {
+    this.handleEnd();
+    this.terminal?.writeln('^C');
+    this.inputBuffer = '';
+    this.cursorPosition = 0;
+    this.pendingInput = '';
+    this.historyIndex = -1;
+    this.showPrompt();
+  }
+
+  /**
+   * 在空行上按 Ctrl+D 时结束会话（和 exit 相同，su 进入的会话回到之前的用户）
+   */
+  private async endSession(): Promise<void> {
+    this.isProcessing = true;
+    try {
+      await this.cli.execute('exit');
+    } finally {
+      this.isProcessing = false;
+    }
+    if (!this.isExited) {
+      this.showPrompt();
+    }
   }
 
   /**
@@ -0,0 +1,156 @@
+/**
+ * 信号与等待
+ * 命令通过 AbortSignal 接收中断，abort 的 reason 为信号编号（如 Ctrl+C 为 SIGINT）
+ */
+
+/** setTimeout 支持的最长时间，更长的等待只能被中断结束 */
+const MaxTimeout = 2 ** 31 - 1;
+
+/** 时间单位对应的毫秒数 */
+const DurationUnits: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/** 信号名称（不含 SIG 前缀）对应的编号 */
+export const Signals: Record<string, number> = {
+  HUP: 1,
+  INT: 2,
+  QUIT: 3,
+  KILL: 9,
+  USR1: 10,
+  SEGV: 11,
+  USR2: 12,
+  PIPE: 13,
+  ALRM: 14,
+  TERM: 15,
+  CHLD: 17,
+  CONT: 18,
+  STOP: 19,
+  TSTP: 20,
+};
+
+/** 被信号结束的作业的状态描述（jobs 中显示） */
+const SignalDescriptions: Record<number, string> = {
+  1: 'Hangup',
+  2: 'Interrupt',
+  3: 'Quit',
+  9: 'Killed',
+  10: 'User defined signal 1',
+  11: 'Segmentation fault',
+  12: 'User defined signal 2',
+  13: 'Broken pipe',
+  14: 'Alarm clock',
+  15: 'Terminated',
+  19: 'Stopped (signal)',
+  20: 'Stopped',
+};
+
+/** 被停止的进程：中断信号对应继续执行时 resolve 的回调 */
+const Suspended = new WeakMap<AbortSignal, { resumed: Promise<void>; resume: () => void }>();
+
+/**
+ * 解析信号名称或编号（如 TERM、SIGTERM、term、15），无效时返回 null
+ */
+export function parseSignal(spec: string): number | null {
+  if (/^\d+$/.test(spec)) {
+    const number = Number(spec);
+    return Object.values(Signals).includes(number) ? number : null;
+  }
+  const name = spec.toUpperCase().replace(/^SIG/, '');
+  return Signals[name] ?? null;
+}
+
+/**
+ * 获取信号名称（不含 SIG 前缀），未知的编号返回编号本身
+ */
+export function signalName(number: number): string {
+  return Object.keys(Signals).find((name) => Signals[name] === number) ?? String(number);
+}
+
+/**
+ * 获取信号的描述（如 Terminated、Killed）
+ */
+export function signalDescription(number: number): string {
+  return SignalDescriptions[number] ?? `Unknown signal ${number}`;
+}
+
+/**
+ * 被信号中断的命令的退出码：128 加信号编号
+ */
+export function signalStatus(signal: AbortSignal): number {
+  return 128 + (typeof signal.reason === 'number' ? signal.reason : Signals.INT);
+}
+
+/**
+ * 解析时间长度（如 5、0.5、2m、1h、infinity），返回毫秒数，无效时返回 null
+ * 没有单位时为秒
+ */
+export function parseDuration(text: string): number | null {
+  if (/^inf(inity)?$/i.test(text)) {
+    return Infinity;
+  }
+  const match = text.match(/^(\d+(?:\.\d*)?|\.\d+)([smhd]?)$/);
+  if (!match) {
+    return null;
+  }
+  return Number(match[1]) * DurationUnits[match[2] || 's'];
+}
+
+/**
+ * 停止进程（SIGSTOP）：之后的等待和循环会暂停，直到继续执行或被中断
+ */
+export function suspend(signal: AbortSignal): void {
+  if (Suspended.has(signal)) return;
+  let resume = () => {};
+  const resumed = new Promise<void>((resolve) => {
+    resume = resolve;
+  });
+  Suspended.set(signal, { resumed, resume });
+}
+
+/**
+ * 继续执行被停止的进程（SIGCONT）
+ */
+export function resume(signal: AbortSignal): void {
+  Suspended.get(signal)?.resume();
+  Suspended.delete(signal);
+}
+
+/**
+ * 进程被停止时等待继续执行（被中断时也结束等待）
+ */
+export async function whileStopped(signal: AbortSignal): Promise<void> {
+  const state = Suspended.get(signal);
+  if (!state || signal.aborted) return;
+
+  let abort = () => {};
+  const aborted = new Promise<void>((resolve) => {
+    abort = resolve;
+    signal.addEventListener('abort', abort, { once: true });
+  });
+  try {
+    await Promise.race([state.resumed, aborted]);
+  } finally {
+    signal.removeEventListener('abort', abort);
+  }
+}
+
+/**
+ * 等待指定的毫秒数，信号触发时提前结束；进程被停止时等到继续执行后才结束
+ * 完整等待时返回 true，被中断时返回 false
+ */
+export function delay(ms: number, signal: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal.aborted) {
+      resolve(false);
+      return;
+    }
+    const abort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = ms > MaxTimeout ? undefined : setTimeout(() => {
+      signal.removeEventListener('abort', abort);
+      whileStopped(signal).then(() => resolve(!signal.aborted));
+    }, ms);
+    signal.addEventListener('abort', abort, { once: true });
+  });
+}
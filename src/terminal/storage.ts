@@ -0,0 +1,113 @@
+/**
+ * 持久化存储后端
+ * 浏览器中优先使用 IndexedDB，不可用时退回 localStorage；测试中使用内存存储
+ */
+
+import type { StorageBackend } from './types';
+
+/**
+ * 内存存储（页面刷新后丢失，适合测试）
+ */
+export class MemoryStorage implements StorageBackend {
+  private data: Map<string, string> = new Map();
+
+  async load(key: string): Promise<string | null> {
+    return this.data.get(key) ?? null;
+  }
+
+  async save(key: string, value: string): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+}
+
+/**
+ * localStorage 存储
+ */
+export class LocalStorageBackend implements StorageBackend {
+  private prefix: string;
+
+  constructor(prefix: string = 'midrai-terminal:') {
+    this.prefix = prefix;
+  }
+
+  async load(key: string): Promise<string | null> {
+    return localStorage.getItem(this.prefix + key);
+  }
+
+  async save(key: string, value: string): Promise<void> {
+    localStorage.setItem(this.prefix + key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    localStorage.removeItem(this.prefix + key);
+  }
+}
+
+/**
+ * IndexedDB 存储（容量远大于 localStorage）
+ */
+export class IndexedDBStorage implements StorageBackend {
+  private dbName: string;
+  private storeName = 'sessions';
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName: string = 'midrai-terminal') {
+    this.dbName = dbName;
+  }
+
+  async load(key: string): Promise<string | null> {
+    const result = await this.request('readonly', (store) => store.get(key));
+    return typeof result === 'string' ? result : null;
+  }
+
+  async save(key: string, value: string): Promise<void> {
+    await this.request('readwrite', (store) => store.put(value, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(key));
+  }
+
+  /** 打开数据库（仅在首次使用时） */
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(this.storeName);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.db;
+  }
+
+  /** 在事务中执行请求 */
+  private async request(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<unknown> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * 创建当前环境可用的浏览器存储
+ */
+export function createBrowserStorage(): StorageBackend {
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDBStorage();
+  }
+  if (typeof localStorage !== 'undefined') {
+    return new LocalStorageBackend();
+  }
+  return new MemoryStorage();
+}
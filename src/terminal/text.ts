@@ -0,0 +1,54 @@
+/**
+ * 文本格式化工具
+ * 按行拆分、字符的显示宽度、命令输出中使用的人类可读大小和时间等
+ */
+
+/**
+ * 以 K、M、G 为单位显示大小（与 GNU coreutils 的 -h 一致，向上取整）
+ */
+export function formatSize(bytes: number): string {
+  const units = ['', 'K', 'M', 'G', 'T'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  if (unit === 0) {
+    return String(value);
+  }
+  return value < 10
+    ? `${(Math.ceil(value * 10) / 10).toFixed(1)}${units[unit]}`
+    : `${Math.ceil(value)}${units[unit]}`;
+}
+
+/**
+ * 格式化修改时间（YYYY-MM-DD HH:MM）
+ */
+export function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * 字符的显示宽度（中日韩等宽字符占 2 列，控制字符显示为 ^X 也占 2 列）
+ */
+export function charWidth(char: string): number {
+  const code = char.codePointAt(0)!;
+  if (code < 0x20 || code === 0x7f) return 2;
+  return (code >= 0x1100 && code <= 0x115f) ||
+    (code >= 0x2e80 && code <= 0xa4cf) ||
+    (code >= 0xac00 && code <= 0xd7a3) ||
+    (code >= 0xf900 && code <= 0xfaff) ||
+    (code >= 0xfe30 && code <= 0xfe4f) ||
+    (code >= 0xff00 && code <= 0xff60) ||
+    (code >= 0xffe0 && code <= 0xffe6) ||
+    (code >= 0x20000 && code <= 0x3fffd) ? 2 : 1;
+}
+
+/**
+ * 按行拆分文本，每行保留结尾的换行（最后一行可以没有换行）
+ */
+export function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
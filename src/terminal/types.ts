@@ -3,13 +3,19 @@
  */
 
 /** 文件类型 */
-export type FileType = 'file' | 'directory';
+export type FileType = 'file' | 'directory' | 'symlink';
+
+/** 文件内容：文本或二进制数据 */
+export type FileContent = string | Uint8Array;
 
 /** 文件节点 */
 export interface FileNode {
+  /** 节点编号（inode），移动和重命名时保持不变，硬链接共享同一编号 */
+  ino: number;
   type: FileType;
   name: string;
-  content: string;
+  /** 文件内容；符号链接为链接目标（总是文本） */
+  content: FileContent;
   children: Map<string, FileNode>;
   parent: FileNode | null;
   createdAt: Date;
@@ -23,6 +29,9 @@ export interface FileNode {
 export interface FileStat {
   type: FileType;
   size: number;
+  ino: number;
+  /** 硬链接数 */
+  nlink: number;
   createdAt: Date;
   modifiedAt: Date;
   permissions: string;
@@ -30,6 +39,144 @@ export interface FileStat {
   group: string;
 }
 
+/** 文件系统错误码 */
+export type VFSErrorCode =
+  | 'ENOENT'
+  | 'EACCES'
+  | 'EPERM'
+  | 'EEXIST'
+  | 'ENOTDIR'
+  | 'EISDIR'
+  | 'ENOTEMPTY'
+  | 'EINVAL'
+  | 'ELOOP'
+  | 'EROFS'
+  | 'EBUSY'
+  | 'ENOSPC'
+  | 'EFBIG'
+  | 'ENAMETOOLONG';
+
+/** 文件系统的资源限制（Infinity 表示不限制） */
+export interface VFSLimits {
+  /** 文件内容的总字节数 */
+  maxBytes: number;
+  /** 节点（inode）总数 */
+  maxNodes: number;
+  /** 单个文件的最大字节数 */
+  maxFileSize: number;
+  /** 路径的最大层数 */
+  maxDepth: number;
+}
+
+/** 归档格式 */
+export type ArchiveFormat = 'tar' | 'tar.gz' | 'zip';
+
+/** 归档中的成员 */
+export interface ArchiveEntry {
+  /** 成员名（相对路径，目录不带结尾的 /） */
+  name: string;
+  type: FileType;
+  /** 权限位 */
+  mode: number;
+  mtime: Date;
+  owner?: string;
+  group?: string;
+  /** 文件内容 */
+  content?: Uint8Array;
+  /** 符号链接的目标 */
+  target?: string;
+  /** 硬链接指向的已有成员名（tar 中不再保存内容） */
+  link?: string;
+}
+
+/** 文件系统的使用量（不含挂载的文件系统） */
+export interface VFSUsage {
+  /** 文件内容的总字节数（硬链接只计算一次） */
+  bytes: number;
+  /** 节点（inode）总数 */
+  nodes: number;
+}
+
+/** 文件操作使用的用户身份 */
+export interface Credentials {
+  user: string;
+  uid: number;
+  /** 所属组，第一个为主组 */
+  groups: string[];
+  /** 主目录（~ 指向的位置） */
+  home: string;
+}
+
+/** /etc/passwd 中的用户记录 */
+export interface PasswdEntry {
+  name: string;
+  uid: number;
+  gid: number;
+  /** 用户说明（全名等） */
+  gecos: string;
+  home: string;
+  shell: string;
+}
+
+/** /etc/group 中的组记录 */
+export interface GroupEntry {
+  name: string;
+  gid: number;
+  /** 附加成员 */
+  members: string[];
+}
+
+/** 用户会话（su、sudo 切换身份时使用） */
+export interface UserSession {
+  credentials: Credentials;
+  /** 会话的环境变量 */
+  env: EnvironmentVariables;
+  /** 进入会话时切换到的目录，null 表示保持当前目录 */
+  cwd: string | null;
+  /** 是否为登录 shell（su -），退出时显示 logout */
+  login: boolean;
+}
+
+/** 读取输入的选项 */
+export interface ReadLineOptions {
+  /** 读取前显示的提示 */
+  prompt?: string;
+  /** 是否回显输入（读取密码时为 false），默认为 true */
+  echo?: boolean;
+  /** 中断信号，触发时读取结束并返回 null */
+  signal?: AbortSignal;
+}
+
+/** 全屏界面的按键处理 */
+export interface ScreenHandlers {
+  /** 收到终端输入（原始数据，可能包含多个按键或控制序列） */
+  onKey(data: string): void;
+  /** 终端大小改变 */
+  onResize?(): void;
+}
+
+/** 全屏终端界面（使用备用屏幕缓冲区，关闭后恢复原来的屏幕内容） */
+export interface TerminalScreen {
+  /** 终端列数 */
+  readonly columns: number;
+  /** 终端行数 */
+  readonly rows: number;
+  /** 写入原始数据（包括控制序列） */
+  write(data: string): void;
+  /** 关闭界面，回到原来的屏幕 */
+  close(): void;
+}
+
+/** 终端输入接口 */
+export interface InputReader {
+  /** 从终端读取一行（不含换行），输入结束或被中断时返回 null */
+  readLine(options?: ReadLineOptions): Promise<string | null>;
+  /** 从终端读取一个按键（原始数据，如 'a'、'\r'、'\x1b[A'），输入结束或被中断时返回 null */
+  readKey(options?: ReadLineOptions): Promise<string | null>;
+  /** 打开全屏界面，之后的按键直接交给 handlers；没有终端或已有全屏界面时返回 null */
+  openScreen(handlers: ScreenHandlers): TerminalScreen | null;
+}
+
 /** 命令上下文 */
 export interface CommandContext {
   /** 虚拟文件系统实例 */
@@ -44,6 +191,76 @@ export interface CommandContext {
   args: string[];
   /** 选项/标志 */
   flags: Set<string>;
+  /** 原始参数（未拆分选项，保持原有顺序） */
+  argv: string[];
+  /** 标准输入（来自管道或 < 重定向，没有输入时为 null） */
+  stdin: string | null;
+  /** 标准输入的原始字节（读取二进制数据时使用，没有输入时为 null） */
+  readonly stdinBytes: Uint8Array | null;
+  /** 终端输入（用于交互式读取，如密码提示） */
+  input: InputReader;
+  /** 中断信号（Ctrl+C 或 timeout 等），长时间运行的命令应在触发后尽快结束 */
+  signal: AbortSignal;
+  /** Shell 运行时 */
+  shell: ShellRuntime;
+}
+
+/** Shell 运行时接口（供需要与解释器交互的命令使用） */
+export interface ShellRuntime {
+  /** 获取 shell 选项（shopt）的值，未知选项返回 undefined */
+  getOption(name: string): boolean | undefined;
+  /** 设置 shell 选项，未知选项返回 false */
+  setOption(name: string, value: boolean): boolean;
+  /** 获取全部 shell 选项 */
+  getOptions(): Record<string, boolean>;
+  /** 在当前 shell 中执行命令行，输出继承自调用命令 */
+  execute(input: string, stdin?: string | null): Promise<number>;
+  /** 执行脚本 */
+  runScript(source: string, options: ScriptOptions): Promise<number>;
+  /**
+   * 按参数执行命令（不查找函数，用于 sudo 等），stdin 默认继承调用命令的输入
+   * signal 为这次执行单独的中断信号（用于 timeout），它触发的中断只结束这次执行
+   */
+  exec(argv: string[], stdin?: string | null, signal?: AbortSignal): Promise<number>;
+  /**
+   * 从来自管道或重定向的标准输入读取到分隔符为止或最多 limit 个字符，并消耗读取的部分
+   * （之后的命令从这里继续读取），输入结束或标准输入是终端时返回 null
+   */
+  readInput(delimiter: string, limit?: number): string | null;
+  /** 读取变量（含位置参数和特殊参数） */
+  getVariable(name: string): string | undefined;
+  /** 设置变量，local 为 true 时声明为当前函数的局部变量 */
+  setVariable(name: string, value: string, options?: { local?: boolean }): void;
+  /** 删除变量 */
+  unsetVariable(name: string): void;
+  /** 获取当前可见的全部变量 */
+  getVariables(): EnvironmentVariables;
+  /** 获取位置参数 $1, $2, ... */
+  getPositionalParams(): string[];
+  /** 设置位置参数 */
+  setPositionalParams(params: string[]): void;
+  /** 是否在函数中执行 */
+  isInFunction(): boolean;
+  /** 是否在循环中执行（break/continue 可用） */
+  isInLoop(): boolean;
+  /** 是否可以 return（函数或 source 的脚本中） */
+  canReturn(): boolean;
+  /** 以其他用户的身份在子 shell 中执行（su -c、sudo），run 收到子 shell 的运行时接口，当前身份和环境不受影响 */
+  runAs(session: UserSession, run: (shell: ShellRuntime) => Promise<number>): Promise<number>;
+  /** 进入其他用户的交互会话（su），exit 时回到当前会话 */
+  pushSession(session: UserSession): void;
+  /** 获取进程和作业管理接口（jobs、kill、ps 等命令使用） */
+  getProcessControl(): ProcessControl;
+}
+
+/** 脚本执行选项 */
+export interface ScriptOptions {
+  /** 脚本名称（$0） */
+  name: string;
+  /** 位置参数 */
+  args?: string[];
+  /** 是否在当前 shell 中执行（source），否则在隔离的环境中运行 */
+  source?: boolean;
 }
 
 /** 命令定义 */
@@ -76,6 +293,8 @@ export interface OutputHandler {
   println: (text?: string) => void;
   /** 打印文本（不换行） */
   print: (text: string) => void;
+  /** 输出原始字节（如二进制文件的内容），不支持时按 UTF-8 解码后打印 */
+  write?: (data: Uint8Array) => void;
   /** 打印错误信息 */
   error: (text: string) => void;
   /** 打印警告信息 */
@@ -86,6 +305,8 @@ export interface OutputHandler {
   color: (text: string, color: AnsiColor) => string;
   /** 清屏 */
   clear: () => void;
+  /** 标准输出是否为终端（没有被管道或重定向），未提供时视为终端 */
+  readonly isTerminal?: boolean;
 }
 
 /** ANSI 颜色码 */
@@ -118,6 +339,100 @@ export interface PromptContext {
 /** Prompt 格式化函数 */
 export type PromptFormatter = (ctx: PromptContext) => string;
 
+/** 挂载的文件系统中的条目 */
+export interface MountEntry {
+  name: string;
+  type: FileType;
+  /** 权限位（默认文件为 0444，目录为 0555） */
+  mode?: number;
+  /** 所有者（默认为 root） */
+  owner?: string;
+  /** 所属组（默认为 root） */
+  group?: string;
+  /** 符号链接的目标 */
+  target?: string;
+}
+
+/**
+ * 挂载提供者
+ * 按需提供挂载点下的节点，路径以挂载点为根（挂载点本身为 /，其下如 /self/environ）
+ */
+export interface MountProvider {
+  /** 只读文件系统，写入、创建和删除都会以 EROFS 失败 */
+  readonly?: boolean;
+  /** 列出目录中的条目，不是目录时返回 null */
+  list(path: string): MountEntry[] | null;
+  /** 读取文件内容（每次读取时调用） */
+  read(path: string): FileContent | null;
+  /** 写入文件，未提供时文件不可写 */
+  write?(path: string, content: FileContent): boolean;
+}
+
+/** 打包的目录树（名称 -> 文件内容或子目录） */
+export interface MountTree {
+  [name: string]: FileContent | MountTree;
+}
+
+/** 进程状态：R 运行、S 睡眠、T 停止 */
+export type ProcessState = 'R' | 'S' | 'T';
+
+/** 进程信息（用于 /proc 和 ps） */
+export interface ProcessInfo {
+  pid: number;
+  ppid: number;
+  user: string;
+  /** 命令行参数 */
+  argv: string[];
+  /** 工作目录 */
+  cwd?: string;
+  /** 环境变量 */
+  env?: Record<string, string>;
+  /** 进程状态，默认为 S */
+  state?: ProcessState;
+  /** 启动时间（毫秒时间戳） */
+  startTime?: number;
+  /** 控制终端（如 pts/0），没有控制终端时不设置 */
+  tty?: string;
+}
+
+/** 作业（在后台执行或被停止的命令行） */
+export interface JobInfo {
+  /** 作业号（%1 中的 1） */
+  id: number;
+  pid: number;
+  /** 命令行 */
+  command: string;
+  status: 'running' | 'stopped' | 'done';
+  /** 结束时的退出码 */
+  exitCode: number | null;
+  /** 结束或停止作业的信号，正常退出时为 null */
+  signal: number | null;
+  /** 当前作业为 +，前一个作业为 -，其余为空格 */
+  marker: '+' | '-' | ' ';
+}
+
+/** 进程和作业管理 */
+export interface ProcessControl {
+  /** 当前 shell 的进程号（$$） */
+  readonly shellPid: number;
+  /** 最近启动的后台作业的进程号（$!），没有时为 null */
+  readonly lastBackgroundPid: number | null;
+  /** 当前的进程列表 */
+  list(): ProcessInfo[];
+  /** 作业列表，已结束的作业报告一次后移出作业表 */
+  jobs(): JobInfo[];
+  /** 按作业说明（%1、%+、%-、%name、%?text，空字符串为当前作业）查找作业 */
+  findJob(spec: string): JobInfo | null;
+  /** 在后台执行命令行，run 收到进程的中断信号 */
+  spawn(command: string, run: (signal: AbortSignal) => Promise<number>): JobInfo;
+  /** 向进程发送信号，进程不存在时返回 false */
+  kill(pid: number, signal: number): boolean;
+  /** 等待进程结束并返回退出码，不是当前 shell 的子进程时返回 null；signal 触发时不再等待 */
+  wait(pid: number, signal: AbortSignal): Promise<number | null>;
+  /** 把作业移到前台（被停止时继续执行）并等待它结束或再次停止，返回退出码 */
+  foreground(id: number, signal: AbortSignal): Promise<number>;
+}
+
 /** Shell 配置选项 */
 export interface ShellOptions {
   /** 初始工作目录 */
@@ -128,20 +443,194 @@ export interface ShellOptions {
   welcomeMessage?: string;
   /** 提示符格式 */
   promptFormat?: string | PromptFormatter;
+  /** 额外挂载的文件系统（挂载点 -> 提供者） */
+  mounts?: Record<string, MountProvider>;
+  /** 文件系统的资源限制（未指定的项使用默认值） */
+  limits?: Partial<VFSLimits>;
+}
+
+/** 序列化的文件节点 */
+export interface SerializedFileNode {
+  type: FileType;
+  name: string;
+  /** 节点编号（用于保留硬链接） */
+  ino?: number;
+  content?: string;
+  /** 内容的编码，base64 表示二进制内容（省略时为文本） */
+  encoding?: 'base64';
+  children?: SerializedFileNode[];
+  /** 创建时间（毫秒时间戳） */
+  createdAt: number;
+  /** 修改时间（毫秒时间戳） */
+  modifiedAt: number;
+  permissions: string;
+  owner: string;
+  group: string;
+}
+
+/** 序列化的文件系统 */
+export interface SerializedVFS {
+  /** 格式版本 */
+  version: number;
+  root: SerializedFileNode;
+}
+
+/** 文件系统快照中的只读节点（未修改的子树在快照之间共享） */
+export interface SnapshotNode {
+  readonly ino: number;
+  readonly type: FileType;
+  readonly content: FileContent;
+  readonly children: ReadonlyMap<string, SnapshotNode>;
+  readonly createdAt: number;
+  readonly modifiedAt: number;
+  readonly permissions: string;
+  readonly owner: string;
+  readonly group: string;
+}
+
+/** 文本差异中的一行 */
+export interface DiffLine {
+  /** 相同、新增或删除 */
+  type: 'equal' | 'add' | 'remove';
+  text: string;
+}
+
+/** 差异中新增或删除的节点 */
+export interface DiffEntry {
+  path: string;
+  type: FileType;
+}
+
+/** 差异中被修改的节点 */
+export interface ModifiedEntry extends DiffEntry {
+  /** 发生变化的属性 */
+  changes: ('content' | 'permissions' | 'owner' | 'group')[];
+  /** 文件内容的逐行差异（内容未变化或为二进制时为空数组） */
+  contentDiff: DiffLine[];
+}
+
+/** 差异中被移动或重命名的节点 */
+export interface MovedEntry {
+  from: string;
+  to: string;
+  type: FileType;
+}
+
+/** 两个文件系统状态之间的差异 */
+export interface VFSDiff {
+  added: DiffEntry[];
+  removed: DiffEntry[];
+  modified: ModifiedEntry[];
+  moved: MovedEntry[];
+}
+
+/**
+ * 文件系统变化事件的类型
+ * chmod 表示元数据变化（权限、所有者、时间戳）
+ */
+export type VFSEventType = 'create' | 'modify' | 'delete' | 'rename' | 'chmod';
+
+/** 文件系统变化事件 */
+export interface VFSEvent {
+  type: VFSEventType;
+  /** 发生变化的节点的路径（重命名时为新路径） */
+  path: string;
+  /** 重命名前的路径（仅用于 rename） */
+  oldPath?: string;
+  /** 节点类型 */
+  nodeType: FileType;
+}
+
+/** 文件系统变化监听函数 */
+export type VFSWatchListener = (event: VFSEvent) => void;
+
+/** 监听选项 */
+export interface WatchOptions {
+  /** 是否监听整个子树，否则只监听路径本身及其直接子节点 */
+  recursive?: boolean;
+}
+
+/** 持久化存储后端 */
+export interface StorageBackend {
+  /** 读取数据，不存在时返回 null */
+  load(key: string): Promise<string | null>;
+  /** 写入数据 */
+  save(key: string, value: string): Promise<void>;
+  /** 删除数据 */
+  remove(key: string): Promise<void>;
+}
+
+/** 终端会话状态（用于保存和恢复） */
+export interface SessionState {
+  /** 格式版本 */
+  version: number;
+  fs: SerializedVFS;
+  cwd: string;
+  env: Record<string, string>;
+  history: string[];
+  /** 保存时间（毫秒时间戳） */
+  savedAt: number;
 }
 
 /** 虚拟文件系统类接口（用于类型引用） */
 export interface VirtualFileSystem {
   get currentPath(): string;
   mkdir(path: string): boolean;
-  writeFile(path: string, content: string): boolean;
+  /** 写入文件，文本按 UTF-8 存储 */
+  writeFile(path: string, content: FileContent): boolean;
+  /** 读取文件内容的文本（二进制内容按 UTF-8 解码） */
   readFile(path: string): string | null;
+  /** 读取文件内容的字节 */
+  readFileBytes(path: string): Uint8Array | null;
   ls(path?: string): FileNode[] | null;
   cd(path: string): boolean;
   pwd(): string;
   exists(path: string): boolean;
   stat(path: string): FileStat | null;
+  /** 获取状态，路径最后一级为符号链接时不跟随 */
+  lstat(path: string): FileStat | null;
   rm(path: string, recursive?: boolean): boolean;
+  /** 复制文件或目录，preserve 时保留权限、修改时间和所有者 */
+  cp(src: string, dest: string, recursive?: boolean, preserve?: boolean): boolean;
+  /** 重命名（不跨越挂载点），保留节点本身及其元数据 */
+  mv(src: string, dest: string): boolean;
   resolvePath(path: string): string;
   getNode(path: string): FileNode | null;
+  /** 解析为不含符号链接、. 和 .. 的绝对路径，路径不存在时返回 null */
+  realpath(path: string): string | null;
+  /** 读取符号链接的目标 */
+  readlink(path: string): string | null;
+  symlink(target: string, path: string): boolean;
+  link(existing: string, path: string): boolean;
+  /** 最近一次失败操作的错误码 */
+  get lastError(): VFSErrorCode | null;
+  access(path: string, mode: string): boolean;
+  /** 更新修改时间（默认为当前时间），文件不存在时创建空文件 */
+  touch(path: string, time?: Date): boolean;
+  chmod(path: string, mode: number): boolean;
+  chown(path: string, owner: string | null, group: string | null): boolean;
+  getCredentials(): Credentials;
+  setCredentials(credentials: Credentials): void;
+  getUmask(): number;
+  setUmask(mask: number): void;
+  /** 以 root 身份执行文件操作（模拟 passwd 等 setuid 程序） */
+  privileged<T>(run: () => T): T;
+  /** 创建共享文件树、但有独立工作目录、用户身份和文件创建掩码的视图（子 shell 和作业使用） */
+  fork(): VirtualFileSystem;
+  /** 在已有目录上挂载文件系统 */
+  mount(path: string, provider: MountProvider): boolean;
+  /** 卸载文件系统 */
+  umount(path: string): boolean;
+  /** 监听路径的变化，返回取消监听的函数 */
+  watch(path: string, options: WatchOptions, listener: VFSWatchListener): () => void;
+  /** 获取资源限制 */
+  getLimits(): VFSLimits;
+  /** 修改资源限制（未指定的项保持不变），已有内容超出新的限制时不受影响 */
+  setLimits(limits: Partial<VFSLimits>): void;
+  /** 统计当前的使用量 */
+  usage(): VFSUsage;
+  /** 将目录树打包为归档，成员名以路径的最后一级开头 */
+  exportArchive(path: string, format?: ArchiveFormat): Uint8Array | null;
+  /** 将归档（自动识别格式）解包到已有的目录中 */
+  importArchive(path: string, bytes: Uint8Array): boolean;
 }
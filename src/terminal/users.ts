@@ -0,0 +1,415 @@
+/**
+ * 用户与组数据库
+ * 基于虚拟文件系统中的 /etc/passwd、/etc/group、/etc/shadow 和 /etc/sudoers，
+ * 读写这些文件时以 root 身份进行（模拟 setuid 程序）
+ */
+
+import type {
+  Credentials,
+  EnvironmentVariables,
+  GroupEntry,
+  PasswdEntry,
+  UserSession,
+  VirtualFileSystem,
+} from './types';
+
+/** 普通用户的起始 uid/gid */
+const FirstUserId = 1000;
+
+/** 密码哈希的迭代次数 */
+const HashRounds = 1000;
+
+/** 新用户主目录中的 .bashrc */
+const DefaultBashrc = '# .bashrc\nexport PS1="\\u@\\h:\\w\\$ "\n';
+
+/** 用户名和组名的格式 */
+export const NameReg = /^[a-z_][a-z0-9_-]*\$?$/;
+
+/** sudo 规则 */
+export interface SudoRule {
+  /** 是否无需输入密码 */
+  nopasswd: boolean;
+  /** 规则原文 */
+  source: string;
+}
+
+/**
+ * 计算密码哈希（仅用于模拟，不具备真实的安全性）
+ */
+export function hashPassword(password: string, salt: string = randomSalt()): string {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193;
+  const input = `${salt}$${password}`;
+
+  for (let round = 0; round < HashRounds; round++) {
+    for (let i = 0; i < input.length; i++) {
+      const code = input.charCodeAt(i);
+      h1 = Math.imul(h1 ^ code, 0x01000193);
+      h2 = Math.imul(h2 ^ code ^ (h1 >>> 15), 0x5bd1e995);
+    }
+    h1 ^= h2 >>> 13;
+    h2 ^= h1 >>> 7;
+  }
+
+  const hex = (n: number) => (n >>> 0).toString(16).padStart(8, '0');
+  return `$sim$${salt}$${hex(h1)}${hex(h2)}`;
+}
+
+/**
+ * 生成随机盐值
+ */
+function randomSalt(): string {
+  const chars = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789./';
+  let salt = '';
+  for (let i = 0; i < 8; i++) {
+    salt += chars[Math.floor(Math.random() * chars.length)];
+  }
+  return salt;
+}
+
+/**
+ * 将文件内容拆分为记录（忽略空行和注释）
+ */
+function parseRecords(content: string | null): string[][] {
+  return (content ?? '')
+    .split('\n')
+    .filter((line) => line.trim() && !line.startsWith('#'))
+    .map((line) => line.split(':'));
+}
+
+/**
+ * 用户数据库
+ */
+export class UserDatabase {
+  private vfs: VirtualFileSystem;
+
+  constructor(vfs: VirtualFileSystem) {
+    this.vfs = vfs;
+  }
+
+  /**
+   * 获取所有用户
+   */
+  getUsers(): PasswdEntry[] {
+    return parseRecords(this.read('/etc/passwd'))
+      .filter((fields) => fields.length >= 7)
+      .map(([name, , uid, gid, gecos, home, shell]) => ({
+        name,
+        uid: Number(uid),
+        gid: Number(gid),
+        gecos,
+        home,
+        shell,
+      }));
+  }
+
+  /**
+   * 按用户名查找用户
+   */
+  getUser(name: string): PasswdEntry | null {
+    return this.getUsers().find((user) => user.name === name) ?? null;
+  }
+
+  /**
+   * 按 uid 查找用户
+   */
+  getUserById(uid: number): PasswdEntry | null {
+    return this.getUsers().find((user) => user.uid === uid) ?? null;
+  }
+
+  /**
+   * 获取所有组
+   */
+  getGroups(): GroupEntry[] {
+    return parseRecords(this.read('/etc/group'))
+      .filter((fields) => fields.length >= 3)
+      .map(([name, , gid, members = '']) => ({
+        name,
+        gid: Number(gid),
+        members: members.split(',').filter(Boolean),
+      }));
+  }
+
+  /**
+   * 按组名查找组
+   */
+  getGroup(name: string): GroupEntry | null {
+    return this.getGroups().find((group) => group.name === name) ?? null;
+  }
+
+  /**
+   * 按 gid 查找组
+   */
+  getGroupById(gid: number): GroupEntry | null {
+    return this.getGroups().find((group) => group.gid === gid) ?? null;
+  }
+
+  /**
+   * 获取用户所属的全部组，主组在前
+   */
+  getUserGroups(name: string): GroupEntry[] {
+    const user = this.getUser(name);
+    if (!user) {
+      return [];
+    }
+
+    const groups = this.getGroups();
+    const primary = groups.find((group) => group.gid === user.gid);
+    const supplementary = groups.filter(
+      (group) => group !== primary && group.members.includes(name)
+    );
+    return primary ? [primary, ...supplementary] : supplementary;
+  }
+
+  /**
+   * 获取用户的文件操作身份
+   */
+  getCredentials(name: string): Credentials | null {
+    const user = this.getUser(name);
+    if (!user) {
+      return null;
+    }
+
+    const groups = this.getUserGroups(name).map((group) => group.name);
+    return {
+      user: user.name,
+      uid: user.uid,
+      // 主组不存在时以 gid 作为组名
+      groups: groups.length > 0 ? groups : [String(user.gid)],
+      home: user.home,
+    };
+  }
+
+  /**
+   * 创建切换到用户时的会话
+   * 登录会话（su -）使用全新的环境变量并进入主目录，否则只修改当前环境中与身份相关的变量
+   */
+  createSession(name: string, env: EnvironmentVariables, login: boolean): UserSession | null {
+    const user = this.getUser(name);
+    const credentials = this.getCredentials(name);
+    if (!user || !credentials) {
+      return null;
+    }
+
+    const identity = { USER: user.name, LOGNAME: user.name, HOME: user.home, SHELL: user.shell };
+    const sessionEnv: EnvironmentVariables = login
+      ? { ...identity, HOSTNAME: env.HOSTNAME, PATH: env.PATH, PWD: user.home }
+      : { ...env, ...identity };
+    return {
+      credentials,
+      env: sessionEnv,
+      cwd: login ? user.home : null,
+      login,
+    };
+  }
+
+  /**
+   * 添加用户（调用方负责检查用户名是否已被使用），新用户的密码处于锁定状态
+   */
+  addUser(
+    name: string,
+    options: { uid?: number; gid?: number; gecos?: string; home?: string; shell?: string } = {}
+  ): PasswdEntry {
+    const users = this.getUsers();
+    const uid = options.uid ?? this.nextId(users.map((user) => user.uid));
+    const entry: PasswdEntry = {
+      name,
+      uid,
+      gid: options.gid ?? uid,
+      gecos: options.gecos ?? '',
+      home: options.home ?? `/home/${name}`,
+      shell: options.shell ?? '/bin/bash',
+    };
+
+    this.append(
+      '/etc/passwd',
+      `${entry.name}:x:${entry.uid}:${entry.gid}:${entry.gecos}:${entry.home}:${entry.shell}`
+    );
+    this.append('/etc/shadow', `${name}:!:${this.today()}:0:99999:7:::`);
+    return entry;
+  }
+
+  /**
+   * 创建用户主目录，并放入默认的 .bashrc
+   */
+  createHome(user: PasswdEntry): boolean {
+    const group = this.getGroupById(user.gid)?.name ?? String(user.gid);
+    const bashrc = `${user.home.replace(/\/+$/, '')}/.bashrc`;
+
+    return this.vfs.privileged(() => {
+      if (!this.vfs.mkdir(user.home) || !this.vfs.writeFile(bashrc, DefaultBashrc)) {
+        return false;
+      }
+      this.vfs.chown(user.home, user.name, group);
+      this.vfs.chown(bashrc, user.name, group);
+      return true;
+    });
+  }
+
+  /**
+   * 添加组
+   */
+  addGroup(name: string, gid?: number): GroupEntry {
+    const entry: GroupEntry = {
+      name,
+      gid: gid ?? this.nextId(this.getGroups().map((group) => group.gid)),
+      members: [],
+    };
+    this.append('/etc/group', `${entry.name}:x:${entry.gid}:`);
+    return entry;
+  }
+
+  /**
+   * 将用户加入附加组
+   */
+  addToGroup(groupName: string, userName: string): boolean {
+    const lines = (this.read('/etc/group') ?? '').split('\n');
+    let found = false;
+
+    const updated = lines.map((line) => {
+      const fields = line.split(':');
+      if (fields[0] !== groupName || fields.length < 3) {
+        return line;
+      }
+      found = true;
+      const members = (fields[3] ?? '').split(',').filter(Boolean);
+      if (!members.includes(userName)) {
+        members.push(userName);
+      }
+      return [fields[0], fields[1], fields[2], members.join(',')].join(':');
+    });
+
+    return found && this.write('/etc/group', updated.join('\n'));
+  }
+
+  /**
+   * 获取用户的密码字段（不存在时返回 null）
+   */
+  private getPasswordField(name: string): string | null {
+    const record = parseRecords(this.read('/etc/shadow')).find((fields) => fields[0] === name);
+    return record ? record[1] ?? '' : null;
+  }
+
+  /**
+   * 密码状态：P 可用，NP 无密码，L 已锁定
+   */
+  getPasswordStatus(name: string): 'P' | 'NP' | 'L' {
+    const field = this.getPasswordField(name);
+    if (field === '') return 'NP';
+    if (field === null || field.startsWith('!') || field.startsWith('*')) return 'L';
+    return 'P';
+  }
+
+  /**
+   * 校验密码，没有设置密码的用户直接通过，锁定的用户总是失败
+   */
+  verifyPassword(name: string, password: string): boolean {
+    const field = this.getPasswordField(name);
+    if (field === null || field.startsWith('!') || field.startsWith('*')) {
+      return false;
+    }
+    if (field === '') {
+      return true;
+    }
+    const salt = field.split('$')[2] ?? '';
+    return hashPassword(password, salt) === field;
+  }
+
+  /**
+   * 设置密码（null 表示删除密码）
+   */
+  setPassword(name: string, password: string | null): boolean {
+    return this.updateShadow(name, () => (password === null ? '' : hashPassword(password)));
+  }
+
+  /**
+   * 锁定或解锁密码
+   */
+  setLocked(name: string, locked: boolean): boolean {
+    return this.updateShadow(name, (field) => {
+      if (locked) {
+        return field.startsWith('!') ? field : `!${field}`;
+      }
+      return field.replace(/^!+/, '');
+    });
+  }
+
+  /**
+   * 查找允许用户使用 sudo 的规则（支持 user 和 %group 两种形式）
+   */
+  getSudoRule(name: string): SudoRule | null {
+    if (name === 'root') {
+      return { nopasswd: true, source: 'root ALL=(ALL:ALL) ALL' };
+    }
+
+    const groups = this.getUserGroups(name).map((group) => group.name);
+    const lines = (this.read('/etc/sudoers') ?? '').split('\n');
+
+    for (const raw of lines) {
+      const line = raw.trim();
+      const match = line.match(/^(%?[\w.-]+)\s+\S+\s*=\s*(?:\([^)]*\)\s*)?(NOPASSWD:\s*)?ALL$/);
+      if (!match) continue;
+
+      const who = match[1];
+      const applies = who.startsWith('%') ? groups.includes(who.slice(1)) : who === name;
+      if (applies) {
+        return { nopasswd: Boolean(match[2]), source: line };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 修改 shadow 中的密码字段
+   */
+  private updateShadow(name: string, update: (field: string) => string): boolean {
+    const lines = (this.read('/etc/shadow') ?? '').split('\n');
+    let found = false;
+
+    const updated = lines.map((line) => {
+      const fields = line.split(':');
+      if (fields[0] !== name) {
+        return line;
+      }
+      found = true;
+      fields[1] = update(fields[1] ?? '');
+      fields[2] = String(this.today());
+      return fields.join(':');
+    });
+
+    return found && this.write('/etc/shadow', updated.join('\n'));
+  }
+
+  /**
+   * 分配下一个可用的编号
+   */
+  private nextId(used: number[]): number {
+    let id = FirstUserId;
+    while (used.includes(id)) id++;
+    return id;
+  }
+
+  /**
+   * 距 1970-01-01 的天数（shadow 的日期格式）
+   */
+  private today(): number {
+    return Math.floor(Date.now() / 86_400_000);
+  }
+
+  private read(path: string): string | null {
+    return this.vfs.privileged(() => this.vfs.readFile(path));
+  }
+
+  private write(path: string, content: string): boolean {
+    return this.vfs.privileged(() => this.vfs.writeFile(path, content));
+  }
+
+  /**
+   * 在文件末尾追加一行
+   */
+  private append(path: string, line: string): boolean {
+    const content = this.read(path) ?? '';
+    const prefix = content && !content.endsWith('\n') ? `${content}\n` : content;
+    return this.write(path, `${prefix}${line}\n`);
+  }
+}
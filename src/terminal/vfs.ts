@@ -1,4 +1,115 @@
-import type { FileNode, FileStat, FileType, VirtualFileSystem } from './types';
+import type {
+  FileNode,
+  FileStat,
+  FileType,
+  FileContent,
+  SerializedFileNode,
+  SerializedVFS,
+  SnapshotNode,
+  VFSDiff,
+  ModifiedEntry,
+  VFSErrorCode,
+  Credentials,
+  VirtualFileSystem,
+  MountProvider,
+  VFSEvent,
+  VFSEventType,
+  VFSLimits,
+  VFSUsage,
+  VFSWatchListener,
+  WatchOptions,
+  ArchiveEntry,
+  ArchiveFormat,
+} from './types';
+import { diffLines } from './diff';
+import { AccessBits, StickyBit, formatPermissions, parsePermissions } from './permissions';
+import type { AccessMode } from './permissions';
+import { hashPassword } from './users';
+import { collectEntries, extractEntries, readArchive, writeArchive } from './archive';
+import { byteLength, contentEquals, decodeBase64, encodeBase64, toBytes, toText } from './encoding';
+
+/** 序列化格式版本（版本 2 增加了符号链接和硬链接，版本 3 增加了二进制内容） */
+const SerializationVersion = 3;
+
+/** 解析路径时最多跟随的符号链接数 */
+const MaxSymlinkFollows = 40;
+
+/** 默认的资源限制 */
+const DefaultLimits: VFSLimits = {
+  maxBytes: 16 * 1024 * 1024,
+  maxNodes: 10_000,
+  maxFileSize: 4 * 1024 * 1024,
+  maxDepth: 64,
+};
+
+/** 错误码对应的错误信息 */
+const ErrorMessages: Record<VFSErrorCode, string> = {
+  ENOENT: 'No such file or directory',
+  EACCES: 'Permission denied',
+  EPERM: 'Operation not permitted',
+  EEXIST: 'File exists',
+  ENOTDIR: 'Not a directory',
+  EISDIR: 'Is a directory',
+  ENOTEMPTY: 'Directory not empty',
+  EINVAL: 'Invalid argument',
+  ELOOP: 'Too many levels of symbolic links',
+  EROFS: 'Read-only file system',
+  EBUSY: 'Device or resource busy',
+  ENOSPC: 'No space left on device',
+  EFBIG: 'File too large',
+  ENAMETOOLONG: 'File name too long',
+};
+
+/**
+ * 获取错误码对应的错误信息
+ */
+export function strerror(code: VFSErrorCode | null): string {
+  return code ? ErrorMessages[code] : 'Unknown error';
+}
+
+/**
+ * 取路径的最后一级名称（忽略末尾的 /，根目录为 /）
+ */
+export function basename(path: string): string {
+  const trimmed = path.replace(/\/+$/, '');
+  return trimmed ? trimmed.substring(trimmed.lastIndexOf('/') + 1) : '/';
+}
+
+/** 超级用户身份 */
+const RootCredentials: Credentials = { user: 'root', uid: 0, groups: ['root'], home: '/root' };
+
+/** 默认用户身份（与默认的 /etc/passwd、/etc/group 一致） */
+const GuestCredentials: Credentials = { user: 'guest', uid: 1000, groups: ['guest', 'sudo'], home: '/home/guest' };
+
+/** 检查点 */
+interface Checkpoint {
+  root: SnapshotNode;
+  cwd: string;
+}
+
+/** 挂载的文件系统 */
+interface Mount {
+  provider: MountProvider;
+  /** 覆盖挂载点的根目录 */
+  root: FileNode;
+}
+
+/** 路径监听 */
+interface Watcher {
+  /** 被监听的绝对路径 */
+  path: string;
+  recursive: boolean;
+  listener: VFSWatchListener;
+}
+
+/** 遍历快照时记录的节点位置 */
+interface SnapshotEntry {
+  path: string;
+  node: SnapshotNode;
+  /** 父节点编号（根节点为 0） */
+  parentIno: number;
+  name: string;
+}
 
 /**
  * 虚拟文件系统实现
@@ -7,11 +118,34 @@ import type { FileNode, FileStat, FileType, VirtualFileSystem } from './types';
 export class VFS implements VirtualFileSystem {
   private root: FileNode;
   private _currentPath: string;
+  private nextIno: number = 1;
+  /**
+   * 节点对应的只读快照（写时复制）
+   * 节点或其后代被修改时删除缓存，未修改的子树在检查点之间共享同一份快照
+   */
+  private snapshots: WeakMap<FileNode, SnapshotNode> = new WeakMap();
+  private checkpoints: Map<number, Checkpoint> = new Map();
+  private nextCheckpointId: number = 1;
+  /** 拥有多个硬链接的文件，以节点编号为键 */
+  private hardLinks: Map<number, Set<FileNode>> = new Map();
+  /** 挂载表，以挂载点的绝对路径为键 */
+  private mounts: Map<string, Mount> = new Map();
+  /** 挂载的文件系统中的节点，及其以挂载点为根的路径 */
+  private mountedNodes: WeakMap<FileNode, { mount: Mount; path: string }> = new WeakMap();
+  private watchers: Set<Watcher> = new Set();
+  private limits: VFSLimits = { ...DefaultLimits };
+  /** 使用量的缓存，文件系统被修改时清除 */
+  private usageCache: VFSUsage | null = null;
+  /** 执行文件操作的用户身份（初始化默认结构时为 root） */
+  private credentials: Credentials = RootCredentials;
+  private umask: number = 0o022;
+  private _lastError: VFSErrorCode | null = null;
 
   constructor() {
     this.root = this.createNode('directory', '', null);
     this._currentPath = '/';
     this.initDefaultStructure();
+    this.credentials = GuestCredentials;
   }
 
   /** 获取当前工作目录 */
@@ -19,15 +153,129 @@ export class VFS implements VirtualFileSystem {
     return this._currentPath;
   }
 
+  /** 最近一次失败操作的错误码（类似 errno） */
+  get lastError(): VFSErrorCode | null {
+    return this._lastError;
+  }
+
+  /** 记录错误并返回 false */
+  private fail(code: VFSErrorCode): false {
+    this._lastError = code;
+    return false;
+  }
+
+  /**
+   * 设置执行文件操作的用户身份
+   */
+  setCredentials(credentials: Credentials): void {
+    this.credentials = { ...credentials, groups: [...credentials.groups] };
+  }
+
+  /**
+   * 获取执行文件操作的用户身份
+   */
+  getCredentials(): Credentials {
+    return { ...this.credentials, groups: [...this.credentials.groups] };
+  }
+
+  /**
+   * 以 root 身份执行文件操作（模拟 passwd 等 setuid 程序）
+   */
+  privileged<T>(run: () => T): T {
+    const credentials = this.credentials;
+    this.credentials = RootCredentials;
+    try {
+      return run();
+    } finally {
+      this.credentials = credentials;
+    }
+  }
+
+  /**
+   * 创建共享文件树的视图，工作目录、用户身份、文件创建掩码和错误码属于视图自己
+   * 视图上的其他状态（节点、挂载、监听、检查点等）直接读写原文件系统
+   */
+  fork(): VFS {
+    const local: Record<PropertyKey, unknown> = {
+      _currentPath: this._currentPath,
+      credentials: this.credentials,
+      umask: this.umask,
+      _lastError: null,
+    };
+    return new Proxy(this, {
+      get: (target, key, receiver) => (Object.hasOwn(local, key) ? local[key] : Reflect.get(target, key, receiver)),
+      set: (target, key, value) => {
+        if (Object.hasOwn(local, key)) {
+          local[key] = value;
+        } else {
+          Reflect.set(target, key, value);
+        }
+        return true;
+      },
+    });
+  }
+
+  /** 当前用户是否为超级用户 */
+  private get isRoot(): boolean {
+    return this.credentials.uid === 0;
+  }
+
+  /**
+   * 获取文件创建掩码
+   */
+  getUmask(): number {
+    return this.umask;
+  }
+
+  /**
+   * 设置文件创建掩码
+   */
+  setUmask(mask: number): void {
+    this.umask = mask & 0o777;
+  }
+
+  /**
+   * 判断当前用户是否对节点拥有指定权限
+   * root 不受读写限制，执行文件需要至少一个执行位
+   */
+  private canAccess(node: FileNode, mode: AccessMode): boolean {
+    const bits = parsePermissions(node.permissions);
+    const { user, groups } = this.credentials;
+
+    if (this.isRoot) {
+      return mode !== 'x' || node.type === 'directory' || (bits & 0o111) !== 0;
+    }
+
+    const shift = node.owner === user ? 6 : groups.includes(node.group) ? 3 : 0;
+    return ((bits >> shift) & AccessBits[mode]) !== 0;
+  }
+
+  /**
+   * 检查当前用户对路径的访问权限（mode 为 r、w、x 的组合）
+   */
+  access(path: string, mode: string): boolean {
+    const node = this.getNode(path);
+    if (!node) {
+      return false;
+    }
+    for (const char of mode) {
+      if ((char === 'r' || char === 'w' || char === 'x') && !this.canAccess(node, char)) {
+        return this.fail('EACCES');
+      }
+    }
+    return true;
+  }
+
   /** 创建文件节点 */
   private createNode(
     type: FileType,
     name: string,
     parent: FileNode | null,
-    content: string = ''
+    content: FileContent = ''
   ): FileNode {
     const now = new Date();
     return {
+      ino: this.nextIno++,
       type,
       name,
       content,
@@ -35,9 +283,11 @@ export class VFS implements VirtualFileSystem {
       parent,
       createdAt: now,
       modifiedAt: now,
-      permissions: type === 'directory' ? 'drwxr-xr-x' : '-rw-r--r--',
-      owner: 'root',
-      group: 'root',
+      permissions: type === 'symlink'
+        ? formatPermissions(type, 0o777)
+        : formatPermissions(type, (type === 'directory' ? 0o777 : 0o666) & ~this.umask),
+      owner: this.credentials.user,
+      group: this.credentials.groups[0] ?? this.credentials.user,
     };
   }
 
@@ -52,6 +302,10 @@ export class VFS implements VirtualFileSystem {
     this.mkdir('/var');
     this.mkdir('/root');
     this.mkdir('/proc');
+    this.mkdir('/dev');
+    this.mkdir('/sys');
+    this.mkdir('/usr/share');
+    this.mkdir('/usr/share/doc');
 
     // 创建默认用户目录
     this.mkdir('/home/guest');
@@ -66,6 +320,27 @@ export class VFS implements VirtualFileSystem {
       '/etc/motd',
       'Welcome to Midrai Terminal!\n'
     );
+
+    // 用户和组（guest 的默认密码为 guest，root 的默认密码为 root）
+    this.writeFile(
+      '/etc/passwd',
+      'root:x:0:0:root:/root:/bin/bash\nguest:x:1000:1000:Guest:/home/guest:/bin/bash\n'
+    );
+    this.writeFile(
+      '/etc/group',
+      'root:x:0:\nsudo:x:27:guest\nguest:x:1000:\n'
+    );
+    const days = Math.floor(Date.now() / 86_400_000);
+    this.writeFile(
+      '/etc/shadow',
+      `root:${hashPassword('root')}:${days}:0:99999:7:::\nguest:${hashPassword('guest')}:${days}:0:99999:7:::\n`
+    );
+    this.writeFile(
+      '/etc/sudoers',
+      '# User privilege specification\nroot\tALL=(ALL:ALL) ALL\n\n# Members of group sudo may execute any command\n%sudo\tALL=(ALL:ALL) ALL\n'
+    );
+    this.chmod('/etc/shadow', 0o600);
+    this.chmod('/etc/sudoers', 0o440);
     this.writeFile(
       '/home/guest/.bashrc',
       '# .bashrc\nexport PS1="\\u@\\h:\\w\\$ "\n'
@@ -74,6 +349,13 @@ export class VFS implements VirtualFileSystem {
       '/home/guest/readme.txt',
       'Welcome to the fake terminal!\n\nTry typing some commands like:\n  ls, cd, pwd, cat, echo, mkdir, touch, rm\n'
     );
+
+    // 用户目录归 guest 所有
+    for (const path of ['/home/guest', '/home/guest/.bashrc', '/home/guest/readme.txt']) {
+      this.chown(path, 'guest', 'guest');
+    }
+    this.chmod('/tmp', 0o1777);
+    this.chmod('/root', 0o700);
   }
 
   /**
@@ -81,7 +363,7 @@ export class VFS implements VirtualFileSystem {
    */
   resolvePath(path: string): string {
     if (!path || path === '~') {
-      return '/home/guest';
+      return this.credentials.home;
     }
 
     // 绝对路径
@@ -112,232 +394,1453 @@ export class VFS implements VirtualFileSystem {
   }
 
   /**
-   * 获取路径对应的节点
+   * 将路径转换为绝对路径（不做规范化，.. 在解析时按实际的父目录处理）
    */
-  getNode(path: string): FileNode | null {
-    const resolvedPath = this.resolvePath(path);
-    if (resolvedPath === '/') {
-      return this.root;
+  private absolutePath(path: string): string {
+    if (!path || path === '~') {
+      return this.credentials.home;
     }
+    return path.startsWith('/') ? path : `${this._currentPath}/${path}`;
+  }
+
+  /**
+   * 逐级解析路径，跟随途经的符号链接
+   * 途经的每一级目录都需要搜索（x）权限；.. 指向实际的父目录（经过符号链接时不是词法上的上一级）
+   * followLast 为 false 时不跟随最后一级的符号链接（以 / 结尾的路径总是跟随）
+   */
+  private lookup(path: string, followLast: boolean): { node: FileNode; names: string[] } | null {
+    const absolute = this.absolutePath(path);
+    const trailingSlash = absolute.length > 1 && absolute.endsWith('/');
+    const split = (value: string) => value.split('/').filter((part) => part && part !== '.').reverse();
 
-    const parts = resolvedPath.split('/').filter(Boolean);
+    // 待解析的路径分量（栈顶为下一个分量）
+    const pending = split(absolute);
+    const names: string[] = [];
     let current: FileNode = this.root;
+    let follows = 0;
 
-    for (const part of parts) {
-      if (!current.children.has(part)) {
+    while (pending.length > 0) {
+      const part = pending.pop()!;
+      if (current.type !== 'directory') {
+        this.fail('ENOTDIR');
         return null;
       }
-      current = current.children.get(part)!;
-    }
+      if (!this.canAccess(current, 'x')) {
+        this.fail('EACCES');
+        return null;
+      }
+      this.refresh(current);
 
-    return current;
-  }
+      if (part === '..') {
+        if (current.parent) {
+          current = current.parent;
+          names.pop();
+        }
+        continue;
+      }
 
-  /**
-   * 创建目录
-   */
-  mkdir(path: string): boolean {
-    const resolvedPath = this.resolvePath(path);
-    const parentPath = resolvedPath.substring(0, resolvedPath.lastIndexOf('/')) || '/';
-    const dirName = resolvedPath.substring(resolvedPath.lastIndexOf('/') + 1);
+      // 挂载点被挂载的文件系统的根目录覆盖（即使原目录已不存在，如恢复了旧的会话）
+      const mount = this.mounts.size > 0 ? this.mounts.get(`/${[...names, part].join('/')}`) : undefined;
+      if (mount) {
+        mount.root.name = part;
+        mount.root.parent = current;
+        current = mount.root;
+        names.push(part);
+        continue;
+      }
 
-    const parent = this.getNode(parentPath);
-    if (!parent || parent.type !== 'directory') {
-      return false;
+      const next = current.children.get(part);
+      if (!next) {
+        this.fail('ENOENT');
+        return null;
+      }
+
+      if (next.type === 'symlink' && (pending.length > 0 || followLast || trailingSlash)) {
+        if (++follows > MaxSymlinkFollows) {
+          this.fail('ELOOP');
+          return null;
+        }
+        const target = toText(next.content);
+        if (!target) {
+          this.fail('ENOENT');
+          return null;
+        }
+        // 绝对路径的链接从根目录开始解析，相对路径从链接所在目录开始
+        if (target.startsWith('/')) {
+          current = this.root;
+          names.length = 0;
+        }
+        pending.push(...split(target));
+        continue;
+      }
+
+      current = next;
+      names.push(part);
     }
 
-    if (parent.children.has(dirName)) {
-      return false; // 已存在
+    if (trailingSlash && current.type !== 'directory') {
+      this.fail('ENOTDIR');
+      return null;
     }
+    this.refresh(current);
+    return { node: current, names };
+  }
 
-    const newDir = this.createNode('directory', dirName, parent);
-    parent.children.set(dirName, newDir);
-    parent.modifiedAt = new Date();
+  /**
+   * 获取路径对应的节点（跟随符号链接）
+   */
+  getNode(path: string): FileNode | null {
+    return this.lookup(path, true)?.node ?? null;
+  }
 
-    return true;
+  /**
+   * 解析为不含符号链接、. 和 .. 的绝对路径，路径不存在时返回 null
+   */
+  realpath(path: string): string | null {
+    const result = this.lookup(path, true);
+    return result ? `/${result.names.join('/')}` : null;
   }
 
   /**
-   * 创建文件
+   * 获取路径的父目录节点和文件名（父目录路径中的符号链接会被跟随，最后一级不跟随）
    */
-  writeFile(path: string, content: string): boolean {
+  private getParent(path: string): { parent: FileNode; name: string; path: string } | null {
     const resolvedPath = this.resolvePath(path);
-    const parentPath = resolvedPath.substring(0, resolvedPath.lastIndexOf('/')) || '/';
-    const fileName = resolvedPath.substring(resolvedPath.lastIndexOf('/') + 1);
+    const absolute = this.absolutePath(path).replace(/\/+$/, '');
+    let parentPath = absolute.substring(0, absolute.lastIndexOf('/')) || '/';
+    let name = absolute.substring(absolute.lastIndexOf('/') + 1);
+
+    // 以 . 或 .. 结尾时按词法规范化后的路径处理
+    if (name === '.' || name === '..' || name === '') {
+      parentPath = resolvedPath.substring(0, resolvedPath.lastIndexOf('/')) || '/';
+      name = resolvedPath.substring(resolvedPath.lastIndexOf('/') + 1);
+    }
 
     const parent = this.getNode(parentPath);
-    if (!parent || parent.type !== 'directory') {
-      return false;
+    if (!parent) {
+      return null;
+    }
+    if (parent.type !== 'directory') {
+      this.fail('ENOTDIR');
+      return null;
     }
+    return { parent, name, path: resolvedPath };
+  }
 
-    if (parent.children.has(fileName)) {
-      // 更新现有文件
-      const existing = parent.children.get(fileName)!;
-      if (existing.type !== 'file') {
-        return false;
-      }
-      existing.content = content;
-      existing.modifiedAt = new Date();
-    } else {
-      // 创建新文件
-      const newFile = this.createNode('file', fileName, parent, content);
-      parent.children.set(fileName, newFile);
+  /**
+   * 获取节点的实际路径
+   */
+  private pathOf(node: FileNode): string {
+    const names: string[] = [];
+    for (let current: FileNode | null = node; current?.parent; current = current.parent) {
+      names.unshift(current.name);
     }
+    return `/${names.join('/')}`;
+  }
 
-    parent.modifiedAt = new Date();
-    return true;
+  /**
+   * 获取与文件共享数据的所有硬链接（包括自身）
+   */
+  private linksOf(node: FileNode): FileNode[] {
+    const links = this.hardLinks.get(node.ino);
+    return links && node.type !== 'directory' ? Array.from(links) : [node];
   }
 
   /**
-   * 读取文件内容
+   * 修改文件的数据或元数据，并同步到它的所有硬链接
    */
-  readFile(path: string): string | null {
-    const node = this.getNode(path);
-    if (!node || node.type !== 'file') {
-      return null;
+  private updateInode(node: FileNode, update: (link: FileNode) => void): void {
+    for (const link of this.linksOf(node)) {
+      update(link);
+      this.markDirty(link);
     }
-    return node.content;
   }
 
   /**
-   * 列出目录内容
+   * 从硬链接表中移除被删除的子树
    */
-  ls(path?: string): FileNode[] | null {
-    const targetPath = path ? this.resolvePath(path) : this._currentPath;
-    const node = this.getNode(targetPath);
-
-    if (!node || node.type !== 'directory') {
-      return null;
+  private forgetLinks(node: FileNode): void {
+    const links = this.hardLinks.get(node.ino);
+    if (links && node.type !== 'directory') {
+      links.delete(node);
+      if (links.size <= 1) this.hardLinks.delete(node.ino);
+    }
+    for (const child of node.children.values()) {
+      this.forgetLinks(child);
     }
+  }
 
-    return Array.from(node.children.values());
+  /**
+   * 根据节点编号重建硬链接表（回滚或反序列化之后）
+   */
+  private rebuildLinks(): void {
+    const byIno = new Map<number, Set<FileNode>>();
+    const visit = (node: FileNode) => {
+      if (node.type === 'directory') {
+        node.children.forEach(visit);
+        return;
+      }
+      const links = byIno.get(node.ino) ?? new Set();
+      links.add(node);
+      byIno.set(node.ino, links);
+    };
+    visit(this.root);
+
+    this.hardLinks = new Map([...byIno].filter(([, links]) => links.size > 1));
   }
 
   /**
-   * 切换目录
+   * 重新生成挂载的文件系统中目录的内容（保留名称和类型未变的节点，使节点编号保持稳定）
    */
-  cd(path: string): boolean {
-    const resolvedPath = this.resolvePath(path);
-    const node = this.getNode(resolvedPath);
+  private refresh(dir: FileNode): void {
+    const mounted = this.mountedNodes.get(dir);
+    if (!mounted || dir.type !== 'directory') {
+      return;
+    }
 
-    if (!node || node.type !== 'directory') {
-      return false;
+    const { mount, path } = mounted;
+    const children = new Map<string, FileNode>();
+    for (const entry of mount.provider.list(path) ?? []) {
+      const childPath = path === '/' ? `/${entry.name}` : `${path}/${entry.name}`;
+      let child = dir.children.get(entry.name);
+      if (child?.type !== entry.type) {
+        child = this.createMountedNode(mount, dir, entry.type, entry.name, childPath);
+      }
+
+      const mode = entry.mode ?? (entry.type === 'directory' ? 0o555 : entry.type === 'symlink' ? 0o777 : 0o444);
+      child.permissions = formatPermissions(entry.type, mode);
+      child.owner = entry.owner ?? 'root';
+      child.group = entry.group ?? 'root';
+      if (entry.type === 'symlink') {
+        child.content = entry.target ?? '';
+      }
+      children.set(entry.name, child);
     }
+    dir.children = children;
+  }
 
-    this._currentPath = resolvedPath;
-    return true;
+  /** 创建挂载的文件系统中的节点，文件内容在每次读取时由提供者生成 */
+  private createMountedNode(
+    mount: Mount,
+    parent: FileNode | null,
+    type: FileType,
+    name: string,
+    path: string
+  ): FileNode {
+    const node = this.createNode(type, name, parent);
+    if (type === 'file') {
+      Object.defineProperty(node, 'content', {
+        get: () => mount.provider.read(path) ?? '',
+        // 写入由 writeFile 交给提供者处理
+        set: () => {},
+        enumerable: true,
+      });
+    }
+    this.mountedNodes.set(node, { mount, path });
+    return node;
   }
 
   /**
-   * 获取当前目录路径
+   * 挂载的文件系统中不能创建、删除节点或修改元数据
+   * 节点属于挂载的文件系统时记录错误（只读文件系统为 EROFS，其他为 EPERM）并返回 true
    */
-  pwd(): string {
-    return this._currentPath;
+  private failIfMounted(node: FileNode): boolean {
+    const mounted = this.mountedNodes.get(node);
+    if (!mounted) {
+      return false;
+    }
+    this.fail(mounted.mount.provider.readonly ? 'EROFS' : 'EPERM');
+    return true;
   }
 
   /**
-   * 检查路径是否存在
+   * 检查是否可以在目录中创建或删除条目（需要写和搜索权限）
    */
-  exists(path: string): boolean {
-    return this.getNode(path) !== null;
+  private canModifyDirectory(dir: FileNode): boolean {
+    return this.canAccess(dir, 'w') && this.canAccess(dir, 'x');
   }
 
   /**
-   * 获取文件/目录状态
+   * 检查是否可以删除目录中的条目
+   * 设置了粘滞位（如 /tmp）的目录中，只有文件或目录的所有者可以删除
    */
-  stat(path: string): FileStat | null {
-    const node = this.getNode(path);
-    if (!node) {
-      return null;
+  private canUnlink(dir: FileNode, node: FileNode): boolean {
+    if (!this.canModifyDirectory(dir)) {
+      return false;
     }
-
-    return {
-      type: node.type,
-      size: node.type === 'file' ? node.content.length : 0,
-      createdAt: node.createdAt,
-      modifiedAt: node.modifiedAt,
-      permissions: node.permissions,
-      owner: node.owner,
-      group: node.group,
-    };
+    const { user } = this.credentials;
+    if (!this.isRoot && parsePermissions(dir.permissions) & StickyBit) {
+      return node.owner === user || dir.owner === user;
+    }
+    return true;
   }
 
   /**
-   * 删除文件或目录
+   * 通知监听该路径的 watcher（监听目录时包括其直接子项，recursive 时包括所有后代）
    */
-  rm(path: string, recursive: boolean = false): boolean {
-    const resolvedPath = this.resolvePath(path);
-    const parentPath = resolvedPath.substring(0, resolvedPath.lastIndexOf('/')) || '/';
-    const name = resolvedPath.substring(resolvedPath.lastIndexOf('/') + 1);
+  private emitPath(type: VFSEventType, path: string, nodeType: FileType, oldPath?: string): void {
+    if (this.watchers.size === 0) {
+      return;
+    }
 
-    const parent = this.getNode(parentPath);
-    const node = this.getNode(resolvedPath);
+    const event: VFSEvent = oldPath === undefined ? { type, path, nodeType } : { type, path, oldPath, nodeType };
+    const matches = (watcher: Watcher, target: string) => {
+      if (target === watcher.path) {
+        return true;
+      }
+      const prefix = watcher.path === '/' ? '/' : `${watcher.path}/`;
+      if (!target.startsWith(prefix)) {
+        return false;
+      }
+      return watcher.recursive || !target.slice(prefix.length).includes('/');
+    };
 
-    if (!parent || !node) {
-      return false;
+    for (const watcher of Array.from(this.watchers)) {
+      if (!matches(watcher, path) && (oldPath === undefined || !matches(watcher, oldPath))) {
+        continue;
+      }
+      try {
+        watcher.listener(event);
+      } catch (error) {
+        // 监听器的异常不影响文件操作
+        console.warn('VFS watch listener failed:', error);
+      }
     }
+  }
 
-    if (node.type === 'directory' && node.children.size > 0 && !recursive) {
-      return false; // 非空目录需要 recursive 标志
+  /** 通知节点的变化 */
+  private emit(type: VFSEventType, node: FileNode): void {
+    if (this.watchers.size > 0) {
+      this.emitPath(type, this.pathOf(node), node.type);
     }
-
-    parent.children.delete(name);
-    parent.modifiedAt = new Date();
-    return true;
   }
 
   /**
-   * 复制文件或目录
+   * 列出子树中所有节点的路径和类型（后代在前，与删除的顺序一致）
    */
-  cp(src: string, dest: string, recursive: boolean = false): boolean {
-    const srcNode = this.getNode(src);
-    if (!srcNode) {
-      return false;
+  private collectTree(node: FileNode, path: string = this.pathOf(node)): { path: string; type: FileType }[] {
+    const entries: { path: string; type: FileType }[] = [];
+    if (node.type === 'directory') {
+      for (const child of node.children.values()) {
+        entries.push(...this.collectTree(child, `${path}/${child.name}`));
+      }
     }
+    entries.push({ path, type: node.type });
+    return entries;
+  }
 
-    if (srcNode.type === 'directory' && !recursive) {
-      return false;
+  /**
+   * 检查新增的内容和节点是否超出限制（减少使用量的操作总是允许）
+   */
+  private checkSpace(bytes: number, nodes: number): boolean {
+    if (bytes <= 0 && nodes <= 0) {
+      return true;
+    }
+    const usage = this.usage();
+    if ((bytes > 0 && usage.bytes + bytes > this.limits.maxBytes)
+      || (nodes > 0 && usage.nodes + nodes > this.limits.maxNodes)) {
+      return this.fail('ENOSPC');
     }
+    return true;
+  }
 
-    const destPath = this.resolvePath(dest);
-    const destParentPath = destPath.substring(0, destPath.lastIndexOf('/')) || '/';
-    const destName = destPath.substring(destPath.lastIndexOf('/') + 1);
+  /**
+   * 检查路径（加上将放在其下的子树的层数）是否超出层数限制
+   */
+  private checkDepth(path: string, height: number = 0): boolean {
+    const depth = path.split('/').filter(Boolean).length + height;
+    return depth <= this.limits.maxDepth || this.fail('ENAMETOOLONG');
+  }
 
-    const destParent = this.getNode(destParentPath);
-    if (!destParent || destParent.type !== 'directory') {
-      return false;
+  /** 子树的高度（文件和空目录为 0） */
+  private treeHeight(node: FileNode): number {
+    let height = 0;
+    for (const child of node.children.values()) {
+      height = Math.max(height, this.treeHeight(child) + 1);
     }
+    return height;
+  }
 
-    // 如果是目录，递归复制
-    if (srcNode.type === 'directory') {
-      this.mkdir(destPath);
-      for (const [name, child] of srcNode.children) {
-        this.cp(
-          `${src}/${name}`,
-          `${dest}/${name}`,
-          true
-        );
+  /**
+   * 检查是否可以递归删除目录的全部内容
+   */
+  private canRemoveTree(node: FileNode): boolean {
+    if (node.type !== 'directory' || node.children.size === 0) {
+      return true;
+    }
+    if (!this.canAccess(node, 'r')) {
+      return false;
+    }
+    for (const child of node.children.values()) {
+      if (!this.canUnlink(node, child) || !this.canRemoveTree(child)) {
+        return false;
       }
-    } else {
-      // 复制文件
-      this.writeFile(destPath, srcNode.content);
     }
-
     return true;
   }
 
   /**
-   * 移动/重命名文件或目录
+   * 创建目录
    */
-  mv(src: string, dest: string): boolean {
+  mkdir(path: string): boolean {
+    const target = this.getParent(path);
+    if (!target) {
+      return false;
+    }
+    const { parent, name } = target;
+
+    if (parent.children.has(name) || target.path === '/') {
+      return this.fail('EEXIST');
+    }
+    if (this.failIfMounted(parent)) {
+      return false;
+    }
+    if (!this.canModifyDirectory(parent)) {
+      return this.fail('EACCES');
+    }
+    if (!this.checkDepth(target.path) || !this.checkSpace(0, 1)) {
+      return false;
+    }
+
+    const newDir = this.createNode('directory', name, parent);
+    parent.children.set(name, newDir);
+    parent.modifiedAt = new Date();
+    this.markDirty(parent);
+    this.emit('create', newDir);
+
+    return true;
+  }
+
+  /**
+   * 创建文件
+   */
+  writeFile(path: string, content: FileContent): boolean {
+    const target = this.getParent(path);
+    if (!target) {
+      return false;
+    }
+    const { parent, name } = target;
+
+    let existing = parent.children.get(name);
+    if (existing?.type === 'symlink') {
+      // 写入符号链接时写入其目标，目标不存在时创建目标文件
+      const resolved = this.lookup(path, true);
+      if (!resolved) {
+        if (this._lastError !== 'ENOENT') {
+          return false;
+        }
+        const linkTarget = toText(existing.content);
+        return this.writeFile(linkTarget.startsWith('/') ? linkTarget : `${this.pathOf(parent)}/${linkTarget}`, content);
+      }
+      existing = resolved.node;
+    }
+
+    if (existing) {
+      // 更新现有文件
+      if (existing.type !== 'file') {
+        return this.fail('EISDIR');
+      }
+      const mounted = this.mountedNodes.get(existing);
+      if (mounted?.mount.provider.readonly) {
+        return this.fail('EROFS');
+      }
+      if (!this.canAccess(existing, 'w')) {
+        return this.fail('EACCES');
+      }
+      // 挂载的文件系统中的文件由提供者处理写入
+      if (mounted) {
+        return mounted.mount.provider.write?.(mounted.path, content) || this.fail('EACCES');
+      }
+      const size = byteLength(content);
+      if (size > this.limits.maxFileSize) {
+        return this.fail('EFBIG');
+      }
+      if (!this.checkSpace(size - byteLength(existing.content), 0)) {
+        return false;
+      }
+      // 复制二进制内容，避免调用方之后的修改影响文件和快照
+      const stored = typeof content === 'string' ? content : content.slice();
+      const now = new Date();
+      this.updateInode(existing, (link) => {
+        link.content = stored;
+        link.modifiedAt = now;
+      });
+      this.emit('modify', existing);
+      return true;
+    }
+
+    // 创建新文件
+    if (!name) {
+      return this.fail('EISDIR');
+    }
+    if (this.failIfMounted(parent)) {
+      return false;
+    }
+    if (!this.canModifyDirectory(parent)) {
+      return this.fail('EACCES');
+    }
+    const size = byteLength(content);
+    if (size > this.limits.maxFileSize) {
+      return this.fail('EFBIG');
+    }
+    if (!this.checkDepth(target.path) || !this.checkSpace(size, 1)) {
+      return false;
+    }
+    const newFile = this.createNode('file', name, parent, typeof content === 'string' ? content : content.slice());
+    parent.children.set(name, newFile);
+    parent.modifiedAt = new Date();
+    this.markDirty(parent);
+    this.emit('create', newFile);
+    return true;
+  }
+
+  /**
+   * 更新文件的修改时间（默认为当前时间），文件不存在时创建空文件
+   */
+  touch(path: string, time?: Date): boolean {
+    const node = this.getNode(path);
+    if (!node) {
+      if (this._lastError !== 'ENOENT' || !this.writeFile(path, '')) {
+        return false;
+      }
+      return time === undefined || this.touch(path, time);
+    }
+    // 所有者或拥有写权限的用户可以更新时间戳
+    if (!this.isRoot && node.owner !== this.credentials.user && !this.canAccess(node, 'w')) {
+      return this.fail('EACCES');
+    }
+    // 挂载的文件系统中的时间戳由提供者决定
+    const mounted = this.mountedNodes.get(node);
+    if (mounted) {
+      return mounted.mount.provider.readonly ? this.fail('EROFS') : true;
+    }
+    const modifiedAt = time ?? new Date();
+    this.updateInode(node, (link) => {
+      link.modifiedAt = modifiedAt;
+    });
+    this.emit('chmod', node);
+    return true;
+  }
+
+  /**
+   * 读取文件内容的文本（二进制内容按 UTF-8 解码）
+   */
+  readFile(path: string): string | null {
+    const node = this.getReadableFile(path);
+    return node ? toText(node.content) : null;
+  }
+
+  /**
+   * 读取文件内容的字节
+   */
+  readFileBytes(path: string): Uint8Array | null {
+    const node = this.getReadableFile(path);
+    return node ? toBytes(node.content) : null;
+  }
+
+  /** 获取可以读取的文件节点 */
+  private getReadableFile(path: string): FileNode | null {
+    const node = this.getNode(path);
+    if (!node) {
+      return null;
+    }
+    if (node.type !== 'file') {
+      this.fail('EISDIR');
+      return null;
+    }
+    if (!this.canAccess(node, 'r')) {
+      this.fail('EACCES');
+      return null;
+    }
+    return node;
+  }
+
+  /**
+   * 列出目录内容
+   */
+  ls(path?: string): FileNode[] | null {
+    const targetPath = path ? this.resolvePath(path) : this._currentPath;
+    const node = this.getNode(targetPath);
+
+    if (!node) {
+      return null;
+    }
+    if (node.type !== 'directory') {
+      this.fail('ENOTDIR');
+      return null;
+    }
+    if (!this.canAccess(node, 'r')) {
+      this.fail('EACCES');
+      return null;
+    }
+
+    return Array.from(node.children.values());
+  }
+
+  /**
+   * 切换目录
+   */
+  cd(path: string): boolean {
+    const resolvedPath = this.resolvePath(path);
+    const node = this.getNode(resolvedPath);
+
+    if (!node) {
+      return false;
+    }
+    if (node.type !== 'directory') {
+      return this.fail('ENOTDIR');
+    }
+    if (!this.canAccess(node, 'x')) {
+      return this.fail('EACCES');
+    }
+
+    this._currentPath = resolvedPath;
+    return true;
+  }
+
+  /**
+   * 获取当前目录路径
+   */
+  pwd(): string {
+    return this._currentPath;
+  }
+
+  /**
+   * 检查路径是否存在
+   */
+  exists(path: string): boolean {
+    return this.getNode(path) !== null;
+  }
+
+  /**
+   * 获取文件/目录状态
+   */
+  stat(path: string): FileStat | null {
+    const node = this.getNode(path);
+    return node ? this.statNode(node) : null;
+  }
+
+  /**
+   * 获取文件/目录状态，路径最后一级为符号链接时返回链接本身的状态
+   */
+  lstat(path: string): FileStat | null {
+    const result = this.lookup(path, false);
+    return result ? this.statNode(result.node) : null;
+  }
+
+  /**
+   * 读取符号链接的目标
+   */
+  readlink(path: string): string | null {
+    const result = this.lookup(path, false);
+    if (!result) {
+      return null;
+    }
+    if (result.node.type !== 'symlink') {
+      this.fail('EINVAL');
+      return null;
+    }
+    return toText(result.node.content);
+  }
+
+  /**
+   * 创建符号链接（目标可以不存在）
+   */
+  symlink(target: string, path: string): boolean {
+    const parentInfo = this.getParent(path);
+    if (!parentInfo) {
+      return false;
+    }
+    const { parent, name } = parentInfo;
+
+    if (!name || parent.children.has(name)) {
+      return this.fail('EEXIST');
+    }
+    if (this.failIfMounted(parent)) {
+      return false;
+    }
+    if (!this.canModifyDirectory(parent)) {
+      return this.fail('EACCES');
+    }
+    if (!this.checkDepth(parentInfo.path) || !this.checkSpace(0, 1)) {
+      return false;
+    }
+
+    const node = this.createNode('symlink', name, parent, target);
+    parent.children.set(name, node);
+    parent.modifiedAt = new Date();
+    this.markDirty(parent);
+    this.emit('create', node);
+    return true;
+  }
+
+  /**
+   * 创建硬链接（新的目录项与原文件共享内容和元数据，不能链接目录）
+   */
+  link(existing: string, path: string): boolean {
+    const source = this.lookup(existing, false);
+    if (!source) {
+      return false;
+    }
+    if (source.node.type === 'directory') {
+      return this.fail('EPERM');
+    }
+    if (this.failIfMounted(source.node)) {
+      return false;
+    }
+
+    const parentInfo = this.getParent(path);
+    if (!parentInfo) {
+      return false;
+    }
+    const { parent, name } = parentInfo;
+
+    if (!name || parent.children.has(name)) {
+      return this.fail('EEXIST');
+    }
+    if (this.failIfMounted(parent)) {
+      return false;
+    }
+    if (!this.canModifyDirectory(parent)) {
+      return this.fail('EACCES');
+    }
+    if (!this.checkDepth(parentInfo.path)) {
+      return false;
+    }
+
+    const node: FileNode = { ...source.node, name, parent, children: new Map() };
+    const links = this.hardLinks.get(node.ino) ?? new Set([source.node]);
+    links.add(node);
+    this.hardLinks.set(node.ino, links);
+
+    parent.children.set(name, node);
+    parent.modifiedAt = new Date();
+    this.markDirty(parent);
+    this.emit('create', node);
+    return true;
+  }
+
+  /** 由节点生成状态信息 */
+  private statNode(node: FileNode): FileStat {
+    let nlink = this.linksOf(node).length;
+    if (node.type === 'directory') {
+      // 目录的链接数：自身、父目录中的目录项和每个子目录的 ..
+      nlink = 2;
+      node.children.forEach((child) => {
+        if (child.type === 'directory') nlink++;
+      });
+    }
+
+    return {
+      type: node.type,
+      size: node.type === 'directory' ? 0 : byteLength(node.content),
+      ino: node.ino,
+      nlink,
+      createdAt: node.createdAt,
+      modifiedAt: node.modifiedAt,
+      permissions: node.permissions,
+      owner: node.owner,
+      group: node.group,
+    };
+  }
+
+  /**
+   * 删除文件或目录
+   */
+  rm(path: string, recursive: boolean = false): boolean {
+    const target = this.getParent(path);
+    if (!target) {
+      return false;
+    }
+    const { parent, name } = target;
+
+    const node = parent.children.get(name);
+    if (!node || target.path === '/') {
+      return this.fail(node ? 'EPERM' : 'ENOENT');
+    }
+
+    if (this.failIfMounted(parent)) {
+      return false;
+    }
+    if (this.mounts.has(this.pathOf(node))) {
+      return this.fail('EBUSY');
+    }
+    if (node.type === 'directory' && node.children.size > 0 && !recursive) {
+      return this.fail('ENOTEMPTY'); // 非空目录需要 recursive 标志
+    }
+
+    // 先检查整棵子树，避免只删除一部分
+    if (!this.canUnlink(parent, node) || (recursive && !this.canRemoveTree(node))) {
+      return this.fail('EACCES');
+    }
+
+    // 删除后节点脱离目录树，需要先记录各节点的路径
+    const removed = this.watchers.size > 0 ? this.collectTree(node) : [];
+
+    parent.children.delete(name);
+    parent.modifiedAt = new Date();
+    this.markDirty(parent);
+    this.forgetLinks(node);
+    for (const { path: removedPath, type } of removed) {
+      this.emitPath('delete', removedPath, type);
+    }
+    return true;
+  }
+
+  /**
+   * 复制文件或目录
+   * 新建的文件和目录使用源的权限位（去掉 umask 屏蔽的位），preserve 时保留权限、修改时间和所有者
+   */
+  cp(src: string, dest: string, recursive: boolean = false, preserve: boolean = false): boolean {
+    const srcNode = this.getNode(src);
+    if (!srcNode) {
+      return false;
+    }
+
+    if (srcNode.type === 'directory' && !recursive) {
+      return this.fail('EISDIR');
+    }
+    if (!this.canAccess(srcNode, 'r')) {
+      return this.fail('EACCES');
+    }
+
+    const destPath = this.resolvePath(dest);
+    const destParentPath = destPath.substring(0, destPath.lastIndexOf('/')) || '/';
+
+    const destParent = this.getNode(destParentPath);
+    if (!destParent || destParent.type !== 'directory') {
+      return false;
+    }
+    // 不能把目录复制到自身内部
+    if (srcNode.type === 'directory' && this.isWithin(destParent, srcNode)) {
+      return this.fail('EINVAL');
+    }
+    const created = this.getNode(destPath) === null;
+
+    // 如果是目录，递归复制（其中的符号链接复制为链接本身）
+    // 目标目录或链接已存在时保留原有的，其他错误（如空间不足）中止复制
+    if (srcNode.type === 'directory') {
+      if (!this.mkdir(destPath) && this._lastError !== 'EEXIST') {
+        return false;
+      }
+      for (const [name, child] of srcNode.children) {
+        if (child.type === 'symlink') {
+          if (!this.symlink(toText(child.content), `${dest}/${name}`) && this._lastError !== 'EEXIST') {
+            return false;
+          }
+          continue;
+        }
+        if (!this.cp(`${src}/${name}`, `${dest}/${name}`, true, preserve)) {
+          return false;
+        }
+      }
+    } else if (!this.writeFile(destPath, srcNode.content)) {
+      return false;
+    }
+
+    // 目录的权限在复制完内容后再设置，以免只读目录无法写入
+    const mode = parsePermissions(srcNode.permissions);
+    if (preserve) {
+      // 普通用户不能修改所有者，保留失败时忽略
+      this.chown(destPath, this.isRoot ? srcNode.owner : null, srcNode.group);
+      this.chmod(destPath, mode);
+      this.touch(destPath, srcNode.modifiedAt);
+    } else if (created) {
+      this.chmod(destPath, mode & 0o777 & ~this.umask);
+    }
+    return true;
+  }
+
+  /** 节点是否为目录本身或位于目录之下 */
+  private isWithin(node: FileNode, dir: FileNode): boolean {
+    for (let current: FileNode | null = node; current; current = current.parent) {
+      if (current === dir) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * 移动/重命名文件或目录
+   * 节点本身被移动到新位置，保留其编号和元数据
+   */
+  mv(src: string, dest: string): boolean {
     const srcPath = this.resolvePath(src);
     const destPath = this.resolvePath(dest);
+    // 移动符号链接本身，而不是它指向的文件
+    const node = this.lookup(srcPath, false)?.node;
+    if (!node) {
+      return false;
+    }
+    if (!node.parent) {
+      return this.fail('EPERM');
+    }
+
+    const target = this.getParent(destPath);
+    if (!target) {
+      return false;
+    }
+    const destParent = target.parent;
+    const destName = target.name;
+
+    if (srcPath === destPath) {
+      return true;
+    }
+    // 不能把目录移动到自身内部（按节点判断，经过符号链接的路径同样适用）
+    if (this.isWithin(destParent, node)) {
+      return this.fail('EINVAL');
+    }
+
+    if (this.failIfMounted(node) || this.failIfMounted(destParent)) {
+      return false;
+    }
+    if (this.mounts.has(this.pathOf(node))) {
+      return this.fail('EBUSY');
+    }
+
+    const existing = destParent.children.get(destName);
+    if (!this.canUnlink(node.parent, node) || !this.canModifyDirectory(destParent)
+      || (existing && !this.canUnlink(destParent, existing))) {
+      return this.fail('EACCES');
+    }
+    if (existing) {
+      // 文件（包括符号链接）可以互相覆盖，目录只能替换空目录
+      if ((existing.type === 'directory') !== (node.type === 'directory')) {
+        return this.fail(existing.type === 'directory' ? 'EISDIR' : 'ENOTDIR');
+      }
+      if (existing.type === 'directory' && existing.children.size > 0) {
+        return this.fail('ENOTEMPTY');
+      }
+    }
+    if (!this.checkDepth(destPath, this.treeHeight(node))) {
+      return false;
+    }
+    if (existing && existing !== node) {
+      this.forgetLinks(existing);
+    }
+
+    const srcParent = node.parent;
+    srcParent.children.delete(node.name);
+    srcParent.modifiedAt = new Date();
+    this.markDirty(srcParent);
+
+    node.name = destName;
+    node.parent = destParent;
+    destParent.children.set(destName, node);
+    destParent.modifiedAt = new Date();
+    this.markDirty(destParent);
+    this.emitPath('rename', destPath, node.type, srcPath);
+
+    // 工作目录随被移动的目录一起移动
+    if (this._currentPath === srcPath || this._currentPath.startsWith(`${srcPath}/`)) {
+      this._currentPath = destPath + this._currentPath.slice(srcPath.length);
+    }
+    return true;
+  }
+
+  /**
+   * 在已有目录上挂载文件系统（需要 root），挂载期间目录原有的内容被隐藏
+   */
+  mount(path: string, provider: MountProvider): boolean {
+    const target = this.lookup(path, true);
+    if (!target) {
+      return false;
+    }
+    if (target.node.type !== 'directory') {
+      return this.fail('ENOTDIR');
+    }
+    if (!this.isRoot) {
+      return this.fail('EPERM');
+    }
+
+    const mountPath = `/${target.names.join('/')}`;
+    if (mountPath === '/' || this.mounts.has(mountPath)) {
+      return this.fail('EBUSY');
+    }
+
+    const root = this.createNode('directory', target.node.name, target.node.parent);
+    root.permissions = formatPermissions('directory', 0o755);
+    root.owner = 'root';
+    root.group = 'root';
+    const mount: Mount = { provider, root };
+    this.mountedNodes.set(root, { mount, path: '/' });
+    this.mounts.set(mountPath, mount);
+    return true;
+  }
+
+  /**
+   * 卸载文件系统（需要 root），工作目录位于其中时失败
+   */
+  umount(path: string): boolean {
+    const mountPath = this.realpath(path);
+    if (mountPath === null) {
+      return false;
+    }
+    if (!this.isRoot) {
+      return this.fail('EPERM');
+    }
+    if (!this.mounts.has(mountPath)) {
+      return this.fail('EINVAL');
+    }
+    if (this._currentPath === mountPath || this._currentPath.startsWith(`${mountPath}/`)) {
+      return this.fail('EBUSY');
+    }
+
+    this.mounts.delete(mountPath);
+    return true;
+  }
+
+  /**
+   * 监听路径的变化，返回取消监听的函数
+   * 监听目录时报告目录本身及其直接子项的变化，recursive 时报告所有后代的变化
+   */
+  watch(path: string, options: WatchOptions, listener: VFSWatchListener): () => void {
+    const watcher: Watcher = {
+      path: this.realpath(path) ?? this.resolvePath(path),
+      recursive: options.recursive ?? false,
+      listener,
+    };
+    this.watchers.add(watcher);
+    return () => {
+      this.watchers.delete(watcher);
+    };
+  }
+
+  /** 获取资源限制 */
+  getLimits(): VFSLimits {
+    return { ...this.limits };
+  }
+
+  /**
+   * 修改资源限制（未指定的项保持不变）
+   * 已有内容超出新的限制时不受影响，但之后增加使用量的操作会失败
+   */
+  setLimits(limits: Partial<VFSLimits>): void {
+    for (const key of Object.keys(DefaultLimits) as (keyof VFSLimits)[]) {
+      const value = limits[key];
+      if (value !== undefined) this.limits[key] = value;
+    }
+  }
+
+  /**
+   * 统计文件内容的总字节数和节点数（硬链接只计算一次，不含挂载的文件系统）
+   */
+  usage(): VFSUsage {
+    if (!this.usageCache) {
+      const seen = new Set<number>();
+      let bytes = 0;
+      const visit = (node: FileNode) => {
+        if (seen.has(node.ino)) {
+          return;
+        }
+        seen.add(node.ino);
+        if (node.type === 'file') {
+          bytes += byteLength(node.content);
+        }
+        node.children.forEach(visit);
+      };
+      visit(this.root);
+      this.usageCache = { bytes, nodes: seen.size };
+    }
+    return { ...this.usageCache };
+  }
+
+  /**
+   * 将目录树（或单个文件）打包为归档，成员名以路径的最后一级开头（根目录打包为相对路径）
+   * 任何文件无法读取时失败
+   */
+  exportArchive(path: string, format: ArchiveFormat = 'tar.gz'): Uint8Array | null {
+    const absolute = this.resolvePath(path);
+    let error = null as VFSErrorCode | null;
+    const entries = collectEntries(this, absolute, absolute.slice(absolute.lastIndexOf('/') + 1), {
+      onError: (_, code) => {
+        error ??= code ?? 'EACCES';
+      },
+    });
+    if (error) {
+      this.fail(error);
+      return null;
+    }
+    return writeArchive(entries, format);
+  }
+
+  /**
+   * 将归档（自动识别 tar、tar.gz 和 zip）解包到已有的目录中，保留权限和修改时间
+   * 格式无效时失败并且不做任何修改；部分成员解包失败时继续解包其余成员
+   */
+  importArchive(path: string, bytes: Uint8Array): boolean {
+    const dir = this.stat(path);
+    if (!dir) {
+      return false;
+    }
+    if (dir.type !== 'directory') {
+      return this.fail('ENOTDIR');
+    }
+
+    let entries: ArchiveEntry[];
+    try {
+      entries = readArchive(bytes);
+    } catch {
+      return this.fail('EINVAL');
+    }
+
+    let error = null as VFSErrorCode | null;
+    extractEntries(this, this.resolvePath(path), entries, (_, code) => {
+      error ??= code;
+    });
+    return error ? this.fail(error) : true;
+  }
+
+  /**
+   * 修改权限，只有所有者和 root 可以修改
+   */
+  chmod(path: string, mode: number): boolean {
+    const node = this.getNode(path);
+    if (!node) {
+      return false;
+    }
+    if (!this.isRoot && node.owner !== this.credentials.user) {
+      return this.fail('EPERM');
+    }
+    if (this.failIfMounted(node)) {
+      return false;
+    }
+
+    this.updateInode(node, (link) => {
+      link.permissions = formatPermissions(link.type, mode & 0o7777);
+    });
+    this.emit('chmod', node);
+    return true;
+  }
+
+  /**
+   * 修改所有者和所属组（传入 null 表示不修改）
+   * 只有 root 可以修改所有者；所有者可以把所属组改为自己所在的组
+   */
+  chown(path: string, owner: string | null, group: string | null): boolean {
+    const node = this.getNode(path);
+    if (!node) {
+      return false;
+    }
 
-    if (!this.cp(src, dest, true)) {
+    const { user, groups } = this.credentials;
+    if (!this.isRoot) {
+      const ownerChanged = owner !== null && owner !== node.owner;
+      const groupAllowed = group === null || groups.includes(group);
+      if (ownerChanged || node.owner !== user || !groupAllowed) {
+        return this.fail('EPERM');
+      }
+    }
+    if (this.failIfMounted(node)) {
       return false;
     }
 
-    return this.rm(src, true);
+    this.updateInode(node, (link) => {
+      if (owner !== null) link.owner = owner;
+      if (group !== null) link.group = group;
+    });
+    this.emit('chmod', node);
+    return true;
+  }
+
+  /**
+   * 创建检查点，返回检查点编号
+   * 检查点与当前文件系统共享未修改的部分，创建开销与上次检查点后修改的节点数成正比
+   */
+  checkpoint(): number {
+    const id = this.nextCheckpointId++;
+    this.checkpoints.set(id, { root: this.snapshotOf(this.root), cwd: this._currentPath });
+    return id;
+  }
+
+  /**
+   * 回滚到检查点，检查点不存在时返回 false
+   */
+  rollback(id: number): boolean {
+    const checkpoint = this.checkpoints.get(id);
+    if (!checkpoint) {
+      return false;
+    }
+
+    this.root = this.materialize(checkpoint.root, '', null);
+    this.rebuildLinks();
+    this.usageCache = null;
+    const cwd = this.getNode(checkpoint.cwd);
+    this._currentPath = cwd?.type === 'directory' ? checkpoint.cwd : '/';
+    return true;
+  }
+
+  /**
+   * 删除检查点
+   */
+  releaseCheckpoint(id: number): boolean {
+    return this.checkpoints.delete(id);
+  }
+
+  /**
+   * 比较两个检查点之间的差异
+   * 省略 to 时与当前文件系统比较，检查点不存在时返回 null
+   */
+  diff(from: number, to?: number): VFSDiff | null {
+    const before = this.checkpoints.get(from)?.root;
+    const after = to === undefined ? this.snapshotOf(this.root) : this.checkpoints.get(to)?.root;
+    if (!before || !after) {
+      return null;
+    }
+
+    const result: VFSDiff = { added: [], removed: [], modified: [], moved: [] };
+    if (before === after) {
+      return result;
+    }
+
+    const beforeNodes = this.collectSnapshot(before);
+    const afterNodes = this.collectSnapshot(after);
+
+    for (const [ino, entries] of afterNodes) {
+      const olds = beforeNodes.get(ino) ?? [];
+      const type = entries[0].node.type;
+
+      // 同一节点的多个硬链接：位置不变的链接互相抵消，其余链接依次配对为移动
+      const isSame = (a: SnapshotEntry, b: SnapshotEntry) =>
+        a.parentIno === b.parentIno && a.name === b.name;
+      const gone = olds.filter((old) => !entries.some((entry) => isSame(old, entry)));
+      const fresh = entries.filter((entry) => !olds.some((old) => isSame(old, entry)));
+
+      // 父目录随之移动时只报告最上层的移动
+      const pairs = Math.min(gone.length, fresh.length);
+      for (let i = 0; i < pairs; i++) {
+        result.moved.push({ from: gone[i].path, to: fresh[i].path, type });
+      }
+      for (const entry of fresh.slice(pairs)) {
+        result.added.push({ path: entry.path, type });
+      }
+      for (const old of gone.slice(pairs)) {
+        result.removed.push({ path: old.path, type });
+      }
+
+      if (olds.length > 0 && olds[0].node !== entries[0].node) {
+        const modified = this.compareSnapshots(entries[0].path, olds[0].node, entries[0].node);
+        if (modified) result.modified.push(modified);
+      }
+    }
+
+    for (const [ino, olds] of beforeNodes) {
+      if (!afterNodes.has(ino)) {
+        result.removed.push(...olds.map((old) => ({ path: old.path, type: old.node.type })));
+      }
+    }
+
+    const byPath = (a: { path: string }, b: { path: string }) => a.path.localeCompare(b.path);
+    result.added.sort(byPath);
+    result.removed.sort(byPath);
+    result.modified.sort(byPath);
+    result.moved.sort((a, b) => a.to.localeCompare(b.to));
+    return result;
+  }
+
+  /** 标记节点及其所有祖先已修改，使其快照失效 */
+  private markDirty(node: FileNode | null): void {
+    this.usageCache = null;
+    for (let current = node; current; current = current.parent) {
+      this.snapshots.delete(current);
+    }
+  }
+
+  /** 获取节点的只读快照，未修改的子树直接复用已有快照 */
+  private snapshotOf(node: FileNode): SnapshotNode {
+    const cached = this.snapshots.get(node);
+    if (cached) {
+      return cached;
+    }
+
+    const children = new Map<string, SnapshotNode>();
+    for (const [name, child] of node.children) {
+      children.set(name, this.snapshotOf(child));
+    }
+
+    const snapshot: SnapshotNode = Object.freeze({
+      ino: node.ino,
+      type: node.type,
+      content: node.content,
+      children,
+      createdAt: node.createdAt.getTime(),
+      modifiedAt: node.modifiedAt.getTime(),
+      permissions: node.permissions,
+      owner: node.owner,
+      group: node.group,
+    });
+    this.snapshots.set(node, snapshot);
+    return snapshot;
+  }
+
+  /** 由快照重建可修改的节点树 */
+  private materialize(snapshot: SnapshotNode, name: string, parent: FileNode | null): FileNode {
+    const node: FileNode = {
+      ino: snapshot.ino,
+      type: snapshot.type,
+      name,
+      content: snapshot.content,
+      children: new Map(),
+      parent,
+      createdAt: new Date(snapshot.createdAt),
+      modifiedAt: new Date(snapshot.modifiedAt),
+      permissions: snapshot.permissions,
+      owner: snapshot.owner,
+      group: snapshot.group,
+    };
+
+    for (const [childName, child] of snapshot.children) {
+      node.children.set(childName, this.materialize(child, childName, node));
+    }
+    this.snapshots.set(node, snapshot);
+    return node;
+  }
+
+  /** 收集快照中所有节点的位置，以节点编号为键（硬链接的文件有多个位置） */
+  private collectSnapshot(root: SnapshotNode): Map<number, SnapshotEntry[]> {
+    const entries = new Map<number, SnapshotEntry[]>();
+    const visit = (node: SnapshotNode, path: string) => {
+      for (const [name, child] of node.children) {
+        const childPath = path === '/' ? `/${name}` : `${path}/${name}`;
+        const entry = { path: childPath, node: child, parentIno: node.ino, name };
+        entries.set(child.ino, [...(entries.get(child.ino) ?? []), entry]);
+        visit(child, childPath);
+      }
+    };
+    visit(root, '/');
+    return entries;
+  }
+
+  /** 比较同一节点的两个快照，没有变化时返回 null（目录只比较元数据） */
+  private compareSnapshots(path: string, before: SnapshotNode, after: SnapshotNode): ModifiedEntry | null {
+    const changes: ModifiedEntry['changes'] = [];
+    if (after.type !== 'directory' && !contentEquals(before.content, after.content)) changes.push('content');
+    if (before.permissions !== after.permissions) changes.push('permissions');
+    if (before.owner !== after.owner) changes.push('owner');
+    if (before.group !== after.group) changes.push('group');
+
+    if (changes.length === 0) {
+      return null;
+    }
+    // 二进制内容不做逐行比较
+    const isText = typeof before.content === 'string' && typeof after.content === 'string';
+    return {
+      path,
+      type: after.type,
+      changes,
+      contentDiff: changes.includes('content') && isText
+        ? diffLines(toText(before.content), toText(after.content))
+        : [],
+    };
+  }
+
+  /**
+   * 序列化整个文件系统（保留时间戳、权限和所有者）
+   */
+  serialize(): SerializedVFS {
+    return {
+      version: SerializationVersion,
+      root: this.serializeNode(this.root),
+    };
+  }
+
+  /**
+   * 从序列化数据恢复文件系统
+   * 数据格式无效时返回 false，当前文件系统保持不变
+   */
+  deserialize(data: SerializedVFS): boolean {
+    // 旧版本的数据只是缺少后来增加的内容，可以直接读取
+    const supported = data?.version >= 1 && data.version <= SerializationVersion;
+    if (!supported || data.root?.type !== 'directory') {
+      return false;
+    }
+
+    let root: FileNode;
+    try {
+      root = this.deserializeNode(data.root, null, new Map());
+    } catch {
+      return false;
+    }
+
+    this.root = root;
+    this.rebuildLinks();
+    this.usageCache = null;
+    // 原工作目录不存在时回到根目录
+    const cwd = this.getNode(this._currentPath);
+    if (!cwd || cwd.type !== 'directory') {
+      this._currentPath = '/';
+    }
+    return true;
+  }
+
+  /** 序列化单个节点 */
+  private serializeNode(node: FileNode): SerializedFileNode {
+    const result: SerializedFileNode = {
+      type: node.type,
+      name: node.name,
+      ino: node.ino,
+      createdAt: node.createdAt.getTime(),
+      modifiedAt: node.modifiedAt.getTime(),
+      permissions: node.permissions,
+      owner: node.owner,
+      group: node.group,
+    };
+
+    if (node.type === 'directory') {
+      result.children = Array.from(node.children.values()).map((child) => this.serializeNode(child));
+    } else if (typeof node.content === 'string') {
+      result.content = node.content;
+    } else {
+      result.content = encodeBase64(node.content);
+      result.encoding = 'base64';
+    }
+    return result;
+  }
+
+  /**
+   * 反序列化单个节点
+   * inodes 将序列化数据中的节点编号映射为新编号，使硬链接继续共享同一编号
+   */
+  private deserializeNode(
+    data: SerializedFileNode,
+    parent: FileNode | null,
+    inodes: Map<number, number>
+  ): FileNode {
+    const types: FileType[] = ['file', 'directory', 'symlink'];
+    if (!types.includes(data.type) || typeof data.name !== 'string') {
+      throw new Error('invalid node');
+    }
+
+    let ino = data.ino !== undefined && data.type !== 'directory' ? inodes.get(data.ino) : undefined;
+    if (ino === undefined) {
+      ino = this.nextIno++;
+      if (data.ino !== undefined) inodes.set(data.ino, ino);
+    }
+
+    let content: FileContent = '';
+    if (data.type !== 'directory') {
+      content = data.encoding === 'base64' ? decodeBase64(String(data.content ?? '')) : String(data.content ?? '');
+    }
+
+    const node: FileNode = {
+      ino,
+      type: data.type,
+      name: data.name,
+      content,
+      children: new Map(),
+      parent,
+      createdAt: new Date(data.createdAt),
+      modifiedAt: new Date(data.modifiedAt),
+      permissions: data.permissions,
+      owner: data.owner,
+      group: data.group,
+    };
+
+    for (const child of data.children ?? []) {
+      node.children.set(child.name, this.deserializeNode(child, node, inodes));
+    }
+    return node;
   }
 }
 